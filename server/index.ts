@@ -9,6 +9,12 @@ import labelsRouter from './routes/labels.js';
 import cartridgesRouter from './routes/cartridges.js';
 import sdCardRouter from './routes/sd-card.js';
 import localDataRouter from './routes/local-data.js';
+import libraryRouter from './routes/library.js';
+import presetsRouter from './routes/presets.js';
+import rulesRouter from './routes/rules.js';
+import pakLibraryRouter from './routes/pak-library.js';
+import globalSettingsRouter from './routes/global-settings.js';
+import snapshotsRouter from './routes/snapshots.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -30,6 +36,12 @@ app.use('/api/labels', labelsRouter);
 app.use('/api/cartridges', cartridgesRouter);
 app.use('/api/sd-card', sdCardRouter);
 app.use('/api/local-data', localDataRouter);
+app.use('/api/library', libraryRouter);
+app.use('/api/presets', presetsRouter);
+app.use('/api/settings-rules', rulesRouter);
+app.use('/api/pak-library', pakLibraryRouter);
+app.use('/api/global-settings', globalSettingsRouter);
+app.use('/api/snapshots', snapshotsRouter);
 
 // Health check
 app.get('/api/health', (_req, res) => {
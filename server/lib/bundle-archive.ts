@@ -7,7 +7,12 @@
  * - labels.db (the label database)
  * - settings/<cartId>/settings.json (per-game settings)
  * - game-paks/<cartId>/controller_pak.img (per-game save data)
+ * - game-paks/<cartId>/controller_pak.<slot>.img (named pak slots)
+ * - cartridge-saves/<cartId>/cartridge_save.<ext> (EEPROM/SRAM/FlashRAM saves)
  * - owned-carts.json (ownership list)
+ * - settings-presets.json (named settings presets)
+ * - pak-library/library.json + pak-library/<id>.img (standalone paks)
+ * - global-settings/metadata.json + global-settings/<backupId>/... (SD card Settings/Global backups)
  */
 
 import archiver from 'archiver';
@@ -17,12 +22,31 @@ import { readFile, readdir, mkdir, writeFile } from 'fs/promises';
 import path from 'path';
 import { Writable } from 'stream';
 import { getLabelsDbImage, updateLabelImage, addCartridge, getAllEntries, createEmptyLabelsDb } from './labels-db-core.js';
+import { withLabelHistory } from './label-history.js';
 import { findGameFolder } from './cartridge-settings.js';
 import {
   getAllBackupsForExport,
   importBackups,
+  getGamePakFilename,
+  parseGamePakFilename,
+  ACTIVE_PAK_SLOT,
   type GamePakBackupsMetadata,
 } from './game-pak.js';
+import { getPakLibraryForExport, importPakLibrary, type LibraryPak } from './pak-library.js';
+import {
+  findLocalCartridgeSave,
+  saveLocalCartridgeSave,
+  getAllCartridgeSavesForExport,
+  getAllCartridgeSaveBackupsForExport,
+  importCartridgeSaveBackups,
+  type CartridgeSaveBackupsMetadata,
+} from './cartridge-save.js';
+import { loadPresets, importPresets, type SettingsPreset } from './settings-presets.js';
+import {
+  getGlobalSettingsBackupsForExport,
+  importGlobalSettingsBackups,
+  type GlobalSettingsBackup,
+} from './global-settings.js';
 
 // Paths
 const LOCAL_DIR = path.join(process.cwd(), '.local');
@@ -40,6 +64,12 @@ export interface BundleManifest {
     settingsCount: number;
     gamePaksCount: number;
     gamePakBackupsCount: number;
+    cartridgeSavesCount?: number; // Absent in bundles created before cartridge save support
+    cartridgeSaveBackupsCount?: number;
+    presetsCount?: number; // Absent in bundles created before settings presets
+    gamePakSlotsCount?: number; // Named pak slots; absent in bundles created before pak slots
+    pakLibraryCount?: number;
+    globalSettingsBackupsCount?: number; // Absent in bundles created before global settings backups
     labelsCount?: number; // Individual label images (for selection exports)
     cartIds: string[];
   };
@@ -55,7 +85,13 @@ export interface BundleContents {
   };
   settings: Map<string, object>;
   gamePaks: Map<string, Buffer>;
+  gamePakSlots: Map<string, Map<string, Buffer>>; // cartId -> slot -> pak
   gamePakBackups: Map<string, { metadata: GamePakBackupsMetadata; files: Map<string, Buffer> }>;
+  cartridgeSaves: Map<string, { filename: string; buffer: Buffer }>;
+  cartridgeSaveBackups: Map<string, { metadata: CartridgeSaveBackupsMetadata; files: Map<string, Buffer> }>;
+  presets: SettingsPreset[];
+  pakLibrary: { paks: LibraryPak[]; files: Map<string, Buffer> };
+  globalSettings: { backups: GlobalSettingsBackup[]; files: Map<string, Map<string, Buffer>> }; // backupId -> path -> file
 }
 
 export type MergeStrategy = 'skip' | 'overwrite' | 'keep-both';
@@ -66,6 +102,10 @@ export interface ImportOptions {
   importSettings: boolean;
   importGamePaks: boolean;
   importGamePakBackups: boolean;
+  importCartridgeSaves?: boolean; // Saves and their backups; defaults to true
+  importPresets?: boolean; // Defaults to true
+  importPakLibrary?: boolean; // Defaults to true
+  importGlobalSettings?: boolean; // Defaults to true
   mergeStrategy: MergeStrategy;
 }
 
@@ -77,6 +117,11 @@ export interface ImportResult {
   settingsImported: { added: number; skipped: number; overwritten: number };
   gamePaksImported: { added: number; skipped: number; overwritten: number };
   gamePakBackupsImported: { added: number; skipped: number; merged: number };
+  cartridgeSavesImported: { added: number; skipped: number; overwritten: number };
+  cartridgeSaveBackupsImported: { added: number; skipped: number };
+  presetsImported: { added: number; skipped: number; overwritten: number };
+  pakLibraryImported: { added: number; skipped: number };
+  globalSettingsImported: { added: number; skipped: number };
   errors: string[];
 }
 
@@ -89,6 +134,10 @@ export async function createBundle(options: {
   includeSettings?: boolean;
   includeGamePaks?: boolean;
   includeGamePakBackups?: boolean;
+  includeCartridgeSaves?: boolean; // Cartridge saves and their backups
+  includePresets?: boolean;
+  includePakLibrary?: boolean;
+  includeGlobalSettings?: boolean;
   cartIds?: string[]; // If provided, only include these carts' settings/paks
 }): Promise<Buffer> {
   const {
@@ -97,6 +146,10 @@ export async function createBundle(options: {
     includeSettings = true,
     includeGamePaks = true,
     includeGamePakBackups = true,
+    includeCartridgeSaves = true,
+    includePresets = true,
+    includePakLibrary = true,
+    includeGlobalSettings = true,
     cartIds: rawCartIds,
   } = options;
 
@@ -106,6 +159,8 @@ export async function createBundle(options: {
   // Collect data
   const settingsMap = new Map<string, Buffer>();
   const gamePaksMap = new Map<string, Buffer>();
+  const gamePakSlotsMap = new Map<string, Map<string, Buffer>>();
+  let totalSlotsCount = 0;
   const labelsMap = new Map<string, Buffer>(); // Individual label images
   const allCartIds = new Set<string>();
 
@@ -132,11 +187,22 @@ export async function createBundle(options: {
         }
       }
 
-      // Collect game paks
+      // Collect game paks and named pak slots
       if (includeGamePaks) {
-        const pakPath = path.join(folderPath, 'controller_pak.img');
-        if (existsSync(pakPath)) {
-          gamePaksMap.set(cartId, await readFile(pakPath));
+        for (const filename of await readdir(folderPath)) {
+          const slot = parseGamePakFilename(filename);
+          if (!slot) continue;
+
+          const buffer = await readFile(path.join(folderPath, filename));
+          if (slot === ACTIVE_PAK_SLOT) {
+            gamePaksMap.set(cartId, buffer);
+          } else {
+            if (!gamePakSlotsMap.has(cartId)) {
+              gamePakSlotsMap.set(cartId, new Map());
+            }
+            gamePakSlotsMap.get(cartId)!.set(slot, buffer);
+            totalSlotsCount++;
+          }
           allCartIds.add(cartId);
         }
       }
@@ -203,6 +269,36 @@ export async function createBundle(options: {
     }
   }
 
+  // Collect cartridge saves and their backups
+  let cartridgeSavesMap = new Map<string, { filename: string; buffer: Buffer }>();
+  let cartridgeSaveBackupsMap = new Map<string, { metadata: CartridgeSaveBackupsMetadata; files: Map<string, Buffer> }>();
+  let totalCartridgeSaveBackupsCount = 0;
+  if (includeCartridgeSaves) {
+    cartridgeSavesMap = await getAllCartridgeSavesForExport(cartIds);
+    for (const cartId of cartridgeSavesMap.keys()) {
+      allCartIds.add(cartId);
+    }
+
+    cartridgeSaveBackupsMap = await getAllCartridgeSaveBackupsForExport(cartIds);
+    for (const [cartId, data] of cartridgeSaveBackupsMap) {
+      totalCartridgeSaveBackupsCount += data.metadata.backups.length;
+      allCartIds.add(cartId);
+    }
+  }
+
+  // Collect settings presets
+  const presets = includePresets ? (await loadPresets()).presets : [];
+
+  // Collect the pak library
+  const pakLibrary = includePakLibrary
+    ? await getPakLibraryForExport()
+    : { paks: [], files: new Map<string, Buffer>() };
+
+  // Collect global settings backups
+  const globalSettings = includeGlobalSettings
+    ? await getGlobalSettingsBackupsForExport()
+    : { backups: [], files: new Map<string, Map<string, Buffer>>() };
+
   // Create manifest
   const manifest: BundleManifest = {
     version: 1,
@@ -214,6 +310,12 @@ export async function createBundle(options: {
       settingsCount: settingsMap.size,
       gamePaksCount: gamePaksMap.size,
       gamePakBackupsCount: totalBackupsCount,
+      cartridgeSavesCount: cartridgeSavesMap.size,
+      cartridgeSaveBackupsCount: totalCartridgeSaveBackupsCount,
+      presetsCount: presets.length,
+      gamePakSlotsCount: totalSlotsCount,
+      pakLibraryCount: pakLibrary.paks.length,
+      globalSettingsBackupsCount: globalSettings.backups.length,
       labelsCount: labelsMap.size,
       cartIds: Array.from(allCartIds).sort(),
     },
@@ -265,6 +367,11 @@ export async function createBundle(options: {
     for (const [cartId, buffer] of gamePaksMap) {
       archive.append(buffer, { name: `game-paks/${cartId}/controller_pak.img` });
     }
+    for (const [cartId, slots] of gamePakSlotsMap) {
+      for (const [slot, buffer] of slots) {
+        archive.append(buffer, { name: `game-paks/${cartId}/${getGamePakFilename(slot)}` });
+      }
+    }
 
     // Add game pak backups
     for (const [cartId, data] of gamePakBackupsMap) {
@@ -278,6 +385,48 @@ export async function createBundle(options: {
       }
     }
 
+    // Add cartridge saves
+    for (const [cartId, save] of cartridgeSavesMap) {
+      archive.append(save.buffer, { name: `cartridge-saves/${cartId}/${save.filename}` });
+    }
+
+    // Add cartridge save backups
+    for (const [cartId, data] of cartridgeSaveBackupsMap) {
+      archive.append(JSON.stringify(data.metadata, null, 2), {
+        name: `cartridge-save-backups/${cartId}/metadata.json`,
+      });
+      for (const [backupId, buffer] of data.files) {
+        archive.append(buffer, { name: `cartridge-save-backups/${cartId}/${backupId}.sav` });
+      }
+    }
+
+    // Add settings presets
+    if (presets.length > 0) {
+      archive.append(JSON.stringify({ version: 1, presets }, null, 2), { name: 'settings-presets.json' });
+    }
+
+    // Add the pak library
+    if (pakLibrary.paks.length > 0) {
+      archive.append(JSON.stringify({ version: 1, paks: pakLibrary.paks }, null, 2), {
+        name: 'pak-library/library.json',
+      });
+      for (const [id, buffer] of pakLibrary.files) {
+        archive.append(buffer, { name: `pak-library/${id}.img` });
+      }
+    }
+
+    // Add global settings backups
+    if (globalSettings.backups.length > 0) {
+      archive.append(JSON.stringify({ version: 1, backups: globalSettings.backups }, null, 2), {
+        name: 'global-settings/metadata.json',
+      });
+      for (const [backupId, files] of globalSettings.files) {
+        for (const [filePath, buffer] of files) {
+          archive.append(buffer, { name: `global-settings/${backupId}/${filePath}` });
+        }
+      }
+    }
+
     archive.finalize();
   });
 }
@@ -295,11 +444,22 @@ export async function parseBundle(buffer: Buffer): Promise<BundleContents> {
   const labels = new Map<string, Buffer>();
   const settings = new Map<string, object>();
   const gamePaks = new Map<string, Buffer>();
+  const gamePakSlots = new Map<string, Map<string, Buffer>>();
   const gamePakBackups = new Map<string, { metadata: GamePakBackupsMetadata; files: Map<string, Buffer> }>();
+  const cartridgeSaves = new Map<string, { filename: string; buffer: Buffer }>();
+  const cartridgeSaveBackups = new Map<string, { metadata: CartridgeSaveBackupsMetadata; files: Map<string, Buffer> }>();
+  let presets: SettingsPreset[] = [];
+  const pakLibrary = { paks: [] as LibraryPak[], files: new Map<string, Buffer>() };
+  const globalSettings = {
+    backups: [] as GlobalSettingsBackup[],
+    files: new Map<string, Map<string, Buffer>>(),
+  };
 
   // First pass: collect all entries
   const backupMetadatas = new Map<string, GamePakBackupsMetadata>();
   const backupFiles = new Map<string, Map<string, Buffer>>();
+  const saveBackupMetadatas = new Map<string, CartridgeSaveBackupsMetadata>();
+  const saveBackupFiles = new Map<string, Map<string, Buffer>>();
 
   for (const entry of entries) {
     const name = entry.entryName;
@@ -313,6 +473,9 @@ export async function parseBundle(buffer: Buffer): Promise<BundleContents> {
       // Individual label image: labels/<cartId>.png
       const cartId = name.slice(7, -4); // Remove 'labels/' and '.png'
       labels.set(cartId.toLowerCase(), entry.getData());
+    } else if (name === 'settings-presets.json') {
+      const content = entry.getData().toString('utf8');
+      presets = JSON.parse(content).presets ?? [];
     } else if (name === 'owned-carts.json') {
       const content = entry.getData().toString('utf8');
       ownedCarts = JSON.parse(content);
@@ -320,9 +483,34 @@ export async function parseBundle(buffer: Buffer): Promise<BundleContents> {
       const cartId = name.split('/')[1];
       const content = entry.getData().toString('utf8');
       settings.set(cartId, JSON.parse(content));
-    } else if (name.startsWith('game-paks/') && name.endsWith('/controller_pak.img')) {
-      const cartId = name.split('/')[1];
-      gamePaks.set(cartId, entry.getData());
+    } else if (name.startsWith('game-paks/') && !entry.isDirectory) {
+      // game-paks/<cartId>/controller_pak.img or controller_pak.<slot>.img
+      const [, cartId, filename] = name.split('/');
+      const slot = parseGamePakFilename(filename ?? '');
+      if (slot === ACTIVE_PAK_SLOT) {
+        gamePaks.set(cartId, entry.getData());
+      } else if (slot) {
+        if (!gamePakSlots.has(cartId)) {
+          gamePakSlots.set(cartId, new Map());
+        }
+        gamePakSlots.get(cartId)!.set(slot, entry.getData());
+      }
+    } else if (name === 'pak-library/library.json') {
+      const content = entry.getData().toString('utf8');
+      pakLibrary.paks = JSON.parse(content).paks ?? [];
+    } else if (name.startsWith('pak-library/') && name.endsWith('.img')) {
+      // pak-library/<id>.img
+      pakLibrary.files.set(name.slice(12, -4), entry.getData());
+    } else if (name === 'global-settings/metadata.json') {
+      const content = entry.getData().toString('utf8');
+      globalSettings.backups = JSON.parse(content).backups ?? [];
+    } else if (name.startsWith('global-settings/') && !entry.isDirectory) {
+      // global-settings/<backupId>/<path within Settings/Global>
+      const [, backupId, ...rest] = name.split('/');
+      if (!globalSettings.files.has(backupId)) {
+        globalSettings.files.set(backupId, new Map());
+      }
+      globalSettings.files.get(backupId)!.set(rest.join('/'), entry.getData());
     } else if (name.startsWith('game-pak-backups/') && name.endsWith('/metadata.json')) {
       // game-pak-backups/<cartId>/metadata.json
       const cartId = name.split('/')[1].toLowerCase();
@@ -337,6 +525,23 @@ export async function parseBundle(buffer: Buffer): Promise<BundleContents> {
         backupFiles.set(cartId, new Map());
       }
       backupFiles.get(cartId)!.set(backupId, entry.getData());
+    } else if (name.startsWith('cartridge-saves/') && !entry.isDirectory) {
+      // cartridge-saves/<cartId>/cartridge_save.<ext>
+      const parts = name.split('/');
+      cartridgeSaves.set(parts[1].toLowerCase(), { filename: parts[2], buffer: entry.getData() });
+    } else if (name.startsWith('cartridge-save-backups/') && name.endsWith('/metadata.json')) {
+      // cartridge-save-backups/<cartId>/metadata.json
+      const cartId = name.split('/')[1].toLowerCase();
+      const content = entry.getData().toString('utf8');
+      saveBackupMetadatas.set(cartId, JSON.parse(content) as CartridgeSaveBackupsMetadata);
+    } else if (name.startsWith('cartridge-save-backups/') && name.endsWith('.sav')) {
+      // cartridge-save-backups/<cartId>/<backupId>.sav
+      const parts = name.split('/');
+      const cartId = parts[1].toLowerCase();
+      if (!saveBackupFiles.has(cartId)) {
+        saveBackupFiles.set(cartId, new Map());
+      }
+      saveBackupFiles.get(cartId)!.set(parts[2].slice(0, -4), entry.getData());
     }
   }
 
@@ -345,6 +550,9 @@ export async function parseBundle(buffer: Buffer): Promise<BundleContents> {
     const files = backupFiles.get(cartId) || new Map();
     gamePakBackups.set(cartId, { metadata, files });
   }
+  for (const [cartId, metadata] of saveBackupMetadatas) {
+    cartridgeSaveBackups.set(cartId, { metadata, files: saveBackupFiles.get(cartId) || new Map() });
+  }
 
   if (!manifest) {
     throw new Error('Invalid bundle: missing manifest.json');
@@ -357,7 +565,13 @@ export async function parseBundle(buffer: Buffer): Promise<BundleContents> {
     ownedCarts,
     settings,
     gamePaks,
+    gamePakSlots,
     gamePakBackups,
+    cartridgeSaves,
+    cartridgeSaveBackups,
+    presets,
+    pakLibrary,
+    globalSettings,
   };
 }
 
@@ -391,6 +605,11 @@ export async function importBundle(
     settingsImported: { added: 0, skipped: 0, overwritten: 0 },
     gamePaksImported: { added: 0, skipped: 0, overwritten: 0 },
     gamePakBackupsImported: { added: 0, skipped: 0, merged: 0 },
+    cartridgeSavesImported: { added: 0, skipped: 0, overwritten: 0 },
+    cartridgeSaveBackupsImported: { added: 0, skipped: 0 },
+    presetsImported: { added: 0, skipped: 0, overwritten: 0 },
+    pakLibraryImported: { added: 0, skipped: 0 },
+    globalSettingsImported: { added: 0, skipped: 0 },
     errors: [],
   };
 
@@ -405,13 +624,13 @@ export async function importBundle(
       const existingLabels = existsSync(LABELS_DB_PATH);
 
       if (!existingLabels || options.mergeStrategy === 'overwrite') {
-        await writeFile(LABELS_DB_PATH, bundle.labelsDb);
+        await withLabelHistory('import', undefined, () => writeFile(LABELS_DB_PATH, bundle.labelsDb!));
         result.labelsImported = true;
       } else if (options.mergeStrategy === 'skip') {
         // Skip - labels already exist
       } else {
         // keep-both - for labels.db, we'll just overwrite since merging is complex
-        await writeFile(LABELS_DB_PATH, bundle.labelsDb);
+        await withLabelHistory('import', undefined, () => writeFile(LABELS_DB_PATH, bundle.labelsDb!));
         result.labelsImported = true;
       }
     }
@@ -437,7 +656,7 @@ export async function importBundle(
             await addCartridge(LABELS_DB_PATH, cartId, pngBuffer);
             result.individualLabelsImported.added++;
           } else if (options.mergeStrategy === 'overwrite') {
-            await updateLabelImage(LABELS_DB_PATH, cartId, pngBuffer);
+            await withLabelHistory('import', [cartId], () => updateLabelImage(LABELS_DB_PATH, cartId, pngBuffer));
             result.individualLabelsImported.updated++;
           } else {
             result.individualLabelsImported.skipped++;
@@ -510,11 +729,17 @@ export async function importBundle(
       }
     }
 
-    // Import game paks
-    if (options.importGamePaks && bundle.gamePaks.size > 0) {
+    // Import game paks and named pak slots
+    const paksToImport = [
+      ...Array.from(bundle.gamePaks, ([cartId, buffer]) => ({ cartId, slot: ACTIVE_PAK_SLOT, buffer })),
+      ...Array.from(bundle.gamePakSlots, ([cartId, slots]) =>
+        Array.from(slots, ([slot, buffer]) => ({ cartId, slot, buffer }))
+      ).flat(),
+    ];
+    if (options.importGamePaks && paksToImport.length > 0) {
       await mkdir(LOCAL_GAMES_DIR, { recursive: true });
 
-      for (const [cartId, pakBuffer] of bundle.gamePaks) {
+      for (const { cartId, slot, buffer: pakBuffer } of paksToImport) {
         // Find existing game folder or create new one
         let gameFolder = await findGameFolder(LOCAL_GAMES_DIR, cartId);
         if (!gameFolder) {
@@ -523,7 +748,7 @@ export async function importBundle(
           await mkdir(gameFolder, { recursive: true });
         }
 
-        const pakPath = path.join(gameFolder, 'controller_pak.img');
+        const pakPath = path.join(gameFolder, getGamePakFilename(slot));
         const exists = existsSync(pakPath);
 
         if (!exists) {
@@ -560,6 +785,74 @@ export async function importBundle(
       }
     }
 
+    // Import cartridge saves
+    const importCartridgeSaves = options.importCartridgeSaves ?? true;
+    if (importCartridgeSaves && bundle.cartridgeSaves.size > 0) {
+      for (const [cartId, save] of bundle.cartridgeSaves) {
+        const exists = (await findLocalCartridgeSave(cartId)) !== null;
+
+        if (exists && options.mergeStrategy !== 'overwrite') {
+          // skip and keep-both - a cart has a single save, treat as skip
+          result.cartridgeSavesImported.skipped++;
+          continue;
+        }
+
+        try {
+          await saveLocalCartridgeSave(cartId, save.buffer, { backupReason: 'Before import' });
+          if (exists) {
+            result.cartridgeSavesImported.overwritten++;
+          } else {
+            result.cartridgeSavesImported.added++;
+          }
+        } catch (err) {
+          result.errors.push(`Failed to import cartridge save for ${cartId}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+      }
+    }
+
+    // Import cartridge save backups
+    if (importCartridgeSaves && bundle.cartridgeSaveBackups.size > 0) {
+      for (const [cartId, data] of bundle.cartridgeSaveBackups) {
+        try {
+          const backupResult = await importCartridgeSaveBackups(cartId, data.metadata, data.files);
+          result.cartridgeSaveBackupsImported.added += backupResult.added;
+          result.cartridgeSaveBackupsImported.skipped += backupResult.skipped;
+        } catch (err) {
+          result.errors.push(`Failed to import cartridge save backups for ${cartId}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+      }
+    }
+
+    // Import settings presets
+    if ((options.importPresets ?? true) && bundle.presets.length > 0) {
+      try {
+        result.presetsImported = await importPresets(bundle.presets, options.mergeStrategy === 'overwrite');
+      } catch (err) {
+        result.errors.push(`Failed to import settings presets: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
+    }
+
+    // Import the pak library
+    if ((options.importPakLibrary ?? true) && bundle.pakLibrary.paks.length > 0) {
+      try {
+        result.pakLibraryImported = await importPakLibrary(bundle.pakLibrary.paks, bundle.pakLibrary.files);
+      } catch (err) {
+        result.errors.push(`Failed to import pak library: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
+    }
+
+    // Import global settings backups
+    if ((options.importGlobalSettings ?? true) && bundle.globalSettings.backups.length > 0) {
+      try {
+        result.globalSettingsImported = await importGlobalSettingsBackups(
+          bundle.globalSettings.backups,
+          bundle.globalSettings.files
+        );
+      } catch (err) {
+        result.errors.push(`Failed to import global settings backups: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
+    }
+
     result.success = true;
   } catch (err) {
     result.errors.push(err instanceof Error ? err.message : 'Unknown error');
@@ -577,6 +870,10 @@ export async function createSelectionBundle(cartIds: string[]): Promise<Buffer>
     includeOwnership: false,
     includeSettings: true,
     includeGamePaks: true,
+    includeCartridgeSaves: true,
+    includePresets: false, // Presets are global, not per-cart
+    includePakLibrary: false, // Likewise for the pak library
+    includeGlobalSettings: false, // And for the console's global settings
     cartIds: cartIds.map(id => id.toLowerCase()),
   });
 }
@@ -0,0 +1,578 @@
+/**
+ * Card Snapshots
+ *
+ * A snapshot is an exact copy of an SD card's Library/N64 tree (labels.db,
+ * library.db and every game folder) and its Settings/ directory, stored as a
+ * compressed ZIP archive. Unlike bundles, which capture the local library,
+ * snapshots capture what is on one card.
+ *
+ * Archive layout:
+ * - manifest.json (file list with sizes and SHA-256 checksums)
+ * - card/Library/N64/... and card/Settings/... (the card's files)
+ *
+ * Snapshots are stored in .local/Snapshots/ with an index in snapshots.json,
+ * which also records each archive's own SHA-256 checksum.
+ */
+
+import archiver from 'archiver';
+import AdmZip from 'adm-zip';
+import { createReadStream, createWriteStream, existsSync } from 'fs';
+import { readFile, writeFile, mkdir, readdir, stat, rm, rename, unlink, rmdir } from 'fs/promises';
+import { createHash, randomUUID } from 'crypto';
+import path from 'path';
+import { copyDirWithProgress } from './file-transfer.js';
+import { isValidAnalogueDir } from './sd-card.js';
+import { writeLabelsDbFile } from './labels-db-core.js';
+import { withLabelsDbLock } from './labels-db-sync.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SnapshotFile {
+  path: string; // Relative to the card root, '/'-separated
+  size: number;
+  sha256: string;
+}
+
+export interface SnapshotManifest {
+  version: 1;
+  id: string;
+  name: string;
+  createdAt: string;
+  sourceCard: string; // Volume name of the card the snapshot was taken from
+  fileCount: number;
+  totalSize: number;
+  files: SnapshotFile[];
+}
+
+export interface CardSnapshot {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  sourceCard: string;
+  fileCount: number;
+  totalSize: number; // Uncompressed size of the card's files
+  archiveSize: number;
+  archiveSha256: string;
+}
+
+export interface CardSnapshotsIndex {
+  version: 1;
+  snapshots: CardSnapshot[];
+}
+
+export type SnapshotPhase = 'checksum' | 'archive' | 'verify' | 'copy' | 'clean';
+
+export interface SnapshotProgress {
+  phase: SnapshotPhase;
+  currentFile: number;
+  totalFiles: number;
+  currentFileName: string;
+  bytesProcessed: number;
+  totalBytes: number;
+  percentage: number;
+}
+
+export type SnapshotProgressCallback = (progress: SnapshotProgress) => void;
+
+export interface RestoreSnapshotResult {
+  filesRestored: number;
+  filesRemoved: number;
+  totalBytes: number;
+}
+
+export interface VerifySnapshotResult {
+  valid: boolean;
+  errors: string[];
+}
+
+interface CardFile {
+  path: string;
+  fullPath: string;
+  size: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const SNAPSHOTS_DIR = path.join(process.cwd(), '.local', 'Snapshots');
+const INDEX_PATH = path.join(SNAPSHOTS_DIR, 'snapshots.json');
+
+/** Card directories captured by a snapshot, relative to the card root */
+export const SNAPSHOT_ROOTS = ['Library/N64', 'Settings'];
+
+/** labels.db's path inside a snapshot, restored atomically rather than copied */
+const LABELS_DB_PATH = 'Library/N64/Images/labels.db';
+
+const ARCHIVE_FILES_PREFIX = 'card/';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function getArchivePath(id: string): string {
+  return path.join(SNAPSHOTS_DIR, `${id}.zip`);
+}
+
+/**
+ * Skip macOS metadata files, which the console doesn't write
+ */
+function isIgnoredFile(name: string): boolean {
+  return name.startsWith('._') || name === '.DS_Store';
+}
+
+function toPercentage(done: number, total: number): number {
+  return total > 0 ? Math.round((done / total) * 100) : 100;
+}
+
+/**
+ * Compute a file's SHA-256 checksum without reading it into memory
+ */
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = createHash('sha256');
+    createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+async function walk(rootDir: string, relativeDir: string): Promise<CardFile[]> {
+  const dir = path.join(rootDir, ...relativeDir.split('/'));
+  const files: CardFile[] = [];
+
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    if (isIgnoredFile(entry.name)) continue;
+    const relativePath = `${relativeDir}/${entry.name}`;
+
+    if (entry.isDirectory()) {
+      files.push(...await walk(rootDir, relativePath));
+    } else if (entry.isFile()) {
+      const fullPath = path.join(dir, entry.name);
+      files.push({ path: relativePath, fullPath, size: (await stat(fullPath)).size });
+    }
+  }
+
+  return files;
+}
+
+/**
+ * List the files a snapshot of this card would capture
+ */
+export async function collectCardFiles(cardPath: string): Promise<CardFile[]> {
+  const files: CardFile[] = [];
+  for (const root of SNAPSHOT_ROOTS) {
+    if (existsSync(path.join(cardPath, ...root.split('/')))) {
+      files.push(...await walk(cardPath, root));
+    }
+  }
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Remove files under the snapshot roots that aren't in the given set, then
+ * any directories left empty
+ * Returns the number of files removed.
+ */
+export async function removeFilesNotInSnapshot(cardPath: string, keep: Set<string>): Promise<number> {
+  let removed = 0;
+
+  for (const file of await collectCardFiles(cardPath)) {
+    if (!keep.has(file.path)) {
+      await unlink(file.fullPath);
+      removed++;
+    }
+  }
+
+  const pruneEmptyDirs = async (dir: string): Promise<boolean> => {
+    let empty = true;
+    for (const entry of await readdir(dir, { withFileTypes: true })) {
+      if (entry.isDirectory() && await pruneEmptyDirs(path.join(dir, entry.name))) {
+        await rmdir(path.join(dir, entry.name));
+      } else {
+        empty = false;
+      }
+    }
+    return empty;
+  };
+
+  for (const root of SNAPSHOT_ROOTS) {
+    const rootPath = path.join(cardPath, ...root.split('/'));
+    if (existsSync(rootPath)) {
+      await pruneEmptyDirs(rootPath);
+    }
+  }
+
+  return removed;
+}
+
+// =============================================================================
+// Index
+// =============================================================================
+
+/**
+ * Load the snapshot index from disk
+ */
+export async function loadSnapshotsIndex(): Promise<CardSnapshotsIndex> {
+  if (!existsSync(INDEX_PATH)) {
+    return { version: 1, snapshots: [] };
+  }
+
+  try {
+    const content = await readFile(INDEX_PATH, 'utf-8');
+    const data = JSON.parse(content) as CardSnapshotsIndex;
+
+    if (!data.version || !Array.isArray(data.snapshots)) {
+      console.warn('Invalid snapshots index structure, returning empty');
+      return { version: 1, snapshots: [] };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error loading snapshots index:', error);
+    return { version: 1, snapshots: [] };
+  }
+}
+
+/**
+ * Save the snapshot index to disk
+ */
+async function saveSnapshotsIndex(data: CardSnapshotsIndex): Promise<void> {
+  await mkdir(SNAPSHOTS_DIR, { recursive: true });
+  await writeFile(INDEX_PATH, JSON.stringify(data, null, 2), 'utf-8');
+}
+
+/**
+ * List snapshots, newest first
+ */
+export async function listCardSnapshots(): Promise<CardSnapshot[]> {
+  const data = await loadSnapshotsIndex();
+  return [...data.snapshots].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Get a snapshot's archive path, or null if the snapshot doesn't exist
+ */
+export async function getSnapshotArchivePath(id: string): Promise<string | null> {
+  const data = await loadSnapshotsIndex();
+  if (!data.snapshots.some(s => s.id === id) || !existsSync(getArchivePath(id))) {
+    return null;
+  }
+  return getArchivePath(id);
+}
+
+// =============================================================================
+// Snapshot Operations
+// =============================================================================
+
+/**
+ * Write the archive for a snapshot, reporting progress as files are compressed
+ */
+function writeArchive(
+  archivePath: string,
+  manifest: SnapshotManifest,
+  files: CardFile[],
+  onProgress: SnapshotProgressCallback
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const output = createWriteStream(archivePath);
+    const archive = archiver('zip', { zlib: { level: 6 } });
+
+    output.on('close', () => resolve());
+    output.on('error', reject);
+    archive.on('error', reject);
+    archive.on('progress', ({ entries }) => {
+      // Entry 0 is the manifest
+      const index = Math.max(0, Math.min(entries.processed - 1, files.length - 1));
+      const done = files.slice(0, entries.processed - 1).reduce((sum, f) => sum + f.size, 0);
+      onProgress({
+        phase: 'archive',
+        currentFile: index + 1,
+        totalFiles: files.length,
+        currentFileName: files[index]?.path ?? '',
+        bytesProcessed: done,
+        totalBytes: manifest.totalSize,
+        percentage: toPercentage(done, manifest.totalSize),
+      });
+    });
+
+    archive.pipe(output);
+    archive.append(JSON.stringify(manifest, null, 2), { name: 'manifest.json' });
+    for (const file of files) {
+      archive.file(file.fullPath, { name: `${ARCHIVE_FILES_PREFIX}${file.path}` });
+    }
+    archive.finalize();
+  });
+}
+
+/**
+ * Snapshot an SD card's Library/N64 and Settings directories
+ */
+export async function createCardSnapshot(
+  sdCardPath: string,
+  options: { name?: string; description?: string } = {},
+  onProgress: SnapshotProgressCallback = () => {}
+): Promise<CardSnapshot> {
+  if (!(await isValidAnalogueDir(sdCardPath))) {
+    throw new Error('Invalid Analogue 3D SD card');
+  }
+
+  const files = await collectCardFiles(sdCardPath);
+  const totalSize = files.reduce((sum, f) => sum + f.size, 0);
+
+  // Checksum every file first, so the manifest can lead the archive
+  const entries: SnapshotFile[] = [];
+  let hashedBytes = 0;
+  for (let i = 0; i < files.length; i++) {
+    onProgress({
+      phase: 'checksum',
+      currentFile: i + 1,
+      totalFiles: files.length,
+      currentFileName: files[i].path,
+      bytesProcessed: hashedBytes,
+      totalBytes: totalSize,
+      percentage: toPercentage(hashedBytes, totalSize),
+    });
+    entries.push({ path: files[i].path, size: files[i].size, sha256: await hashFile(files[i].fullPath) });
+    hashedBytes += files[i].size;
+  }
+
+  const id = randomUUID();
+  const createdAt = new Date().toISOString();
+  const sourceCard = path.basename(sdCardPath);
+  const manifest: SnapshotManifest = {
+    version: 1,
+    id,
+    name: options.name?.trim() || `${sourceCard} ${createdAt.split('T')[0]}`,
+    createdAt,
+    sourceCard,
+    fileCount: entries.length,
+    totalSize,
+    files: entries,
+  };
+
+  await mkdir(SNAPSHOTS_DIR, { recursive: true });
+  const partialPath = `${getArchivePath(id)}.partial`;
+  try {
+    await writeArchive(partialPath, manifest, files, onProgress);
+    await rename(partialPath, getArchivePath(id));
+  } catch (error) {
+    await rm(partialPath, { force: true });
+    throw error;
+  }
+
+  const snapshot: CardSnapshot = {
+    id,
+    name: manifest.name,
+    ...(options.description ? { description: options.description } : {}),
+    createdAt,
+    sourceCard,
+    fileCount: manifest.fileCount,
+    totalSize,
+    archiveSize: (await stat(getArchivePath(id))).size,
+    archiveSha256: await hashFile(getArchivePath(id)),
+  };
+
+  const data = await loadSnapshotsIndex();
+  data.snapshots.push(snapshot);
+  await saveSnapshotsIndex(data);
+
+  return snapshot;
+}
+
+/**
+ * Open a snapshot's archive after checking the archive's own checksum
+ */
+async function openSnapshot(id: string): Promise<{ snapshot: CardSnapshot; zip: AdmZip; manifest: SnapshotManifest }> {
+  const data = await loadSnapshotsIndex();
+  const snapshot = data.snapshots.find(s => s.id === id);
+  if (!snapshot || !existsSync(getArchivePath(id))) {
+    throw new Error('Snapshot not found');
+  }
+
+  if (await hashFile(getArchivePath(id)) !== snapshot.archiveSha256) {
+    throw new Error('Snapshot archive checksum mismatch');
+  }
+
+  const zip = new AdmZip(getArchivePath(id));
+  const manifestEntry = zip.getEntry('manifest.json');
+  if (!manifestEntry) {
+    throw new Error('Invalid snapshot: missing manifest.json');
+  }
+
+  return { snapshot, zip, manifest: JSON.parse(manifestEntry.getData().toString('utf8')) as SnapshotManifest };
+}
+
+/**
+ * Check a snapshot's archive and every file in it against their checksums
+ */
+export async function verifyCardSnapshot(id: string): Promise<VerifySnapshotResult> {
+  let opened;
+  try {
+    opened = await openSnapshot(id);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Snapshot not found') throw error;
+    return { valid: false, errors: [error instanceof Error ? error.message : String(error)] };
+  }
+
+  const errors: string[] = [];
+  for (const file of opened.manifest.files) {
+    const entry = opened.zip.getEntry(`${ARCHIVE_FILES_PREFIX}${file.path}`);
+    if (!entry) {
+      errors.push(`Missing file: ${file.path}`);
+    } else if (createHash('sha256').update(entry.getData()).digest('hex') !== file.sha256) {
+      errors.push(`Checksum mismatch: ${file.path}`);
+    }
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+/**
+ * Restore a snapshot to an SD card (the card it was taken from, or a blank one)
+ * Every file is extracted to a staging directory and checked against its
+ * checksum before anything on the card is touched. With `mirror`, files under
+ * Library/N64 and Settings that aren't in the snapshot are removed, so the
+ * card matches the snapshot exactly.
+ */
+export async function restoreCardSnapshot(
+  id: string,
+  sdCardPath: string,
+  options: { mirror?: boolean } = {},
+  onProgress: SnapshotProgressCallback = () => {}
+): Promise<RestoreSnapshotResult> {
+  const { zip, manifest } = await openSnapshot(id);
+  const stagingDir = path.join(SNAPSHOTS_DIR, `.restore-${id}`);
+
+  try {
+    await rm(stagingDir, { recursive: true, force: true });
+
+    // Extract and verify
+    let verifiedBytes = 0;
+    for (let i = 0; i < manifest.files.length; i++) {
+      const file = manifest.files[i];
+      onProgress({
+        phase: 'verify',
+        currentFile: i + 1,
+        totalFiles: manifest.files.length,
+        currentFileName: file.path,
+        bytesProcessed: verifiedBytes,
+        totalBytes: manifest.totalSize,
+        percentage: toPercentage(verifiedBytes, manifest.totalSize),
+      });
+
+      const entry = zip.getEntry(`${ARCHIVE_FILES_PREFIX}${file.path}`);
+      if (!entry) {
+        throw new Error(`Snapshot is missing ${file.path}`);
+      }
+      const buffer = entry.getData();
+      if (createHash('sha256').update(buffer).digest('hex') !== file.sha256) {
+        throw new Error(`Snapshot checksum mismatch: ${file.path}`);
+      }
+
+      const stagedPath = path.join(stagingDir, ...file.path.split('/'));
+      await mkdir(path.dirname(stagedPath), { recursive: true });
+      await writeFile(stagedPath, buffer);
+      verifiedBytes += file.size;
+    }
+
+    // labels.db is written separately so a failed copy can't leave it half-written
+    const stagedLabelsPath = path.join(stagingDir, ...LABELS_DB_PATH.split('/'));
+    const labelsDb = existsSync(stagedLabelsPath) ? await readFile(stagedLabelsPath) : null;
+    if (labelsDb) await unlink(stagedLabelsPath);
+
+    // Copy each root to the card
+    let copiedBytes = 0;
+    let copiedFiles = 0;
+    for (const root of SNAPSHOT_ROOTS) {
+      const stagedRoot = path.join(stagingDir, ...root.split('/'));
+      if (!existsSync(stagedRoot)) continue;
+
+      const rootBytes = copiedBytes;
+      const rootFiles = copiedFiles;
+      await copyDirWithProgress(stagedRoot, path.join(sdCardPath, ...root.split('/')), (progress) => {
+        onProgress({
+          phase: 'copy',
+          currentFile: rootFiles + progress.currentFile,
+          totalFiles: manifest.fileCount,
+          currentFileName: `${root}/${progress.currentFileName.split(path.sep).join('/')}`,
+          bytesProcessed: rootBytes + progress.overallBytesWritten,
+          totalBytes: manifest.totalSize,
+          percentage: toPercentage(rootBytes + progress.overallBytesWritten, manifest.totalSize),
+        });
+      });
+
+      const rootEntries = manifest.files.filter(f => f.path.startsWith(`${root}/`));
+      copiedFiles += rootEntries.length;
+      copiedBytes += rootEntries.reduce((sum, f) => sum + f.size, 0);
+    }
+
+    if (labelsDb) {
+      const labelsPath = path.join(sdCardPath, ...LABELS_DB_PATH.split('/'));
+      await mkdir(path.dirname(labelsPath), { recursive: true });
+      await withLabelsDbLock(labelsPath, () => writeLabelsDbFile(labelsPath, labelsDb));
+    }
+
+    let filesRemoved = 0;
+    if (options.mirror) {
+      onProgress({
+        phase: 'clean',
+        currentFile: manifest.fileCount,
+        totalFiles: manifest.fileCount,
+        currentFileName: '',
+        bytesProcessed: manifest.totalSize,
+        totalBytes: manifest.totalSize,
+        percentage: 100,
+      });
+      filesRemoved = await removeFilesNotInSnapshot(sdCardPath, new Set(manifest.files.map(f => f.path)));
+    }
+
+    return { filesRestored: manifest.fileCount, filesRemoved, totalBytes: manifest.totalSize };
+  } finally {
+    await rm(stagingDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Update a snapshot's name or description
+ */
+export async function updateCardSnapshot(
+  id: string,
+  updates: { name?: string; description?: string }
+): Promise<CardSnapshot | null> {
+  const data = await loadSnapshotsIndex();
+  const snapshot = data.snapshots.find(s => s.id === id);
+  if (!snapshot) {
+    return null;
+  }
+
+  if (updates.name !== undefined && updates.name.trim()) {
+    snapshot.name = updates.name.trim();
+  }
+  if (updates.description !== undefined) {
+    snapshot.description = updates.description || undefined;
+  }
+
+  await saveSnapshotsIndex(data);
+  return snapshot;
+}
+
+/**
+ * Delete a snapshot and its archive
+ */
+export async function deleteCardSnapshot(id: string): Promise<boolean> {
+  const data = await loadSnapshotsIndex();
+  const index = data.snapshots.findIndex(s => s.id === id);
+  if (index === -1) {
+    return false;
+  }
+
+  data.snapshots.splice(index, 1);
+  await saveSnapshotsIndex(data);
+  await rm(getArchivePath(id), { force: true });
+  return true;
+}
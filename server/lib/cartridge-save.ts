@@ -0,0 +1,573 @@
+/**
+ * Cartridge Saves
+ *
+ * Save data stored on the cartridge itself (EEPROM, SRAM, FlashRAM), as
+ * dumped from real carts with a cart reader or exported from an emulator.
+ * These live alongside controller_pak.img in the local game folder as
+ * cartridge_save.<ext> and are kept in native (big-endian) byte order.
+ */
+
+import { readFile, writeFile, stat, unlink, mkdir, readdir, rename } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { findGameFolder, ensureLocalGameFolder, getLocalGamesDir } from './cartridge-settings.js';
+import { AUTO_BACKUP_TAG } from './game-pak.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export type CartridgeSaveType = 'eeprom4k' | 'eeprom16k' | 'sram' | 'flashram';
+
+export const CARTRIDGE_SAVE_TYPES: Record<CartridgeSaveType, { size: number; extension: string; label: string }> = {
+  eeprom4k: { size: 512, extension: 'eep', label: '4 Kbit EEPROM' },
+  eeprom16k: { size: 2048, extension: 'eep', label: '16 Kbit EEPROM' },
+  sram: { size: 32768, extension: 'sra', label: '32 KB SRAM' },
+  flashram: { size: 131072, extension: 'fla', label: '128 KB FlashRAM' },
+};
+
+export const CARTRIDGE_SAVE_BASENAME = 'cartridge_save';
+
+/**
+ * Byte orders a save file may be stored in:
+ * - big-endian:    native N64 order, as read from the cart
+ * - little-endian: 32-bit words reversed (common for emulator SRAM/FlashRAM)
+ * - byte-swapped:  16-bit halves swapped
+ */
+export type SaveByteOrder = 'big-endian' | 'little-endian' | 'byte-swapped';
+
+/**
+ * Directory for cartridge save backups (separate from the active saves)
+ */
+export const CARTRIDGE_SAVE_BACKUPS_DIR = path.join(process.cwd(), '.local', 'Library', 'N64', 'CartridgeSaveBackups');
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CartridgeSaveInfo {
+  exists: boolean;
+  path: string;
+  saveType?: CartridgeSaveType;
+  label?: string;
+  size?: number;
+  lastModified?: string;
+  md5Hash?: string;
+}
+
+export interface CartridgeSaveBackup {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  saveType: CartridgeSaveType;
+  md5Hash: string;
+  size: number;
+  /** Tags, e.g. "auto" for backups made before a save was replaced */
+  tags?: string[];
+}
+
+export interface CartridgeSaveBackupsMetadata {
+  version: 1;
+  cartId: string;
+  backups: CartridgeSaveBackup[];
+}
+
+// =============================================================================
+// Validation & Byte Order
+// =============================================================================
+
+/**
+ * Detect the save type from its size
+ */
+export function detectCartridgeSaveType(size: number): CartridgeSaveType | null {
+  const match = (Object.keys(CARTRIDGE_SAVE_TYPES) as CartridgeSaveType[])
+    .find(type => CARTRIDGE_SAVE_TYPES[type].size === size);
+  return match ?? null;
+}
+
+/**
+ * Validate a cartridge save buffer, optionally against an expected type
+ */
+export function validateCartridgeSave(
+  buffer: Buffer,
+  expectedType?: CartridgeSaveType
+): { valid: boolean; errors: string[]; saveType?: CartridgeSaveType } {
+  if (expectedType) {
+    const { size, label } = CARTRIDGE_SAVE_TYPES[expectedType];
+    if (buffer.length !== size) {
+      return { valid: false, errors: [`Invalid size for ${label}: ${buffer.length} bytes (expected ${size} bytes)`] };
+    }
+    return { valid: true, errors: [], saveType: expectedType };
+  }
+
+  const saveType = detectCartridgeSaveType(buffer.length);
+  if (!saveType) {
+    const sizes = Object.values(CARTRIDGE_SAVE_TYPES).map(t => t.size).join(', ');
+    return { valid: false, errors: [`Invalid size: ${buffer.length} bytes (expected one of ${sizes})`] };
+  }
+  return { valid: true, errors: [], saveType };
+}
+
+/**
+ * Convert a save between native big-endian order and another byte order
+ * Both swaps are their own inverse, so the same call normalizes an imported
+ * save and converts a native save for export.
+ */
+export function convertSaveByteOrder(buffer: Buffer, byteOrder: SaveByteOrder): Buffer {
+  const result = Buffer.from(buffer);
+  if (byteOrder === 'little-endian') {
+    result.swap32();
+  } else if (byteOrder === 'byte-swapped') {
+    result.swap16();
+  }
+  return result;
+}
+
+/**
+ * Compute MD5 hash of a cartridge save buffer
+ */
+export function computeCartridgeSaveHash(buffer: Buffer): string {
+  return createHash('md5').update(buffer).digest('hex');
+}
+
+// =============================================================================
+// Read Operations
+// =============================================================================
+
+/**
+ * Find the local cartridge save for a cart ID
+ * Returns null if the game folder has no cartridge_save.* file
+ */
+export async function findLocalCartridgeSave(
+  cartId: string
+): Promise<{ path: string; extension: string } | null> {
+  const gameFolder = await findGameFolder(getLocalGamesDir(), cartId);
+  if (!gameFolder) {
+    return null;
+  }
+
+  const extensions = new Set(Object.values(CARTRIDGE_SAVE_TYPES).map(t => t.extension));
+  for (const extension of extensions) {
+    const savePath = path.join(gameFolder, `${CARTRIDGE_SAVE_BASENAME}.${extension}`);
+    if (existsSync(savePath)) {
+      return { path: savePath, extension };
+    }
+  }
+  return null;
+}
+
+/**
+ * Read the local cartridge save for a cart ID
+ */
+export async function readLocalCartridgeSave(
+  cartId: string
+): Promise<{ buffer: Buffer; saveType: CartridgeSaveType } | null> {
+  const found = await findLocalCartridgeSave(cartId);
+  if (!found) {
+    return null;
+  }
+
+  const buffer = await readFile(found.path);
+  const saveType = detectCartridgeSaveType(buffer.length);
+  if (!saveType) {
+    throw new Error(`Invalid cartridge save: ${buffer.length} bytes`);
+  }
+  return { buffer, saveType };
+}
+
+/**
+ * Get cartridge save info for a cart ID
+ */
+export async function getCartridgeSaveInfo(cartId: string): Promise<CartridgeSaveInfo> {
+  const found = await findLocalCartridgeSave(cartId);
+  const info: CartridgeSaveInfo = { exists: false, path: found?.path || '' };
+  if (!found) {
+    return info;
+  }
+
+  try {
+    const stats = await stat(found.path);
+    info.exists = true;
+    info.size = stats.size;
+    info.lastModified = stats.mtime.toISOString();
+
+    const saveType = detectCartridgeSaveType(stats.size);
+    if (saveType) {
+      info.saveType = saveType;
+      info.label = CARTRIDGE_SAVE_TYPES[saveType].label;
+      info.md5Hash = computeCartridgeSaveHash(await readFile(found.path));
+    }
+  } catch (error) {
+    console.error('Error reading cartridge save:', error);
+  }
+
+  return info;
+}
+
+// =============================================================================
+// Write Operations
+// =============================================================================
+
+/**
+ * Save a cartridge save to local storage, normalizing it to big-endian
+ * Replaces any existing cartridge save for the cart, backing it up
+ * automatically first. The new file is written through a temporary file and
+ * a rename, and a previous save with a different extension is only removed
+ * once it is in place.
+ */
+export async function saveLocalCartridgeSave(
+  cartId: string,
+  buffer: Buffer,
+  options: { saveType?: CartridgeSaveType; byteOrder?: SaveByteOrder; title?: string; backupReason?: string } = {}
+): Promise<{ path: string; saveType: CartridgeSaveType }> {
+  const { byteOrder = 'big-endian', title = 'Unknown Cartridge', backupReason = 'Before overwrite' } = options;
+
+  const validation = validateCartridgeSave(buffer, options.saveType);
+  if (!validation.valid || !validation.saveType) {
+    throw new Error(`Invalid cartridge save: ${validation.errors.join(', ')}`);
+  }
+  const saveType = validation.saveType;
+
+  const normalized = convertSaveByteOrder(buffer, byteOrder);
+
+  const existing = await findLocalCartridgeSave(cartId);
+  if (existing) {
+    await createAutoCartridgeSaveBackup(cartId, await readFile(existing.path), backupReason, normalized);
+  }
+
+  const folderPath = await ensureLocalGameFolder(cartId, title);
+  const savePath = path.join(folderPath, `${CARTRIDGE_SAVE_BASENAME}.${CARTRIDGE_SAVE_TYPES[saveType].extension}`);
+  const tempPath = `${savePath}.tmp`;
+  await writeFile(tempPath, normalized, { flush: true });
+  await rename(tempPath, savePath);
+
+  // Remove a previous save with a different extension
+  if (existing && existing.path !== savePath) {
+    await unlink(existing.path);
+  }
+
+  return { path: savePath, saveType };
+}
+
+/**
+ * Delete the local cartridge save for a cart ID
+ */
+export async function deleteLocalCartridgeSave(cartId: string): Promise<boolean> {
+  const found = await findLocalCartridgeSave(cartId);
+  if (!found) {
+    return false;
+  }
+
+  await unlink(found.path);
+  return true;
+}
+
+// =============================================================================
+// Backup Operations
+// =============================================================================
+
+const BACKUPS_METADATA_FILENAME = 'metadata.json';
+
+/**
+ * Get the backups directory for a cartridge
+ */
+export function getCartridgeSaveBackupsDir(cartId: string): string {
+  return path.join(CARTRIDGE_SAVE_BACKUPS_DIR, cartId.toLowerCase());
+}
+
+/**
+ * Get the file path for a backup
+ */
+function getBackupPath(cartId: string, backupId: string): string {
+  return path.join(getCartridgeSaveBackupsDir(cartId), `${backupId}.sav`);
+}
+
+/**
+ * Read backups metadata for a cartridge
+ */
+export async function getCartridgeSaveBackupsMetadata(cartId: string): Promise<CartridgeSaveBackupsMetadata | null> {
+  const metadataPath = path.join(getCartridgeSaveBackupsDir(cartId), BACKUPS_METADATA_FILENAME);
+
+  if (!existsSync(metadataPath)) {
+    return null;
+  }
+
+  try {
+    const content = await readFile(metadataPath, 'utf-8');
+    return JSON.parse(content) as CartridgeSaveBackupsMetadata;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Save backups metadata for a cartridge
+ */
+async function saveCartridgeSaveBackupsMetadata(cartId: string, metadata: CartridgeSaveBackupsMetadata): Promise<void> {
+  const backupsDir = getCartridgeSaveBackupsDir(cartId);
+  await mkdir(backupsDir, { recursive: true });
+  await writeFile(path.join(backupsDir, BACKUPS_METADATA_FILENAME), JSON.stringify(metadata, null, 2));
+}
+
+/**
+ * List all cartridge save backups for a cartridge
+ */
+export async function listCartridgeSaveBackups(cartId: string): Promise<CartridgeSaveBackup[]> {
+  const metadata = await getCartridgeSaveBackupsMetadata(cartId);
+  return metadata?.backups || [];
+}
+
+/**
+ * Create a backup of the current local cartridge save, or of the given save
+ */
+export async function createCartridgeSaveBackup(
+  cartId: string,
+  name?: string,
+  description?: string,
+  save?: { buffer: Buffer; saveType: CartridgeSaveType },
+  tags?: string[]
+): Promise<CartridgeSaveBackup> {
+  save ??= await readLocalCartridgeSave(cartId) ?? undefined;
+  if (!save) {
+    throw new Error('No local cartridge save to backup');
+  }
+
+  const createdAt = new Date().toISOString();
+  const backup: CartridgeSaveBackup = {
+    id: randomUUID(),
+    name: name || `Backup ${createdAt.split('T')[0]}`,
+    description,
+    createdAt,
+    saveType: save.saveType,
+    md5Hash: computeCartridgeSaveHash(save.buffer),
+    size: save.buffer.length,
+    ...(tags && tags.length > 0 ? { tags } : {}),
+  };
+
+  await mkdir(getCartridgeSaveBackupsDir(cartId), { recursive: true });
+  await writeFile(getBackupPath(cartId, backup.id), save.buffer);
+
+  const metadata = await getCartridgeSaveBackupsMetadata(cartId) || {
+    version: 1 as const,
+    cartId: cartId.toLowerCase(),
+    backups: [],
+  };
+  metadata.backups.push(backup);
+  await saveCartridgeSaveBackupsMetadata(cartId, metadata);
+
+  return backup;
+}
+
+/**
+ * Back up a save that is about to be replaced
+ * Nothing is stored when the save isn't a valid size, when the write would
+ * not change it, or when a backup with the same contents already exists.
+ */
+async function createAutoCartridgeSaveBackup(
+  cartId: string,
+  current: Buffer,
+  reason: string,
+  incoming: Buffer
+): Promise<CartridgeSaveBackup | null> {
+  const saveType = detectCartridgeSaveType(current.length);
+  if (!saveType || current.equals(incoming)) {
+    return null;
+  }
+
+  const md5Hash = computeCartridgeSaveHash(current);
+  if ((await listCartridgeSaveBackups(cartId)).some(b => b.md5Hash === md5Hash)) {
+    return null;
+  }
+
+  return createCartridgeSaveBackup(cartId, reason, 'Automatic backup', { buffer: current, saveType }, [AUTO_BACKUP_TAG]);
+}
+
+/**
+ * Get the buffer for a specific backup
+ */
+export async function getCartridgeSaveBackupBuffer(cartId: string, backupId: string): Promise<Buffer | null> {
+  const backupPath = getBackupPath(cartId, backupId);
+
+  if (!existsSync(backupPath)) {
+    return null;
+  }
+
+  return readFile(backupPath);
+}
+
+/**
+ * Update a backup's name or description
+ */
+export async function updateCartridgeSaveBackup(
+  cartId: string,
+  backupId: string,
+  updates: { name?: string; description?: string }
+): Promise<CartridgeSaveBackup | null> {
+  const metadata = await getCartridgeSaveBackupsMetadata(cartId);
+  const backup = metadata?.backups.find(b => b.id === backupId);
+  if (!metadata || !backup) {
+    return null;
+  }
+
+  if (updates.name !== undefined) {
+    backup.name = updates.name;
+  }
+  if (updates.description !== undefined) {
+    backup.description = updates.description;
+  }
+
+  await saveCartridgeSaveBackupsMetadata(cartId, metadata);
+  return backup;
+}
+
+/**
+ * Delete a backup
+ */
+export async function deleteCartridgeSaveBackup(cartId: string, backupId: string): Promise<boolean> {
+  const metadata = await getCartridgeSaveBackupsMetadata(cartId);
+  if (!metadata) {
+    return false;
+  }
+
+  const backupIndex = metadata.backups.findIndex(b => b.id === backupId);
+  if (backupIndex === -1) {
+    return false;
+  }
+
+  metadata.backups.splice(backupIndex, 1);
+  await saveCartridgeSaveBackupsMetadata(cartId, metadata);
+
+  const backupPath = getBackupPath(cartId, backupId);
+  if (existsSync(backupPath)) {
+    await unlink(backupPath);
+  }
+
+  return true;
+}
+
+/**
+ * Restore a backup to local storage
+ */
+export async function restoreCartridgeSaveBackup(
+  cartId: string,
+  backupId: string,
+  title: string = 'Unknown Cartridge'
+): Promise<{ path: string; saveType: CartridgeSaveType }> {
+  const metadata = await getCartridgeSaveBackupsMetadata(cartId);
+  const backup = metadata?.backups.find(b => b.id === backupId);
+  const buffer = await getCartridgeSaveBackupBuffer(cartId, backupId);
+  if (!backup || !buffer) {
+    throw new Error('Backup not found');
+  }
+
+  return saveLocalCartridgeSave(cartId, buffer, { saveType: backup.saveType, title, backupReason: 'Before restore' });
+}
+
+// =============================================================================
+// Bundle Support
+// =============================================================================
+
+/**
+ * Get all local cartridge saves for export (used by bundle system)
+ * Keyed by cart ID; the value holds the file name and contents.
+ */
+export async function getAllCartridgeSavesForExport(
+  cartIds?: string[]
+): Promise<Map<string, { filename: string; buffer: Buffer }>> {
+  const result = new Map<string, { filename: string; buffer: Buffer }>();
+  const gamesDir = getLocalGamesDir();
+
+  if (!existsSync(gamesDir)) {
+    return result;
+  }
+
+  for (const folder of await readdir(gamesDir)) {
+    const match = folder.match(/([0-9a-fA-F]{8})$/);
+    if (!match) continue;
+
+    const cartId = match[1].toLowerCase();
+    if (cartIds && !cartIds.includes(cartId)) continue;
+
+    const found = await findLocalCartridgeSave(cartId);
+    if (found) {
+      result.set(cartId, { filename: path.basename(found.path), buffer: await readFile(found.path) });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Get all cartridge save backups for export (used by bundle system)
+ */
+export async function getAllCartridgeSaveBackupsForExport(
+  cartIds?: string[]
+): Promise<Map<string, { metadata: CartridgeSaveBackupsMetadata; files: Map<string, Buffer> }>> {
+  const result = new Map<string, { metadata: CartridgeSaveBackupsMetadata; files: Map<string, Buffer> }>();
+
+  if (!existsSync(CARTRIDGE_SAVE_BACKUPS_DIR)) {
+    return result;
+  }
+
+  for (const dir of await readdir(CARTRIDGE_SAVE_BACKUPS_DIR)) {
+    if (cartIds && !cartIds.includes(dir.toLowerCase())) continue;
+
+    const metadata = await getCartridgeSaveBackupsMetadata(dir);
+    if (!metadata || metadata.backups.length === 0) continue;
+
+    const files = new Map<string, Buffer>();
+    for (const backup of metadata.backups) {
+      const buffer = await getCartridgeSaveBackupBuffer(dir, backup.id);
+      if (buffer) {
+        files.set(backup.id, buffer);
+      }
+    }
+
+    if (files.size > 0) {
+      result.set(dir.toLowerCase(), { metadata, files });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Import cartridge save backups (used by bundle system)
+ * Backups whose hash already exists are skipped.
+ */
+export async function importCartridgeSaveBackups(
+  cartId: string,
+  importMetadata: CartridgeSaveBackupsMetadata,
+  files: Map<string, Buffer>
+): Promise<{ added: number; skipped: number }> {
+  const result = { added: 0, skipped: 0 };
+
+  const metadata = await getCartridgeSaveBackupsMetadata(cartId) || {
+    version: 1 as const,
+    cartId: cartId.toLowerCase(),
+    backups: [],
+  };
+  const existingHashes = new Set(metadata.backups.map(b => b.md5Hash));
+
+  for (const backup of importMetadata.backups) {
+    const buffer = files.get(backup.id);
+    if (!buffer || existingHashes.has(backup.md5Hash) || !validateCartridgeSave(buffer, backup.saveType).valid) {
+      result.skipped++;
+      continue;
+    }
+
+    // Generate new ID to avoid conflicts
+    const newBackup: CartridgeSaveBackup = { ...backup, id: randomUUID() };
+    await mkdir(getCartridgeSaveBackupsDir(cartId), { recursive: true });
+    await writeFile(getBackupPath(cartId, newBackup.id), buffer);
+
+    metadata.backups.push(newBackup);
+    existingHashes.add(backup.md5Hash);
+    result.added++;
+  }
+
+  await saveCartridgeSaveBackupsMetadata(cartId, metadata);
+  return result;
+}
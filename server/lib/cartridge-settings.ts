@@ -1,73 +1,57 @@
-import { readFile, writeFile, mkdir, stat } from 'fs/promises';
+import { readFile, writeFile, mkdir, stat, readdir } from 'fs/promises';
 import { existsSync } from 'fs';
 import path from 'path';
 
+import {
+  DISPLAY_MODE_VALUES,
+  validateHardwareSchema,
+  validateSettingsSchema,
+  type DisplayMode,
+  type CRTModeSettings,
+  type CleanModeSettings,
+  type DisplaySettings,
+  type HardwareSettings,
+  type CartridgeSettings,
+} from '../../shared/settings-schema.js';
+import { recordSettingsRevision, getSettingsRevision } from './settings-history.js';
+
 // =============================================================================
 // Types
 // =============================================================================
 
-export const BEAM_CONVERGENCE_VALUES = ['Off', 'Consumer', 'Professional'] as const;
-export const IMAGE_SIZE_VALUES = ['Fill', 'Fit'] as const;
-export const IMAGE_FIT_VALUES = ['Original', 'Stretch'] as const;
-export const SHARPNESS_VALUES = ['Low', 'Medium', 'High'] as const;
-export const REGION_VALUES = ['Auto', 'NTSC', 'PAL'] as const;
-export const OVERCLOCK_VALUES = ['Auto', 'Enhanced', 'Enhanced+', 'Unleashed'] as const;
-export const DISPLAY_MODE_VALUES = ['bvm', 'pvm', 'crt', 'scanlines', 'clean'] as const;
-
-export type BeamConvergence = typeof BEAM_CONVERGENCE_VALUES[number];
-export type ImageSize = typeof IMAGE_SIZE_VALUES[number];
-export type ImageFit = typeof IMAGE_FIT_VALUES[number];
-export type Sharpness = typeof SHARPNESS_VALUES[number];
-export type Region = typeof REGION_VALUES[number];
-export type Overclock = typeof OVERCLOCK_VALUES[number];
-export type DisplayMode = typeof DISPLAY_MODE_VALUES[number];
-
-export interface CRTModeSettings {
-  horizontalBeamConvergence: BeamConvergence;
-  verticalBeamConvergence: BeamConvergence;
-  enableEdgeOvershoot: boolean;
-  enableEdgeHardness: boolean;
-  imageSize: ImageSize;
-  imageFit: ImageFit;
-}
-
-export interface CleanModeSettings {
-  interpolationAlg: string;
-  gammaTransferFunction: string;
-  sharpness: Sharpness;
-  imageSize: ImageSize;
-  imageFit: ImageFit;
-}
-
-export interface DisplayCatalog {
-  bvm: CRTModeSettings;
-  pvm: CRTModeSettings;
-  crt: CRTModeSettings;
-  scanlines: CRTModeSettings;
-  clean: CleanModeSettings;
-}
-
-export interface DisplaySettings {
-  odm: DisplayMode;
-  catalog: DisplayCatalog;
-}
-
-export interface HardwareSettings {
-  virtualExpansionPak: boolean;
-  region: Region;
-  disableDeblur: boolean;
-  enable32BitColor: boolean;
-  disableTextureFiltering: boolean;
-  disableAntialiasing: boolean;
-  forceOriginalHardware: boolean;
-  overclock: Overclock;
-}
-
-export interface CartridgeSettings {
-  title: string;
-  display: DisplaySettings;
-  hardware: HardwareSettings;
-}
+// The value sets and settings types live in the shared schema so the UI and
+// the server agree on what the console writes.
+export {
+  SETTINGS_SCHEMA_VERSION,
+  SETTINGS_SCHEMA_FIRMWARE,
+  BEAM_CONVERGENCE_VALUES,
+  IMAGE_SIZE_VALUES,
+  IMAGE_FIT_VALUES,
+  SHARPNESS_VALUES,
+  INTERPOLATION_ALG_VALUES,
+  GAMMA_TRANSFER_VALUES,
+  REGION_VALUES,
+  OVERCLOCK_VALUES,
+  DISPLAY_MODE_VALUES,
+} from '../../shared/settings-schema.js';
+
+export type {
+  BeamConvergence,
+  ImageSize,
+  ImageFit,
+  Sharpness,
+  InterpolationAlg,
+  GammaTransfer,
+  Region,
+  Overclock,
+  DisplayMode,
+  CRTModeSettings,
+  CleanModeSettings,
+  DisplayCatalog,
+  DisplaySettings,
+  HardwareSettings,
+  CartridgeSettings,
+} from '../../shared/settings-schema.js';
 
 export interface SettingsInfo {
   exists: boolean;
@@ -107,6 +91,7 @@ export const DEFAULT_HARDWARE_SETTINGS: HardwareSettings = {
   region: 'Auto',
   disableDeblur: false,
   enable32BitColor: true,
+  forceProgressiveOutput: false,
   disableTextureFiltering: false,
   disableAntialiasing: false,
   forceOriginalHardware: false,
@@ -135,7 +120,6 @@ export async function findGameFolder(gamesDir: string, cartId: string): Promise<
     return null;
   }
 
-  const { readdir } = await import('fs/promises');
   const folders = await readdir(gamesDir);
 
   for (const folder of folders) {
@@ -331,19 +315,50 @@ export async function ensureLocalGameFolder(cartId: string, title: string): Prom
 
 /**
  * Save settings to local storage
+ * Every save is recorded in the cartridge's settings history.
  */
 export async function saveLocalSettings(
   cartId: string,
-  settings: CartridgeSettings
+  settings: CartridgeSettings,
+  reason: string = 'Save'
 ): Promise<string> {
   const folderPath = await ensureLocalGameFolder(cartId, settings.title);
   const settingsPath = path.join(folderPath, 'settings.json');
+  const previous = existsSync(settingsPath)
+    ? await readSettingsFile(settingsPath).catch(() => null)
+    : null;
 
   await writeFile(settingsPath, JSON.stringify(settings, null, 2), 'utf-8');
+  await recordSettingsRevision(cartId, settings, reason, previous);
 
   return settingsPath;
 }
 
+/**
+ * Restore a settings revision to local storage (and optionally the SD card)
+ */
+export async function restoreSettingsRevision(
+  cartId: string,
+  revisionId: string,
+  sdCardPath?: string
+): Promise<{ settings: CartridgeSettings; local: boolean; sd: boolean }> {
+  const revision = await getSettingsRevision(cartId, revisionId);
+  if (!revision) {
+    throw new Error('Revision not found');
+  }
+
+  const date = revision.createdAt.replace('T', ' ').slice(0, 19);
+  await saveLocalSettings(cartId, revision.settings, `Restore of ${date}`);
+  const result = { settings: revision.settings, local: true, sd: false };
+
+  if (sdCardPath) {
+    const sdResult = await uploadSettingsToSD(cartId, sdCardPath);
+    result.sd = sdResult.success;
+  }
+
+  return result;
+}
+
 /**
  * Copy settings from SD card to local storage
  */
@@ -359,7 +374,7 @@ export async function downloadSettingsFromSD(
 
   try {
     const settings = await readSettingsFile(sdSettingsPath);
-    const localPath = await saveLocalSettings(cartId, settings);
+    const localPath = await saveLocalSettings(cartId, settings, 'Download from SD card');
     return { success: true, path: localPath };
   } catch (error) {
     return {
@@ -439,17 +454,7 @@ export async function uploadSettingsToSD(
  * Validate hardware settings
  */
 export function validateHardwareSettings(settings: Partial<HardwareSettings>): string[] {
-  const errors: string[] = [];
-
-  if (settings.region !== undefined && !REGION_VALUES.includes(settings.region)) {
-    errors.push(`Invalid region: ${settings.region}`);
-  }
-
-  if (settings.overclock !== undefined && !OVERCLOCK_VALUES.includes(settings.overclock)) {
-    errors.push(`Invalid overclock: ${settings.overclock}`);
-  }
-
-  return errors;
+  return validateHardwareSchema(settings as Record<string, unknown>);
 }
 
 /**
@@ -460,42 +465,319 @@ export function validateDisplayMode(mode: string): boolean {
 }
 
 /**
- * Validate complete settings object
+ * Validate complete settings object against the shared settings schema
  */
 export function validateSettings(settings: unknown): { valid: boolean; errors: string[] } {
-  const errors: string[] = [];
+  const errors = validateSettingsSchema(settings);
+  return { valid: errors.length === 0, errors };
+}
+
+// =============================================================================
+// Schema Migration
+// =============================================================================
 
-  if (typeof settings !== 'object' || settings === null) {
-    return { valid: false, errors: ['Settings must be an object'] };
+/**
+ * A settings.json schema as written by a range of firmware versions
+ * Display fields have not changed between versions; hardware fields have.
+ */
+export interface SettingsSchemaVersionInfo {
+  version: number;
+  firmware: string;
+  hardwareFields: readonly (keyof HardwareSettings)[];
+}
+
+const ORIGINAL_HARDWARE_FIELDS: readonly (keyof HardwareSettings)[] = [
+  'virtualExpansionPak',
+  'region',
+  'disableDeblur',
+  'enable32BitColor',
+  'disableTextureFiltering',
+  'disableAntialiasing',
+  'forceOriginalHardware',
+  'overclock',
+];
+
+/**
+ * Known settings schemas, oldest first (see docs/FIRMWARE_CHANGELOG.md)
+ */
+export const SETTINGS_SCHEMA_VERSIONS: readonly SettingsSchemaVersionInfo[] = [
+  { version: 1, firmware: '1.1.x', hardwareFields: ORIGINAL_HARDWARE_FIELDS },
+  { version: 2, firmware: '1.2.0', hardwareFields: [...ORIGINAL_HARDWARE_FIELDS, 'forceProgressiveOutput'] },
+];
+
+const ROOT_FIELDS = ['title', 'display', 'hardware'];
+const DISPLAY_FIELDS = ['odm', 'catalog'];
+const CRT_MODE_FIELDS = Object.keys(DEFAULT_CRT_MODE_SETTINGS);
+const CLEAN_MODE_FIELDS = Object.keys(DEFAULT_CLEAN_MODE_SETTINGS);
+
+export interface SettingsSchemaDetection {
+  version: number;
+  firmware: string;
+  /** Fields of the detected version that the file does not contain */
+  missingFields: string[];
+  /** Fields no known firmware version writes (likely from newer firmware) */
+  unknownFields: string[];
+}
+
+export interface SettingsMigrationResult {
+  settings: Record<string, unknown>;
+  fromVersion: number;
+  toVersion: number;
+  /** Fields filled in with explicit defaults */
+  added: string[];
+  /** Fields stripped because the target version does not know them */
+  removed: string[];
+  changed: boolean;
+}
+
+export interface SettingsMigrationReportEntry {
+  cartId: string;
+  folder: string;
+  fromVersion?: number;
+  toVersion: number;
+  added: string[];
+  removed: string[];
+  changed: boolean;
+  error?: string;
+}
+
+export interface SettingsMigrationReport {
+  targetVersion: number;
+  firmware: string;
+  dryRun: boolean;
+  total: number;
+  changed: number;
+  failed: number;
+  entries: SettingsMigrationReportEntry[];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Look up a schema by version number
+ */
+export function getSettingsSchemaVersion(version: number): SettingsSchemaVersionInfo {
+  const schema = SETTINGS_SCHEMA_VERSIONS.find(s => s.version === version);
+  if (!schema) {
+    const known = SETTINGS_SCHEMA_VERSIONS.map(s => s.version).join(', ');
+    throw new Error(`Unknown settings schema version: ${version} (known: ${known})`);
   }
+  return schema;
+}
 
-  const s = settings as Record<string, unknown>;
+/**
+ * List fields in a settings object that a schema does not know, as dotted paths
+ */
+function findUnknownFields(settings: Record<string, unknown>, schema: SettingsSchemaVersionInfo): string[] {
+  const unknown: string[] = [];
+  const collect = (value: unknown, known: readonly string[], prefix: string) => {
+    if (!isRecord(value)) return;
+    for (const key of Object.keys(value)) {
+      if (!known.includes(key)) unknown.push(`${prefix}${key}`);
+    }
+  };
 
-  // Check title
-  if (s.title !== undefined && typeof s.title !== 'string') {
-    errors.push('Title must be a string');
+  collect(settings, ROOT_FIELDS, '');
+  collect(settings.hardware, schema.hardwareFields, 'hardware.');
+
+  if (isRecord(settings.display)) {
+    collect(settings.display, DISPLAY_FIELDS, 'display.');
+    const catalog = settings.display.catalog;
+    collect(catalog, DISPLAY_MODE_VALUES, 'display.catalog.');
+    if (isRecord(catalog)) {
+      for (const mode of DISPLAY_MODE_VALUES) {
+        const fields = mode === 'clean' ? CLEAN_MODE_FIELDS : CRT_MODE_FIELDS;
+        collect(catalog[mode], fields, `display.catalog.${mode}.`);
+      }
+    }
   }
 
-  // Check display
-  if (s.display !== undefined) {
-    if (typeof s.display !== 'object' || s.display === null) {
-      errors.push('Display must be an object');
+  return unknown;
+}
+
+/**
+ * Fill fields a schema expects but the settings object lacks, returning their paths
+ * Mutates the object in place.
+ */
+function fillMissingFields(settings: Record<string, unknown>, schema: SettingsSchemaVersionInfo): string[] {
+  const added: string[] = [];
+  const defaults = createDefaultDisplaySettings();
+
+  if (!isRecord(settings.display)) {
+    settings.display = defaults;
+    added.push('display');
+  } else {
+    const display = settings.display;
+    if (display.odm === undefined) {
+      display.odm = defaults.odm;
+      added.push('display.odm');
+    }
+    if (!isRecord(display.catalog)) {
+      display.catalog = defaults.catalog;
+      added.push('display.catalog');
     } else {
-      const display = s.display as Record<string, unknown>;
-      if (display.odm !== undefined && !validateDisplayMode(display.odm as string)) {
-        errors.push(`Invalid display mode: ${display.odm}`);
+      const catalog = display.catalog;
+      for (const mode of DISPLAY_MODE_VALUES) {
+        const modeDefaults = defaults.catalog[mode] as unknown as Record<string, unknown>;
+        const entry = catalog[mode];
+        if (!isRecord(entry)) {
+          catalog[mode] = modeDefaults;
+          added.push(`display.catalog.${mode}`);
+          continue;
+        }
+        for (const [field, value] of Object.entries(modeDefaults)) {
+          if (entry[field] === undefined) {
+            entry[field] = value;
+            added.push(`display.catalog.${mode}.${field}`);
+          }
+        }
       }
     }
   }
 
-  // Check hardware
-  if (s.hardware !== undefined) {
-    if (typeof s.hardware !== 'object' || s.hardware === null) {
-      errors.push('Hardware must be an object');
-    } else {
-      errors.push(...validateHardwareSettings(s.hardware as Partial<HardwareSettings>));
+  if (!isRecord(settings.hardware)) {
+    settings.hardware = {};
+  }
+  const hardware = settings.hardware as Record<string, unknown>;
+  for (const field of schema.hardwareFields) {
+    if (hardware[field] === undefined) {
+      hardware[field] = DEFAULT_HARDWARE_SETTINGS[field];
+      added.push(`hardware.${field}`);
     }
   }
 
-  return { valid: errors.length === 0, errors };
+  return added;
+}
+
+/**
+ * Detect which firmware schema a settings object matches
+ * The newest version whose added hardware fields are all present wins.
+ */
+export function detectSettingsSchema(settings: unknown): SettingsSchemaDetection {
+  if (!isRecord(settings)) {
+    throw new Error('Settings must be an object');
+  }
+
+  const hardware = isRecord(settings.hardware) ? settings.hardware : {};
+  let detected = SETTINGS_SCHEMA_VERSIONS[0];
+
+  for (let i = 1; i < SETTINGS_SCHEMA_VERSIONS.length; i++) {
+    const previous = SETTINGS_SCHEMA_VERSIONS[i - 1];
+    const schema = SETTINGS_SCHEMA_VERSIONS[i];
+    const introduced = schema.hardwareFields.filter(f => !previous.hardwareFields.includes(f));
+    if (introduced.every(f => hardware[f] !== undefined)) {
+      detected = schema;
+    }
+  }
+
+  const latest = SETTINGS_SCHEMA_VERSIONS[SETTINGS_SCHEMA_VERSIONS.length - 1];
+  const missingFields = fillMissingFields(structuredClone(settings), detected);
+
+  return {
+    version: detected.version,
+    firmware: detected.firmware,
+    missingFields,
+    unknownFields: findUnknownFields(settings, latest),
+  };
+}
+
+/**
+ * Migrate a settings object to a target schema version
+ * Missing fields are filled with explicit defaults. When migrating down,
+ * fields the target firmware does not know are stripped; otherwise unknown
+ * fields are kept so settings from newer firmware survive.
+ */
+export function migrateSettings(settings: unknown, targetVersion: number): SettingsMigrationResult {
+  const target = getSettingsSchemaVersion(targetVersion);
+  const { version: fromVersion } = detectSettingsSchema(settings);
+  const migrated = structuredClone(settings) as Record<string, unknown>;
+
+  const removed: string[] = [];
+  if (target.version < fromVersion) {
+    for (const fieldPath of findUnknownFields(migrated, target)) {
+      const keys = fieldPath.split('.');
+      const last = keys.pop() as string;
+      let parent: Record<string, unknown> = migrated;
+      for (const key of keys) parent = parent[key] as Record<string, unknown>;
+      delete parent[last];
+      removed.push(fieldPath);
+    }
+  }
+
+  const added = fillMissingFields(migrated, target);
+
+  return {
+    settings: migrated,
+    fromVersion,
+    toVersion: target.version,
+    added,
+    removed,
+    changed: added.length > 0 || removed.length > 0,
+  };
+}
+
+/**
+ * Migrate every game folder's settings.json in a games directory
+ * With dryRun set, nothing is written and the report shows what would change.
+ */
+export async function migrateAllSettings(
+  gamesDir: string,
+  targetVersion: number,
+  dryRun: boolean = true
+): Promise<SettingsMigrationReport> {
+  const target = getSettingsSchemaVersion(targetVersion);
+  const entries: SettingsMigrationReportEntry[] = [];
+
+  const isLocal = path.resolve(gamesDir) === path.resolve(LOCAL_GAMES_DIR);
+  const folders = existsSync(gamesDir) ? await readdir(gamesDir) : [];
+
+  for (const folder of folders.sort()) {
+    const match = folder.match(/([0-9a-fA-F]{8})$/);
+    const settingsPath = path.join(gamesDir, folder, 'settings.json');
+    if (!match || !existsSync(settingsPath)) continue;
+
+    const entry: SettingsMigrationReportEntry = {
+      cartId: match[1].toLowerCase(),
+      folder,
+      toVersion: target.version,
+      added: [],
+      removed: [],
+      changed: false,
+    };
+
+    try {
+      const content = await readFile(settingsPath, 'utf-8');
+      const result = migrateSettings(JSON.parse(sanitizeJson(content)), target.version);
+      entry.fromVersion = result.fromVersion;
+      entry.added = result.added;
+      entry.removed = result.removed;
+      entry.changed = result.changed;
+
+      if (result.changed && !dryRun) {
+        if (isLocal) {
+          // Local saves go through the normal path so the migration is in the history
+          const settings = result.settings as unknown as CartridgeSettings;
+          await saveLocalSettings(entry.cartId, settings, `Migrate to 3D OS ${target.firmware}`);
+        } else {
+          await writeFile(settingsPath, JSON.stringify(result.settings, null, 2), 'utf-8');
+        }
+      }
+    } catch (error) {
+      entry.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    entries.push(entry);
+  }
+
+  return {
+    targetVersion: target.version,
+    firmware: target.firmware,
+    dryRun,
+    total: entries.length,
+    changed: entries.filter(e => e.changed).length,
+    failed: entries.filter(e => e.error).length,
+    entries,
+  };
 }
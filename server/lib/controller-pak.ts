@@ -0,0 +1,1007 @@
+/**
+ * Controller Pak Filesystem
+ *
+ * Parser for the filesystem inside a 32KB N64 Controller Pak image
+ * (controller_pak.img). The pak is 128 pages of 256 bytes:
+ *
+ *   Page 0     ID sector (label area + ID block and 3 backup copies)
+ *   Page 1     Inode table (one 16-bit entry per page)
+ *   Page 2     Inode table backup
+ *   Pages 3-4  Note table (16 entries of 32 bytes)
+ *   Pages 5+   Save data (123 pages)
+ */
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const PAK_PAGE_SIZE = 256;
+export const PAK_TOTAL_PAGES = 128;
+
+/** First page available to save data */
+export const FIRST_DATA_PAGE = 5;
+
+/** Offsets of the primary ID block and its backup copies in page 0 */
+export const ID_BLOCK_OFFSETS = [0x20, 0x60, 0x80, 0xc0] as const;
+export const ID_BLOCK_SIZE = 32;
+
+export const INODE_TABLE_OFFSET = 1 * PAK_PAGE_SIZE;
+export const INODE_BACKUP_OFFSET = 2 * PAK_PAGE_SIZE;
+
+export const NOTE_TABLE_OFFSET = 3 * PAK_PAGE_SIZE;
+export const NOTE_COUNT = 16;
+export const NOTE_ENTRY_SIZE = 32;
+
+/** Inode value marking the last page of a note */
+export const INODE_END = 0x0001;
+
+/** Inode value marking a free page */
+export const INODE_FREE = 0x0003;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ControllerPakIdBlock {
+  offset: number;
+  checksum: number;
+  inverseChecksum: number;
+  /** True if the stored checksums match the block contents */
+  valid: boolean;
+}
+
+export interface ControllerPakNote {
+  /** Slot in the note table (0-15) */
+  index: number;
+  /** 4-character game code, e.g. "NKTE" */
+  gameCode: string;
+  /** 2-character publisher code, e.g. "01" */
+  publisherCode: string;
+  /** Note name decoded from the N64 font */
+  name: string;
+  /** Note extension decoded from the N64 font (often empty) */
+  extension: string;
+  status: number;
+  startPage: number;
+  /** Pages used by this note, in chain order */
+  pages: number[];
+  pageCount: number;
+  size: number;
+  /** Set if the page chain is broken (loop, free page or out of range) */
+  chainError?: string;
+}
+
+export interface ControllerPakFilesystem {
+  idBlocks: ControllerPakIdBlock[];
+  inodeChecksumValid: boolean;
+  notes: ControllerPakNote[];
+  pagesUsed: number;
+  pagesFree: number;
+}
+
+// =============================================================================
+// N64 Font Encoding
+// =============================================================================
+
+const N64_FONT_SYMBOLS: Record<number, string> = {
+  0x0f: ' ',
+  0x34: '!',
+  0x35: '"',
+  0x36: '#',
+  0x37: "'",
+  0x38: '*',
+  0x39: '+',
+  0x3a: ',',
+  0x3b: '-',
+  0x3c: '.',
+  0x3d: '/',
+  0x3e: ':',
+  0x3f: '=',
+  0x40: '?',
+  0x41: '@',
+};
+
+/**
+ * Decode a single N64 font character to a string (empty for unmapped codes)
+ */
+function decodeN64Char(code: number): string {
+  if (code >= 0x10 && code <= 0x19) return String.fromCharCode(0x30 + code - 0x10);
+  if (code >= 0x1a && code <= 0x33) return String.fromCharCode(0x41 + code - 0x1a);
+  return N64_FONT_SYMBOLS[code] ?? '';
+}
+
+/**
+ * Decode an N64 font string, stopping at the first NUL
+ */
+export function decodeN64String(data: Buffer): string {
+  let result = '';
+  for (const code of data) {
+    if (code === 0x00) break;
+    result += decodeN64Char(code);
+  }
+  return result.trimEnd();
+}
+
+/**
+ * Encode a string to the N64 font, NUL-padded to the given length
+ * Lowercase letters are upper-cased; unsupported characters become spaces.
+ */
+export function encodeN64String(text: string, length: number): Buffer {
+  const buffer = Buffer.alloc(length, 0x00);
+  const chars = text.toUpperCase().slice(0, length);
+
+  for (let i = 0; i < chars.length; i++) {
+    const c = chars.charCodeAt(i);
+    if (c >= 0x30 && c <= 0x39) {
+      buffer[i] = 0x10 + c - 0x30;
+    } else if (c >= 0x41 && c <= 0x5a) {
+      buffer[i] = 0x1a + c - 0x41;
+    } else {
+      const symbol = Object.entries(N64_FONT_SYMBOLS).find(([, s]) => s === chars[i]);
+      buffer[i] = symbol ? Number(symbol[0]) : 0x0f;
+    }
+  }
+
+  return buffer;
+}
+
+// =============================================================================
+// ID Sector
+// =============================================================================
+
+/**
+ * Calculate the checksum of an ID block (sum of its first 14 big-endian words)
+ */
+export function calculateIdBlockChecksum(buffer: Buffer, offset: number): number {
+  let sum = 0;
+  for (let i = 0; i < 28; i += 2) {
+    sum += buffer.readUInt16BE(offset + i);
+  }
+  return sum & 0xffff;
+}
+
+/**
+ * Read an ID block and verify its checksums
+ */
+export function readIdBlock(buffer: Buffer, offset: number): ControllerPakIdBlock {
+  const checksum = buffer.readUInt16BE(offset + 0x1c);
+  const inverseChecksum = buffer.readUInt16BE(offset + 0x1e);
+  const expected = calculateIdBlockChecksum(buffer, offset);
+
+  return {
+    offset,
+    checksum,
+    inverseChecksum,
+    valid: checksum === expected && inverseChecksum === ((0xfff2 - expected) & 0xffff),
+  };
+}
+
+// =============================================================================
+// Inode Table
+// =============================================================================
+
+/**
+ * Read an inode table (128 big-endian entries) starting at the given offset
+ */
+export function readInodeTable(buffer: Buffer, tableOffset = INODE_TABLE_OFFSET): number[] {
+  const inodes: number[] = [];
+  for (let page = 0; page < PAK_TOTAL_PAGES; page++) {
+    inodes.push(buffer.readUInt16BE(tableOffset + page * 2));
+  }
+  return inodes;
+}
+
+/**
+ * Calculate the inode table checksum (low byte of the sum of the data page
+ * entries), which is stored in the second byte of the table
+ */
+export function calculateInodeChecksum(buffer: Buffer, tableOffset = INODE_TABLE_OFFSET): number {
+  let sum = 0;
+  for (let i = FIRST_DATA_PAGE * 2; i < PAK_PAGE_SIZE; i++) {
+    sum += buffer[tableOffset + i];
+  }
+  return sum & 0xff;
+}
+
+/**
+ * Follow a page chain through the inode table
+ */
+export function followPageChain(inodes: number[], startPage: number): { pages: number[]; error?: string } {
+  const pages: number[] = [];
+  const seen = new Set<number>();
+  let page = startPage;
+
+  while (true) {
+    if (page < FIRST_DATA_PAGE || page >= PAK_TOTAL_PAGES) {
+      return { pages, error: `Page ${page} is out of range` };
+    }
+    if (seen.has(page)) {
+      return { pages, error: `Page chain loops back to page ${page}` };
+    }
+
+    seen.add(page);
+    pages.push(page);
+
+    const next = inodes[page];
+    if (next === INODE_END) {
+      return { pages };
+    }
+    if (next === INODE_FREE) {
+      return { pages, error: `Page ${page} is marked free` };
+    }
+    page = next;
+  }
+}
+
+// =============================================================================
+// Note Table
+// =============================================================================
+
+/**
+ * Read a raw note table entry
+ */
+function readNoteEntry(buffer: Buffer, index: number) {
+  const offset = NOTE_TABLE_OFFSET + index * NOTE_ENTRY_SIZE;
+  return {
+    gameCodeBytes: buffer.subarray(offset, offset + 4),
+    publisherBytes: buffer.subarray(offset + 4, offset + 6),
+    startPage: buffer.readUInt16BE(offset + 6),
+    status: buffer[offset + 8],
+    extension: buffer.subarray(offset + 0x0c, offset + 0x10),
+    name: buffer.subarray(offset + 0x10, offset + 0x20),
+  };
+}
+
+/**
+ * Check whether a note table slot holds a note
+ */
+function isNoteOccupied(entry: ReturnType<typeof readNoteEntry>): boolean {
+  return entry.startPage >= FIRST_DATA_PAGE &&
+    entry.startPage < PAK_TOTAL_PAGES &&
+    entry.gameCodeBytes.some(b => b !== 0x00);
+}
+
+/**
+ * Parse the notes stored in a controller pak
+ */
+export function parseNotes(buffer: Buffer, inodes = readInodeTable(buffer)): ControllerPakNote[] {
+  const notes: ControllerPakNote[] = [];
+
+  for (let index = 0; index < NOTE_COUNT; index++) {
+    const entry = readNoteEntry(buffer, index);
+    if (!isNoteOccupied(entry)) continue;
+
+    const chain = followPageChain(inodes, entry.startPage);
+
+    const note: ControllerPakNote = {
+      index,
+      gameCode: entry.gameCodeBytes.toString('latin1').replace(/\0/g, ''),
+      publisherCode: entry.publisherBytes.toString('latin1').replace(/\0/g, ''),
+      name: decodeN64String(entry.name),
+      extension: decodeN64String(entry.extension),
+      status: entry.status,
+      startPage: entry.startPage,
+      pages: chain.pages,
+      pageCount: chain.pages.length,
+      size: chain.pages.length * PAK_PAGE_SIZE,
+    };
+    if (chain.error) {
+      note.chainError = chain.error;
+    }
+    notes.push(note);
+  }
+
+  return notes;
+}
+
+/**
+ * Parse the full controller pak filesystem
+ */
+export function parseControllerPak(buffer: Buffer): ControllerPakFilesystem {
+  if (buffer.length !== PAK_TOTAL_PAGES * PAK_PAGE_SIZE) {
+    throw new Error(`Invalid controller pak: ${buffer.length} bytes, expected ${PAK_TOTAL_PAGES * PAK_PAGE_SIZE}`);
+  }
+
+  const inodes = readInodeTable(buffer);
+  let pagesFree = 0;
+  for (let page = FIRST_DATA_PAGE; page < PAK_TOTAL_PAGES; page++) {
+    if (inodes[page] === INODE_FREE) pagesFree++;
+  }
+
+  return {
+    idBlocks: ID_BLOCK_OFFSETS.map(offset => readIdBlock(buffer, offset)),
+    inodeChecksumValid: buffer[INODE_TABLE_OFFSET + 1] === calculateInodeChecksum(buffer),
+    notes: parseNotes(buffer, inodes),
+    pagesUsed: PAK_TOTAL_PAGES - FIRST_DATA_PAGE - pagesFree,
+    pagesFree,
+  };
+}
+
+/**
+ * Write an inode table to both the primary and backup copies, updating the
+ * checksum byte
+ */
+export function writeInodeTable(buffer: Buffer, inodes: number[]): void {
+  for (let page = FIRST_DATA_PAGE; page < PAK_TOTAL_PAGES; page++) {
+    buffer.writeUInt16BE(inodes[page], INODE_TABLE_OFFSET + page * 2);
+  }
+  buffer[INODE_TABLE_OFFSET + 1] = calculateInodeChecksum(buffer);
+  buffer.copy(buffer, INODE_BACKUP_OFFSET, INODE_TABLE_OFFSET, INODE_TABLE_OFFSET + PAK_PAGE_SIZE);
+}
+
+// =============================================================================
+// Note Files (Export / Import)
+// =============================================================================
+
+/**
+ * Supported single-note file formats:
+ * - note: MPK note - the 32-byte note table entry followed by the note's pages
+ * - n64:  DexDrive single save - 0x160 byte header ("123-456-STD" magic,
+ *         comment at 0x40, note entry at 0x140) followed by the note's pages
+ */
+export type NoteFileFormat = 'note' | 'n64';
+
+export const DEXDRIVE_MAGIC = '123-456-STD';
+const DEXDRIVE_COMMENT_OFFSET = 0x40;
+const DEXDRIVE_COMMENT_SIZE = 0x100;
+const DEXDRIVE_ENTRY_OFFSET = 0x140;
+const DEXDRIVE_HEADER_SIZE = 0x160;
+
+/** A note extracted from a pak or read from a note file */
+export interface NoteFile {
+  /** Raw 32-byte note table entry (start page is not meaningful) */
+  entry: Buffer;
+  /** Page data, a multiple of 256 bytes */
+  data: Buffer;
+  format: NoteFileFormat;
+  comment?: string;
+}
+
+/**
+ * Extract a note's entry and page data from a pak
+ */
+export function extractNote(buffer: Buffer, noteIndex: number): NoteFile {
+  const note = parseNotes(buffer).find(n => n.index === noteIndex);
+  if (!note) {
+    throw new Error(`No note in slot ${noteIndex}`);
+  }
+  if (note.chainError) {
+    throw new Error(`Note ${noteIndex} has a broken page chain: ${note.chainError}`);
+  }
+
+  const entryOffset = NOTE_TABLE_OFFSET + noteIndex * NOTE_ENTRY_SIZE;
+  const entry = Buffer.from(buffer.subarray(entryOffset, entryOffset + NOTE_ENTRY_SIZE));
+  const data = Buffer.concat(
+    note.pages.map(page => buffer.subarray(page * PAK_PAGE_SIZE, (page + 1) * PAK_PAGE_SIZE))
+  );
+
+  return { entry, data, format: 'note' };
+}
+
+/**
+ * Serialize a note to a note file
+ */
+export function serializeNoteFile(note: Pick<NoteFile, 'entry' | 'data' | 'comment'>, format: NoteFileFormat): Buffer {
+  if (format === 'note') {
+    return Buffer.concat([note.entry, note.data]);
+  }
+
+  const header = Buffer.alloc(DEXDRIVE_HEADER_SIZE, 0x00);
+  header.write(DEXDRIVE_MAGIC, 0, 'ascii');
+  if (note.comment) {
+    header.write(note.comment.slice(0, DEXDRIVE_COMMENT_SIZE - 1), DEXDRIVE_COMMENT_OFFSET, 'latin1');
+  }
+  note.entry.copy(header, DEXDRIVE_ENTRY_OFFSET);
+  return Buffer.concat([header, note.data]);
+}
+
+/**
+ * Parse a note file, detecting DexDrive (.n64) files by their magic string
+ */
+export function parseNoteFile(file: Buffer): NoteFile {
+  const isDexDrive = file.length >= DEXDRIVE_HEADER_SIZE &&
+    file.subarray(0, DEXDRIVE_MAGIC.length).toString('ascii') === DEXDRIVE_MAGIC;
+
+  const format: NoteFileFormat = isDexDrive ? 'n64' : 'note';
+  const entryOffset = isDexDrive ? DEXDRIVE_ENTRY_OFFSET : 0;
+  const dataOffset = isDexDrive ? DEXDRIVE_HEADER_SIZE : NOTE_ENTRY_SIZE;
+  const dataSize = file.length - dataOffset;
+
+  if (dataSize <= 0 || dataSize % PAK_PAGE_SIZE !== 0) {
+    throw new Error(`Invalid note file: ${dataSize} bytes of save data is not a whole number of pages`);
+  }
+
+  const pageCount = dataSize / PAK_PAGE_SIZE;
+  if (pageCount > PAK_TOTAL_PAGES - FIRST_DATA_PAGE) {
+    throw new Error(`Invalid note file: ${pageCount} pages exceeds controller pak capacity`);
+  }
+
+  const entry = Buffer.from(file.subarray(entryOffset, entryOffset + NOTE_ENTRY_SIZE));
+  if (entry.subarray(0, 4).every(b => b === 0x00)) {
+    throw new Error('Invalid note file: missing game code');
+  }
+
+  const result: NoteFile = { entry, data: Buffer.from(file.subarray(dataOffset)), format };
+  if (isDexDrive) {
+    const comment = file
+      .subarray(DEXDRIVE_COMMENT_OFFSET, DEXDRIVE_COMMENT_OFFSET + DEXDRIVE_COMMENT_SIZE)
+      .toString('latin1')
+      .replace(/\0[\s\S]*$/, '');
+    if (comment) result.comment = comment;
+  }
+  return result;
+}
+
+/**
+ * Insert a note into a pak, allocating free pages and a free note slot
+ * Returns a new buffer; the input pak is left untouched.
+ */
+export function insertNote(pak: Buffer, note: Pick<NoteFile, 'entry' | 'data'>): { buffer: Buffer; noteIndex: number } {
+  const buffer = Buffer.from(pak);
+  const inodes = readInodeTable(buffer);
+  const existing = parseNotes(buffer, inodes);
+  const pageCount = note.data.length / PAK_PAGE_SIZE;
+
+  // Refuse exact duplicates (same game, publisher, name and extension)
+  const duplicate = existing.find(n => {
+    const offset = NOTE_TABLE_OFFSET + n.index * NOTE_ENTRY_SIZE;
+    return buffer.subarray(offset, offset + 6).equals(note.entry.subarray(0, 6)) &&
+      buffer.subarray(offset + 0x0c, offset + 0x20).equals(note.entry.subarray(0x0c, 0x20));
+  });
+  if (duplicate) {
+    throw new Error(`A note named "${duplicate.name}" for ${duplicate.gameCode} already exists`);
+  }
+
+  const usedSlots = new Set(existing.map(n => n.index));
+  const noteIndex = Array.from({ length: NOTE_COUNT }, (_, i) => i).find(i => !usedSlots.has(i));
+  if (noteIndex === undefined) {
+    throw new Error(`Controller pak already has ${NOTE_COUNT} notes`);
+  }
+
+  const freePages: number[] = [];
+  for (let page = FIRST_DATA_PAGE; page < PAK_TOTAL_PAGES && freePages.length < pageCount; page++) {
+    if (inodes[page] === INODE_FREE) freePages.push(page);
+  }
+  if (freePages.length < pageCount) {
+    throw new Error(`Not enough free pages: note needs ${pageCount}, pak has ${freePages.length} free`);
+  }
+
+  // Chain the allocated pages and copy the data in
+  freePages.forEach((page, i) => {
+    inodes[page] = i === freePages.length - 1 ? INODE_END : freePages[i + 1];
+    note.data.copy(buffer, page * PAK_PAGE_SIZE, i * PAK_PAGE_SIZE, (i + 1) * PAK_PAGE_SIZE);
+  });
+  writeInodeTable(buffer, inodes);
+
+  // Write the note entry pointing at the first allocated page
+  const entryOffset = NOTE_TABLE_OFFSET + noteIndex * NOTE_ENTRY_SIZE;
+  note.entry.copy(buffer, entryOffset, 0, NOTE_ENTRY_SIZE);
+  buffer.writeUInt16BE(freePages[0], entryOffset + 6);
+  buffer[entryOffset + 8] |= 0x02;
+
+  return { buffer, noteIndex };
+}
+
+// =============================================================================
+// Integrity Checks & Repair
+// =============================================================================
+
+export type ControllerPakIssueCode =
+  | 'id-block-checksum'
+  | 'id-block-mismatch'
+  | 'inode-checksum'
+  | 'inode-backup-mismatch'
+  | 'broken-chain'
+  | 'note-free-page'
+  | 'cross-linked'
+  | 'orphaned-pages';
+
+export interface ControllerPakIssue {
+  code: ControllerPakIssueCode;
+  /** Errors make the pak unreliable on hardware; warnings only lose redundancy or space */
+  severity: 'error' | 'warning';
+  message: string;
+  /** True if repairControllerPak() can fix this issue */
+  repairable: boolean;
+  noteIndex?: number;
+  pages?: number[];
+}
+
+export interface ControllerPakValidation {
+  /** True if there are no errors (warnings are allowed) */
+  valid: boolean;
+  /** True if at least one issue can be repaired */
+  repairable: boolean;
+  issues: ControllerPakIssue[];
+}
+
+/**
+ * Create a freshly formatted ID block with valid checksums
+ */
+function createIdBlock(): Buffer {
+  const block = Buffer.alloc(ID_BLOCK_SIZE, 0x00);
+  block.writeUInt32BE(0xffffffff, 0);
+  block.writeUInt16BE(0x0001, 0x18); // Device ID
+  block[0x1a] = 0x01; // Bank count
+
+  const checksum = calculateIdBlockChecksum(block, 0);
+  block.writeUInt16BE(checksum, 0x1c);
+  block.writeUInt16BE((0xfff2 - checksum) & 0xffff, 0x1e);
+  return block;
+}
+
+/**
+ * Pick the inode table to trust: the primary unless only the backup has a
+ * valid checksum
+ */
+function selectInodeTableOffset(buffer: Buffer): number {
+  const primaryValid = buffer[INODE_TABLE_OFFSET + 1] === calculateInodeChecksum(buffer);
+  const backupValid = buffer[INODE_BACKUP_OFFSET + 1] === calculateInodeChecksum(buffer, INODE_BACKUP_OFFSET);
+  return !primaryValid && backupValid ? INODE_BACKUP_OFFSET : INODE_TABLE_OFFSET;
+}
+
+/**
+ * Find allocated data pages that no note's page chain reaches
+ */
+function findOrphanedPages(inodes: number[], notes: ControllerPakNote[]): number[] {
+  const claimed = new Set(notes.flatMap(n => n.pages));
+  const orphaned: number[] = [];
+  for (let page = FIRST_DATA_PAGE; page < PAK_TOTAL_PAGES; page++) {
+    if (inodes[page] !== INODE_FREE && !claimed.has(page)) {
+      orphaned.push(page);
+    }
+  }
+  return orphaned;
+}
+
+/**
+ * Check whether any note's page chain is broken or shares pages with another
+ * Pages past a break may still hold that note's data, so while a chain is
+ * damaged, unreached pages can't safely be treated as orphaned.
+ */
+function hasDamagedChains(inodes: number[], notes: ControllerPakNote[]): boolean {
+  const claimed = new Set<number>();
+  for (const note of notes) {
+    if (note.chainError || inodes[note.startPage] === INODE_FREE) return true;
+    for (const page of note.pages) {
+      if (claimed.has(page)) return true;
+      claimed.add(page);
+    }
+  }
+  return false;
+}
+
+/**
+ * Deep-check a controller pak image: ID block checksums and backup copies,
+ * inode table checksums and backup consistency, note page chains and
+ * orphaned pages
+ */
+export function validateControllerPak(buffer: Buffer): ControllerPakValidation {
+  if (buffer.length !== PAK_TOTAL_PAGES * PAK_PAGE_SIZE) {
+    throw new Error(`Invalid controller pak: ${buffer.length} bytes, expected ${PAK_TOTAL_PAGES * PAK_PAGE_SIZE}`);
+  }
+
+  const issues: ControllerPakIssue[] = [];
+
+  // ID blocks - the first is primary, the other three are backups
+  const idBlocks = ID_BLOCK_OFFSETS.map(offset => readIdBlock(buffer, offset));
+  const reference = idBlocks.find(b => b.valid);
+  if (!reference) {
+    issues.push({
+      code: 'id-block-checksum',
+      severity: 'error',
+      message: 'No ID block copy has a valid checksum',
+      repairable: true,
+    });
+  } else {
+    const referenceBytes = buffer.subarray(reference.offset, reference.offset + ID_BLOCK_SIZE);
+    idBlocks.forEach((block, i) => {
+      const label = i === 0 ? 'ID block' : `Backup ID block ${i}`;
+      if (!block.valid) {
+        issues.push({
+          code: 'id-block-checksum',
+          severity: i === 0 ? 'error' : 'warning',
+          message: `${label} has an invalid checksum`,
+          repairable: true,
+        });
+      } else if (!buffer.subarray(block.offset, block.offset + ID_BLOCK_SIZE).equals(referenceBytes)) {
+        issues.push({
+          code: 'id-block-mismatch',
+          severity: 'warning',
+          message: `${label} differs from the other ID block copies`,
+          repairable: true,
+        });
+      }
+    });
+  }
+
+  // Inode table and its backup
+  const primaryValid = buffer[INODE_TABLE_OFFSET + 1] === calculateInodeChecksum(buffer);
+  const backupValid = buffer[INODE_BACKUP_OFFSET + 1] === calculateInodeChecksum(buffer, INODE_BACKUP_OFFSET);
+  if (!primaryValid) {
+    issues.push({
+      code: 'inode-checksum',
+      severity: 'error',
+      message: backupValid
+        ? 'Inode table has an invalid checksum (backup copy is intact)'
+        : 'Inode table and its backup both have invalid checksums',
+      repairable: true,
+    });
+  }
+  if (!backupValid) {
+    issues.push({
+      code: 'inode-checksum',
+      severity: 'warning',
+      message: 'Backup inode table has an invalid checksum',
+      repairable: true,
+    });
+  } else if (
+    primaryValid &&
+    !buffer.subarray(INODE_TABLE_OFFSET, INODE_TABLE_OFFSET + PAK_PAGE_SIZE)
+      .equals(buffer.subarray(INODE_BACKUP_OFFSET, INODE_BACKUP_OFFSET + PAK_PAGE_SIZE))
+  ) {
+    issues.push({
+      code: 'inode-backup-mismatch',
+      severity: 'warning',
+      message: 'Backup inode table differs from the primary',
+      repairable: true,
+    });
+  }
+
+  // Page chains, using whichever inode table the repair would keep
+  const inodes = readInodeTable(buffer, selectInodeTableOffset(buffer));
+  const notes = parseNotes(buffer, inodes);
+  const owners = new Map<number, number>();
+
+  for (const note of notes) {
+    if (inodes[note.startPage] === INODE_FREE) {
+      issues.push({
+        code: 'note-free-page',
+        severity: 'error',
+        message: `Note "${note.name || note.gameCode}" starts on free page ${note.startPage}`,
+        repairable: false,
+        noteIndex: note.index,
+        pages: [note.startPage],
+      });
+      continue;
+    }
+    if (note.chainError) {
+      issues.push({
+        code: 'broken-chain',
+        severity: 'error',
+        message: `Note "${note.name || note.gameCode}": ${note.chainError}`,
+        repairable: false,
+        noteIndex: note.index,
+      });
+    }
+
+    const shared = note.pages.filter(page => owners.has(page));
+    if (shared.length > 0) {
+      issues.push({
+        code: 'cross-linked',
+        severity: 'error',
+        message: `Note "${note.name || note.gameCode}" shares ${shared.length} page(s) with note ${owners.get(shared[0])}`,
+        repairable: false,
+        noteIndex: note.index,
+        pages: shared,
+      });
+    }
+    note.pages.forEach(page => owners.set(page, note.index));
+  }
+
+  const orphaned = findOrphanedPages(inodes, notes);
+  if (orphaned.length > 0) {
+    const damaged = hasDamagedChains(inodes, notes);
+    issues.push({
+      code: 'orphaned-pages',
+      severity: 'warning',
+      message: damaged
+        ? `${orphaned.length} page(s) are allocated but not reached by any note; kept because a note's page chain is damaged`
+        : `${orphaned.length} page(s) are allocated but not used by any note`,
+      repairable: !damaged,
+      pages: orphaned,
+    });
+  }
+
+  return {
+    valid: issues.every(issue => issue.severity !== 'error'),
+    repairable: issues.some(issue => issue.repairable),
+    issues,
+  };
+}
+
+/**
+ * Repair a controller pak: restore the ID block and inode table from intact
+ * copies, rebuild the backup copies and free orphaned pages
+ * Returns a new buffer along with the issues that remain afterwards. Broken
+ * or cross-linked note chains are left alone since repairing them would
+ * mean discarding save data, and while any are present orphaned pages are
+ * kept too, since they may be the rest of a broken chain.
+ */
+export function repairControllerPak(pak: Buffer): { buffer: Buffer; validation: ControllerPakValidation } {
+  if (pak.length !== PAK_TOTAL_PAGES * PAK_PAGE_SIZE) {
+    throw new Error(`Invalid controller pak: ${pak.length} bytes, expected ${PAK_TOTAL_PAGES * PAK_PAGE_SIZE}`);
+  }
+
+  const buffer = Buffer.from(pak);
+
+  // Copy the first intact ID block over every copy, or format a new one
+  const reference = ID_BLOCK_OFFSETS.map(offset => readIdBlock(buffer, offset)).find(b => b.valid);
+  const idBlock = reference
+    ? Buffer.from(buffer.subarray(reference.offset, reference.offset + ID_BLOCK_SIZE))
+    : createIdBlock();
+  for (const offset of ID_BLOCK_OFFSETS) {
+    idBlock.copy(buffer, offset);
+  }
+
+  // Restore the primary inode table from the backup if only the backup is intact
+  const tableOffset = selectInodeTableOffset(buffer);
+  if (tableOffset !== INODE_TABLE_OFFSET) {
+    buffer.copy(buffer, INODE_TABLE_OFFSET, tableOffset, tableOffset + PAK_PAGE_SIZE);
+  }
+
+  const inodes = readInodeTable(buffer);
+  const notes = parseNotes(buffer, inodes);
+  if (!hasDamagedChains(inodes, notes)) {
+    for (const page of findOrphanedPages(inodes, notes)) {
+      inodes[page] = INODE_FREE;
+    }
+  }
+  writeInodeTable(buffer, inodes);
+
+  return { buffer, validation: validateControllerPak(buffer) };
+}
+
+// =============================================================================
+// Merging
+// =============================================================================
+
+/**
+ * Remove every note from a pak and free its data pages
+ * Returns a new buffer; the ID sector is kept as-is.
+ */
+export function clearNotes(pak: Buffer): Buffer {
+  const buffer = Buffer.from(pak);
+  buffer.fill(0x00, NOTE_TABLE_OFFSET, NOTE_TABLE_OFFSET + NOTE_COUNT * NOTE_ENTRY_SIZE);
+
+  const inodes = readInodeTable(buffer);
+  for (let page = FIRST_DATA_PAGE; page < PAK_TOTAL_PAGES; page++) {
+    inodes[page] = INODE_FREE;
+  }
+  writeInodeTable(buffer, inodes);
+
+  return buffer;
+}
+
+/**
+ * Build a pak holding exactly the given notes, keeping the base pak's ID
+ * sector. Throws before building anything if the notes won't fit.
+ */
+export function buildMergedPak(base: Buffer, notes: Pick<NoteFile, 'entry' | 'data'>[]): Buffer {
+  if (notes.length > NOTE_COUNT) {
+    throw new Error(`Selected ${notes.length} saves but a controller pak only holds ${NOTE_COUNT}`);
+  }
+
+  const capacity = PAK_TOTAL_PAGES - FIRST_DATA_PAGE;
+  const pagesNeeded = notes.reduce((sum, note) => sum + note.data.length / PAK_PAGE_SIZE, 0);
+  if (pagesNeeded > capacity) {
+    throw new Error(`Selected saves need ${pagesNeeded} pages but a controller pak only holds ${capacity}`);
+  }
+
+  let buffer = repairControllerPak(clearNotes(base)).buffer;
+  for (const note of notes) {
+    buffer = insertNote(buffer, note).buffer;
+  }
+  return buffer;
+}
+
+/** Which side's copy of a note a three-way merge keeps */
+export type NoteMergeResolution = 'local' | 'sd' | 'drop' | 'conflict';
+
+export interface NoteMergePlanEntry {
+  gameCode: string;
+  publisherCode: string;
+  name: string;
+  extension: string;
+  /** Note slot on each side, when the side has the note */
+  local?: number;
+  sd?: number;
+  /**
+   * local/sd: keep that side's copy
+   * drop: deleted on one side and unchanged on the other
+   * conflict: changed differently on both sides, or no base to tell
+   */
+  resolution: NoteMergeResolution;
+}
+
+function noteIdentity(note: ControllerPakNote): string {
+  return `${note.gameCode}|${note.publisherCode}|${note.name}|${note.extension}`;
+}
+
+/**
+ * Index a pak's intact notes by identity; the first of any duplicates wins
+ */
+function indexNotes(buffer: Buffer): Map<string, ControllerPakNote> {
+  const notes = new Map<string, ControllerPakNote>();
+  for (const note of parseNotes(buffer)) {
+    if (!notes.has(noteIdentity(note))) notes.set(noteIdentity(note), note);
+  }
+  return notes;
+}
+
+/**
+ * Count the notes two paks hold with the same identity and identical data
+ */
+export function countSharedNotes(a: Buffer, b: Buffer): number {
+  const bNotes = indexNotes(b);
+  let shared = 0;
+  for (const [key, note] of indexNotes(a)) {
+    const other = bNotes.get(key);
+    if (other && !note.chainError && !other.chainError && readNoteData(a, note).equals(readNoteData(b, other))) {
+      shared++;
+    }
+  }
+  return shared;
+}
+
+/**
+ * Plan a three-way merge of two paks' notes against their common base
+ * A note added, changed or deleted on one side only takes that side's
+ * version. One changed differently on both sides is a conflict, as is every
+ * difference when there is no base. Notes with broken chains are always
+ * conflicts.
+ */
+export function planNoteMerge(base: Buffer | null, local: Buffer, sd: Buffer): NoteMergePlanEntry[] {
+  const localNotes = indexNotes(local);
+  const sdNotes = indexNotes(sd);
+  const baseNotes = base ? indexNotes(base) : null;
+
+  const same = (a: Buffer | null, b: Buffer | null) => (a === null ? b === null : b !== null && a.equals(b));
+  const plan: NoteMergePlanEntry[] = [];
+
+  for (const key of new Set([...localNotes.keys(), ...sdNotes.keys()])) {
+    const localNote = localNotes.get(key);
+    const sdNote = sdNotes.get(key);
+    const baseNote = baseNotes?.get(key);
+    const note = (localNote ?? sdNote)!;
+
+    const localData = localNote ? readNoteData(local, localNote) : null;
+    const sdData = sdNote ? readNoteData(sd, sdNote) : null;
+    const baseData = base && baseNote ? readNoteData(base, baseNote) : null;
+
+    let resolution: NoteMergeResolution;
+    if (localNote?.chainError || sdNote?.chainError || baseNote?.chainError) {
+      resolution = 'conflict';
+    } else if (same(localData, sdData)) {
+      resolution = 'local';
+    } else if (base && same(localData, baseData)) {
+      resolution = sdNote ? 'sd' : 'drop';
+    } else if (base && same(sdData, baseData)) {
+      resolution = localNote ? 'local' : 'drop';
+    } else {
+      resolution = 'conflict';
+    }
+
+    plan.push({
+      gameCode: note.gameCode,
+      publisherCode: note.publisherCode,
+      name: note.name,
+      extension: note.extension,
+      ...(localNote ? { local: localNote.index } : {}),
+      ...(sdNote ? { sd: sdNote.index } : {}),
+      resolution,
+    });
+  }
+
+  return plan;
+}
+
+// =============================================================================
+// Diffing
+// =============================================================================
+
+export interface ControllerPakNoteChange {
+  change: 'added' | 'removed' | 'modified';
+  gameCode: string;
+  publisherCode: string;
+  name: string;
+  extension: string;
+  /** Page count before and after the change (0 when absent) */
+  pagesBefore: number;
+  pagesAfter: number;
+}
+
+export interface ControllerPakDiff {
+  /** Pages (including system pages 0-4) whose bytes differ */
+  changedPages: number[];
+  /** Data pages that were free before and allocated after */
+  pagesAdded: number[];
+  /** Data pages that were allocated before and free after */
+  pagesFreed: number[];
+  /** Number of bytes that differ between the two paks */
+  byteDelta: number;
+  pagesUsedDelta: number;
+  notes: ControllerPakNoteChange[];
+}
+
+/**
+ * Read the data pages of a note as one buffer, following its parsed chain
+ */
+function readNoteData(buffer: Buffer, note: ControllerPakNote): Buffer {
+  return Buffer.concat(note.pages.map(page => buffer.subarray(page * PAK_PAGE_SIZE, (page + 1) * PAK_PAGE_SIZE)));
+}
+
+/**
+ * Compare two controller paks page by page and note by note
+ * Notes are matched by game code, publisher, name and extension, so a save
+ * that moved to different pages still counts as the same note.
+ */
+export function diffControllerPaks(before: Buffer, after: Buffer): ControllerPakDiff {
+  const oldPak = parseControllerPak(before);
+  const newPak = parseControllerPak(after);
+
+  const changedPages: number[] = [];
+  let byteDelta = 0;
+  for (let page = 0; page < PAK_TOTAL_PAGES; page++) {
+    let pageChanged = false;
+    for (let offset = page * PAK_PAGE_SIZE; offset < (page + 1) * PAK_PAGE_SIZE; offset++) {
+      if (before[offset] !== after[offset]) {
+        byteDelta++;
+        pageChanged = true;
+      }
+    }
+    if (pageChanged) changedPages.push(page);
+  }
+
+  const oldInodes = readInodeTable(before);
+  const newInodes = readInodeTable(after);
+  const pagesAdded: number[] = [];
+  const pagesFreed: number[] = [];
+  for (let page = FIRST_DATA_PAGE; page < PAK_TOTAL_PAGES; page++) {
+    const wasFree = oldInodes[page] === INODE_FREE;
+    const isFree = newInodes[page] === INODE_FREE;
+    if (wasFree && !isFree) pagesAdded.push(page);
+    if (!wasFree && isFree) pagesFreed.push(page);
+  }
+
+  // Pair notes with the same identity in slot order
+  const noteKey = (note: ControllerPakNote) =>
+    `${note.gameCode}|${note.publisherCode}|${note.name}|${note.extension}`;
+  const unmatched = new Map<string, ControllerPakNote[]>();
+  for (const note of oldPak.notes) {
+    const list = unmatched.get(noteKey(note)) ?? [];
+    list.push(note);
+    unmatched.set(noteKey(note), list);
+  }
+
+  const notes: ControllerPakNoteChange[] = [];
+  const describe = (note: ControllerPakNote) => ({
+    gameCode: note.gameCode,
+    publisherCode: note.publisherCode,
+    name: note.name,
+    extension: note.extension,
+  });
+
+  for (const note of newPak.notes) {
+    const previous = unmatched.get(noteKey(note))?.shift();
+    if (!previous) {
+      notes.push({ change: 'added', ...describe(note), pagesBefore: 0, pagesAfter: note.pageCount });
+    } else if (!readNoteData(before, previous).equals(readNoteData(after, note))) {
+      notes.push({ change: 'modified', ...describe(note), pagesBefore: previous.pageCount, pagesAfter: note.pageCount });
+    }
+  }
+  for (const remaining of unmatched.values()) {
+    for (const note of remaining) {
+      notes.push({ change: 'removed', ...describe(note), pagesBefore: note.pageCount, pagesAfter: 0 });
+    }
+  }
+
+  return {
+    changedPages,
+    pagesAdded,
+    pagesFreed,
+    byteDelta,
+    pagesUsedDelta: newPak.pagesUsed - oldPak.pagesUsed,
+    notes,
+  };
+}
@@ -7,29 +7,36 @@
 import { readFile } from 'fs/promises';
 import path from 'path';
 
-interface CartNameEntry {
+export interface CartNameEntry {
   id: string;
   name: string;
   region?: string;
   languages?: string[];
   videoMode?: 'NTSC' | 'PAL' | 'Unknown';
+  releaseType?: string; // e.g. 'official', 'beta', 'aftermarket'
   gameCode?: string;
 }
 
 let cartNameMap: Map<string, CartNameEntry> = new Map();
+let gameCodeMap: Map<string, CartNameEntry> = new Map();
 let loaded = false;
 
 async function ensureLoaded(): Promise<void> {
   if (loaded) return;
 
   try {
-    const dbPath = path.join(process.cwd(), 'data', 'cart-database.json');
+    const dbPath = path.join(process.cwd(), 'data', 'cart-names.json');
     const content = await readFile(dbPath, 'utf-8');
-    const database = JSON.parse(content);
+    const carts = JSON.parse(content) as CartNameEntry[];
     cartNameMap = new Map();
+    gameCodeMap = new Map();
 
-    for (const cart of database.carts || []) {
+    for (const cart of carts) {
       cartNameMap.set(cart.id.toLowerCase(), cart);
+      // Several revisions can share a game code; keep the first listed
+      if (cart.gameCode && !gameCodeMap.has(cart.gameCode)) {
+        gameCodeMap.set(cart.gameCode, cart);
+      }
     }
     loaded = true;
   } catch (error) {
@@ -48,3 +55,24 @@ export async function lookupGameName(cartId: string): Promise<string | undefined
   const entry = cartNameMap.get(cartId.toLowerCase());
   return entry?.name;
 }
+
+/**
+ * Look up a game name by its 4-character game code (e.g. "NKTE")
+ * @param gameCode The game code from the ROM header or a controller pak note
+ * @returns The game name if found, or undefined if not found
+ */
+export async function lookupGameNameByCode(gameCode: string): Promise<string | undefined> {
+  await ensureLoaded();
+  const entry = gameCodeMap.get(gameCode.toUpperCase());
+  return entry?.name;
+}
+
+/**
+ * Look up a cart's database entry (name, region, video mode, etc.) by cart ID
+ * @param cartId The 8-character hex cart ID
+ * @returns The entry if found, or undefined if not found
+ */
+export async function lookupCartMetadata(cartId: string): Promise<CartNameEntry | undefined> {
+  await ensureLoaded();
+  return cartNameMap.get(cartId.toLowerCase());
+}
@@ -1,8 +1,27 @@
-import { readFile, writeFile, stat, copyFile, unlink, mkdir } from 'fs/promises';
+import { readFile, writeFile, stat, unlink, mkdir, readdir, rename } from 'fs/promises';
 import { existsSync } from 'fs';
 import path from 'path';
 import { createHash, randomUUID } from 'crypto';
 import { findGameFolder, ensureLocalGameFolder, getLocalGamesDir } from './cartridge-settings.js';
+import {
+  parseControllerPak,
+  extractNote,
+  serializeNoteFile,
+  parseNoteFile,
+  insertNote,
+  buildMergedPak,
+  validateControllerPak,
+  repairControllerPak,
+  diffControllerPaks,
+  countSharedNotes,
+  planNoteMerge,
+  type NoteMergePlanEntry,
+  type ControllerPakDiff,
+  type ControllerPakFilesystem,
+  type ControllerPakIssue,
+  type ControllerPakValidation,
+  type NoteFileFormat,
+} from './controller-pak.js';
 
 // =============================================================================
 // Constants
@@ -25,6 +44,14 @@ export const CONTROLLER_PAK_PAGE_COUNT = 123;
 
 export const GAME_PAK_FILENAME = 'controller_pak.img';
 
+/**
+ * Pak slots: the active slot is controller_pak.img, the image the A3D loads
+ * and the only one synced to the SD card. Named slots (e.g. one per player)
+ * are stored next to it as controller_pak.<slot>.img in the local game folder.
+ */
+export const ACTIVE_PAK_SLOT = 'active';
+const PAK_SLOT_PATTERN = /^[a-z0-9][a-z0-9_-]{0,31}$/;
+
 /**
  * Directory for game pak backups (separate from the active game paks)
  */
@@ -48,7 +75,11 @@ export interface GamePakInfo {
   lastModified?: string;
   isValidSize?: boolean;
   saveInfo?: GamePakSaveDetails;
+  /** Filesystem integrity check, present when the pak has a valid size */
+  integrity?: ControllerPakValidation;
   md5Hash?: string;
+  /** Pak slot, present for named local slots */
+  slot?: string;
 }
 
 export interface GamePakSyncStatus {
@@ -65,6 +96,8 @@ export interface GamePakBackup {
   createdAt: string;
   md5Hash: string;
   size: number;
+  tags?: string[]; // e.g. 'auto' for backups made before a destructive write
+  slot?: string; // Named pak slot the backup was taken from; absent for the active pak
 }
 
 export interface GamePakBackupsMetadata {
@@ -77,16 +110,55 @@ export interface GamePakBackupsMetadata {
 // Path Helpers
 // =============================================================================
 
+/**
+ * Get the filename of a pak slot
+ */
+export function getGamePakFilename(slot: string = ACTIVE_PAK_SLOT): string {
+  return slot === ACTIVE_PAK_SLOT ? GAME_PAK_FILENAME : `controller_pak.${slot}.img`;
+}
+
+/**
+ * Get the pak slot a filename belongs to, or null if it isn't a game pak
+ */
+export function parseGamePakFilename(filename: string): string | null {
+  if (filename === GAME_PAK_FILENAME) {
+    return ACTIVE_PAK_SLOT;
+  }
+  const match = filename.match(/^controller_pak\.(.+)\.img$/);
+  return match && PAK_SLOT_PATTERN.test(match[1]) && match[1] !== ACTIVE_PAK_SLOT ? match[1] : null;
+}
+
+/**
+ * Validate and normalize a named pak slot
+ * Throws if the name is invalid or refers to the active slot.
+ */
+export function validatePakSlotName(slot: unknown): string {
+  if (typeof slot !== 'string') {
+    throw new Error('Pak slot name is required');
+  }
+  const normalized = slot.trim().toLowerCase();
+  if (normalized === ACTIVE_PAK_SLOT) {
+    throw new Error(`"${ACTIVE_PAK_SLOT}" is reserved for the active game pak`);
+  }
+  if (!PAK_SLOT_PATTERN.test(normalized)) {
+    throw new Error('Pak slot names use up to 32 letters, digits, dashes or underscores');
+  }
+  return normalized;
+}
+
 /**
  * Get the game pak path for a cart ID in local storage
  */
-export async function getLocalGamePakPath(cartId: string): Promise<string | null> {
+export async function getLocalGamePakPath(
+  cartId: string,
+  slot: string = ACTIVE_PAK_SLOT
+): Promise<string | null> {
   const localGamesDir = getLocalGamesDir();
   const gameFolder = await findGameFolder(localGamesDir, cartId);
   if (!gameFolder) {
     return null;
   }
-  return path.join(gameFolder, GAME_PAK_FILENAME);
+  return path.join(gameFolder, getGamePakFilename(slot));
 }
 
 /**
@@ -249,6 +321,7 @@ export async function getGamePakInfo(
       if (stats.size === CONTROLLER_PAK_SIZE) {
         localBuffer = await readFile(localPath);
         localInfo.saveInfo = getGamePakSaveInfo(localBuffer);
+        localInfo.integrity = validateControllerPak(localBuffer);
         if (includeHash) {
           localInfo.md5Hash = computeGamePakHash(localBuffer);
         }
@@ -281,6 +354,7 @@ export async function getGamePakInfo(
         if (stats.size === CONTROLLER_PAK_SIZE) {
           sdBuffer = await readFile(sdPath);
           sdInfo.saveInfo = getGamePakSaveInfo(sdBuffer);
+          sdInfo.integrity = validateControllerPak(sdBuffer);
           if (includeHash) {
             sdInfo.md5Hash = computeGamePakHash(sdBuffer);
           }
@@ -320,8 +394,11 @@ export async function readGamePak(filePath: string): Promise<Buffer> {
 /**
  * Read local game pak for a cartridge
  */
-export async function readLocalGamePak(cartId: string): Promise<Buffer | null> {
-  const localPath = await getLocalGamePakPath(cartId);
+export async function readLocalGamePak(
+  cartId: string,
+  slot: string = ACTIVE_PAK_SLOT
+): Promise<Buffer | null> {
+  const localPath = await getLocalGamePakPath(cartId, slot);
 
   if (!localPath || !existsSync(localPath)) {
     return null;
@@ -330,17 +407,123 @@ export async function readLocalGamePak(cartId: string): Promise<Buffer | null> {
   return readFile(localPath);
 }
 
+/**
+ * Read SD card game pak for a cartridge
+ */
+export async function readSDGamePak(sdCardPath: string, cartId: string): Promise<Buffer | null> {
+  const sdPath = await getSDGamePakPath(sdCardPath, cartId);
+
+  if (!sdPath || !existsSync(sdPath)) {
+    return null;
+  }
+
+  return readFile(sdPath);
+}
+
+/**
+ * Read a cartridge's game pak from local storage or the SD card
+ */
+async function readGamePakFromSource(
+  cartId: string,
+  source: 'local' | 'sd',
+  sdCardPath?: string
+): Promise<Buffer | null> {
+  if (source === 'sd') {
+    if (!sdCardPath) {
+      throw new Error('SD card path is required');
+    }
+    return readSDGamePak(sdCardPath, cartId);
+  }
+  return readLocalGamePak(cartId);
+}
+
+/**
+ * Parse the notes (individual game saves) stored in a cartridge's game pak
+ * Returns null if the game pak doesn't exist
+ */
+export async function getGamePakNotes(
+  cartId: string,
+  source: 'local' | 'sd' = 'local',
+  sdCardPath?: string
+): Promise<ControllerPakFilesystem | null> {
+  const buffer = await readGamePakFromSource(cartId, source, sdCardPath);
+  if (!buffer) {
+    return null;
+  }
+
+  return parseControllerPak(buffer);
+}
+
+/**
+ * Export a single note from a cartridge's game pak as a note file
+ * Returns null if the game pak doesn't exist
+ */
+export async function exportGamePakNote(
+  cartId: string,
+  noteIndex: number,
+  format: NoteFileFormat = 'note',
+  source: 'local' | 'sd' = 'local',
+  sdCardPath?: string
+): Promise<{ buffer: Buffer; filename: string } | null> {
+  const pak = await readGamePakFromSource(cartId, source, sdCardPath);
+  if (!pak) {
+    return null;
+  }
+
+  const note = parseControllerPak(pak).notes.find(n => n.index === noteIndex);
+  const extracted = extractNote(pak, noteIndex);
+  const baseName = `${note?.gameCode || cartId}-${note?.name || `note${noteIndex}`}`
+    .replace(/[^A-Za-z0-9-]+/g, '_');
+
+  return {
+    buffer: serializeNoteFile(extracted, format),
+    filename: `${baseName}.${format}`,
+  };
+}
+
+/**
+ * Insert a note file (.note or DexDrive .n64) into a cartridge's local game pak
+ * Creates an empty game pak first if the cartridge doesn't have one.
+ */
+export async function importGamePakNote(
+  cartId: string,
+  noteFileBuffer: Buffer,
+  title: string = 'Unknown Cartridge'
+): Promise<{ noteIndex: number; path: string }> {
+  const noteFile = parseNoteFile(noteFileBuffer);
+  const pak = (await readLocalGamePak(cartId)) ?? repairControllerPak(createEmptyGamePak()).buffer;
+
+  const { buffer, noteIndex } = insertNote(pak, noteFile);
+  const savedPath = await saveLocalGamePak(cartId, buffer, title, 'Before save import');
+
+  return { noteIndex, path: savedPath };
+}
+
 // =============================================================================
 // Write Operations
 // =============================================================================
 
+/**
+ * Write a game pak file through a temporary file and a rename, so an
+ * interrupted write never leaves a partial pak behind
+ */
+async function writeGamePakFile(filePath: string, buffer: Buffer): Promise<void> {
+  const tempPath = `${filePath}.tmp`;
+  await writeFile(tempPath, buffer, { flush: true });
+  await rename(tempPath, filePath);
+}
+
 /**
  * Save a game pak to local storage
+ * The pak being replaced is backed up automatically, unless backupReason is
+ * null because the caller has already backed it up.
  */
 export async function saveLocalGamePak(
   cartId: string,
   buffer: Buffer,
-  title: string = 'Unknown Cartridge'
+  title: string = 'Unknown Cartridge',
+  backupReason: string | null = 'Before overwrite',
+  slot: string = ACTIVE_PAK_SLOT
 ): Promise<string> {
   // Validate the buffer
   const validation = validateGamePak(buffer);
@@ -348,10 +531,14 @@ export async function saveLocalGamePak(
     throw new Error(`Invalid game pak: ${validation.errors.join(', ')}`);
   }
 
+  if (backupReason !== null) {
+    await createAutoBackup(cartId, await readLocalGamePak(cartId, slot), backupReason, buffer, slot);
+  }
+
   const folderPath = await ensureLocalGameFolder(cartId, title);
-  const gamePakPath = path.join(folderPath, GAME_PAK_FILENAME);
+  const gamePakPath = path.join(folderPath, getGamePakFilename(slot));
 
-  await writeFile(gamePakPath, buffer);
+  await writeGamePakFile(gamePakPath, buffer);
 
   return gamePakPath;
 }
@@ -377,10 +564,13 @@ export async function downloadGamePakFromSD(
   }
 
   try {
+    const sdBuffer = await readGamePak(sdGamePakPath);
+    await createAutoBackup(cartId, await readLocalGamePak(cartId), 'Before download from SD card', sdBuffer);
+
     const folderPath = await ensureLocalGameFolder(cartId, title);
     const localPath = path.join(folderPath, GAME_PAK_FILENAME);
 
-    await copyFile(sdGamePakPath, localPath);
+    await writeGamePakFile(localPath, sdBuffer);
 
     return { success: true, path: localPath };
   } catch (error) {
@@ -392,19 +582,53 @@ export async function downloadGamePakFromSD(
 }
 
 /**
- * Delete local game pak for a cartridge
+ * Delete local game pak (or a named pak slot) for a cartridge
  */
-export async function deleteLocalGamePak(cartId: string): Promise<boolean> {
-  const localPath = await getLocalGamePakPath(cartId);
+export async function deleteLocalGamePak(
+  cartId: string,
+  slot: string = ACTIVE_PAK_SLOT
+): Promise<boolean> {
+  const localPath = await getLocalGamePakPath(cartId, slot);
 
   if (!localPath || !existsSync(localPath)) {
     return false;
   }
 
+  await createAutoBackup(cartId, await readGamePak(localPath), 'Before delete', undefined, slot);
   await unlink(localPath);
   return true;
 }
 
+/**
+ * Repair the local game pak's filesystem
+ * The original is backed up automatically first, and the repaired pak is
+ * written atomically. Returns the issues that were fixed and the validation
+ * result after the repair.
+ */
+export async function repairLocalGamePak(cartId: string): Promise<{
+  repaired: ControllerPakIssue[];
+  validation: ControllerPakValidation;
+  backup: GamePakBackup | null;
+}> {
+  const localPath = await getLocalGamePakPath(cartId);
+  const buffer = await readLocalGamePak(cartId);
+  if (!localPath || !buffer) {
+    throw new Error('No local game pak to repair');
+  }
+
+  const before = validateControllerPak(buffer);
+  const repairable = before.issues.filter(issue => issue.repairable);
+  if (repairable.length === 0) {
+    return { repaired: [], validation: before, backup: null };
+  }
+
+  const { buffer: repairedBuffer, validation } = repairControllerPak(buffer);
+  const backup = await createAutoBackup(cartId, buffer, 'Before repair', repairedBuffer);
+  await writeGamePakFile(localPath, repairedBuffer);
+
+  return { repaired: repairable, validation, backup };
+}
+
 /**
  * Upload local game pak to SD card
  */
@@ -439,8 +663,16 @@ export async function uploadGamePakToSD(
   }
 
   try {
+    const localBuffer = await readGamePak(localPath);
+    await createAutoBackup(
+      cartId,
+      await readSDGamePak(sdCardPath, cartId),
+      'Before upload to SD card (SD card copy)',
+      localBuffer
+    );
+
     const sdGamePakPath = path.join(sdGameFolder, GAME_PAK_FILENAME);
-    await copyFile(localPath, sdGamePakPath);
+    await writeGamePakFile(sdGamePakPath, localBuffer);
     return { success: true, path: sdGamePakPath };
   } catch (error) {
     return {
@@ -450,6 +682,234 @@ export async function uploadGamePakToSD(
   }
 }
 
+/** Note slots to keep from each side when merging */
+export interface GamePakMergeSelection {
+  local: number[];
+  sd: number[];
+}
+
+export interface GamePakMergePlan {
+  /** The backup used as the common base, or null for a two-way merge */
+  base: GamePakBackup | null;
+  notes: NoteMergePlanEntry[];
+  conflicts: number;
+}
+
+/**
+ * Find the common base for a three-way merge of the local and SD card paks
+ * This is the newest backup of the active pak that still shares an
+ * unchanged save with each side, skipping backups identical to either side
+ * (those are a side's own current state, not an ancestor of both).
+ */
+async function findMergeBase(
+  cartId: string,
+  localPak: Buffer,
+  sdPak: Buffer
+): Promise<{ backup: GamePakBackup; buffer: Buffer } | null> {
+  const candidates = (await listBackups(cartId))
+    .filter(backup => !backup.slot)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  for (const backup of candidates) {
+    const buffer = await getBackupBuffer(cartId, backup.id);
+    if (!buffer || !validateGamePak(buffer).valid || buffer.equals(localPak) || buffer.equals(sdPak)) {
+      continue;
+    }
+    if (countSharedNotes(buffer, localPak) > 0 && countSharedNotes(buffer, sdPak) > 0) {
+      return { backup, buffer };
+    }
+  }
+
+  return null;
+}
+
+async function readPaksToMerge(cartId: string, sdCardPath: string): Promise<{ localPak: Buffer; sdPak: Buffer }> {
+  const localPak = await readLocalGamePak(cartId);
+  const sdPak = await readSDGamePak(sdCardPath, cartId);
+  if (!localPak || !sdPak) {
+    throw new Error('Merging requires both a local and an SD card game pak');
+  }
+  return { localPak, sdPak };
+}
+
+/**
+ * Plan a three-way merge of the local and SD card game paks
+ * Notes changed on one side only are resolved automatically; notes changed
+ * on both sides (or every difference, when no base backup is found) are
+ * conflicts for the user to pick.
+ */
+export async function planGamePakMerge(cartId: string, sdCardPath: string): Promise<GamePakMergePlan> {
+  const { localPak, sdPak } = await readPaksToMerge(cartId, sdCardPath);
+  const base = await findMergeBase(cartId, localPak, sdPak);
+  const notes = planNoteMerge(base?.buffer ?? null, localPak, sdPak);
+
+  return {
+    base: base?.backup ?? null,
+    notes,
+    conflicts: notes.filter(note => note.resolution === 'conflict').length,
+  };
+}
+
+/**
+ * Merge the local and SD card game paks note-by-note
+ * Without a selection, the three-way plan is applied and the merge is
+ * refused if any note is in conflict. Both original paks are backed up
+ * before the merged pak is written to local storage and the SD card.
+ */
+export async function mergeGamePaks(
+  cartId: string,
+  sdCardPath: string,
+  selection?: GamePakMergeSelection,
+  title: string = 'Unknown Cartridge'
+): Promise<{ path: string; sdPath: string; noteCount: number; pagesUsed: number; backups: GamePakBackup[] }> {
+  const { localPak, sdPak } = await readPaksToMerge(cartId, sdCardPath);
+
+  if (!selection) {
+    const base = await findMergeBase(cartId, localPak, sdPak);
+    const plan = planNoteMerge(base?.buffer ?? null, localPak, sdPak);
+    const conflicts = plan.filter(note => note.resolution === 'conflict').length;
+    if (conflicts > 0) {
+      throw new Error(`${conflicts} save(s) changed on both sides; choose which copy to keep`);
+    }
+    selection = {
+      local: plan.filter(note => note.resolution === 'local').map(note => note.local!),
+      sd: plan.filter(note => note.resolution === 'sd').map(note => note.sd!),
+    };
+  }
+
+  const notes = [
+    ...selection.local.map(index => extractNote(localPak, index)),
+    ...selection.sd.map(index => extractNote(sdPak, index)),
+  ];
+  const merged = buildMergedPak(localPak, notes);
+
+  const date = new Date().toISOString().split('T')[0];
+  const backups = [
+    await createBackup(cartId, `Before merge (local) ${date}`, 'Local game pak before merging with the SD card', localPak),
+    await createBackup(cartId, `Before merge (SD card) ${date}`, 'SD card game pak before merging with local', sdPak),
+  ];
+
+  // Both sides were backed up above, so skip the automatic backup
+  const localPath = await saveLocalGamePak(cartId, merged, title, null);
+  const upload = await uploadGamePakToSD(cartId, sdCardPath, title);
+  if (!upload.success || !upload.path) {
+    throw new Error(upload.error || 'Failed to write merged game pak to SD card');
+  }
+
+  const pak = parseControllerPak(merged);
+  return {
+    path: localPath,
+    sdPath: upload.path,
+    noteCount: pak.notes.length,
+    pagesUsed: pak.pagesUsed,
+    backups,
+  };
+}
+
+// =============================================================================
+// Pak Slots
+// =============================================================================
+
+/**
+ * List a cartridge's named pak slots (the active pak is not included)
+ */
+export async function listGamePakSlots(cartId: string): Promise<GamePakInfo[]> {
+  const gameFolder = await findGameFolder(getLocalGamesDir(), cartId);
+  if (!gameFolder) {
+    return [];
+  }
+
+  const slots: GamePakInfo[] = [];
+  for (const filename of (await readdir(gameFolder)).sort()) {
+    const slot = parseGamePakFilename(filename);
+    if (!slot || slot === ACTIVE_PAK_SLOT) continue;
+
+    const slotPath = path.join(gameFolder, filename);
+    const stats = await stat(slotPath);
+    const info: GamePakInfo = {
+      exists: true,
+      source: 'local',
+      path: slotPath,
+      size: stats.size,
+      lastModified: stats.mtime.toISOString(),
+      isValidSize: stats.size === CONTROLLER_PAK_SIZE,
+      slot,
+    };
+    if (info.isValidSize) {
+      const buffer = await readFile(slotPath);
+      info.saveInfo = getGamePakSaveInfo(buffer);
+      info.md5Hash = computeGamePakHash(buffer);
+    }
+    slots.push(info);
+  }
+
+  return slots;
+}
+
+/**
+ * Create a named pak slot holding a freshly formatted pak or a copy of the
+ * active pak
+ */
+export async function createGamePakSlot(
+  cartId: string,
+  slotName: string,
+  source: 'empty' | 'active' = 'empty',
+  title: string = 'Unknown Cartridge'
+): Promise<string> {
+  const slot = validatePakSlotName(slotName);
+  if (await readLocalGamePak(cartId, slot)) {
+    throw new Error(`Pak slot "${slot}" already exists`);
+  }
+
+  const buffer = source === 'active'
+    ? await readLocalGamePak(cartId)
+    : repairControllerPak(createEmptyGamePak()).buffer;
+  if (!buffer) {
+    throw new Error('No local game pak to copy');
+  }
+
+  return saveLocalGamePak(cartId, buffer, title, 'Before overwrite', slot);
+}
+
+/**
+ * Swap a named pak slot with the active pak
+ * Nothing is lost: the previously active pak takes the slot's place (or the
+ * slot is emptied when there was no active pak). With an SD card path, the
+ * new active pak is uploaded so the A3D picks it up.
+ */
+export async function swapGamePakSlot(
+  cartId: string,
+  slotName: string,
+  sdCardPath?: string,
+  title: string = 'Unknown Cartridge'
+): Promise<{ syncedToSD?: boolean }> {
+  const slot = validatePakSlotName(slotName);
+  const slotPath = await getLocalGamePakPath(cartId, slot);
+  const slotPak = await readLocalGamePak(cartId, slot);
+  if (!slotPath || !slotPak) {
+    throw new Error('Pak slot not found');
+  }
+
+  const activePak = await readLocalGamePak(cartId);
+
+  // Back up both sides first, so a swap interrupted between the writes loses neither
+  await createAutoBackup(cartId, activePak, `Before swapping in "${slot}"`, slotPak);
+  await createAutoBackup(cartId, slotPak, `Before swapping out "${slot}"`, activePak ?? undefined, slot);
+
+  await writeGamePakFile(path.join(path.dirname(slotPath), GAME_PAK_FILENAME), slotPak);
+  if (activePak) {
+    await writeGamePakFile(slotPath, activePak);
+  } else {
+    await unlink(slotPath);
+  }
+
+  if (!sdCardPath) {
+    return {};
+  }
+  const upload = await uploadGamePakToSD(cartId, sdCardPath, title);
+  return { syncedToSD: upload.success };
+}
+
 // =============================================================================
 // Utility Functions
 // =============================================================================
@@ -611,15 +1071,20 @@ export async function listBackups(cartId: string): Promise<GamePakBackup[]> {
 }
 
 /**
- * Create a backup of the current local game pak
+ * Create a backup of the current local game pak, or of the given pak buffer
+ * Automatic backups holding the same contents are removed, since the new
+ * backup supersedes them.
  */
 export async function createBackup(
   cartId: string,
   name?: string,
-  description?: string
+  description?: string,
+  buffer?: Buffer,
+  tags?: string[],
+  slot: string = ACTIVE_PAK_SLOT
 ): Promise<GamePakBackup> {
-  // Read the local game pak
-  const localBuffer = await readLocalGamePak(cartId);
+  // Read the local game pak unless a buffer was given
+  const localBuffer = buffer ?? await readLocalGamePak(cartId, slot);
   if (!localBuffer) {
     throw new Error('No local game pak to backup');
   }
@@ -643,6 +1108,8 @@ export async function createBackup(
     createdAt,
     md5Hash,
     size: localBuffer.length,
+    ...(tags && tags.length > 0 ? { tags } : {}),
+    ...(slot !== ACTIVE_PAK_SLOT ? { slot } : {}),
   };
 
   // Ensure backups directory exists
@@ -659,9 +1126,18 @@ export async function createBackup(
     cartId: cartId.toLowerCase(),
     backups: [],
   };
+  const superseded = metadata.backups.filter(b => b.md5Hash === md5Hash && isAutoBackup(b));
+  metadata.backups = metadata.backups.filter(b => !superseded.includes(b));
   metadata.backups.push(backup);
   await saveBackupsMetadata(cartId, metadata);
 
+  for (const old of superseded) {
+    const oldPath = path.join(backupsDir, `${old.id}.img`);
+    if (existsSync(oldPath)) {
+      await unlink(oldPath);
+    }
+  }
+
   return backup;
 }
 
@@ -738,7 +1214,8 @@ export async function deleteBackup(cartId: string, backupId: string): Promise<bo
 }
 
 /**
- * Restore a backup to local storage (and optionally SD card)
+ * Restore a backup to the pak slot it was taken from (and to the SD card
+ * when that is the active slot)
  */
 export async function restoreBackup(
   cartId: string,
@@ -758,11 +1235,13 @@ export async function restoreBackup(
   }
 
   // Restore to local
-  await saveLocalGamePak(cartId, backupBuffer, title);
+  const backup = (await listBackups(cartId)).find(b => b.id === backupId);
+  const slot = backup?.slot ?? ACTIVE_PAK_SLOT;
+  await saveLocalGamePak(cartId, backupBuffer, title, 'Before restore', slot);
   const result = { local: true, sd: false };
 
   // Optionally restore to SD card
-  if (sdCardPath) {
+  if (sdCardPath && slot === ACTIVE_PAK_SLOT) {
     const sdResult = await uploadGamePakToSD(cartId, sdCardPath, title);
     result.sd = sdResult.success;
   }
@@ -770,6 +1249,231 @@ export async function restoreBackup(
   return result;
 }
 
+// =============================================================================
+// Automatic Backups & Retention
+// =============================================================================
+
+/** Tag marking backups created automatically before a destructive write */
+export const AUTO_BACKUP_TAG = 'auto';
+
+/**
+ * How many automatic backups to keep per cartridge
+ * Either the most recent `keepLast` backups, or those from the last
+ * `keepDays` days. Manual backups are never pruned.
+ */
+export type GamePakRetentionPolicy =
+  | { mode: 'count'; keepLast: number }
+  | { mode: 'days'; keepDays: number };
+
+export const DEFAULT_RETENTION_POLICY: GamePakRetentionPolicy = { mode: 'count', keepLast: 10 };
+
+const RETENTION_POLICY_PATH = path.join(process.cwd(), '.local', 'game-pak-retention.json');
+
+/**
+ * Check whether a backup was created automatically
+ */
+export function isAutoBackup(backup: GamePakBackup): boolean {
+  return backup.tags?.includes(AUTO_BACKUP_TAG) ?? false;
+}
+
+/**
+ * Validate a retention policy from user input
+ * Throws with a descriptive message if the policy is malformed.
+ */
+export function validateRetentionPolicy(value: unknown): GamePakRetentionPolicy {
+  const policy = value as Partial<{ mode: string; keepLast: unknown; keepDays: unknown }> | null;
+
+  if (policy?.mode === 'count') {
+    if (!Number.isInteger(policy.keepLast) || (policy.keepLast as number) < 1) {
+      throw new Error('keepLast must be a positive integer');
+    }
+    return { mode: 'count', keepLast: policy.keepLast as number };
+  }
+
+  if (policy?.mode === 'days') {
+    if (!Number.isInteger(policy.keepDays) || (policy.keepDays as number) < 1) {
+      throw new Error('keepDays must be a positive integer');
+    }
+    return { mode: 'days', keepDays: policy.keepDays as number };
+  }
+
+  throw new Error("Retention mode must be 'count' or 'days'");
+}
+
+/**
+ * Read the retention policy, falling back to the default
+ */
+export async function getRetentionPolicy(): Promise<GamePakRetentionPolicy> {
+  if (!existsSync(RETENTION_POLICY_PATH)) {
+    return DEFAULT_RETENTION_POLICY;
+  }
+
+  try {
+    const content = JSON.parse(await readFile(RETENTION_POLICY_PATH, 'utf-8'));
+    return validateRetentionPolicy(content);
+  } catch {
+    return DEFAULT_RETENTION_POLICY;
+  }
+}
+
+/**
+ * Save the retention policy
+ */
+export async function saveRetentionPolicy(policy: GamePakRetentionPolicy): Promise<void> {
+  await mkdir(path.dirname(RETENTION_POLICY_PATH), { recursive: true });
+  await writeFile(RETENTION_POLICY_PATH, JSON.stringify({ version: 1, ...policy }, null, 2));
+}
+
+/**
+ * Select the automatic backups that fall outside the retention policy
+ */
+export function selectExpiredAutoBackups(
+  backups: GamePakBackup[],
+  policy: GamePakRetentionPolicy,
+  now: Date = new Date()
+): GamePakBackup[] {
+  const autoBackups = backups
+    .filter(isAutoBackup)
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  if (policy.mode === 'count') {
+    return autoBackups.slice(policy.keepLast);
+  }
+
+  const cutoff = now.getTime() - policy.keepDays * 24 * 60 * 60 * 1000;
+  return autoBackups.filter(b => new Date(b.createdAt).getTime() < cutoff);
+}
+
+/**
+ * Delete a cartridge's automatic backups that fall outside the retention policy
+ * Returns the number of backups removed.
+ */
+export async function pruneAutoBackups(
+  cartId: string,
+  policy?: GamePakRetentionPolicy
+): Promise<number> {
+  const backups = await listBackups(cartId);
+  const expired = selectExpiredAutoBackups(backups, policy ?? await getRetentionPolicy());
+
+  for (const backup of expired) {
+    await deleteBackup(cartId, backup.id);
+  }
+  return expired.length;
+}
+
+/**
+ * Apply the retention policy to every cartridge's automatic backups
+ */
+export async function pruneAllAutoBackups(policy?: GamePakRetentionPolicy): Promise<number> {
+  if (!existsSync(GAME_PAK_BACKUPS_DIR)) {
+    return 0;
+  }
+
+  const effectivePolicy = policy ?? await getRetentionPolicy();
+  let removed = 0;
+  for (const dir of await readdir(GAME_PAK_BACKUPS_DIR)) {
+    removed += await pruneAutoBackups(dir, effectivePolicy);
+  }
+  return removed;
+}
+
+/**
+ * Back up a pak that is about to be overwritten or deleted
+ * Nothing is stored when there is no pak, when the write would not change
+ * it, or when a backup with the same contents already exists. Old automatic
+ * backups are pruned according to the retention policy.
+ */
+export async function createAutoBackup(
+  cartId: string,
+  current: Buffer | null,
+  reason: string,
+  incoming?: Buffer,
+  slot: string = ACTIVE_PAK_SLOT
+): Promise<GamePakBackup | null> {
+  if (!current || !validateGamePak(current).valid) {
+    return null;
+  }
+  if (incoming && current.equals(incoming)) {
+    return null;
+  }
+
+  const md5Hash = computeGamePakHash(current);
+  const existing = await listBackups(cartId);
+  if (existing.some(b => b.md5Hash === md5Hash)) {
+    return null;
+  }
+
+  const backup = await createBackup(cartId, reason, 'Automatic backup', current, [AUTO_BACKUP_TAG], slot);
+  await pruneAutoBackups(cartId);
+  return backup;
+}
+
+// =============================================================================
+// Backup Timeline
+// =============================================================================
+
+export interface GamePakTimelineEntry {
+  /** The backup, or null for the current local game pak */
+  backup: GamePakBackup | null;
+  createdAt: string;
+  md5Hash: string;
+  noteCount: number;
+  pagesUsed: number;
+  /** Filesystem integrity of this state */
+  valid: boolean;
+  issueCount: number;
+  /** Changes since the previous entry (null for the oldest) */
+  diff: ControllerPakDiff | null;
+}
+
+/**
+ * Build the backup history of a cartridge's active pak, oldest first
+ * Each entry is compared with the one before it, so a corrupted save shows
+ * up as the first entry whose integrity check fails. The current local pak
+ * is appended as the newest entry when it differs from the last backup.
+ */
+export async function getBackupTimeline(
+  cartId: string,
+  includeCurrent: boolean = true
+): Promise<GamePakTimelineEntry[]> {
+  const states: { backup: GamePakBackup | null; createdAt: string; buffer: Buffer }[] = [];
+
+  const backups = (await listBackups(cartId))
+    .filter(backup => !backup.slot)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  for (const backup of backups) {
+    const buffer = await getBackupBuffer(cartId, backup.id);
+    if (buffer && validateGamePak(buffer).valid) {
+      states.push({ backup, createdAt: backup.createdAt, buffer });
+    }
+  }
+
+  if (includeCurrent) {
+    const localPath = await getLocalGamePakPath(cartId);
+    const current = await readLocalGamePak(cartId);
+    const last = states[states.length - 1];
+    if (localPath && current && validateGamePak(current).valid && !(last && last.buffer.equals(current))) {
+      const stats = await stat(localPath);
+      states.push({ backup: null, createdAt: stats.mtime.toISOString(), buffer: current });
+    }
+  }
+
+  return states.map((state, i) => {
+    const pak = parseControllerPak(state.buffer);
+    const validation = validateControllerPak(state.buffer);
+    return {
+      backup: state.backup,
+      createdAt: state.createdAt,
+      md5Hash: computeGamePakHash(state.buffer),
+      noteCount: pak.notes.length,
+      pagesUsed: pak.pagesUsed,
+      valid: validation.valid,
+      issueCount: validation.issues.length,
+      diff: i > 0 ? diffControllerPaks(states[i - 1].buffer, state.buffer) : null,
+    };
+  });
+}
+
 /**
  * Get all backups for export (used by bundle system)
  */
@@ -782,7 +1486,6 @@ export async function getAllBackupsForExport(
     return result;
   }
 
-  const { readdir } = await import('fs/promises');
   const dirs = await readdir(GAME_PAK_BACKUPS_DIR);
 
   for (const dir of dirs) {
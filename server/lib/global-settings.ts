@@ -0,0 +1,556 @@
+/**
+ * Global Settings
+ *
+ * The console keeps device-wide configuration in Settings/Global/ on the SD
+ * card. Its files aren't documented, so they are handled as opaque files:
+ * listed, shown as JSON, text or a hex dump, and backed up and restored as a
+ * whole directory. Backups are stored in
+ * .local/Library/N64/GlobalSettingsBackups/.
+ */
+
+import { readFile, writeFile, mkdir, readdir, stat, rm, rename, unlink } from 'fs/promises';
+import { existsSync } from 'fs';
+import { createHash, randomUUID } from 'crypto';
+import path from 'path';
+import { AUTO_BACKUP_TAG } from './game-pak.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface GlobalSettingsFile {
+  path: string; // Relative to Settings/Global, '/'-separated
+  size: number;
+  md5Hash: string;
+  lastModified?: string;
+}
+
+export interface GlobalSettingsFileContent {
+  path: string;
+  size: number;
+  format: 'json' | 'text' | 'binary';
+  json?: unknown;
+  text?: string;
+  hex?: string;
+  truncated?: boolean; // Hex dump covers only the start of the file
+}
+
+export interface GlobalSettingsBackup {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  files: GlobalSettingsFile[];
+  totalSize: number;
+  fingerprint: string; // MD5 over every file's path and hash
+  tags?: string[];
+}
+
+export interface GlobalSettingsBackupsMetadata {
+  version: 1;
+  backups: GlobalSettingsBackup[];
+}
+
+export interface RestoreGlobalSettingsResult {
+  filesWritten: number;
+  filesRemoved: number;
+  autoBackupId?: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const GLOBAL_SETTINGS_BACKUPS_DIR = path.join(
+  process.cwd(), '.local', 'Library', 'N64', 'GlobalSettingsBackups'
+);
+const BACKUPS_METADATA_PATH = path.join(GLOBAL_SETTINGS_BACKUPS_DIR, 'metadata.json');
+
+/** Largest amount of a binary file shown as a hex dump */
+export const HEX_DUMP_LIMIT = 4096;
+
+// =============================================================================
+// Path Helpers
+// =============================================================================
+
+/**
+ * Get the Settings/Global directory of an SD card
+ */
+export function getSDGlobalSettingsDir(sdCardPath: string): string {
+  return path.join(sdCardPath, 'Settings', 'Global');
+}
+
+/**
+ * Resolve a relative file path inside a directory
+ * Rejects absolute paths and paths that escape the directory.
+ */
+export function resolveGlobalSettingsPath(rootDir: string, relativePath: unknown): string {
+  if (typeof relativePath !== 'string' || relativePath.trim().length === 0) {
+    throw new Error('File path is required');
+  }
+
+  const normalized = path.posix.normalize(relativePath.replace(/\\/g, '/'));
+  if (path.posix.isAbsolute(normalized) || normalized === '..' || normalized.startsWith('../')) {
+    throw new Error('Invalid file path');
+  }
+
+  return path.join(rootDir, ...normalized.split('/'));
+}
+
+function getBackupDir(backupId: string): string {
+  return path.join(GLOBAL_SETTINGS_BACKUPS_DIR, backupId);
+}
+
+/**
+ * Skip macOS metadata files, which aren't console settings
+ */
+function isIgnoredFile(name: string): boolean {
+  return name.startsWith('._') || name === '.DS_Store';
+}
+
+// =============================================================================
+// File Inspection
+// =============================================================================
+
+/**
+ * Format the start of a buffer as a hex dump with an ASCII column
+ */
+export function formatHexDump(buffer: Buffer, limit = HEX_DUMP_LIMIT): string {
+  const lines: string[] = [];
+  const end = Math.min(buffer.length, limit);
+
+  for (let offset = 0; offset < end; offset += 16) {
+    const row = buffer.subarray(offset, Math.min(offset + 16, end));
+    const hex = Array.from(row, byte => byte.toString(16).padStart(2, '0')).join(' ');
+    const ascii = Array.from(row, byte => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : '.')).join('');
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  |${ascii}|`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Describe a file's contents for display
+ * Files that parse as JSON are returned parsed, other UTF-8 text as-is, and
+ * anything else as a hex dump.
+ */
+export function describeGlobalSettingsFile(relativePath: string, buffer: Buffer): GlobalSettingsFileContent {
+  const base = { path: relativePath, size: buffer.length };
+  const text = buffer.toString('utf8');
+  const isText = !buffer.includes(0) && Buffer.from(text, 'utf8').equals(buffer);
+
+  if (isText) {
+    try {
+      return { ...base, format: 'json', json: JSON.parse(text) };
+    } catch {
+      return { ...base, format: 'text', text };
+    }
+  }
+
+  return {
+    ...base,
+    format: 'binary',
+    hex: formatHexDump(buffer),
+    ...(buffer.length > HEX_DUMP_LIMIT ? { truncated: true } : {}),
+  };
+}
+
+/**
+ * List the files under a directory, recursively
+ */
+async function listFiles(rootDir: string, prefix = ''): Promise<GlobalSettingsFile[]> {
+  const dir = prefix ? path.join(rootDir, ...prefix.split('/')) : rootDir;
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  const files: GlobalSettingsFile[] = [];
+  const entries = await readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    if (isIgnoredFile(entry.name)) continue;
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(rootDir, relativePath));
+    } else if (entry.isFile()) {
+      const filePath = path.join(dir, entry.name);
+      const [buffer, stats] = await Promise.all([readFile(filePath), stat(filePath)]);
+      files.push({
+        path: relativePath,
+        size: buffer.length,
+        md5Hash: createHash('md5').update(buffer).digest('hex'),
+        lastModified: stats.mtime.toISOString(),
+      });
+    }
+  }
+
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Fingerprint a set of files, so identical directories can be detected
+ */
+export function fingerprintGlobalSettings(files: Array<Pick<GlobalSettingsFile, 'path' | 'md5Hash'>>): string {
+  const hash = createHash('md5');
+  for (const file of [...files].sort((a, b) => a.path.localeCompare(b.path))) {
+    hash.update(`${file.path}:${file.md5Hash}\n`);
+  }
+  return hash.digest('hex');
+}
+
+function fingerprintFiles(files: Map<string, Buffer>): string {
+  return fingerprintGlobalSettings(
+    Array.from(files, ([relativePath, buffer]) => ({
+      path: relativePath,
+      md5Hash: createHash('md5').update(buffer).digest('hex'),
+    }))
+  );
+}
+
+// =============================================================================
+// SD Card Operations
+// =============================================================================
+
+/**
+ * List the SD card's global settings files
+ */
+export async function listSDGlobalSettings(
+  sdCardPath: string
+): Promise<{ exists: boolean; files: GlobalSettingsFile[] }> {
+  const dir = getSDGlobalSettingsDir(sdCardPath);
+  return { exists: existsSync(dir), files: await listFiles(dir) };
+}
+
+/**
+ * Read one of the SD card's global settings files for display
+ */
+export async function readSDGlobalSettingsFile(
+  sdCardPath: string,
+  relativePath: unknown
+): Promise<GlobalSettingsFileContent | null> {
+  const filePath = resolveGlobalSettingsPath(getSDGlobalSettingsDir(sdCardPath), relativePath);
+  if (!existsSync(filePath)) {
+    return null;
+  }
+  return describeGlobalSettingsFile(String(relativePath), await readFile(filePath));
+}
+
+// =============================================================================
+// Backup Metadata
+// =============================================================================
+
+/**
+ * Load the backup index from disk
+ */
+export async function loadGlobalSettingsBackups(): Promise<GlobalSettingsBackupsMetadata> {
+  if (!existsSync(BACKUPS_METADATA_PATH)) {
+    return { version: 1, backups: [] };
+  }
+
+  try {
+    const content = await readFile(BACKUPS_METADATA_PATH, 'utf-8');
+    const data = JSON.parse(content) as GlobalSettingsBackupsMetadata;
+
+    if (!data.version || !Array.isArray(data.backups)) {
+      console.warn('Invalid global settings backups structure, returning empty');
+      return { version: 1, backups: [] };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error loading global settings backups:', error);
+    return { version: 1, backups: [] };
+  }
+}
+
+/**
+ * Save the backup index to disk
+ */
+async function saveGlobalSettingsBackups(data: GlobalSettingsBackupsMetadata): Promise<void> {
+  await mkdir(GLOBAL_SETTINGS_BACKUPS_DIR, { recursive: true });
+  await writeFile(BACKUPS_METADATA_PATH, JSON.stringify(data, null, 2), 'utf-8');
+}
+
+// =============================================================================
+// Backup Operations
+// =============================================================================
+
+/**
+ * List backups, newest first
+ */
+export async function listGlobalSettingsBackups(): Promise<GlobalSettingsBackup[]> {
+  const data = await loadGlobalSettingsBackups();
+  return [...data.backups].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Store a set of files as a new backup
+ */
+async function storeBackup(
+  files: Map<string, Buffer>,
+  details: { name: string; description?: string; createdAt?: string; tags?: string[] }
+): Promise<GlobalSettingsBackup> {
+  const id = randomUUID();
+  const entries: GlobalSettingsFile[] = [];
+
+  for (const [relativePath, buffer] of files) {
+    const filePath = resolveGlobalSettingsPath(getBackupDir(id), relativePath);
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, buffer);
+    entries.push({
+      path: relativePath,
+      size: buffer.length,
+      md5Hash: createHash('md5').update(buffer).digest('hex'),
+    });
+  }
+  entries.sort((a, b) => a.path.localeCompare(b.path));
+
+  const backup: GlobalSettingsBackup = {
+    id,
+    name: details.name,
+    ...(details.description ? { description: details.description } : {}),
+    createdAt: details.createdAt ?? new Date().toISOString(),
+    files: entries,
+    totalSize: entries.reduce((sum, file) => sum + file.size, 0),
+    fingerprint: fingerprintGlobalSettings(entries),
+    ...(details.tags && details.tags.length > 0 ? { tags: details.tags } : {}),
+  };
+
+  const data = await loadGlobalSettingsBackups();
+  data.backups.push(backup);
+  await saveGlobalSettingsBackups(data);
+
+  return backup;
+}
+
+/**
+ * Read every global settings file from the SD card
+ */
+async function readSDFiles(sdCardPath: string): Promise<Map<string, Buffer>> {
+  const dir = getSDGlobalSettingsDir(sdCardPath);
+  const files = new Map<string, Buffer>();
+  for (const file of await listFiles(dir)) {
+    files.set(file.path, await readFile(resolveGlobalSettingsPath(dir, file.path)));
+  }
+  return files;
+}
+
+/**
+ * Back up the SD card's Settings/Global directory
+ */
+export async function createGlobalSettingsBackup(
+  sdCardPath: string,
+  name?: string,
+  description?: string
+): Promise<GlobalSettingsBackup> {
+  const files = await readSDFiles(sdCardPath);
+  if (files.size === 0) {
+    throw new Error('No global settings found on SD card');
+  }
+
+  return storeBackup(files, {
+    name: name?.trim() || `Global settings ${new Date().toISOString().split('T')[0]}`,
+    description,
+  });
+}
+
+/**
+ * Back up the SD card's global settings unless an identical backup exists
+ * Returns the new or existing backup, or null when there is nothing to back up.
+ */
+export async function ensureGlobalSettingsBackup(
+  sdCardPath: string,
+  reason: string
+): Promise<GlobalSettingsBackup | null> {
+  const files = await readSDFiles(sdCardPath);
+  if (files.size === 0) {
+    return null;
+  }
+
+  const fingerprint = fingerprintFiles(files);
+  const existing = (await loadGlobalSettingsBackups()).backups.find(b => b.fingerprint === fingerprint);
+  if (existing) {
+    return existing;
+  }
+
+  return storeBackup(files, { name: reason, description: 'Automatic backup', tags: [AUTO_BACKUP_TAG] });
+}
+
+/**
+ * Read one file from a backup for display
+ */
+export async function readGlobalSettingsBackupFile(
+  backupId: string,
+  relativePath: unknown
+): Promise<GlobalSettingsFileContent | null> {
+  const data = await loadGlobalSettingsBackups();
+  const backup = data.backups.find(b => b.id === backupId);
+  if (!backup || !backup.files.some(f => f.path === relativePath)) {
+    return null;
+  }
+
+  const filePath = resolveGlobalSettingsPath(getBackupDir(backupId), relativePath);
+  if (!existsSync(filePath)) {
+    return null;
+  }
+  return describeGlobalSettingsFile(String(relativePath), await readFile(filePath));
+}
+
+/**
+ * Read every file of a backup
+ */
+async function readBackupFiles(backup: GlobalSettingsBackup): Promise<Map<string, Buffer>> {
+  const files = new Map<string, Buffer>();
+  for (const file of backup.files) {
+    const filePath = resolveGlobalSettingsPath(getBackupDir(backup.id), file.path);
+    if (!existsSync(filePath)) {
+      throw new Error(`Backup file missing: ${file.path}`);
+    }
+    files.set(file.path, await readFile(filePath));
+  }
+  return files;
+}
+
+/**
+ * Restore a backup to the SD card
+ * The SD card's current global settings are backed up first. Files on the
+ * card that aren't in the backup are removed, so the directory matches the
+ * backup exactly.
+ */
+export async function restoreGlobalSettingsBackup(
+  backupId: string,
+  sdCardPath: string
+): Promise<RestoreGlobalSettingsResult> {
+  const data = await loadGlobalSettingsBackups();
+  const backup = data.backups.find(b => b.id === backupId);
+  if (!backup) {
+    throw new Error('Backup not found');
+  }
+
+  const files = await readBackupFiles(backup);
+  const autoBackup = await ensureGlobalSettingsBackup(sdCardPath, `Before restoring "${backup.name}"`);
+
+  // Write each file beside its target and rename it into place, so an
+  // interrupted restore never leaves a file half-written; extras go last
+  const dir = getSDGlobalSettingsDir(sdCardPath);
+  for (const [relativePath, buffer] of files) {
+    const filePath = resolveGlobalSettingsPath(dir, relativePath);
+    const tempPath = `${filePath}.tmp`;
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(tempPath, buffer, { flush: true });
+    await rename(tempPath, filePath);
+  }
+
+  let filesRemoved = 0;
+  for (const file of await listFiles(dir)) {
+    if (!files.has(file.path)) {
+      await unlink(resolveGlobalSettingsPath(dir, file.path));
+      filesRemoved++;
+    }
+  }
+
+  return {
+    filesWritten: files.size,
+    filesRemoved,
+    ...(autoBackup ? { autoBackupId: autoBackup.id } : {}),
+  };
+}
+
+/**
+ * Update a backup's name or description
+ */
+export async function updateGlobalSettingsBackup(
+  backupId: string,
+  updates: { name?: string; description?: string }
+): Promise<GlobalSettingsBackup | null> {
+  const data = await loadGlobalSettingsBackups();
+  const backup = data.backups.find(b => b.id === backupId);
+  if (!backup) {
+    return null;
+  }
+
+  if (updates.name !== undefined && updates.name.trim()) {
+    backup.name = updates.name.trim();
+  }
+  if (updates.description !== undefined) {
+    backup.description = updates.description || undefined;
+  }
+
+  await saveGlobalSettingsBackups(data);
+  return backup;
+}
+
+/**
+ * Delete a backup
+ */
+export async function deleteGlobalSettingsBackup(backupId: string): Promise<boolean> {
+  const data = await loadGlobalSettingsBackups();
+  const index = data.backups.findIndex(b => b.id === backupId);
+  if (index === -1) {
+    return false;
+  }
+
+  data.backups.splice(index, 1);
+  await saveGlobalSettingsBackups(data);
+  await rm(getBackupDir(backupId), { recursive: true, force: true });
+  return true;
+}
+
+// =============================================================================
+// Bundle Support
+// =============================================================================
+
+/**
+ * Get every backup with its files (used by bundle system)
+ */
+export async function getGlobalSettingsBackupsForExport(): Promise<{
+  backups: GlobalSettingsBackup[];
+  files: Map<string, Map<string, Buffer>>;
+}> {
+  const { backups } = await loadGlobalSettingsBackups();
+  const exported: GlobalSettingsBackup[] = [];
+  const files = new Map<string, Map<string, Buffer>>();
+
+  for (const backup of backups) {
+    try {
+      files.set(backup.id, await readBackupFiles(backup));
+      exported.push(backup);
+    } catch (error) {
+      console.warn(`Skipping incomplete global settings backup ${backup.id}:`, error);
+    }
+  }
+
+  return { backups: exported, files };
+}
+
+/**
+ * Import backups from a bundle
+ * Backups are deduplicated by fingerprint, so re-importing a bundle adds nothing.
+ */
+export async function importGlobalSettingsBackups(
+  backups: GlobalSettingsBackup[],
+  files: Map<string, Map<string, Buffer>>
+): Promise<{ added: number; skipped: number }> {
+  const fingerprints = new Set((await loadGlobalSettingsBackups()).backups.map(b => b.fingerprint));
+  const result = { added: 0, skipped: 0 };
+
+  for (const backup of backups) {
+    const backupFiles = files.get(backup.id);
+    if (!backupFiles || backupFiles.size === 0 || fingerprints.has(fingerprintFiles(backupFiles))) {
+      result.skipped++;
+      continue;
+    }
+
+    const imported = await storeBackup(backupFiles, {
+      name: backup.name,
+      description: backup.description,
+      createdAt: backup.createdAt,
+      tags: backup.tags,
+    });
+    fingerprints.add(imported.fingerprint);
+    result.added++;
+  }
+
+  return result;
+}
@@ -0,0 +1,276 @@
+/**
+ * Label History Library
+ *
+ * Writing a label into labels.db overwrites the slot's pixels, so the image
+ * being replaced is kept here first. Each cartridge gets a capped list of
+ * earlier versions that can be previewed and reverted to.
+ *
+ * History is stored in .local/Library/N64/LabelHistory/<cartId>/
+ *   metadata.json      - version list
+ *   <versionId>.png    - the replaced label image
+ */
+
+import { readFile, writeFile, mkdir, unlink } from 'fs/promises';
+import { existsSync } from 'fs';
+import { createHash, randomUUID } from 'crypto';
+import path from 'path';
+import sharp from 'sharp';
+import {
+  IMAGE_WIDTH,
+  IMAGE_HEIGHT,
+  parseLabelsDb,
+  extractRawImage,
+  bgraToRgba,
+  getLocalLabelsDbPath,
+  updateEntryInLabelsDb,
+} from './labels-db-core.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** What replaced the stored image */
+export type LabelVersionSource = 'upload' | 'merge' | 'import' | 'revert' | 'pull';
+
+export interface LabelVersion {
+  id: string;
+  createdAt: string;
+  source: LabelVersionSource;
+  md5Hash: string;
+  size: number;
+}
+
+interface LabelHistoryFile {
+  version: 1;
+  cartId: string;
+  versions: LabelVersion[]; // oldest first
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const LABEL_HISTORY_DIR = path.join(process.cwd(), '.local', 'Library', 'N64', 'LabelHistory');
+
+/**
+ * Maximum number of versions kept per cartridge; the oldest are dropped first
+ */
+export const MAX_LABEL_VERSIONS = 20;
+
+// =============================================================================
+// Version List
+// =============================================================================
+
+/**
+ * Append a version to a list, returning the new list and the versions dropped
+ * past the limit. Nothing is added if the image matches the latest version.
+ */
+export function appendLabelVersion(
+  versions: LabelVersion[],
+  version: LabelVersion,
+  limit: number = MAX_LABEL_VERSIONS
+): { versions: LabelVersion[]; dropped: LabelVersion[] } {
+  const latest = versions[versions.length - 1];
+  if (latest && latest.md5Hash === version.md5Hash) {
+    return { versions, dropped: [] };
+  }
+
+  const next = [...versions, version];
+  const excess = Math.max(0, next.length - limit);
+  return { versions: next.slice(excess), dropped: next.slice(0, excess) };
+}
+
+/**
+ * Find the cartridges whose label image differs between two labels.db buffers
+ * Only cartridges present in both are returned; added and deleted entries
+ * don't replace an image. `cartIds` limits the check to those cartridges.
+ */
+export function findReplacedLabels(previous: Buffer, next: Buffer, cartIds?: number[]): number[] {
+  const previousDb = parseLabelsDb(previous);
+  const nextDb = parseLabelsDb(next);
+  const candidates = cartIds ?? previousDb.entries.map(entry => entry.cartId);
+
+  return candidates.filter(cartId => {
+    const previousIndex = previousDb.idToIndex.get(cartId);
+    const nextIndex = nextDb.idToIndex.get(cartId);
+    if (previousIndex === undefined || nextIndex === undefined) return false;
+    return !extractRawImage(previous, previousIndex).equals(extractRawImage(next, nextIndex));
+  });
+}
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+function getHistoryDir(cartId: string): string {
+  return path.join(LABEL_HISTORY_DIR, cartId.toLowerCase());
+}
+
+function getVersionImagePath(cartId: string, versionId: string): string {
+  return path.join(getHistoryDir(cartId), `${versionId}.png`);
+}
+
+async function loadVersions(cartId: string): Promise<LabelVersion[]> {
+  const metadataPath = path.join(getHistoryDir(cartId), 'metadata.json');
+  if (!existsSync(metadataPath)) {
+    return [];
+  }
+
+  try {
+    const data = JSON.parse(await readFile(metadataPath, 'utf-8')) as LabelHistoryFile;
+    return data.version === 1 && Array.isArray(data.versions) ? data.versions : [];
+  } catch {
+    return [];
+  }
+}
+
+async function saveVersions(cartId: string, versions: LabelVersion[]): Promise<void> {
+  const data: LabelHistoryFile = {
+    version: 1,
+    cartId: cartId.toLowerCase(),
+    versions,
+  };
+
+  await mkdir(getHistoryDir(cartId), { recursive: true });
+  await writeFile(path.join(getHistoryDir(cartId), 'metadata.json'), JSON.stringify(data, null, 2), 'utf-8');
+}
+
+async function readLocalLabelsDbIfExists(): Promise<Buffer | null> {
+  try {
+    return await readFile(getLocalLabelsDbPath());
+  } catch {
+    return null;
+  }
+}
+
+// =============================================================================
+// Recording
+// =============================================================================
+
+/**
+ * Record a replaced label image for a cartridge
+ */
+export async function recordLabelVersion(
+  cartId: string,
+  png: Buffer,
+  source: LabelVersionSource
+): Promise<void> {
+  const versions = await loadVersions(cartId);
+  const result = appendLabelVersion(versions, {
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    source,
+    md5Hash: createHash('md5').update(png).digest('hex'),
+    size: png.length,
+  });
+
+  if (result.versions === versions) {
+    return;
+  }
+
+  const added = result.versions[result.versions.length - 1];
+  await mkdir(getHistoryDir(cartId), { recursive: true });
+  await writeFile(getVersionImagePath(cartId, added.id), png);
+  await saveVersions(cartId, result.versions);
+
+  for (const dropped of result.dropped) {
+    await unlink(getVersionImagePath(cartId, dropped.id)).catch(() => {});
+  }
+}
+
+/**
+ * Record every label image in `previous` that `next` replaced
+ * Returns the number of versions recorded.
+ */
+export async function recordReplacedLabels(
+  previous: Buffer,
+  next: Buffer,
+  source: LabelVersionSource,
+  cartIds?: number[]
+): Promise<number> {
+  const replaced = findReplacedLabels(previous, next, cartIds);
+  const previousDb = parseLabelsDb(previous);
+
+  for (const cartId of replaced) {
+    const rgba = bgraToRgba(extractRawImage(previous, previousDb.idToIndex.get(cartId)!));
+    const png = await sharp(rgba, {
+      raw: { width: IMAGE_WIDTH, height: IMAGE_HEIGHT, channels: 4 },
+    })
+      .png()
+      .toBuffer();
+
+    await recordLabelVersion(cartId.toString(16).padStart(8, '0'), png, source);
+  }
+
+  return replaced.length;
+}
+
+/**
+ * Run a change to the local labels.db, keeping the label images it replaces
+ * `cartIds` limits the check to the cartridges the change can touch.
+ * History failures are logged rather than failing the change itself.
+ */
+export async function withLabelHistory<T>(
+  source: LabelVersionSource,
+  cartIds: number[] | undefined,
+  change: () => Promise<T>
+): Promise<T> {
+  const previous = await readLocalLabelsDbIfExists();
+  const result = await change();
+
+  if (previous) {
+    try {
+      const next = await readLocalLabelsDbIfExists();
+      if (next) {
+        await recordReplacedLabels(previous, next, source, cartIds);
+      }
+    } catch (error) {
+      console.error('Error recording label history:', error);
+    }
+  }
+
+  return result;
+}
+
+// =============================================================================
+// History and Revert
+// =============================================================================
+
+/**
+ * List a cartridge's earlier label versions, newest first
+ */
+export async function listLabelVersions(cartId: string): Promise<LabelVersion[]> {
+  return (await loadVersions(cartId)).reverse();
+}
+
+/**
+ * Get the PNG for one of a cartridge's label versions
+ */
+export async function getLabelVersionImage(cartId: string, versionId: string): Promise<Buffer | null> {
+  const versions = await loadVersions(cartId);
+  if (!versions.some(v => v.id === versionId)) {
+    return null;
+  }
+
+  try {
+    return await readFile(getVersionImagePath(cartId, versionId));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Put an earlier label version back into the local labels.db
+ * The label being replaced is kept in the history, so a revert can be undone.
+ */
+export async function revertLabel(cartId: string, versionId: string): Promise<LabelVersion> {
+  const version = (await loadVersions(cartId)).find(v => v.id === versionId);
+  const png = version ? await getLabelVersionImage(cartId, versionId) : null;
+  if (!version || !png) {
+    throw new Error('Version not found');
+  }
+
+  const cartIdNum = parseInt(cartId, 16);
+  await withLabelHistory('revert', [cartIdNum], () => updateEntryInLabelsDb(cartIdNum, png));
+  return version;
+}
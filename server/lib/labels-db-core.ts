@@ -10,8 +10,8 @@
  * 3. Replace existing ad-hoc implementations
  */
 
-import { readFile, writeFile, copyFile, mkdir, access, constants } from 'fs/promises';
-import { readFileSync, writeFileSync } from 'fs';
+import { readFile, writeFile, copyFile, mkdir, access, rename, unlink, constants } from 'fs/promises';
+import { readFileSync, writeFileSync, renameSync } from 'fs';
 import path from 'path';
 import sharp from 'sharp';
 
@@ -563,18 +563,41 @@ export async function readLabelsDbFile(filePath: string): Promise<Buffer> {
   return readFile(filePath);
 }
 
+/**
+ * Get the temporary path a labels.db is written to before it replaces the original
+ */
+export function getLabelsDbTempPath(filePath: string): string {
+  return `${filePath}.tmp`;
+}
+
 /**
  * Write a labels.db buffer to disk
+ * Writes to a temporary file and renames it over the original, so an
+ * interrupted write never leaves a partial database behind.
  */
 export async function writeLabelsDbFile(filePath: string, data: Buffer): Promise<void> {
-  await writeFile(filePath, data);
+  const verification = verifyHeader(data);
+  if (!verification.valid) {
+    throw new Error(`Refusing to write invalid labels.db: ${verification.error}`);
+  }
+
+  const tempPath = getLabelsDbTempPath(filePath);
+  await writeFile(tempPath, data, { flush: true });
+  await rename(tempPath, filePath);
 }
 
 /**
  * Write a labels.db buffer to disk synchronously
  */
 export function writeLabelsDbFileSync(filePath: string, data: Buffer): void {
-  writeFileSync(filePath, data);
+  const verification = verifyHeader(data);
+  if (!verification.valid) {
+    throw new Error(`Refusing to write invalid labels.db: ${verification.error}`);
+  }
+
+  const tempPath = getLabelsDbTempPath(filePath);
+  writeFileSync(tempPath, data, { flush: true });
+  renameSync(tempPath, filePath);
 }
 
 // =============================================================================
@@ -614,7 +637,7 @@ export async function updateLabelImage(
 ): Promise<void> {
   const data = await readFile(labelsPath);
   const updatedData = await updateEntry(data, cartId, imageBuffer);
-  await writeFile(labelsPath, updatedData);
+  await writeLabelsDbFile(labelsPath, updatedData);
 }
 
 /**
@@ -627,7 +650,7 @@ export async function addCartridge(
 ): Promise<void> {
   const data = await readFile(labelsPath);
   const updatedData = await addEntry(data, cartId, imageBuffer);
-  await writeFile(labelsPath, updatedData);
+  await writeLabelsDbFile(labelsPath, updatedData);
 }
 
 /**
@@ -660,8 +683,15 @@ export async function exportLabelsToSD(sdLabelsPath: string): Promise<{ entryCou
   // Ensure target directory exists
   await mkdir(path.dirname(sdLabelsPath), { recursive: true });
 
-  // Copy to SD card
-  await copyFile(LOCAL_LABELS_DB_PATH, sdLabelsPath);
+  // Copy to SD card via a temporary file, so a pulled card keeps its old labels.db
+  const tempPath = getLabelsDbTempPath(sdLabelsPath);
+  try {
+    await copyFile(LOCAL_LABELS_DB_PATH, tempPath);
+    await rename(tempPath, sdLabelsPath);
+  } catch (error) {
+    await unlink(tempPath).catch(() => {});
+    throw error;
+  }
 
   return { entryCount: db.entryCount };
 }
@@ -947,7 +977,7 @@ export async function addEntryToLabelsDb(
   const updatedData = await addEntry(data, cartId, imageBuffer);
 
   // Write back to disk
-  await writeFile(LOCAL_LABELS_DB_PATH, updatedData);
+  await writeLabelsDbFile(LOCAL_LABELS_DB_PATH, updatedData);
 }
 
 /**
@@ -961,7 +991,7 @@ export async function deleteEntryFromLabelsDb(cartId: number): Promise<void> {
   const updatedData = deleteEntry(data, cartId);
 
   // Write back to disk
-  await writeFile(LOCAL_LABELS_DB_PATH, updatedData);
+  await writeLabelsDbFile(LOCAL_LABELS_DB_PATH, updatedData);
 }
 
 /**
@@ -1000,75 +1030,39 @@ export async function updateEntryInLabelsDb(
   }
 
   // Write back to disk
-  await writeFile(LOCAL_LABELS_DB_PATH, updatedData);
+  await writeLabelsDbFile(LOCAL_LABELS_DB_PATH, updatedData);
 }
 
 /**
- * Merge an imported labels.db with the existing local one
- * @param buffer - The incoming labels.db buffer to merge
+ * Merge an incoming labels.db buffer into a local one, returning the result
+ * @param local - The existing labels.db buffer (left unchanged)
+ * @param incoming - The labels.db buffer to merge in
  * @param mode - 'merge-overwrite' to update existing entries, 'merge-skip' to only add new
  */
-export async function mergeLabelsDbFromBuffer(
-  buffer: Buffer,
+export function mergeLabelsDb(
+  local: Buffer,
+  incoming: Buffer,
   mode: 'merge-overwrite' | 'merge-skip'
-): Promise<{
-  success: boolean;
-  entryCount: number;
-  fileSize: number;
-  importedAt: string;
-  added: number;
-  updated: number;
-  skipped: number;
-}> {
-  // Verify incoming file is valid
-  const headerCheck = verifyHeader(buffer);
-  if (!headerCheck.valid) {
-    throw new Error(`Invalid labels.db file: ${headerCheck.error}`);
-  }
-
-  // Parse the incoming database
-  const incomingDb = parseLabelsDb(buffer);
-
-  // Check if local labels.db exists
-  let localData: Buffer;
-  let localDb: LabelsDatabase;
-
-  try {
-    await access(LOCAL_LABELS_DB_PATH, constants.R_OK);
-    localData = await readFile(LOCAL_LABELS_DB_PATH);
-    localDb = parseLabelsDb(localData);
-  } catch {
-    // No existing labels.db - just do a straight import
-    await mkdir(path.dirname(LOCAL_LABELS_DB_PATH), { recursive: true });
-    await writeFile(LOCAL_LABELS_DB_PATH, buffer);
-    return {
-      success: true,
-      entryCount: incomingDb.entryCount,
-      fileSize: buffer.length,
-      importedAt: new Date().toISOString(),
-      added: incomingDb.entryCount,
-      updated: 0,
-      skipped: 0,
-    };
-  }
+): { data: Buffer; added: number; updated: number; skipped: number } {
+  const incomingDb = parseLabelsDb(incoming);
 
-  // Merge the databases
-  let resultData = localData;
+  let resultData = Buffer.from(local);
+  let resultDb = parseLabelsDb(resultData);
   let added = 0;
   let updated = 0;
   let skipped = 0;
 
   for (const entry of incomingDb.entries) {
-    const existsInLocal = localDb.idToIndex.has(entry.cartId);
+    const existsInLocal = resultDb.idToIndex.has(entry.cartId);
 
     if (existsInLocal) {
       if (mode === 'merge-overwrite') {
         // Extract raw image from incoming buffer and update
-        const rawBgra = extractRawImage(buffer, entry.index);
+        const rawBgra = extractRawImage(incoming, entry.index);
         const slot = createImageSlot(rawBgra);
 
-        // Find the index in local and update
-        const localIndex = localDb.idToIndex.get(entry.cartId)!;
+        // Find the index in the merged result, which shifts as entries are added
+        const localIndex = resultDb.idToIndex.get(entry.cartId)!;
         slot.copy(resultData, DATA_START + localIndex * IMAGE_SLOT_SIZE);
         updated++;
       } else {
@@ -1077,7 +1071,7 @@ export async function mergeLabelsDbFromBuffer(
       }
     } else {
       // Entry doesn't exist - add it
-      const rawBgra = extractRawImage(buffer, entry.index);
+      const rawBgra = extractRawImage(incoming, entry.index);
       // Need to convert to a format addEntry can use - addEntry expects an image buffer
       // Create a minimal image buffer from the raw BGRA
       const slot = createImageSlot(rawBgra);
@@ -1086,8 +1080,7 @@ export async function mergeLabelsDbFromBuffer(
       // Unfortunately addEntry expects a PNG/image buffer, not raw BGRA
       // Let's work directly with the buffer instead
 
-      // Re-parse current state
-      const currentDb = parseLabelsDb(resultData);
+      const currentDb = resultDb;
 
       // Find insertion point
       let insertIndex = 0;
@@ -1132,13 +1125,68 @@ export async function mergeLabelsDbFromBuffer(
       }
 
       resultData = newData;
+      resultDb = parseLabelsDb(resultData);
       added++;
     }
   }
 
+  return { data: resultData, added, updated, skipped };
+}
+
+/**
+ * Merge an imported labels.db with the existing local one
+ * @param buffer - The incoming labels.db buffer to merge
+ * @param mode - 'merge-overwrite' to update existing entries, 'merge-skip' to only add new
+ */
+export async function mergeLabelsDbFromBuffer(
+  buffer: Buffer,
+  mode: 'merge-overwrite' | 'merge-skip'
+): Promise<{
+  success: boolean;
+  entryCount: number;
+  fileSize: number;
+  importedAt: string;
+  added: number;
+  updated: number;
+  skipped: number;
+}> {
+  // Verify incoming file is valid
+  const headerCheck = verifyHeader(buffer);
+  if (!headerCheck.valid) {
+    throw new Error(`Invalid labels.db file: ${headerCheck.error}`);
+  }
+
+  // Parse the incoming database
+  const incomingDb = parseLabelsDb(buffer);
+
+  // Check if local labels.db exists
+  let localData: Buffer;
+
+  try {
+    await access(LOCAL_LABELS_DB_PATH, constants.R_OK);
+    localData = await readFile(LOCAL_LABELS_DB_PATH);
+    parseLabelsDb(localData);
+  } catch {
+    // No existing labels.db - just do a straight import
+    await mkdir(path.dirname(LOCAL_LABELS_DB_PATH), { recursive: true });
+    await writeLabelsDbFile(LOCAL_LABELS_DB_PATH, buffer);
+    return {
+      success: true,
+      entryCount: incomingDb.entryCount,
+      fileSize: buffer.length,
+      importedAt: new Date().toISOString(),
+      added: incomingDb.entryCount,
+      updated: 0,
+      skipped: 0,
+    };
+  }
+
+  // Merge the databases
+  const { data: resultData, added, updated, skipped } = mergeLabelsDb(localData, buffer, mode);
+
   // Write result to disk
   await mkdir(path.dirname(LOCAL_LABELS_DB_PATH), { recursive: true });
-  await writeFile(LOCAL_LABELS_DB_PATH, resultData);
+  await writeLabelsDbFile(LOCAL_LABELS_DB_PATH, resultData);
 
   const finalDb = parseLabelsDb(resultData);
 
@@ -0,0 +1,220 @@
+/**
+ * Visual comparison and per-entry copy between two labels.db files
+ *
+ * compareDetailed() finds which entries differ; this module measures how
+ * much each modified image changed, renders a difference overlay, and copies
+ * single entries between files so divergence can be resolved one cart at a
+ * time instead of with a full upload or download.
+ */
+
+import { readFile } from 'fs/promises';
+import sharp from 'sharp';
+import {
+  HEADER_SIZE,
+  ID_TABLE_START,
+  DATA_START,
+  IMAGE_WIDTH,
+  IMAGE_HEIGHT,
+  IMAGE_SLOT_SIZE,
+  PADDING_FILL,
+  parseLabelsDb,
+  extractRawImage,
+  createImageSlot,
+  deleteEntry,
+} from './labels-db-core.js';
+import { compareDetailed } from './labels-db-compare.js';
+
+/** Pixels in one label image */
+const PIXEL_COUNT = IMAGE_WIDTH * IMAGE_HEIGHT;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type LabelDiffStatus = 'modified' | 'only_local' | 'only_sd';
+
+export interface LabelPixelDiff {
+  changedPixels: number;
+  totalPixels: number;
+  /** Share of pixels that differ, 0-100 */
+  percentChanged: number;
+}
+
+export interface LabelDiffEntry extends Partial<LabelPixelDiff> {
+  cartId: string;
+  status: LabelDiffStatus;
+}
+
+export interface VisualCompareResult {
+  identical: boolean;
+  /** Modified entries first, most changed first, then local-only and SD-only */
+  entries: LabelDiffEntry[];
+  totalCompared: number;
+  durationMs: number;
+}
+
+// =============================================================================
+// Pixel Diff
+// =============================================================================
+
+/**
+ * Count the pixels that differ between two raw BGRA label images
+ * A pixel counts as changed if any channel differs.
+ */
+export function diffLabelPixels(a: Buffer, b: Buffer): LabelPixelDiff {
+  let changedPixels = 0;
+  for (let i = 0; i < PIXEL_COUNT * 4; i += 4) {
+    if (a[i] !== b[i] || a[i + 1] !== b[i + 1] || a[i + 2] !== b[i + 2] || a[i + 3] !== b[i + 3]) {
+      changedPixels++;
+    }
+  }
+
+  return {
+    changedPixels,
+    totalPixels: PIXEL_COUNT,
+    percentChanged: (changedPixels / PIXEL_COUNT) * 100,
+  };
+}
+
+/**
+ * Render a difference overlay of two raw BGRA label images as PNG
+ * Unchanged pixels are a dimmed greyscale of `base`; changed pixels are magenta.
+ */
+export async function createDiffOverlay(base: Buffer, other: Buffer): Promise<Buffer> {
+  const rgba = Buffer.alloc(PIXEL_COUNT * 4);
+
+  for (let i = 0; i < PIXEL_COUNT * 4; i += 4) {
+    const changed = base[i] !== other[i] || base[i + 1] !== other[i + 1] ||
+      base[i + 2] !== other[i + 2] || base[i + 3] !== other[i + 3];
+
+    if (changed) {
+      rgba[i] = 0xff;
+      rgba[i + 1] = 0x00;
+      rgba[i + 2] = 0xff;
+    } else {
+      // BGRA luminance, dimmed so the changed pixels stand out
+      const luma = Math.round((0.114 * base[i] + 0.587 * base[i + 1] + 0.299 * base[i + 2]) * 0.35);
+      rgba[i] = luma;
+      rgba[i + 1] = luma;
+      rgba[i + 2] = luma;
+    }
+    rgba[i + 3] = 0xff;
+  }
+
+  return sharp(rgba, {
+    raw: { width: IMAGE_WIDTH, height: IMAGE_HEIGHT, channels: 4 },
+  })
+    .png()
+    .toBuffer();
+}
+
+// =============================================================================
+// Per-Entry Copy
+// =============================================================================
+
+/**
+ * Make one cartridge's entry in `dest` match `source`, returning the new buffer
+ *
+ * The image is replaced when both files have the cart, inserted in cart ID
+ * order when only the source has it, and removed when only the destination
+ * has it. The rest of `dest` is left as it was.
+ */
+export function copyLabelEntry(source: Buffer, dest: Buffer, cartId: number): Buffer {
+  const sourceDb = parseLabelsDb(source);
+  const destDb = parseLabelsDb(dest);
+  const sourceIndex = sourceDb.idToIndex.get(cartId);
+  const destIndex = destDb.idToIndex.get(cartId);
+
+  if (sourceIndex === undefined && destIndex === undefined) {
+    throw new Error('Entry not found');
+  }
+
+  if (sourceIndex === undefined) {
+    return deleteEntry(dest, cartId);
+  }
+
+  const slot = createImageSlot(extractRawImage(source, sourceIndex));
+
+  if (destIndex !== undefined) {
+    const result = Buffer.from(dest);
+    slot.copy(result, DATA_START + destIndex * IMAGE_SLOT_SIZE);
+    return result;
+  }
+
+  // Insert before the first entry with a larger cart ID
+  let insertIndex = destDb.entries.findIndex(entry => entry.cartId > cartId);
+  if (insertIndex === -1) insertIndex = destDb.entryCount;
+
+  const result = Buffer.alloc(DATA_START + (destDb.entryCount + 1) * IMAGE_SLOT_SIZE, PADDING_FILL);
+  dest.copy(result, 0, 0, HEADER_SIZE);
+
+  destDb.entries.forEach((entry, i) => {
+    const newIndex = i < insertIndex ? i : i + 1;
+    result.writeUInt32LE(entry.cartId, ID_TABLE_START + newIndex * 4);
+    const offset = DATA_START + i * IMAGE_SLOT_SIZE;
+    dest.copy(result, DATA_START + newIndex * IMAGE_SLOT_SIZE, offset, offset + IMAGE_SLOT_SIZE);
+  });
+  result.writeUInt32LE(cartId, ID_TABLE_START + insertIndex * 4);
+  slot.copy(result, DATA_START + insertIndex * IMAGE_SLOT_SIZE);
+
+  return result;
+}
+
+// =============================================================================
+// File Operations
+// =============================================================================
+
+/**
+ * Compare two labels.db files entry by entry, measuring each modified image
+ */
+export async function compareVisual(localPath: string, sdPath: string): Promise<VisualCompareResult> {
+  const startTime = performance.now();
+  const detailed = await compareDetailed(localPath, sdPath, { fullImageHash: true });
+
+  const modified: LabelDiffEntry[] = [];
+  if (detailed.modified.length > 0) {
+    const [localData, sdData] = await Promise.all([readFile(localPath), readFile(sdPath)]);
+    const localDb = parseLabelsDb(localData);
+    const sdDb = parseLabelsDb(sdData);
+
+    for (const cartIdHex of detailed.modified) {
+      const cartId = parseInt(cartIdHex, 16);
+      const diff = diffLabelPixels(
+        extractRawImage(localData, localDb.idToIndex.get(cartId)!),
+        extractRawImage(sdData, sdDb.idToIndex.get(cartId)!)
+      );
+      modified.push({ cartId: cartIdHex, status: 'modified', ...diff });
+    }
+    modified.sort((a, b) => b.changedPixels! - a.changedPixels!);
+  }
+
+  return {
+    identical: detailed.identical,
+    entries: [
+      ...modified,
+      ...detailed.onlyInLocal.map(cartId => ({ cartId, status: 'only_local' as const })),
+      ...detailed.onlyInOther.map(cartId => ({ cartId, status: 'only_sd' as const })),
+    ],
+    totalCompared: detailed.totalCompared,
+    durationMs: performance.now() - startTime,
+  };
+}
+
+/**
+ * Render the difference overlay for one cartridge present in both files
+ * Returns null if either file doesn't have the cart.
+ */
+export async function getLabelDiffOverlay(
+  localPath: string,
+  sdPath: string,
+  cartIdHex: string
+): Promise<Buffer | null> {
+  const [localData, sdData] = await Promise.all([readFile(localPath), readFile(sdPath)]);
+  const cartId = parseInt(cartIdHex, 16);
+  const localIndex = parseLabelsDb(localData).idToIndex.get(cartId);
+  const sdIndex = parseLabelsDb(sdData).idToIndex.get(cartId);
+
+  if (localIndex === undefined || sdIndex === undefined) return null;
+
+  return createDiffOverlay(extractRawImage(localData, localIndex), extractRawImage(sdData, sdIndex));
+}
@@ -1,27 +1,60 @@
 /**
  * Partial sync utilities for labels.db files
  *
- * Enables updating only changed entries without rewriting the entire file
+ * Enables updating only changed entries without rewriting the entire file.
+ * Entries are stored in cart ID order, so an added or removed entry shifts
+ * every slot after it; the planner rewrites only slots whose cart or image
+ * differs at that index, then truncates or extends the file in place.
+ *
+ * Writes to the SD card are crash-safe: full copies go through a temporary
+ * file and a rename, and in-place syncs are recorded in a journal next to
+ * labels.db so an interrupted sync can be finished on the next connect.
+ * Single-entry pushes also keep the bytes they write in a patch file beside
+ * the journal, so they can be finished without the local labels.db.
+ * Every write to an SD card's labels.db runs under withLabelsDbLock(), so
+ * recovery, exports and single-entry pushes never overlap.
  */
 
-import { open, copyFile, stat } from 'fs/promises';
+import { createHash } from 'crypto';
+import path from 'path';
+import { open, copyFile, stat, rename, unlink, access, readFile, writeFile, type FileHandle } from 'fs/promises';
 import {
+  HEADER_SIZE,
   ID_TABLE_START,
   DATA_START,
   IMAGE_SLOT_SIZE,
+  verifyHeader,
+  getLabelsDbTempPath,
+  parseLabelsDb,
+  writeLabelsDbFile,
 } from './labels-db-core.js';
 import { compareDetailed } from './labels-db-compare.js';
+import { copyLabelEntry } from './labels-db-diff.js';
+import { copyFileWithProgress, type ProgressCallback } from './file-transfer.js';
+
+/** Marks unused entries in the ID table */
+const EMPTY_ID = 0xffffffff;
+
+/** Slots copied per read/write (~1MB) */
+const SLOTS_PER_CHUNK = 40;
 
 export interface SyncProgress {
   phase: 'comparing' | 'syncing';
   current: number;
   total: number;
   currentCartId?: string;
+  /** Bytes written so far (syncing phase) */
+  bytesWritten?: number;
+  /** Bytes the sync will write in total (syncing phase) */
+  totalBytes?: number;
 }
 
 export interface SyncResult {
   success: boolean;
   entriesUpdated: number;
+  entriesAdded: number;
+  entriesRemoved: number;
+  slotsWritten: number;
   bytesWritten: number;
   durationMs: number;
   breakdown: {
@@ -30,9 +63,119 @@ export interface SyncResult {
   };
 }
 
+/**
+ * A run of consecutive entries, by index
+ */
+export interface SlotRun {
+  start: number;
+  count: number;
+}
+
+/**
+ * What an incremental sync will write to make the destination match the source
+ */
+export interface IncrementalSyncPlan {
+  sourceEntryCount: number;
+  destEntryCount: number;
+  /** Image slots to copy from source to the same index in the destination */
+  slotRuns: SlotRun[];
+  /** ID table entries to rewrite, or null if the table already matches */
+  idTableRange: SlotRun | null;
+  /** Destination file size after the sync */
+  targetSize: number;
+  /** Bytes written for slots and the ID table */
+  bytesToWrite: number;
+}
+
+/**
+ * Plan the minimal writes that turn the destination into the source
+ *
+ * A slot is rewritten when the destination holds a different cart at that
+ * index (because entries were added or removed before it) or the same cart
+ * with a different image. Both ID lists must be sorted, as in labels.db.
+ */
+export function planIncrementalSync(
+  sourceIds: number[],
+  destIds: number[],
+  modified: Set<number>
+): IncrementalSyncPlan {
+  const slotRuns: SlotRun[] = [];
+  for (let i = 0; i < sourceIds.length; i++) {
+    if (destIds[i] === sourceIds[i] && !modified.has(sourceIds[i])) continue;
+
+    const last = slotRuns[slotRuns.length - 1];
+    if (last && last.start + last.count === i) {
+      last.count++;
+    } else {
+      slotRuns.push({ start: i, count: 1 });
+    }
+  }
+
+  let firstId = -1;
+  let lastId = -1;
+  for (let i = 0; i < Math.max(sourceIds.length, destIds.length); i++) {
+    if ((sourceIds[i] ?? EMPTY_ID) !== (destIds[i] ?? EMPTY_ID)) {
+      if (firstId === -1) firstId = i;
+      lastId = i;
+    }
+  }
+  const idTableRange = firstId === -1 ? null : { start: firstId, count: lastId - firstId + 1 };
+
+  const slotsToWrite = slotRuns.reduce((sum, run) => sum + run.count, 0);
+
+  return {
+    sourceEntryCount: sourceIds.length,
+    destEntryCount: destIds.length,
+    slotRuns,
+    idTableRange,
+    targetSize: DATA_START + sourceIds.length * IMAGE_SLOT_SIZE,
+    bytesToWrite: slotsToWrite * IMAGE_SLOT_SIZE + (idTableRange ? idTableRange.count * 4 : 0),
+  };
+}
+
+/**
+ * Read the sorted cart IDs from an open labels.db
+ */
+async function readIds(fileHandle: FileHandle): Promise<number[]> {
+  const { size } = await fileHandle.stat();
+  const entryCount = Math.max(0, Math.floor((size - DATA_START) / IMAGE_SLOT_SIZE));
+
+  const buffer = Buffer.alloc(entryCount * 4);
+  await fileHandle.read(buffer, 0, buffer.length, ID_TABLE_START);
+
+  const ids: number[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    const cartId = buffer.readUInt32LE(i * 4);
+    if (cartId === EMPTY_ID) break;
+    ids.push(cartId);
+  }
+  return ids;
+}
+
+/**
+ * Check whether a file is a labels.db that can be patched in place
+ */
+export async function canSyncIncrementally(destPath: string): Promise<boolean> {
+  try {
+    const fileHandle = await open(destPath, 'r');
+    try {
+      const header = Buffer.alloc(HEADER_SIZE);
+      const { bytesRead } = await fileHandle.read(header, 0, HEADER_SIZE, 0);
+      return bytesRead === HEADER_SIZE && verifyHeader(header).valid;
+    } finally {
+      await fileHandle.close();
+    }
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Sync only changed entries from source to destination
- * Much faster than copying the entire file when only a few entries differ
+ * Much faster than copying the entire file when only a few entries differ.
+ * Added and removed entries are handled in place: shifted slots and the
+ * affected part of the ID table are rewritten, and the file is truncated or
+ * extended to the source's size.
  */
 export async function syncChangedEntries(
   sourcePath: string,
@@ -40,110 +183,500 @@ export async function syncChangedEntries(
   onProgress?: (progress: SyncProgress) => void
 ): Promise<SyncResult> {
   const startTime = performance.now();
-  let compareMs = 0;
-  let writeMs = 0;
 
   // Step 1: Find differences
   onProgress?.({ phase: 'comparing', current: 0, total: 1 });
   const compareStart = performance.now();
   const diff = await compareDetailed(sourcePath, destPath, { fullImageHash: true });
-  compareMs = performance.now() - compareStart;
+  const compareMs = performance.now() - compareStart;
 
-  // Only sync modified entries (entries that exist in both with different images)
-  // Added/removed entries require rebuilding the file structure
-  const toSync = diff.modified;
+  const [sourceStats, destStats] = await Promise.all([stat(sourcePath), stat(destPath)]);
 
-  if (toSync.length === 0) {
+  if (diff.identical && sourceStats.size === destStats.size) {
     return {
       success: true,
       entriesUpdated: 0,
+      entriesAdded: 0,
+      entriesRemoved: 0,
+      slotsWritten: 0,
       bytesWritten: 0,
       durationMs: performance.now() - startTime,
       breakdown: { compareMs, writeMs: 0 },
     };
   }
 
-  // Step 2: Read source file to get ID-to-index mapping
+  // Step 2: Plan the writes from both ID tables
   const sourceHandle = await open(sourcePath, 'r');
   const destHandle = await open(destPath, 'r+'); // Open for reading and writing
 
   try {
-    // Get source ID table
-    const sourceStats = await stat(sourcePath);
-    const sourceSize = sourceStats.size;
-    const sourceEntryCount = Math.floor((sourceSize - DATA_START) / IMAGE_SLOT_SIZE);
+    const [sourceIds, destIds] = await Promise.all([readIds(sourceHandle), readIds(destHandle)]);
+    const modified = new Set(diff.modified.map(cartIdHex => parseInt(cartIdHex, 16)));
+    const plan = planIncrementalSync(sourceIds, destIds, modified);
 
-    const sourceIdBuffer = Buffer.alloc(sourceEntryCount * 4);
-    await sourceHandle.read(sourceIdBuffer, 0, sourceEntryCount * 4, ID_TABLE_START);
+    const totalSlots = plan.slotRuns.reduce((sum, run) => sum + run.count, 0);
+    const writeStart = performance.now();
+    let bytesWritten = 0;
+    let slotsWritten = 0;
+
+    // Step 3: Copy changed and shifted image slots, in chunks
+    const chunk = Buffer.alloc(SLOTS_PER_CHUNK * IMAGE_SLOT_SIZE);
+    for (const run of plan.slotRuns) {
+      for (let index = run.start; index < run.start + run.count; index += SLOTS_PER_CHUNK) {
+        const count = Math.min(SLOTS_PER_CHUNK, run.start + run.count - index);
+        const offset = DATA_START + index * IMAGE_SLOT_SIZE;
+        const length = count * IMAGE_SLOT_SIZE;
+
+        await sourceHandle.read(chunk, 0, length, offset);
+        await destHandle.write(chunk, 0, length, offset);
+
+        bytesWritten += length;
+        slotsWritten += count;
+
+        onProgress?.({
+          phase: 'syncing',
+          current: slotsWritten,
+          total: totalSlots,
+          currentCartId: sourceIds[index + count - 1].toString(16).padStart(8, '0'),
+          bytesWritten,
+          totalBytes: plan.bytesToWrite,
+        });
+      }
+    }
 
-    const sourceIdToIndex = new Map<number, number>();
-    for (let i = 0; i < sourceEntryCount; i++) {
-      const cartId = sourceIdBuffer.readUInt32LE(i * 4);
-      if (cartId === 0xffffffff) break;
-      sourceIdToIndex.set(cartId, i);
+    // Step 4: Rewrite the part of the ID table that changed
+    if (plan.idTableRange) {
+      const { start, count } = plan.idTableRange;
+      const idBuffer = Buffer.alloc(count * 4);
+      for (let i = 0; i < count; i++) {
+        idBuffer.writeUInt32LE(sourceIds[start + i] ?? EMPTY_ID, i * 4);
+      }
+      await destHandle.write(idBuffer, 0, idBuffer.length, ID_TABLE_START + start * 4);
+      bytesWritten += idBuffer.length;
     }
 
-    // Get dest ID table
-    const destStats = await stat(destPath);
-    const destSize = destStats.size;
-    const destEntryCount = Math.floor((destSize - DATA_START) / IMAGE_SLOT_SIZE);
+    // Step 5: Drop slots past the new end, or settle the size after extending
+    if (destStats.size !== plan.targetSize) {
+      await destHandle.truncate(plan.targetSize);
+    }
+    await destHandle.sync();
 
-    const destIdBuffer = Buffer.alloc(destEntryCount * 4);
-    await destHandle.read(destIdBuffer, 0, destEntryCount * 4, ID_TABLE_START);
+    const writeMs = performance.now() - writeStart;
 
-    const destIdToIndex = new Map<number, number>();
-    for (let i = 0; i < destEntryCount; i++) {
-      const cartId = destIdBuffer.readUInt32LE(i * 4);
-      if (cartId === 0xffffffff) break;
-      destIdToIndex.set(cartId, i);
+    return {
+      success: true,
+      entriesUpdated: diff.modified.length,
+      entriesAdded: diff.onlyInLocal.length,
+      entriesRemoved: diff.onlyInOther.length,
+      slotsWritten,
+      bytesWritten,
+      durationMs: performance.now() - startTime,
+      breakdown: { compareMs, writeMs },
+    };
+  } finally {
+    await sourceHandle.close();
+    await destHandle.close();
+  }
+}
+
+// =============================================================================
+// Crash Safety
+// =============================================================================
+
+/**
+ * Journal written next to labels.db while it is patched in place
+ */
+export interface LabelsDbJournal {
+  version: 1;
+  operation: 'sync';
+  startedAt: string;
+  /** Size of labels.db before the sync */
+  originalSize: number;
+  /** Size labels.db will have after the sync */
+  targetSize: number;
+  /** SHA-256 of the source labels.db the sync was copying from */
+  sourceHash?: string;
+  /** Writes of a single-entry push, whose bytes are in the patch file */
+  patch?: {
+    ranges: LabelsDbPatchRange[];
+    /** SHA-256 of labels.db once every range is written */
+    targetHash: string;
+  };
+}
+
+/**
+ * A byte range of labels.db rewritten by a single-entry push
+ */
+export interface LabelsDbPatchRange {
+  offset: number;
+  length: number;
+}
+
+export interface LabelsDbVerification {
+  valid: boolean;
+  error?: string;
+}
+
+export interface LabelsDbRecovery {
+  /**
+   * clean: nothing was interrupted
+   * rolled_back: a partial full copy was discarded, the previous labels.db is intact
+   * completed: an interrupted in-place sync was finished from the local
+   *   labels.db, or from its patch file
+   * failed: an interrupted sync could not be finished, e.g. because the
+   *   local labels.db has changed since it started
+   */
+  status: 'clean' | 'rolled_back' | 'completed' | 'failed';
+  error?: string;
+}
+
+const labelsDbLocks = new Map<string, Promise<unknown>>();
+
+/**
+ * Run a write to a labels.db once no other write to the same file is running
+ * Writers queue in call order; a failed write doesn't block the next one.
+ */
+export async function withLabelsDbLock<T>(filePath: string, fn: () => Promise<T>): Promise<T> {
+  const key = path.resolve(filePath);
+  const previous = labelsDbLocks.get(key) ?? Promise.resolve();
+  const run = previous.then(fn);
+  const settled = run.catch(() => {});
+  labelsDbLocks.set(key, settled);
+
+  try {
+    return await run;
+  } finally {
+    if (labelsDbLocks.get(key) === settled) {
+      labelsDbLocks.delete(key);
     }
+  }
+}
 
-    // Step 3: Copy changed image data
-    const writeStart = performance.now();
-    let bytesWritten = 0;
+async function hashFile(filePath: string): Promise<string> {
+  return createHash('sha256').update(await readFile(filePath)).digest('hex');
+}
+
+/**
+ * Get the journal path for a labels.db
+ */
+export function getLabelsDbJournalPath(filePath: string): string {
+  return `${filePath}.journal`;
+}
+
+/**
+ * Get the patch file path for a labels.db
+ */
+export function getLabelsDbPatchPath(filePath: string): string {
+  return `${filePath}.patch`;
+}
+
+async function pathExists(filePath: string): Promise<boolean> {
+  try {
+    await access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Load a labels.db journal, or null if there is none
+ */
+export async function loadLabelsDbJournal(filePath: string): Promise<LabelsDbJournal | null> {
+  try {
+    const content = await readFile(getLabelsDbJournalPath(filePath), 'utf-8');
+    return JSON.parse(content) as LabelsDbJournal;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    // An unreadable journal still means a sync was interrupted
+    return { version: 1, operation: 'sync', startedAt: '', originalSize: 0, targetSize: 0 };
+  }
+}
 
-    for (let i = 0; i < toSync.length; i++) {
-      const cartIdHex = toSync[i];
-      const cartId = parseInt(cartIdHex, 16);
+/**
+ * Check that a copy of labels.db is valid and identical to its source
+ * Verifies the header, size and every entry's image data.
+ */
+export async function verifyLabelsDbCopy(sourcePath: string, destPath: string): Promise<LabelsDbVerification> {
+  const fileHandle = await open(destPath, 'r');
+  try {
+    const header = Buffer.alloc(HEADER_SIZE);
+    await fileHandle.read(header, 0, HEADER_SIZE, 0);
+    const headerCheck = verifyHeader(header);
+    if (!headerCheck.valid) {
+      return { valid: false, error: headerCheck.error };
+    }
+  } finally {
+    await fileHandle.close();
+  }
 
-      onProgress?.({
-        phase: 'syncing',
-        current: i + 1,
-        total: toSync.length,
-        currentCartId: cartIdHex,
-      });
+  const [sourceStats, destStats] = await Promise.all([stat(sourcePath), stat(destPath)]);
+  if (sourceStats.size !== destStats.size) {
+    return { valid: false, error: `Size mismatch: expected ${sourceStats.size}, got ${destStats.size}` };
+  }
+
+  const diff = await compareDetailed(sourcePath, destPath, { fullImageHash: true });
+  if (!diff.identical) {
+    const count = diff.onlyInLocal.length + diff.onlyInOther.length + diff.modified.length;
+    return { valid: false, error: `${count} entries differ from the source` };
+  }
+
+  return { valid: true };
+}
 
-      const sourceIndex = sourceIdToIndex.get(cartId);
-      const destIndex = destIdToIndex.get(cartId);
+/**
+ * Replace labels.db with a full copy of the source
+ * The copy is written to a temporary file and verified before it is
+ * renamed over the original. A complete copy supersedes any interrupted
+ * in-place sync, so a leftover journal is removed. Callers hold the lock.
+ */
+export async function replaceLabelsDb(
+  sourcePath: string,
+  destPath: string,
+  onProgress: ProgressCallback = () => {}
+): Promise<void> {
+  const tempPath = getLabelsDbTempPath(destPath);
+
+  try {
+    await copyFileWithProgress(sourcePath, tempPath, onProgress, 50);
+
+    const verification = await verifyLabelsDbCopy(sourcePath, tempPath);
+    if (!verification.valid) {
+      throw new Error(`Copied labels.db failed verification: ${verification.error}`);
+    }
+
+    await rename(tempPath, destPath);
+  } catch (error) {
+    await unlink(tempPath).catch(() => {});
+    throw error;
+  }
+
+  await unlink(getLabelsDbJournalPath(destPath)).catch(() => {});
+  await unlink(getLabelsDbPatchPath(destPath)).catch(() => {});
+}
 
-      if (sourceIndex === undefined || destIndex === undefined) {
-        continue; // Skip if not found in both
+/**
+ * Sync changed entries in place, journaled and verified
+ * If the patched file doesn't match the source, it is replaced with a full copy.
+ * Callers hold the lock.
+ */
+export async function syncLabelsDbSafely(
+  sourcePath: string,
+  destPath: string,
+  onProgress?: (progress: SyncProgress) => void
+): Promise<SyncResult & { replaced: boolean }> {
+  const [sourceStats, destStats, sourceHash] = await Promise.all([
+    stat(sourcePath),
+    stat(destPath),
+    hashFile(sourcePath),
+  ]);
+  const journal: LabelsDbJournal = {
+    version: 1,
+    operation: 'sync',
+    startedAt: new Date().toISOString(),
+    originalSize: destStats.size,
+    targetSize: sourceStats.size,
+    sourceHash,
+  };
+  const journalPath = getLabelsDbJournalPath(destPath);
+  await writeFile(journalPath, JSON.stringify(journal, null, 2), { flush: true });
+
+  const result = await syncChangedEntries(sourcePath, destPath, onProgress);
+
+  let replaced = false;
+  const verification = await verifyLabelsDbCopy(sourcePath, destPath);
+  if (!verification.valid) {
+    console.warn(`In-place labels.db sync failed verification (${verification.error}), replacing the file`);
+    await replaceLabelsDb(sourcePath, destPath);
+    replaced = true;
+  }
+
+  await unlink(journalPath);
+  return { ...result, replaced };
+}
+
+/**
+ * Journal a single-entry push before anything in labels.db is written
+ *
+ * The bytes each range will hold go to the patch file first, then the
+ * journal, so a journal with a patch always has its bytes on disk. Returns
+ * the intended labels.db and the journal. Callers hold the lock.
+ */
+export async function journalLabelEntrySync(
+  sourcePath: string,
+  destPath: string,
+  cartId: number
+): Promise<{ target: Buffer; journal: LabelsDbJournal; slotsWritten: number; bytesWritten: number }> {
+  const [sourceData, destData] = await Promise.all([readFile(sourcePath), readFile(destPath)]);
+  const target = copyLabelEntry(sourceData, destData, cartId);
+
+  const plan = planIncrementalSync(
+    parseLabelsDb(target).entries.map(entry => entry.cartId),
+    parseLabelsDb(destData).entries.map(entry => entry.cartId),
+    new Set([cartId])
+  );
+
+  const ranges: LabelsDbPatchRange[] = plan.slotRuns.map(run => ({
+    offset: DATA_START + run.start * IMAGE_SLOT_SIZE,
+    length: run.count * IMAGE_SLOT_SIZE,
+  }));
+  if (plan.idTableRange) {
+    ranges.push({ offset: ID_TABLE_START + plan.idTableRange.start * 4, length: plan.idTableRange.count * 4 });
+  }
+
+  const patch = Buffer.concat(ranges.map(range => target.subarray(range.offset, range.offset + range.length)));
+  await writeFile(getLabelsDbPatchPath(destPath), patch, { flush: true });
+
+  const journal: LabelsDbJournal = {
+    version: 1,
+    operation: 'sync',
+    startedAt: new Date().toISOString(),
+    originalSize: destData.length,
+    targetSize: target.length,
+    patch: { ranges, targetHash: createHash('sha256').update(target).digest('hex') },
+  };
+  await writeFile(getLabelsDbJournalPath(destPath), JSON.stringify(journal, null, 2), { flush: true });
+
+  return {
+    target,
+    journal,
+    slotsWritten: plan.slotRuns.reduce((sum, run) => sum + run.count, 0),
+    bytesWritten: plan.bytesToWrite,
+  };
+}
+
+/**
+ * Write a journaled patch into labels.db and settle its size
+ * Returns whether the result matches the journal's target hash.
+ */
+async function applyLabelsDbPatch(destPath: string, journal: LabelsDbJournal): Promise<boolean> {
+  const { ranges, targetHash } = journal.patch!;
+  const patch = await readFile(getLabelsDbPatchPath(destPath));
+  if (patch.length !== ranges.reduce((sum, range) => sum + range.length, 0)) {
+    throw new Error('The labels.db patch file is incomplete');
+  }
+
+  const fileHandle = await open(destPath, 'r+');
+  try {
+    let position = 0;
+    for (const range of ranges) {
+      await fileHandle.write(patch, position, range.length, range.offset);
+      position += range.length;
+    }
+    await fileHandle.truncate(journal.targetSize);
+    await fileHandle.sync();
+  } finally {
+    await fileHandle.close();
+  }
+
+  return (await hashFile(destPath)) === targetHash;
+}
+
+/**
+ * Make one cartridge's entry in labels.db match the source, in place
+ *
+ * Only that entry's slot is written when both files have the cart. When it
+ * is added or removed, the slots after it shift and the ID table is
+ * rewritten from that point, so appending a new cart writes one slot plus
+ * the ID table. Journaled, verified and locked like a full sync.
+ */
+export async function syncLabelEntry(
+  sourcePath: string,
+  destPath: string,
+  cartId: number
+): Promise<{ slotsWritten: number; bytesWritten: number }> {
+  return withLabelsDbLock(destPath, async () => {
+    const { target, journal, slotsWritten, bytesWritten } = await journalLabelEntrySync(sourcePath, destPath, cartId);
+
+    if (!(await applyLabelsDbPatch(destPath, journal))) {
+      console.warn('In-place label entry sync failed verification, replacing the file');
+      await writeLabelsDbFile(destPath, target);
+    }
+
+    await unlink(getLabelsDbJournalPath(destPath));
+    await unlink(getLabelsDbPatchPath(destPath)).catch(() => {});
+    return { slotsWritten, bytesWritten };
+  });
+}
+
+/**
+ * Finish or roll back a labels.db write that was interrupted, e.g. by
+ * removing the SD card
+ *
+ * A leftover temporary file from a full copy is discarded; the original was
+ * never touched. A leftover journal means an in-place sync stopped partway,
+ * so the sync is run again from the local labels.db and verified - but only
+ * if the local labels.db is still the one the sync started from. Otherwise
+ * the journal is kept and the card needs a full upload. A single-entry push
+ * is finished from its patch file instead, without the local labels.db.
+ */
+export async function recoverLabelsDb(destPath: string, sourcePath: string): Promise<LabelsDbRecovery> {
+  return withLabelsDbLock(destPath, () => recoverLabelsDbUnlocked(destPath, sourcePath));
+}
+
+async function recoverLabelsDbUnlocked(destPath: string, sourcePath: string): Promise<LabelsDbRecovery> {
+  let status: LabelsDbRecovery['status'] = 'clean';
+
+  const tempPath = getLabelsDbTempPath(destPath);
+  if (await pathExists(tempPath)) {
+    await unlink(tempPath);
+    status = 'rolled_back';
+  }
+
+  const journal = await loadLabelsDbJournal(destPath);
+  if (!journal) {
+    return { status };
+  }
+
+  if (journal.patch) {
+    try {
+      if (!(await applyLabelsDbPatch(destPath, journal))) {
+        return { status: 'failed', error: 'An interrupted label push could not be finished from its patch file' };
       }
+      await unlink(getLabelsDbJournalPath(destPath)).catch(() => {});
+      await unlink(getLabelsDbPatchPath(destPath)).catch(() => {});
+      return { status: 'completed' };
+    } catch (error) {
+      return {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
 
-      // Read image data from source
-      const sourceOffset = DATA_START + sourceIndex * IMAGE_SLOT_SIZE;
-      const imageBuffer = Buffer.alloc(IMAGE_SLOT_SIZE);
-      await sourceHandle.read(imageBuffer, 0, IMAGE_SLOT_SIZE, sourceOffset);
+  if (!(await pathExists(sourcePath))) {
+    return {
+      status: 'failed',
+      error: 'An interrupted labels.db sync needs the local labels.db to finish',
+    };
+  }
 
-      // Write to destination at the correct offset
-      const destOffset = DATA_START + destIndex * IMAGE_SLOT_SIZE;
-      await destHandle.write(imageBuffer, 0, IMAGE_SLOT_SIZE, destOffset);
+  try {
+    if (!journal.sourceHash || journal.sourceHash !== (await hashFile(sourcePath))) {
+      return {
+        status: 'failed',
+        error: 'The local labels.db has changed since the interrupted sync started; upload labels to the SD card again',
+      };
+    }
 
-      bytesWritten += IMAGE_SLOT_SIZE;
+    if (await canSyncIncrementally(destPath)) {
+      await syncChangedEntries(sourcePath, destPath);
     }
 
-    writeMs = performance.now() - writeStart;
+    const verification = await verifyLabelsDbCopy(sourcePath, destPath).catch(
+      (error): LabelsDbVerification => ({ valid: false, error: String(error) })
+    );
+    if (!verification.valid) {
+      await replaceLabelsDb(sourcePath, destPath);
+    }
 
+    await unlink(getLabelsDbJournalPath(destPath)).catch(() => {});
+    return { status: 'completed' };
+  } catch (error) {
     return {
-      success: true,
-      entriesUpdated: toSync.length,
-      bytesWritten,
-      durationMs: performance.now() - startTime,
-      breakdown: { compareMs, writeMs },
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
     };
-  } finally {
-    await sourceHandle.close();
-    await destHandle.close();
   }
 }
 
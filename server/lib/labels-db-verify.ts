@@ -0,0 +1,275 @@
+/**
+ * Integrity verification and repair for labels.db files
+ *
+ * verifyHeader() only checks the header fields. The verifier here checks the
+ * whole file against the format: a sorted ID table, one full image slot per
+ * entry, and 0xFF slot padding. The repair rebuilds a file from the entries
+ * that can be recovered.
+ */
+
+import {
+  HEADER_SIZE,
+  ID_TABLE_START,
+  DATA_START,
+  IMAGE_DATA_SIZE,
+  IMAGE_SLOT_SIZE,
+  PADDING_FILL,
+  verifyHeader,
+} from './labels-db-core.js';
+
+/** Marks unused entries in the ID table */
+const EMPTY_ID = 0xffffffff;
+
+/** Entries the ID table has room for */
+const MAX_ENTRIES = (DATA_START - ID_TABLE_START) / 4;
+
+/** Indices listed per issue in a report */
+const MAX_LISTED_INDICES = 10;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type LabelsDbIssueCode =
+  | 'invalid_header'
+  | 'too_small'
+  | 'trailing_bytes'
+  | 'too_many_entries'
+  | 'count_mismatch'
+  | 'empty_id_in_range'
+  | 'stray_id'
+  | 'duplicate_id'
+  | 'unsorted'
+  | 'bad_padding';
+
+export interface LabelsDbIssue {
+  code: LabelsDbIssueCode;
+  /** Errors can make the console show wrong labels; warnings can't */
+  severity: 'error' | 'warning';
+  message: string;
+  /** How many entries or slots are affected */
+  count: number;
+  /** The first affected indices */
+  indices?: number[];
+}
+
+export interface LabelsDbReport {
+  valid: boolean;
+  fileSize: number;
+  /** Cart IDs before the first empty ID, as the console reads them */
+  entryCount: number;
+  /** Full image slots after the ID table */
+  slotCount: number;
+  issues: LabelsDbIssue[];
+  /** Whether repairLabelsDb() can fix every issue */
+  repairable: boolean;
+}
+
+export interface LabelsDbRepairResult {
+  data: Buffer;
+  /** Report for the file before the repair */
+  before: LabelsDbReport;
+  /** Report for the repaired file */
+  after: LabelsDbReport;
+  entriesKept: number;
+  entriesDropped: number;
+}
+
+// =============================================================================
+// Verification
+// =============================================================================
+
+/**
+ * Collect issue indices, keeping the total count but listing only the first few
+ */
+function createIssueCollector() {
+  const found = new Map<LabelsDbIssueCode, number[]>();
+  const counts = new Map<LabelsDbIssueCode, number>();
+
+  return {
+    add(code: LabelsDbIssueCode, index: number) {
+      counts.set(code, (counts.get(code) ?? 0) + 1);
+      const indices = found.get(code) ?? [];
+      if (indices.length < MAX_LISTED_INDICES) indices.push(index);
+      found.set(code, indices);
+    },
+    count: (code: LabelsDbIssueCode) => counts.get(code) ?? 0,
+    indices: (code: LabelsDbIssueCode) => found.get(code) ?? [],
+  };
+}
+
+/**
+ * Verify a whole labels.db buffer
+ *
+ * Checks the header, that the file is a whole number of image slots, that
+ * the ID table has exactly one strictly increasing cart ID per slot with no
+ * 0xFFFFFFFF inside the used range, and that every slot's padding is 0xFF.
+ */
+export function verifyLabelsDb(data: Buffer): LabelsDbReport {
+  const issues: LabelsDbIssue[] = [];
+  const report = (entryCount: number, slotCount: number): LabelsDbReport => ({
+    valid: !issues.some(issue => issue.severity === 'error'),
+    fileSize: data.length,
+    entryCount,
+    slotCount,
+    issues,
+    repairable: !issues.some(issue => issue.code === 'invalid_header' || issue.code === 'too_small'),
+  });
+
+  const headerCheck = verifyHeader(data);
+  if (!headerCheck.valid) {
+    issues.push({ code: 'invalid_header', severity: 'error', message: headerCheck.error ?? 'Invalid header', count: 1 });
+    return report(0, 0);
+  }
+
+  if (data.length < DATA_START) {
+    issues.push({
+      code: 'too_small',
+      severity: 'error',
+      message: `File is ${data.length} bytes, shorter than the ${DATA_START}-byte ID table`,
+      count: 1,
+    });
+    return report(0, 0);
+  }
+
+  const slotCount = Math.floor((data.length - DATA_START) / IMAGE_SLOT_SIZE);
+  const trailingBytes = (data.length - DATA_START) % IMAGE_SLOT_SIZE;
+  if (trailingBytes > 0) {
+    issues.push({
+      code: 'trailing_bytes',
+      severity: 'error',
+      message: `${trailingBytes} bytes after the last full image slot`,
+      count: 1,
+    });
+  }
+
+  if (slotCount > MAX_ENTRIES) {
+    issues.push({
+      code: 'too_many_entries',
+      severity: 'error',
+      message: `${slotCount} image slots, but the ID table holds at most ${MAX_ENTRIES}`,
+      count: slotCount - MAX_ENTRIES,
+    });
+  }
+
+  // ID table
+  const collector = createIssueCollector();
+  const ids: number[] = [];
+  for (let i = 0; i < MAX_ENTRIES; i++) {
+    ids.push(data.readUInt32LE(ID_TABLE_START + i * 4));
+  }
+
+  let entryCount = ids.indexOf(EMPTY_ID);
+  if (entryCount === -1) entryCount = MAX_ENTRIES;
+
+  let previous = -1;
+  for (let i = 0; i < Math.min(slotCount, MAX_ENTRIES); i++) {
+    const cartId = ids[i];
+    if (cartId === EMPTY_ID) {
+      collector.add('empty_id_in_range', i);
+      continue;
+    }
+    if (cartId === previous) {
+      collector.add('duplicate_id', i);
+    } else if (cartId < previous) {
+      collector.add('unsorted', i);
+    }
+    previous = cartId;
+  }
+  for (let i = slotCount; i < MAX_ENTRIES; i++) {
+    if (ids[i] !== EMPTY_ID) collector.add('stray_id', i);
+  }
+
+  if (entryCount !== Math.min(slotCount, MAX_ENTRIES)) {
+    issues.push({
+      code: 'count_mismatch',
+      severity: 'error',
+      message: `ID table lists ${entryCount} entries but the file has ${slotCount} image slots`,
+      count: Math.abs(entryCount - slotCount),
+    });
+  }
+
+  const idIssues: Array<[LabelsDbIssueCode, LabelsDbIssue['severity'], string]> = [
+    ['empty_id_in_range', 'error', 'empty (0xFFFFFFFF) IDs inside the used range'],
+    ['stray_id', 'error', 'cart IDs after the last image slot'],
+    ['duplicate_id', 'error', 'duplicate cart IDs'],
+    ['unsorted', 'error', 'cart IDs out of order'],
+  ];
+  for (const [code, severity, description] of idIssues) {
+    const count = collector.count(code);
+    if (count > 0) {
+      issues.push({ code, severity, message: `${count} ${description}`, count, indices: collector.indices(code) });
+    }
+  }
+
+  // Slot padding
+  for (let i = 0; i < slotCount; i++) {
+    const paddingStart = DATA_START + i * IMAGE_SLOT_SIZE + IMAGE_DATA_SIZE;
+    const paddingEnd = DATA_START + (i + 1) * IMAGE_SLOT_SIZE;
+    for (let offset = paddingStart; offset < paddingEnd; offset++) {
+      if (data[offset] !== PADDING_FILL) {
+        collector.add('bad_padding', i);
+        break;
+      }
+    }
+  }
+  const badPadding = collector.count('bad_padding');
+  if (badPadding > 0) {
+    issues.push({
+      code: 'bad_padding',
+      severity: 'warning',
+      message: `${badPadding} image slots with padding other than 0x${PADDING_FILL.toString(16).toUpperCase()}`,
+      count: badPadding,
+      indices: collector.indices('bad_padding'),
+    });
+  }
+
+  return report(entryCount, slotCount);
+}
+
+// =============================================================================
+// Repair
+// =============================================================================
+
+/**
+ * Rebuild a labels.db from the entries that can be recovered
+ *
+ * Every slot with a cart ID is kept; slots with an empty ID, IDs without a
+ * slot and trailing partial slots are dropped. Entries are re-sorted by cart
+ * ID, duplicates keep their first slot, and slot padding is reset to 0xFF.
+ * Throws if the header is invalid, since the file may not be a labels.db.
+ */
+export function repairLabelsDb(data: Buffer): LabelsDbRepairResult {
+  const before = verifyLabelsDb(data);
+  if (!before.repairable) {
+    throw new Error(`Cannot repair labels.db: ${before.issues[0]?.message}`);
+  }
+
+  const usable = Math.min(before.slotCount, MAX_ENTRIES);
+  const entries: Array<{ cartId: number; index: number }> = [];
+  const seen = new Set<number>();
+  for (let i = 0; i < usable; i++) {
+    const cartId = data.readUInt32LE(ID_TABLE_START + i * 4);
+    if (cartId === EMPTY_ID || seen.has(cartId)) continue;
+    seen.add(cartId);
+    entries.push({ cartId, index: i });
+  }
+  entries.sort((a, b) => a.cartId - b.cartId);
+
+  const repaired = Buffer.alloc(DATA_START + entries.length * IMAGE_SLOT_SIZE, PADDING_FILL);
+  data.copy(repaired, 0, 0, HEADER_SIZE);
+
+  entries.forEach(({ cartId, index }, newIndex) => {
+    repaired.writeUInt32LE(cartId, ID_TABLE_START + newIndex * 4);
+    const source = DATA_START + index * IMAGE_SLOT_SIZE;
+    data.copy(repaired, DATA_START + newIndex * IMAGE_SLOT_SIZE, source, source + IMAGE_DATA_SIZE);
+  });
+
+  return {
+    data: repaired,
+    before,
+    after: verifyLabelsDb(repaired),
+    entriesKept: entries.length,
+    entriesDropped: before.slotCount - entries.length,
+  };
+}
@@ -0,0 +1,298 @@
+/**
+ * library.db Library
+ *
+ * Reading and writing Analogue 3D library.db files, which track every cartridge
+ * the console has seen along with its play statistics.
+ *
+ * See docs/ANALOGUE_3D_SD_CARD_FORMAT.md for the format specification.
+ */
+
+import { readFile, access, constants } from 'fs/promises';
+import path from 'path';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Magic byte at offset 0x00 */
+export const MAGIC_BYTE = 0x07;
+
+/** Identifier string at offset 0x01 */
+export const IDENTIFIER = 'Analogue-Co';
+
+/** File type string at offset 0x20 */
+export const FILE_TYPE = 'Analogue-3D.library';
+
+/** Version number (1.0) stored as little-endian at offset 0x40 */
+export const VERSION = 0x00010000;
+
+/** Header size in bytes */
+export const HEADER_SIZE = 0x100; // 256 bytes
+
+/** Start of cartridge ID table */
+export const ID_TABLE_START = 0x100; // 256 bytes
+
+/** Number of slots in the cartridge ID table */
+export const ID_TABLE_SLOTS = 4096;
+
+/** Value marking an unused slot in the ID table */
+export const EMPTY_SLOT = 0xffffffff;
+
+/** Start of extended (per-cart statistics) data */
+export const DATA_START = 0x4100; // 16,640 bytes
+
+/** Size of each extended data record */
+export const RECORD_SIZE = 12;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** A single cartridge in the library database */
+export interface LibraryEntry {
+  /** Cartridge ID as a number */
+  cartId: number;
+  /** Cartridge ID as 8-character hex string */
+  cartIdHex: string;
+  /** Slot position in the ID table (0-based) */
+  index: number;
+  /** Minutes since Unix epoch when the cart was first added */
+  addedTime: number;
+  /** Total play time in seconds */
+  playTime: number;
+  /** Number of times the game has been launched */
+  sessions: number;
+}
+
+/** Parsed library.db structure */
+export interface LibraryDatabase {
+  /** Number of cartridges in the database */
+  entryCount: number;
+  /** All cartridge entries, in slot order */
+  entries: LibraryEntry[];
+  /** Map from cartridge ID to slot index for fast lookup */
+  idToIndex: Map<number, number>;
+}
+
+/** JSON-friendly play statistics for a single cartridge */
+export interface PlayStats {
+  cartId: string;
+  /** ISO timestamp of when the cart was added, or null if unset */
+  addedAt: string | null;
+  /** Total play time in seconds */
+  playTime: number;
+  sessions: number;
+}
+
+// =============================================================================
+// Header Operations
+// =============================================================================
+
+/**
+ * Create a valid library.db header
+ */
+export function createHeader(): Buffer {
+  const header = Buffer.alloc(HEADER_SIZE, 0x00);
+
+  header[0] = MAGIC_BYTE;
+  header.write(IDENTIFIER, 1, 'ascii');
+  header.write(FILE_TYPE, 0x20, 'ascii');
+  header.writeUInt32LE(VERSION, 0x40);
+
+  return header;
+}
+
+/**
+ * Verify a library.db header is valid
+ */
+export function verifyHeader(data: Buffer): { valid: boolean; error?: string } {
+  if (data.length < HEADER_SIZE) {
+    return { valid: false, error: `File too small: ${data.length} bytes, need at least ${HEADER_SIZE}` };
+  }
+
+  const magic = data[0];
+  if (magic !== MAGIC_BYTE) {
+    return { valid: false, error: `Invalid magic byte: 0x${magic.toString(16)}, expected 0x${MAGIC_BYTE.toString(16)}` };
+  }
+
+  const identifier = data.subarray(1, 1 + IDENTIFIER.length).toString('ascii');
+  if (identifier !== IDENTIFIER) {
+    return { valid: false, error: `Invalid identifier: "${identifier}", expected "${IDENTIFIER}"` };
+  }
+
+  const fileType = data.subarray(0x20, 0x20 + FILE_TYPE.length).toString('ascii');
+  if (fileType !== FILE_TYPE) {
+    return { valid: false, error: `Invalid file type: "${fileType}", expected "${FILE_TYPE}"` };
+  }
+
+  return { valid: true };
+}
+
+// =============================================================================
+// Time Conversion
+// =============================================================================
+
+/**
+ * Convert an addedTime value (minutes since epoch) to a Date
+ */
+export function addedTimeToDate(addedTime: number): Date {
+  return new Date(addedTime * 60 * 1000);
+}
+
+/**
+ * Convert a Date to an addedTime value (minutes since epoch)
+ */
+export function dateToAddedTime(date: Date): number {
+  return Math.floor(date.getTime() / 1000 / 60);
+}
+
+// =============================================================================
+// Parsing Operations
+// =============================================================================
+
+/**
+ * Parse a library.db buffer and return its structure
+ *
+ * Empty slots are skipped rather than treated as the end of the table, and
+ * extended records that fall past the end of the file read as zero.
+ */
+export function parseLibraryDb(data: Buffer): LibraryDatabase {
+  const verification = verifyHeader(data);
+  if (!verification.valid) {
+    throw new Error(`Invalid library.db: ${verification.error}`);
+  }
+
+  if (data.length < DATA_START) {
+    throw new Error(`File too small: ${data.length} bytes, minimum is ${DATA_START}`);
+  }
+
+  const entries: LibraryEntry[] = [];
+  const idToIndex = new Map<number, number>();
+
+  for (let i = 0; i < ID_TABLE_SLOTS; i++) {
+    const cartId = data.readUInt32LE(ID_TABLE_START + i * 4);
+    if (cartId === EMPTY_SLOT) {
+      continue;
+    }
+
+    const recordOffset = DATA_START + i * RECORD_SIZE;
+    const hasRecord = recordOffset + RECORD_SIZE <= data.length;
+
+    entries.push({
+      cartId,
+      cartIdHex: cartId.toString(16).padStart(8, '0'),
+      index: i,
+      addedTime: hasRecord ? data.readUInt32LE(recordOffset) : 0,
+      playTime: hasRecord ? data.readUInt32LE(recordOffset + 4) : 0,
+      sessions: hasRecord ? data.readUInt32LE(recordOffset + 8) : 0,
+    });
+    idToIndex.set(cartId, i);
+  }
+
+  return {
+    entryCount: entries.length,
+    entries,
+    idToIndex,
+  };
+}
+
+/**
+ * Parse a library.db file from disk
+ */
+export async function parseLibraryDbFile(filePath: string): Promise<LibraryDatabase> {
+  const data = await readFile(filePath);
+  return parseLibraryDb(data);
+}
+
+// =============================================================================
+// Lookup Operations
+// =============================================================================
+
+/**
+ * Find an entry by numeric cartridge ID
+ */
+export function getEntryByCartId(db: LibraryDatabase, cartId: number): LibraryEntry | null {
+  if (!db.idToIndex.has(cartId)) {
+    return null;
+  }
+  return db.entries.find(e => e.cartId === cartId) ?? null;
+}
+
+/**
+ * Find an entry by hex cartridge ID
+ */
+export function getEntryByCartIdHex(db: LibraryDatabase, cartIdHex: string): LibraryEntry | null {
+  return getEntryByCartId(db, parseInt(cartIdHex, 16));
+}
+
+/**
+ * Convert an entry to JSON-friendly play statistics
+ */
+export function toPlayStats(entry: LibraryEntry): PlayStats {
+  return {
+    cartId: entry.cartIdHex,
+    addedAt: entry.addedTime > 0 ? addedTimeToDate(entry.addedTime).toISOString() : null,
+    playTime: entry.playTime,
+    sessions: entry.sessions,
+  };
+}
+
+// =============================================================================
+// Creation Operations
+// =============================================================================
+
+/**
+ * Create a library.db buffer from a list of entries
+ *
+ * Entries are written in the order given; unused slots are filled with
+ * 0xFFFFFFFF and the extended data section covers only the occupied slots.
+ */
+export function createLibraryDb(
+  entries: Array<Pick<LibraryEntry, 'cartId' | 'addedTime' | 'playTime' | 'sessions'>>
+): Buffer {
+  if (entries.length > ID_TABLE_SLOTS) {
+    throw new Error(`Too many entries: ${entries.length}, maximum is ${ID_TABLE_SLOTS}`);
+  }
+
+  const data = Buffer.alloc(DATA_START + entries.length * RECORD_SIZE, 0x00);
+  createHeader().copy(data, 0);
+  data.fill(0xff, ID_TABLE_START, DATA_START);
+
+  entries.forEach((entry, i) => {
+    data.writeUInt32LE(entry.cartId, ID_TABLE_START + i * 4);
+
+    const recordOffset = DATA_START + i * RECORD_SIZE;
+    data.writeUInt32LE(entry.addedTime, recordOffset);
+    data.writeUInt32LE(entry.playTime, recordOffset + 4);
+    data.writeUInt32LE(entry.sessions, recordOffset + 8);
+  });
+
+  return data;
+}
+
+// =============================================================================
+// SD Card Operations
+// =============================================================================
+
+/**
+ * Get the library.db path for an SD card root
+ */
+export function getSDLibraryDbPath(sdCardPath: string): string {
+  return path.join(sdCardPath, 'Library', 'N64', 'library.db');
+}
+
+/**
+ * Read and parse library.db from an SD card
+ * Returns null if the card has no readable library.db
+ */
+export async function readSDLibraryDb(sdCardPath: string): Promise<LibraryDatabase | null> {
+  const libraryDbPath = getSDLibraryDbPath(sdCardPath);
+
+  try {
+    await access(libraryDbPath, constants.R_OK);
+  } catch {
+    return null;
+  }
+
+  return parseLibraryDbFile(libraryDbPath);
+}
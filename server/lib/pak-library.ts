@@ -0,0 +1,336 @@
+/**
+ * Pak Library
+ *
+ * Standalone controller pak images that aren't tied to a cartridge (e.g. a
+ * friend's pak, or a pak shared between games). A library pak can be loaded
+ * into any cartridge's pak slot; the pak it replaces is saved to the library
+ * first. Stored in .local/Library/N64/PakLibrary/.
+ */
+
+import { readFile, writeFile, mkdir, unlink } from 'fs/promises';
+import { existsSync } from 'fs';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import {
+  ACTIVE_PAK_SLOT,
+  validateGamePak,
+  validatePakSlotName,
+  computeGamePakHash,
+  readLocalGamePak,
+  saveLocalGamePak,
+  uploadGamePakToSD,
+} from './game-pak.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface LibraryPak {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+  md5Hash: string;
+  size: number;
+  /** Where the pak came from, when it was saved from a cartridge */
+  origin?: { cartId: string; slot: string };
+}
+
+export interface PakLibraryMetadata {
+  version: 1;
+  paks: LibraryPak[];
+}
+
+export interface LoadLibraryPakResult {
+  path: string;
+  /** The pak that was replaced, now in the library (null if there was none) */
+  saved: LibraryPak | null;
+  syncedToSD?: boolean;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const PAK_LIBRARY_DIR = path.join(process.cwd(), '.local', 'Library', 'N64', 'PakLibrary');
+const LIBRARY_METADATA_PATH = path.join(PAK_LIBRARY_DIR, 'library.json');
+
+// =============================================================================
+// File Operations
+// =============================================================================
+
+/**
+ * Load the library index from disk
+ */
+export async function loadPakLibrary(): Promise<PakLibraryMetadata> {
+  if (!existsSync(LIBRARY_METADATA_PATH)) {
+    return { version: 1, paks: [] };
+  }
+
+  try {
+    const content = await readFile(LIBRARY_METADATA_PATH, 'utf-8');
+    const data = JSON.parse(content) as PakLibraryMetadata;
+
+    if (!data.version || !Array.isArray(data.paks)) {
+      console.warn('Invalid pak library structure, returning empty');
+      return { version: 1, paks: [] };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error loading pak library:', error);
+    return { version: 1, paks: [] };
+  }
+}
+
+/**
+ * Save the library index to disk
+ */
+async function savePakLibrary(data: PakLibraryMetadata): Promise<void> {
+  await mkdir(PAK_LIBRARY_DIR, { recursive: true });
+  await writeFile(LIBRARY_METADATA_PATH, JSON.stringify(data, null, 2), 'utf-8');
+}
+
+function getLibraryPakPath(id: string): string {
+  return path.join(PAK_LIBRARY_DIR, `${id}.img`);
+}
+
+/**
+ * Validate and normalize a library pak name
+ */
+function validateLibraryPakName(name: unknown): string {
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    throw new Error('Pak name is required');
+  }
+  if (name.trim().length > 64) {
+    throw new Error('Pak name must be 64 characters or fewer');
+  }
+  return name.trim();
+}
+
+// =============================================================================
+// CRUD Operations
+// =============================================================================
+
+/**
+ * List library paks, newest first
+ */
+export async function listLibraryPaks(): Promise<LibraryPak[]> {
+  const data = await loadPakLibrary();
+  return [...data.paks].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Read a library pak's image
+ */
+export async function getLibraryPakBuffer(id: string): Promise<Buffer | null> {
+  const data = await loadPakLibrary();
+  if (!data.paks.some(p => p.id === id) || !existsSync(getLibraryPakPath(id))) {
+    return null;
+  }
+  return readFile(getLibraryPakPath(id));
+}
+
+/**
+ * Add a pak image to the library
+ */
+export async function addLibraryPak(
+  buffer: Buffer,
+  name: unknown,
+  description?: string,
+  origin?: LibraryPak['origin']
+): Promise<LibraryPak> {
+  const validation = validateGamePak(buffer);
+  if (!validation.valid) {
+    throw new Error(`Invalid game pak: ${validation.errors.join(', ')}`);
+  }
+
+  const now = new Date().toISOString();
+  const pak: LibraryPak = {
+    id: randomUUID(),
+    name: validateLibraryPakName(name),
+    ...(description ? { description } : {}),
+    createdAt: now,
+    updatedAt: now,
+    md5Hash: computeGamePakHash(buffer),
+    size: buffer.length,
+    ...(origin ? { origin } : {}),
+  };
+
+  await mkdir(PAK_LIBRARY_DIR, { recursive: true });
+  await writeFile(getLibraryPakPath(pak.id), buffer);
+
+  const data = await loadPakLibrary();
+  data.paks.push(pak);
+  await savePakLibrary(data);
+
+  return pak;
+}
+
+/**
+ * Rename a library pak or change its description
+ */
+export async function updateLibraryPak(
+  id: string,
+  updates: { name?: unknown; description?: string }
+): Promise<LibraryPak | null> {
+  const data = await loadPakLibrary();
+  const pak = data.paks.find(p => p.id === id);
+  if (!pak) {
+    return null;
+  }
+
+  if (updates.name !== undefined) {
+    pak.name = validateLibraryPakName(updates.name);
+  }
+  if (updates.description !== undefined) {
+    pak.description = updates.description || undefined;
+  }
+  pak.updatedAt = new Date().toISOString();
+
+  await savePakLibrary(data);
+  return pak;
+}
+
+/**
+ * Delete a library pak
+ */
+export async function deleteLibraryPak(id: string): Promise<boolean> {
+  const data = await loadPakLibrary();
+  const index = data.paks.findIndex(p => p.id === id);
+  if (index === -1) {
+    return false;
+  }
+
+  data.paks.splice(index, 1);
+  await savePakLibrary(data);
+
+  if (existsSync(getLibraryPakPath(id))) {
+    await unlink(getLibraryPakPath(id));
+  }
+  return true;
+}
+
+// =============================================================================
+// Cartridge Operations
+// =============================================================================
+
+/**
+ * Resolve a slot argument, allowing the active slot
+ */
+function resolveSlot(slot?: string): string {
+  return !slot || slot === ACTIVE_PAK_SLOT ? ACTIVE_PAK_SLOT : validatePakSlotName(slot);
+}
+
+/**
+ * Copy a cartridge's pak (active or a named slot) into the library
+ */
+export async function saveCartPakToLibrary(
+  cartId: string,
+  name: unknown,
+  slot?: string,
+  description?: string
+): Promise<LibraryPak> {
+  const resolved = resolveSlot(slot);
+  const buffer = await readLocalGamePak(cartId, resolved);
+  if (!buffer) {
+    throw new Error(resolved === ACTIVE_PAK_SLOT ? 'No local game pak found' : 'Pak slot not found');
+  }
+  return addLibraryPak(buffer, name, description, { cartId: cartId.toLowerCase(), slot: resolved });
+}
+
+/**
+ * Load a library pak into a cartridge's pak slot
+ * The pak it replaces is saved to the library first, unless the library
+ * already holds an identical image. Loading into the active slot with an SD
+ * card path also uploads the pak to the SD card.
+ */
+export async function loadLibraryPak(
+  id: string,
+  cartId: string,
+  options: { slot?: string; title?: string; sdCardPath?: string } = {}
+): Promise<LoadLibraryPakResult> {
+  const slot = resolveSlot(options.slot);
+  const title = options.title || 'Unknown Cartridge';
+
+  const data = await loadPakLibrary();
+  const pak = data.paks.find(p => p.id === id);
+  const buffer = await getLibraryPakBuffer(id);
+  if (!pak || !buffer) {
+    throw new Error('Library pak not found');
+  }
+
+  let saved: LibraryPak | null = null;
+  const current = await readLocalGamePak(cartId, slot);
+  if (current && !current.equals(buffer) && validateGamePak(current).valid) {
+    const hash = computeGamePakHash(current);
+    saved = data.paks.find(p => p.md5Hash === hash) ?? await addLibraryPak(
+      current,
+      `${title} (${slot}) ${new Date().toISOString().split('T')[0]}`,
+      `Saved automatically when "${pak.name}" was loaded`,
+      { cartId: cartId.toLowerCase(), slot }
+    );
+  }
+
+  const savedPath = await saveLocalGamePak(cartId, buffer, title, `Before loading "${pak.name}"`, slot);
+  const result: LoadLibraryPakResult = { path: savedPath, saved };
+
+  if (options.sdCardPath && slot === ACTIVE_PAK_SLOT) {
+    result.syncedToSD = (await uploadGamePakToSD(cartId, options.sdCardPath, title)).success;
+  }
+
+  return result;
+}
+
+// =============================================================================
+// Bundle Support
+// =============================================================================
+
+/**
+ * Get every library pak with its image (used by bundle system)
+ */
+export async function getPakLibraryForExport(): Promise<{ paks: LibraryPak[]; files: Map<string, Buffer> }> {
+  const { paks } = await loadPakLibrary();
+  const files = new Map<string, Buffer>();
+  for (const pak of paks) {
+    if (existsSync(getLibraryPakPath(pak.id))) {
+      files.set(pak.id, await readFile(getLibraryPakPath(pak.id)));
+    }
+  }
+  return { paks: paks.filter(p => files.has(p.id)), files };
+}
+
+/**
+ * Import library paks from a bundle
+ * Paks are deduplicated by MD5 hash, so re-importing a bundle adds nothing.
+ */
+export async function importPakLibrary(
+  paks: LibraryPak[],
+  files: Map<string, Buffer>
+): Promise<{ added: number; skipped: number }> {
+  const data = await loadPakLibrary();
+  const hashes = new Set(data.paks.map(p => p.md5Hash));
+  const result = { added: 0, skipped: 0 };
+
+  for (const pak of paks) {
+    const buffer = files.get(pak.id);
+    if (!buffer || !validateGamePak(buffer).valid || hashes.has(computeGamePakHash(buffer))) {
+      result.skipped++;
+      continue;
+    }
+
+    const imported: LibraryPak = { ...pak, id: randomUUID(), md5Hash: computeGamePakHash(buffer) };
+    await mkdir(PAK_LIBRARY_DIR, { recursive: true });
+    await writeFile(getLibraryPakPath(imported.id), buffer);
+    data.paks.push(imported);
+    hashes.add(imported.md5Hash);
+    result.added++;
+  }
+
+  if (result.added > 0) {
+    await savePakLibrary(data);
+  }
+
+  return result;
+}
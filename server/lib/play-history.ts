@@ -0,0 +1,384 @@
+/**
+ * Play History
+ *
+ * Records snapshots of library.db play statistics into .local each time an
+ * SD card is detected, so play time can be tracked across sessions.
+ */
+
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { getSDCardId, type SDCardInfo } from './sd-card.js';
+import { readSDLibraryDb, type LibraryDatabase } from './library-db-core.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CartPlaySnapshot {
+  playTime: number;
+  sessions: number;
+}
+
+export interface PlaySnapshot {
+  takenAt: string;
+  /** Stable ID of the SD card the snapshot was taken from, if it has one (see getSDCardId) */
+  cardId?: string;
+  /** SD card volume name the snapshot was taken from */
+  cardName: string;
+  carts: Record<string, CartPlaySnapshot>;
+}
+
+export interface PlayHistoryData {
+  version: 1;
+  snapshots: PlaySnapshot[];
+}
+
+export interface CartPlayTime {
+  cartId: string;
+  playTime: number;
+  sessions: number;
+}
+
+export interface PlayTimeGain {
+  cartId: string;
+  playTimeGained: number;
+  sessionsGained: number;
+}
+
+export interface WeeklyPlayTime {
+  /** ISO date (YYYY-MM-DD) of the Monday starting the week, UTC */
+  weekStart: string;
+  playTime: number;
+}
+
+export interface PlayHistorySummary {
+  snapshotCount: number;
+  firstSnapshotAt: string | null;
+  lastSnapshotAt: string | null;
+  totalPlayTime: number;
+  mostPlayed: CartPlayTime[];
+  sinceLastSync: {
+    since: string | null;
+    totalPlayTimeGained: number;
+    carts: PlayTimeGain[];
+  };
+  weekly: WeeklyPlayTime[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const LOCAL_DIR = path.join(process.cwd(), '.local');
+const PLAY_HISTORY_PATH = path.join(LOCAL_DIR, 'play-history.json');
+
+/** Oldest snapshots are dropped once this many are stored */
+export const MAX_SNAPSHOTS = 1000;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// File Operations
+// =============================================================================
+
+/**
+ * Get the path to the play history file
+ */
+export function getPlayHistoryPath(): string {
+  return PLAY_HISTORY_PATH;
+}
+
+/**
+ * Load play history from disk
+ */
+export async function loadPlayHistory(): Promise<PlayHistoryData> {
+  if (!existsSync(PLAY_HISTORY_PATH)) {
+    return { version: 1, snapshots: [] };
+  }
+
+  try {
+    const content = await readFile(PLAY_HISTORY_PATH, 'utf-8');
+    const data = JSON.parse(content) as PlayHistoryData;
+
+    if (!data.version || !Array.isArray(data.snapshots)) {
+      console.warn('Invalid play-history.json structure, returning empty');
+      return { version: 1, snapshots: [] };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error loading play history:', error);
+    return { version: 1, snapshots: [] };
+  }
+}
+
+/**
+ * Save play history to disk
+ */
+export async function savePlayHistory(data: PlayHistoryData): Promise<void> {
+  await mkdir(LOCAL_DIR, { recursive: true });
+  await writeFile(PLAY_HISTORY_PATH, JSON.stringify(data, null, 2), 'utf-8');
+}
+
+// =============================================================================
+// Snapshot Operations
+// =============================================================================
+
+/**
+ * Build a snapshot from a parsed library.db
+ */
+export function createSnapshot(
+  db: LibraryDatabase,
+  cardId: string | null,
+  cardName: string,
+  takenAt = new Date()
+): PlaySnapshot {
+  const carts: Record<string, CartPlaySnapshot> = {};
+  for (const entry of db.entries) {
+    carts[entry.cartIdHex] = { playTime: entry.playTime, sessions: entry.sessions };
+  }
+  return { takenAt: takenAt.toISOString(), ...(cardId ? { cardId } : {}), cardName, carts };
+}
+
+/**
+ * Key each snapshot by the card it came from
+ *
+ * Cards only get an ID once something is written to them, so a card's
+ * earlier snapshots carry just its volume name. Those are keyed to the
+ * first card ID seen with that name, so its history carries on; snapshots
+ * without an ID taken after that stay keyed by name.
+ */
+function getCardKeys(snapshots: PlaySnapshot[]): string[] {
+  const firstIdByName = new Map<string, { cardId: string; index: number }>();
+  snapshots.forEach((snapshot, index) => {
+    if (snapshot.cardId && !firstIdByName.has(snapshot.cardName)) {
+      firstIdByName.set(snapshot.cardName, { cardId: snapshot.cardId, index });
+    }
+  });
+
+  return snapshots.map((snapshot, index) => {
+    if (snapshot.cardId) return `id:${snapshot.cardId}`;
+    const claimed = firstIdByName.get(snapshot.cardName);
+    return claimed && index < claimed.index ? `id:${claimed.cardId}` : `name:${snapshot.cardName}`;
+  });
+}
+
+/**
+ * Check whether two snapshots hold the same statistics
+ */
+function snapshotsEqual(a: PlaySnapshot, b: PlaySnapshot): boolean {
+  const aIds = Object.keys(a.carts);
+  if (aIds.length !== Object.keys(b.carts).length) return false;
+
+  return aIds.every(id => {
+    const other = b.carts[id];
+    return other && other.playTime === a.carts[id].playTime && other.sessions === a.carts[id].sessions;
+  });
+}
+
+/**
+ * Find the snapshot before `index` from the same card
+ */
+function findPreviousSnapshot(snapshots: PlaySnapshot[], keys: string[], index: number): PlaySnapshot | null {
+  for (let i = index - 1; i >= 0; i--) {
+    if (keys[i] === keys[index]) {
+      return snapshots[i];
+    }
+  }
+  return null;
+}
+
+/**
+ * Append a snapshot to the history unless nothing changed since the card's
+ * previous snapshot. Returns true if the snapshot was added.
+ */
+export function appendSnapshot(history: PlayHistoryData, snapshot: PlaySnapshot): boolean {
+  const snapshots = [...history.snapshots, snapshot];
+  const previous = findPreviousSnapshot(snapshots, getCardKeys(snapshots), snapshots.length - 1);
+  if (previous && snapshotsEqual(previous, snapshot)) {
+    return false;
+  }
+
+  history.snapshots.push(snapshot);
+  if (history.snapshots.length > MAX_SNAPSHOTS) {
+    history.snapshots.splice(0, history.snapshots.length - MAX_SNAPSHOTS);
+  }
+  return true;
+}
+
+let captureQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Snapshot the library.db of each detected SD card
+ *
+ * Called on every card detection poll, so unchanged stats are skipped.
+ * Overlapping calls queue behind each other, so each caller's cards are
+ * captured against the history the previous call saved. Returns the number
+ * of snapshots recorded.
+ */
+export async function captureSnapshots(sdCards: SDCardInfo[]): Promise<number> {
+  const run = captureQueue.then(async () => {
+    const history = await loadPlayHistory();
+    let recorded = 0;
+
+    for (const card of sdCards) {
+      try {
+        const db = await readSDLibraryDb(card.path);
+        if (db && appendSnapshot(history, createSnapshot(db, await getSDCardId(card.path), card.name))) {
+          recorded++;
+        }
+      } catch (error) {
+        console.error(`Error snapshotting library.db for ${card.name}:`, error);
+      }
+    }
+
+    if (recorded > 0) {
+      await savePlayHistory(history);
+    }
+    return recorded;
+  });
+  captureQueue = run.catch(() => {});
+
+  return run;
+}
+
+// =============================================================================
+// Analysis
+// =============================================================================
+
+/**
+ * Latest known stats per cart, taking the most recent snapshot of each card
+ */
+function getLatestCartStats(history: PlayHistoryData): Map<string, CartPlaySnapshot> {
+  const keys = getCardKeys(history.snapshots);
+  const latestPerCard = new Map<string, PlaySnapshot>();
+  history.snapshots.forEach((snapshot, i) => latestPerCard.set(keys[i], snapshot));
+
+  const stats = new Map<string, CartPlaySnapshot>();
+  for (const snapshot of latestPerCard.values()) {
+    for (const [cartId, cart] of Object.entries(snapshot.carts)) {
+      const existing = stats.get(cartId);
+      if (!existing || cart.playTime > existing.playTime) {
+        stats.set(cartId, cart);
+      }
+    }
+  }
+  return stats;
+}
+
+/**
+ * Per-cart gains between two snapshots of the same card (negative deltas,
+ * e.g. from a reset library.db, are ignored)
+ */
+function diffSnapshots(previous: PlaySnapshot, current: PlaySnapshot): PlayTimeGain[] {
+  const gains: PlayTimeGain[] = [];
+
+  for (const [cartId, cart] of Object.entries(current.carts)) {
+    const before = previous.carts[cartId] ?? { playTime: 0, sessions: 0 };
+    const playTimeGained = Math.max(0, cart.playTime - before.playTime);
+    const sessionsGained = Math.max(0, cart.sessions - before.sessions);
+
+    if (playTimeGained > 0 || sessionsGained > 0) {
+      gains.push({ cartId, playTimeGained, sessionsGained });
+    }
+  }
+
+  return gains.sort((a, b) => b.playTimeGained - a.playTimeGained);
+}
+
+/**
+ * Carts with the most total play time
+ */
+export function getMostPlayed(history: PlayHistoryData, limit = 10): CartPlayTime[] {
+  return Array.from(getLatestCartStats(history).entries())
+    .map(([cartId, cart]) => ({ cartId, playTime: cart.playTime, sessions: cart.sessions }))
+    .filter(c => c.playTime > 0)
+    .sort((a, b) => b.playTime - a.playTime)
+    .slice(0, limit);
+}
+
+/**
+ * Play time gained between the latest snapshot and the previous one from the
+ * same card
+ */
+export function getGainSinceLastSync(history: PlayHistoryData): PlayHistorySummary['sinceLastSync'] {
+  const latestIndex = history.snapshots.length - 1;
+  const latest = history.snapshots[latestIndex];
+  const previous = latest
+    ? findPreviousSnapshot(history.snapshots, getCardKeys(history.snapshots), latestIndex)
+    : null;
+
+  if (!latest || !previous) {
+    return { since: null, totalPlayTimeGained: 0, carts: [] };
+  }
+
+  const carts = diffSnapshots(previous, latest);
+  return {
+    since: previous.takenAt,
+    totalPlayTimeGained: carts.reduce((sum, c) => sum + c.playTimeGained, 0),
+    carts,
+  };
+}
+
+/**
+ * Get the Monday (UTC) starting the week containing a date
+ */
+function getWeekStart(date: Date): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+  start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  return start;
+}
+
+/**
+ * Play time per week for the last N weeks
+ *
+ * Gains between consecutive snapshots of a card are attributed to the week
+ * of the later snapshot.
+ */
+export function getWeeklyPlayTime(history: PlayHistoryData, weeks = 12, now = new Date()): WeeklyPlayTime[] {
+  const currentWeek = getWeekStart(now).getTime();
+  const totals = new Map<number, number>();
+  for (let i = weeks - 1; i >= 0; i--) {
+    totals.set(currentWeek - i * WEEK_MS, 0);
+  }
+
+  const keys = getCardKeys(history.snapshots);
+  const previousPerCard = new Map<string, PlaySnapshot>();
+  for (const [i, snapshot] of history.snapshots.entries()) {
+    const previous = previousPerCard.get(keys[i]);
+    previousPerCard.set(keys[i], snapshot);
+    if (!previous) continue;
+
+    const week = getWeekStart(new Date(snapshot.takenAt)).getTime();
+    if (!totals.has(week)) continue;
+
+    const gained = diffSnapshots(previous, snapshot).reduce((sum, c) => sum + c.playTimeGained, 0);
+    totals.set(week, (totals.get(week) ?? 0) + gained);
+  }
+
+  return Array.from(totals.entries()).map(([week, playTime]) => ({
+    weekStart: new Date(week).toISOString().slice(0, 10),
+    playTime,
+  }));
+}
+
+/**
+ * Build the full dashboard summary from stored history
+ */
+export async function getPlayHistorySummary(options: { limit?: number; weeks?: number } = {}): Promise<PlayHistorySummary> {
+  const history = await loadPlayHistory();
+  const latestStats = getLatestCartStats(history);
+  const snapshots = history.snapshots;
+
+  return {
+    snapshotCount: snapshots.length,
+    firstSnapshotAt: snapshots[0]?.takenAt ?? null,
+    lastSnapshotAt: snapshots[snapshots.length - 1]?.takenAt ?? null,
+    totalPlayTime: Array.from(latestStats.values()).reduce((sum, c) => sum + c.playTime, 0),
+    mostPlayed: getMostPlayed(history, options.limit),
+    sinceLastSync: getGainSinceLastSync(history),
+    weekly: getWeeklyPlayTime(history, options.weeks),
+  };
+}
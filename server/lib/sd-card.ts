@@ -1,8 +1,8 @@
-import { readdir, stat, access, constants } from 'fs/promises';
+import { readdir, stat, access, readFile, writeFile, constants } from 'fs/promises';
 import { statSync } from 'fs';
+import { randomUUID } from 'crypto';
 import path from 'path';
 import {
-  copyFileWithProgress,
   copyDirWithProgress,
   type ProgressCallback,
   type BatchProgressCallback,
@@ -10,6 +10,12 @@ import {
   type BatchProgress,
 } from './file-transfer.js';
 import { parseLabelsDb, getLocalLabelsDbPath, hasLocalLabelsDb } from './labels-db-core.js';
+import {
+  syncLabelsDbSafely,
+  replaceLabelsDb,
+  canSyncIncrementally,
+  withLabelsDbLock,
+} from './labels-db-sync.js';
 
 // Re-export progress types for convenience
 export type { ProgressCallback, BatchProgressCallback, FileProgress, BatchProgress };
@@ -103,6 +109,36 @@ export async function isValidAnalogueDir(dirPath: string): Promise<boolean> {
   }
 }
 
+/** File at the card root holding the ID A3D Manager assigned to the card */
+const CARD_ID_FILE = '.a3d-manager-id';
+
+/**
+ * Get the ID A3D Manager assigned to an SD card, or null if it has none
+ * Never writes, so it is safe to call while polling for cards.
+ */
+export async function getSDCardId(cardPath: string): Promise<string | null> {
+  try {
+    const id = (await readFile(path.join(cardPath, CARD_ID_FILE), 'utf-8')).trim();
+    return id || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get an SD card's ID, assigning one if it has none
+ * Volume names default to "ANALOGUE 3D" on every card, so a random ID is
+ * written to the card root. Only called from actions that write to the card.
+ */
+export async function ensureSDCardId(cardPath: string): Promise<string> {
+  const existing = await getSDCardId(cardPath);
+  if (existing) return existing;
+
+  const id = randomUUID();
+  await writeFile(path.join(cardPath, CARD_ID_FILE), `${id}\n`, 'utf-8');
+  return id;
+}
+
 // =============================================================================
 // Progress-Enabled File Operations
 // =============================================================================
@@ -113,10 +149,14 @@ export async function isValidAnalogueDir(dirPath: string): Promise<boolean> {
 export interface ExportLabelsResult {
   entryCount: number;
   fileSize: number;
+  /** 'incremental' when an existing labels.db was patched in place */
+  mode: 'incremental' | 'full';
+  bytesWritten: number;
 }
 
 /**
  * Export local labels.db to SD card with progress tracking
+ * Runs under the SD card labels.db lock, after any recovery or push in progress.
  *
  * @param sdLabelsPath - Full path to labels.db on SD card (e.g., /Volumes/SD/Library/N64/Images/labels.db)
  * @param onProgress - Callback for progress updates
@@ -140,13 +180,46 @@ export async function exportLabelsToSDWithProgress(
   const data = await readFile(localPath);
   const db = parseLabelsDb(data);
 
-  // Copy with progress - use 50ms throttle for smoother updates
-  await copyFileWithProgress(localPath, sdLabelsPath, onProgress, 50);
+  return withLabelsDbLock(sdLabelsPath, async () => {
+    // Patch an existing labels.db in place, writing only changed and shifted slots
+    if (await canSyncIncrementally(sdLabelsPath)) {
+      const startTime = Date.now();
+      const result = await syncLabelsDbSafely(localPath, sdLabelsPath, (progress) => {
+        if (progress.phase !== 'syncing' || !progress.totalBytes) return;
+
+        const bytesWritten = progress.bytesWritten ?? 0;
+        const elapsedMs = Date.now() - startTime;
+        const bytesPerSecond = elapsedMs > 0 ? (bytesWritten / elapsedMs) * 1000 : 0;
+        onProgress({
+          bytesWritten,
+          totalBytes: progress.totalBytes,
+          percentage: (bytesWritten / progress.totalBytes) * 100,
+          elapsedMs,
+          bytesPerSecond,
+          estimatedTimeRemainingMs: bytesPerSecond > 0
+            ? ((progress.totalBytes - bytesWritten) / bytesPerSecond) * 1000
+            : 0,
+        });
+      });
+
+      return {
+        entryCount: db.entryCount,
+        fileSize: stats.size,
+        mode: 'incremental',
+        bytesWritten: result.bytesWritten,
+      };
+    }
+
+    // Copy to a temporary file with progress, verify, then swap it in
+    await replaceLabelsDb(localPath, sdLabelsPath, onProgress);
 
-  return {
-    entryCount: db.entryCount,
-    fileSize: stats.size,
-  };
+    return {
+      entryCount: db.entryCount,
+      fileSize: stats.size,
+      mode: 'full',
+      bytesWritten: stats.size,
+    };
+  });
 }
 
 /**
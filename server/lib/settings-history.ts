@@ -0,0 +1,153 @@
+/**
+ * Settings History Library
+ *
+ * Keeps a capped, per-cartridge list of settings revisions so saves (including
+ * the debounced auto-saves from the settings editor) can be reviewed and undone.
+ *
+ * History is stored in .local/Library/N64/SettingsHistory/<cartId>.json
+ */
+
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import type { CartridgeSettings } from '../../shared/settings-schema.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SettingsRevision {
+  id: string;
+  createdAt: string;
+  reason: string; // e.g. 'Save', 'Import', 'Restore'
+  settings: CartridgeSettings;
+}
+
+interface SettingsHistoryFile {
+  version: 1;
+  cartId: string;
+  revisions: SettingsRevision[]; // oldest first
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const SETTINGS_HISTORY_DIR = path.join(process.cwd(), '.local', 'Library', 'N64', 'SettingsHistory');
+
+/**
+ * Maximum number of revisions kept per cartridge; the oldest are dropped first
+ */
+export const MAX_SETTINGS_REVISIONS = 50;
+
+// =============================================================================
+// Revision List
+// =============================================================================
+
+/**
+ * Append a revision to a list, returning the new list
+ * Nothing is added if the settings match the latest revision. When the list
+ * is empty and `previous` differs from the new settings, it is kept as an
+ * "Original" revision first so the very first save can also be undone.
+ */
+export function appendSettingsRevision(
+  revisions: SettingsRevision[],
+  settings: CartridgeSettings,
+  reason: string,
+  previous?: CartridgeSettings | null,
+  limit: number = MAX_SETTINGS_REVISIONS
+): SettingsRevision[] {
+  const serialized = JSON.stringify(settings);
+  const next = [...revisions];
+
+  if (next.length === 0 && previous && JSON.stringify(previous) !== serialized) {
+    next.push(createRevision(previous, 'Original'));
+  }
+
+  const latest = next[next.length - 1];
+  if (latest && JSON.stringify(latest.settings) === serialized) {
+    return revisions;
+  }
+
+  next.push(createRevision(settings, reason));
+  return next.slice(-limit);
+}
+
+function createRevision(settings: CartridgeSettings, reason: string): SettingsRevision {
+  return {
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    reason,
+    settings: structuredClone(settings),
+  };
+}
+
+// =============================================================================
+// Storage
+// =============================================================================
+
+function getHistoryPath(cartId: string): string {
+  return path.join(SETTINGS_HISTORY_DIR, `${cartId.toLowerCase()}.json`);
+}
+
+async function loadRevisions(cartId: string): Promise<SettingsRevision[]> {
+  const historyPath = getHistoryPath(cartId);
+  if (!existsSync(historyPath)) {
+    return [];
+  }
+
+  try {
+    const data = JSON.parse(await readFile(historyPath, 'utf-8')) as SettingsHistoryFile;
+    return data.version === 1 && Array.isArray(data.revisions) ? data.revisions : [];
+  } catch {
+    return [];
+  }
+}
+
+async function saveRevisions(cartId: string, revisions: SettingsRevision[]): Promise<void> {
+  const data: SettingsHistoryFile = {
+    version: 1,
+    cartId: cartId.toLowerCase(),
+    revisions,
+  };
+
+  await mkdir(SETTINGS_HISTORY_DIR, { recursive: true });
+  await writeFile(getHistoryPath(cartId), JSON.stringify(data, null, 2), 'utf-8');
+}
+
+/**
+ * Record a saved settings revision for a cartridge
+ * `previous` is the settings file content being overwritten, if any.
+ */
+export async function recordSettingsRevision(
+  cartId: string,
+  settings: CartridgeSettings,
+  reason: string,
+  previous?: CartridgeSettings | null
+): Promise<void> {
+  const revisions = await loadRevisions(cartId);
+  const next = appendSettingsRevision(revisions, settings, reason, previous);
+
+  if (next !== revisions) {
+    await saveRevisions(cartId, next);
+  }
+}
+
+/**
+ * List a cartridge's settings revisions, newest first
+ */
+export async function listSettingsRevisions(cartId: string): Promise<SettingsRevision[]> {
+  return (await loadRevisions(cartId)).reverse();
+}
+
+/**
+ * Get a single settings revision
+ */
+export async function getSettingsRevision(
+  cartId: string,
+  revisionId: string
+): Promise<SettingsRevision | null> {
+  const revisions = await loadRevisions(cartId);
+  return revisions.find(r => r.id === revisionId) ?? null;
+}
@@ -0,0 +1,431 @@
+/**
+ * Settings Patch Library
+ *
+ * Partial, JSON-Patch-style updates of cartridge settings across many carts.
+ * Only selected subtrees (e.g. /hardware, /display/catalog/crt or
+ * /hardware/overclock) are replaced. A bulk patch is validated for every cart
+ * before anything is written, and written files are rolled back if any write
+ * fails, so the batch applies to all carts or none.
+ *
+ * Also merges a cart's local and SD card settings field by field, for
+ * resolving conflicts one difference at a time.
+ */
+
+import { readFile, writeFile, mkdir, unlink, rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import {
+  getLocalGamesDir,
+  findGameFolder,
+  readSettingsFile,
+  createDefaultSettings,
+  validateSettings,
+  getSettingsInfo,
+  saveLocalSettings,
+  uploadSettingsToSD,
+  type CartridgeSettings,
+} from './cartridge-settings.js';
+import { findUnknownSettingsKeys } from '../../shared/settings-schema.js';
+import { lookupGameName } from './game-lookup.js';
+import { recordSettingsRevision } from './settings-history.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * A single patch operation (subset of RFC 6902: only "replace")
+ */
+export interface SettingsPatchOperation {
+  op: 'replace';
+  path: string; // JSON Pointer, e.g. "/hardware/overclock"
+  value: unknown;
+}
+
+export interface SettingsFieldChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface SettingsPatchCartResult {
+  cartId: string;
+  changes: SettingsFieldChange[];
+  syncedToSD?: boolean;
+}
+
+export interface SettingsPatchResult {
+  success: boolean;
+  dryRun: boolean;
+  results: SettingsPatchCartResult[];
+  errors: Array<{ cartId: string; error: string }>;
+}
+
+export type SettingsFieldSource = 'local' | 'sd';
+
+export interface SettingsFieldConflict {
+  path: string;
+  local: unknown;
+  sd: unknown;
+}
+
+export interface LocalSDSettingsDiff {
+  localExists: boolean;
+  sdExists: boolean;
+  inSync: boolean;
+  differences: SettingsFieldConflict[];
+}
+
+interface PlannedWrite {
+  filePath: string;
+  folderPath: string;
+  createdFolder: boolean;
+  original: string | null;
+  content: string;
+}
+
+// =============================================================================
+// Patch Operations
+// =============================================================================
+
+const PATCHABLE_ROOTS = ['display', 'hardware'];
+
+/**
+ * Parse and check a JSON Pointer, returning its segments
+ * The path, and any keys inside `value`, must all be defined by the settings schema.
+ */
+function parsePatchPath(pointer: string, value?: unknown): string[] {
+  if (typeof pointer !== 'string' || !pointer.startsWith('/')) {
+    throw new Error(`Invalid patch path: ${String(pointer)}`);
+  }
+
+  const segments = pointer
+    .slice(1)
+    .split('/')
+    .map(s => s.replace(/~1/g, '/').replace(/~0/g, '~'));
+
+  if (!PATCHABLE_ROOTS.includes(segments[0])) {
+    throw new Error(`Patch path must start with /display or /hardware: ${pointer}`);
+  }
+
+  const unknownKeys = findUnknownSettingsKeys(segments, value);
+  if (unknownKeys.length > 0) {
+    throw new Error(`Unknown settings key: ${unknownKeys.join(', ')}`);
+  }
+
+  return segments;
+}
+
+/**
+ * Validate a list of patch operations
+ */
+export function validatePatchOperations(operations: unknown): SettingsPatchOperation[] {
+  if (!Array.isArray(operations) || operations.length === 0) {
+    throw new Error('Patch must be a non-empty array of operations');
+  }
+
+  for (const operation of operations) {
+    if (typeof operation !== 'object' || operation === null) {
+      throw new Error('Patch operations must be objects');
+    }
+    const { op, path: pointer, value } = operation as Record<string, unknown>;
+    if (op !== 'replace') {
+      throw new Error(`Unsupported patch operation: ${String(op)}`);
+    }
+    if (value === undefined) {
+      throw new Error(`Missing value for ${String(pointer)}`);
+    }
+    parsePatchPath(pointer as string, value);
+  }
+
+  return operations as SettingsPatchOperation[];
+}
+
+/**
+ * Apply patch operations to a settings object, returning a new object
+ * Throws if a path's parent does not exist or the result is invalid.
+ */
+export function applySettingsPatch(
+  settings: CartridgeSettings,
+  operations: SettingsPatchOperation[]
+): CartridgeSettings {
+  const result = structuredClone(settings) as unknown as Record<string, unknown>;
+
+  for (const { path: pointer, value } of operations) {
+    const segments = parsePatchPath(pointer, value);
+    const key = segments.pop() as string;
+
+    let parent = result;
+    for (const segment of segments) {
+      const next = parent[segment];
+      if (typeof next !== 'object' || next === null) {
+        throw new Error(`Patch path does not exist: ${pointer}`);
+      }
+      parent = next as Record<string, unknown>;
+    }
+
+    parent[key] = structuredClone(value);
+  }
+
+  const validation = validateSettings(result);
+  if (!validation.valid) {
+    throw new Error(`Patched settings are invalid: ${validation.errors.join(', ')}`);
+  }
+
+  return result as unknown as CartridgeSettings;
+}
+
+// =============================================================================
+// Diffing
+// =============================================================================
+
+/**
+ * List leaf-level differences between two settings objects
+ */
+export function diffSettings(before: unknown, after: unknown, prefix = ''): SettingsFieldChange[] {
+  const isObject = (v: unknown): v is Record<string, unknown> =>
+    typeof v === 'object' && v !== null && !Array.isArray(v);
+
+  if (!isObject(before) || !isObject(after)) {
+    return JSON.stringify(before) === JSON.stringify(after)
+      ? []
+      : [{ path: prefix || '/', before, after }];
+  }
+
+  const changes: SettingsFieldChange[] = [];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    changes.push(...diffSettings(before[key], after[key], `${prefix}/${key}`));
+  }
+
+  return changes;
+}
+
+// =============================================================================
+// Bulk Patch
+// =============================================================================
+
+/**
+ * Plan a settings.json write in a games directory, creating no files yet
+ */
+async function planWrite(
+  gamesDir: string,
+  cartId: string,
+  settings: CartridgeSettings
+): Promise<PlannedWrite> {
+  const existingFolder = await findGameFolder(gamesDir, cartId);
+  const folderPath = existingFolder ?? path.join(gamesDir, `${settings.title} ${cartId.toLowerCase()}`);
+  const filePath = path.join(folderPath, 'settings.json');
+
+  return {
+    filePath,
+    folderPath,
+    createdFolder: !existingFolder,
+    original: existsSync(filePath) ? await readFile(filePath, 'utf-8') : null,
+    content: JSON.stringify(settings, null, 2),
+  };
+}
+
+/**
+ * Write planned files, restoring every file already written if one fails
+ */
+async function commitWrites(writes: PlannedWrite[]): Promise<void> {
+  const done: PlannedWrite[] = [];
+
+  try {
+    for (const write of writes) {
+      await mkdir(write.folderPath, { recursive: true });
+      done.push(write);
+      await writeFile(write.filePath, write.content, 'utf-8');
+    }
+  } catch (error) {
+    for (const write of done.reverse()) {
+      try {
+        if (write.original !== null) {
+          await writeFile(write.filePath, write.original, 'utf-8');
+        } else if (write.createdFolder) {
+          await rm(write.folderPath, { recursive: true, force: true });
+        } else if (existsSync(write.filePath)) {
+          await unlink(write.filePath);
+        }
+      } catch (rollbackError) {
+        console.error(`Error rolling back ${write.filePath}:`, rollbackError);
+      }
+    }
+    throw error;
+  }
+}
+
+/**
+ * Apply a patch to the local settings of many carts, and optionally the SD card
+ * Carts without local settings start from defaults, titled from `titles` or
+ * the cart database. Nothing is written if the patch fails for any cart.
+ */
+export async function patchSettingsBulk(options: {
+  cartIds: string[];
+  operations: SettingsPatchOperation[];
+  sdCardPath?: string;
+  titles?: Record<string, string>;
+  dryRun?: boolean;
+}): Promise<SettingsPatchResult> {
+  const { cartIds, operations, sdCardPath, dryRun = false } = options;
+  const titles = Object.fromEntries(
+    Object.entries(options.titles ?? {}).map(([id, title]) => [id.toLowerCase(), title])
+  );
+  const localGamesDir = getLocalGamesDir();
+  const sdGamesDir = sdCardPath ? path.join(sdCardPath, 'Library', 'N64', 'Games') : null;
+
+  const results: SettingsPatchCartResult[] = [];
+  const errors: Array<{ cartId: string; error: string }> = [];
+  const writes: PlannedWrite[] = [];
+  const revisions: Array<{ cartId: string; previous: CartridgeSettings | null; after: CartridgeSettings }> = [];
+
+  // Plan every cart first so a single failure leaves all files untouched
+  for (const cartId of new Set(cartIds.map(id => id.toLowerCase()))) {
+    try {
+      const localFolder = await findGameFolder(localGamesDir, cartId);
+      const localPath = localFolder ? path.join(localFolder, 'settings.json') : null;
+
+      const previous = localPath && existsSync(localPath) ? await readSettingsFile(localPath) : null;
+      const before = previous
+        ?? createDefaultSettings(titles[cartId] ?? (await lookupGameName(cartId)) ?? 'Unknown Cartridge');
+      const after = applySettingsPatch(before, operations);
+
+      results.push({ cartId, changes: diffSettings(before, after) });
+      revisions.push({ cartId, previous, after });
+      writes.push(await planWrite(localGamesDir, cartId, after));
+      if (sdGamesDir) {
+        writes.push(await planWrite(sdGamesDir, cartId, after));
+      }
+    } catch (error) {
+      errors.push({ cartId, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  if (errors.length > 0 || dryRun) {
+    return { success: errors.length === 0, dryRun, results, errors };
+  }
+
+  await commitWrites(writes);
+
+  for (const { cartId, previous, after } of revisions) {
+    await recordSettingsRevision(cartId, after, 'Paste settings', previous);
+  }
+
+  if (sdGamesDir) {
+    for (const result of results) {
+      result.syncedToSD = true;
+    }
+  }
+
+  return { success: true, dryRun, results, errors };
+}
+
+// =============================================================================
+// Local / SD Merge
+// =============================================================================
+
+/**
+ * List the fields that differ between a cart's local and SD card settings
+ */
+export async function diffLocalAndSDSettings(
+  cartId: string,
+  sdCardPath: string
+): Promise<LocalSDSettingsDiff> {
+  const { local, sd } = await getSettingsInfo(cartId, sdCardPath);
+  const localExists = !!local.settings;
+  const sdExists = !!sd?.settings;
+
+  const differences = localExists && sdExists
+    ? diffSettings(local.settings, sd?.settings).map(change => ({
+        path: change.path,
+        local: change.before,
+        sd: change.after,
+      }))
+    : [];
+
+  return {
+    localExists,
+    sdExists,
+    inSync: localExists && sdExists && differences.length === 0,
+    differences,
+  };
+}
+
+/**
+ * Merge local and SD card settings, taking each differing field from the
+ * chosen side. Every difference must be resolved, and only differing paths
+ * may be given, so a stale resolution is rejected rather than guessed at.
+ */
+export function mergeSettingsFields(
+  local: CartridgeSettings,
+  sd: CartridgeSettings,
+  resolutions: Record<string, SettingsFieldSource>
+): CartridgeSettings {
+  const differences = diffSettings(local, sd);
+  const paths = new Set(differences.map(change => change.path));
+
+  for (const [pointer, source] of Object.entries(resolutions)) {
+    if (!paths.has(pointer)) {
+      throw new Error(`No difference at ${pointer}`);
+    }
+    if (source !== 'local' && source !== 'sd') {
+      throw new Error(`Invalid resolution for ${pointer}: ${String(source)}`);
+    }
+  }
+
+  const result = structuredClone(local) as unknown as Record<string, unknown>;
+
+  for (const { path: pointer, after } of differences) {
+    const source = resolutions[pointer];
+    if (!source) {
+      throw new Error(`Unresolved difference: ${pointer}`);
+    }
+    if (source === 'local') continue;
+
+    const segments = pointer.slice(1).split('/');
+    const key = segments.pop() as string;
+    let parent = result;
+    for (const segment of segments) {
+      parent = parent[segment] as Record<string, unknown>;
+    }
+
+    if (after === undefined) {
+      delete parent[key];
+    } else {
+      parent[key] = structuredClone(after);
+    }
+  }
+
+  const validation = validateSettings(result);
+  if (!validation.valid) {
+    throw new Error(`Merged settings are invalid: ${validation.errors.join(', ')}`);
+  }
+
+  return result as unknown as CartridgeSettings;
+}
+
+/**
+ * Write the field-by-field merge of local and SD card settings to both sides
+ */
+export async function resolveLocalAndSDSettings(
+  cartId: string,
+  sdCardPath: string,
+  resolutions: Record<string, SettingsFieldSource>
+): Promise<CartridgeSettings> {
+  const { local, sd } = await getSettingsInfo(cartId, sdCardPath);
+  if (!local.settings || !sd?.settings) {
+    throw new Error('Both local and SD card settings are required to merge');
+  }
+
+  const merged = mergeSettingsFields(local.settings, sd.settings, resolutions);
+
+  await saveLocalSettings(cartId, merged, 'Merge with SD card');
+  const sdResult = await uploadSettingsToSD(cartId, sdCardPath);
+  if (!sdResult.success) {
+    throw new Error(sdResult.error || 'Failed to write merged settings to SD card');
+  }
+
+  return merged;
+}
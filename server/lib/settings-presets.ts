@@ -0,0 +1,378 @@
+/**
+ * Settings Presets Library
+ *
+ * Named presets holding a full or partial set of cartridge settings
+ * (e.g. "PVM purist", "Clean 4K Integer+") that can be applied to any
+ * selection of cartridges. Stored in .local/settings-presets.json.
+ */
+
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import {
+  getSettingsInfo,
+  saveLocalSettings,
+  uploadSettingsToSD,
+  createDefaultSettings,
+  validateSettings,
+  type CartridgeSettings,
+  type DisplayMode,
+  type CRTModeSettings,
+  type CleanModeSettings,
+  type HardwareSettings,
+} from './cartridge-settings.js';
+import { lookupGameName } from './game-lookup.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Settings held by a preset - any subset of display and hardware settings
+ * The title is per-cartridge and never part of a preset.
+ */
+export interface PresetSettings {
+  display?: {
+    odm?: DisplayMode;
+    catalog?: {
+      bvm?: Partial<CRTModeSettings>;
+      pvm?: Partial<CRTModeSettings>;
+      crt?: Partial<CRTModeSettings>;
+      scanlines?: Partial<CRTModeSettings>;
+      clean?: Partial<CleanModeSettings>;
+    };
+  };
+  hardware?: Partial<HardwareSettings>;
+}
+
+export interface SettingsPreset {
+  id: string;
+  name: string;
+  description?: string;
+  settings: PresetSettings;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SettingsPresetsData {
+  version: 1;
+  presets: SettingsPreset[];
+}
+
+export interface PresetApplyResult {
+  cartId: string;
+  success: boolean;
+  syncedToSD?: boolean;
+  error?: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const LOCAL_DIR = path.join(process.cwd(), '.local');
+const PRESETS_PATH = path.join(LOCAL_DIR, 'settings-presets.json');
+
+// =============================================================================
+// File Operations
+// =============================================================================
+
+/**
+ * Load presets from disk
+ */
+export async function loadPresets(): Promise<SettingsPresetsData> {
+  if (!existsSync(PRESETS_PATH)) {
+    return { version: 1, presets: [] };
+  }
+
+  try {
+    const content = await readFile(PRESETS_PATH, 'utf-8');
+    const data = JSON.parse(content) as SettingsPresetsData;
+
+    if (!data.version || !Array.isArray(data.presets)) {
+      console.warn('Invalid settings-presets.json structure, returning empty');
+      return { version: 1, presets: [] };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error loading settings presets:', error);
+    return { version: 1, presets: [] };
+  }
+}
+
+/**
+ * Save presets to disk
+ */
+async function savePresets(data: SettingsPresetsData): Promise<void> {
+  await mkdir(LOCAL_DIR, { recursive: true });
+  await writeFile(PRESETS_PATH, JSON.stringify(data, null, 2), 'utf-8');
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validate preset settings, returning a copy with only display and hardware
+ * Throws if the settings are empty or contain invalid values.
+ */
+export function validatePresetSettings(settings: unknown): PresetSettings {
+  if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+    throw new Error('Preset settings must be an object');
+  }
+
+  const { display, hardware } = settings as Record<string, unknown>;
+  if (display === undefined && hardware === undefined) {
+    throw new Error('Preset must include display or hardware settings');
+  }
+
+  const validation = validateSettings({ display, hardware });
+  if (!validation.valid) {
+    throw new Error(`Invalid preset settings: ${validation.errors.join(', ')}`);
+  }
+
+  const result: PresetSettings = {};
+  if (display !== undefined) result.display = structuredClone(display) as PresetSettings['display'];
+  if (hardware !== undefined) result.hardware = structuredClone(hardware) as PresetSettings['hardware'];
+  return result;
+}
+
+/**
+ * Validate and normalize a preset name
+ */
+function validatePresetName(name: unknown): string {
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    throw new Error('Preset name is required');
+  }
+  if (name.trim().length > 64) {
+    throw new Error('Preset name must be 64 characters or fewer');
+  }
+  return name.trim();
+}
+
+// =============================================================================
+// CRUD Operations
+// =============================================================================
+
+/**
+ * List all presets, sorted by name
+ */
+export async function listPresets(): Promise<SettingsPreset[]> {
+  const data = await loadPresets();
+  return [...data.presets].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Get a preset by ID
+ */
+export async function getPreset(id: string): Promise<SettingsPreset | null> {
+  const data = await loadPresets();
+  return data.presets.find(p => p.id === id) || null;
+}
+
+/**
+ * Create a new preset
+ */
+export async function createPreset(
+  name: unknown,
+  settings: unknown,
+  description?: string
+): Promise<SettingsPreset> {
+  const presetName = validatePresetName(name);
+  const presetSettings = validatePresetSettings(settings);
+  const data = await loadPresets();
+
+  if (data.presets.some(p => p.name.toLowerCase() === presetName.toLowerCase())) {
+    throw new Error(`A preset named "${presetName}" already exists`);
+  }
+
+  const now = new Date().toISOString();
+  const preset: SettingsPreset = {
+    id: randomUUID(),
+    name: presetName,
+    description: description?.trim() || undefined,
+    settings: presetSettings,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  data.presets.push(preset);
+  await savePresets(data);
+  return preset;
+}
+
+/**
+ * Update a preset's name, description, or settings
+ */
+export async function updatePreset(
+  id: string,
+  updates: { name?: unknown; description?: string; settings?: unknown }
+): Promise<SettingsPreset | null> {
+  const data = await loadPresets();
+  const preset = data.presets.find(p => p.id === id);
+  if (!preset) {
+    return null;
+  }
+
+  if (updates.name !== undefined) {
+    const presetName = validatePresetName(updates.name);
+    const lower = presetName.toLowerCase();
+    if (data.presets.some(p => p.id !== id && p.name.toLowerCase() === lower)) {
+      throw new Error(`A preset named "${presetName}" already exists`);
+    }
+    preset.name = presetName;
+  }
+
+  if (updates.description !== undefined) {
+    preset.description = updates.description.trim() || undefined;
+  }
+
+  if (updates.settings !== undefined) {
+    preset.settings = validatePresetSettings(updates.settings);
+  }
+
+  preset.updatedAt = new Date().toISOString();
+  await savePresets(data);
+  return preset;
+}
+
+/**
+ * Delete a preset
+ */
+export async function deletePreset(id: string): Promise<boolean> {
+  const data = await loadPresets();
+  const index = data.presets.findIndex(p => p.id === id);
+  if (index === -1) {
+    return false;
+  }
+
+  data.presets.splice(index, 1);
+  await savePresets(data);
+  return true;
+}
+
+// =============================================================================
+// Applying Presets
+// =============================================================================
+
+/**
+ * Merge preset settings over a cartridge's settings
+ * Only the fields the preset holds are changed; the title is kept.
+ */
+export function applyPresetSettings(
+  base: CartridgeSettings,
+  preset: PresetSettings
+): CartridgeSettings {
+  const result = structuredClone(base);
+
+  if (preset.display?.odm !== undefined) {
+    result.display.odm = preset.display.odm;
+  }
+
+  const catalog = preset.display?.catalog;
+  if (catalog) {
+    if (catalog.bvm) result.display.catalog.bvm = { ...result.display.catalog.bvm, ...catalog.bvm };
+    if (catalog.pvm) result.display.catalog.pvm = { ...result.display.catalog.pvm, ...catalog.pvm };
+    if (catalog.crt) result.display.catalog.crt = { ...result.display.catalog.crt, ...catalog.crt };
+    if (catalog.scanlines) result.display.catalog.scanlines = { ...result.display.catalog.scanlines, ...catalog.scanlines };
+    if (catalog.clean) result.display.catalog.clean = { ...result.display.catalog.clean, ...catalog.clean };
+  }
+
+  if (preset.hardware) {
+    result.hardware = { ...result.hardware, ...preset.hardware };
+  }
+
+  return result;
+}
+
+/**
+ * Apply a preset to a set of cartridges
+ * Carts without local settings start from defaults. When an SD card path is
+ * given, the updated settings are also copied to the SD card.
+ */
+export async function applyPreset(
+  id: string,
+  cartIds: string[],
+  sdCardPath?: string
+): Promise<PresetApplyResult[] | null> {
+  const preset = await getPreset(id);
+  if (!preset) {
+    return null;
+  }
+
+  const results: PresetApplyResult[] = [];
+
+  for (const cartId of cartIds) {
+    try {
+      const { local } = await getSettingsInfo(cartId);
+      const base = local.settings
+        ?? createDefaultSettings((await lookupGameName(cartId)) ?? 'Unknown Cartridge');
+
+      await saveLocalSettings(cartId, applyPresetSettings(base, preset.settings), `Preset: ${preset.name}`);
+
+      const result: PresetApplyResult = { cartId, success: true };
+      if (sdCardPath) {
+        result.syncedToSD = (await uploadSettingsToSD(cartId, sdCardPath)).success;
+      }
+      results.push(result);
+    } catch (error) {
+      results.push({
+        cartId,
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return results;
+}
+
+// =============================================================================
+// Bundle Support
+// =============================================================================
+
+/**
+ * Merge presets from a bundle into the local library
+ * Presets are matched by ID; with overwrite, existing presets are replaced.
+ * A preset whose name clashes with a different local preset is skipped.
+ */
+export async function importPresets(
+  presets: SettingsPreset[],
+  overwrite: boolean
+): Promise<{ added: number; skipped: number; overwritten: number }> {
+  const data = await loadPresets();
+  const result = { added: 0, skipped: 0, overwritten: 0 };
+
+  for (const preset of presets) {
+    try {
+      validatePresetName(preset.name);
+      validatePresetSettings(preset.settings);
+    } catch {
+      result.skipped++;
+      continue;
+    }
+
+    const index = data.presets.findIndex(p => p.id === preset.id);
+    const nameTaken = data.presets.some(
+      p => p.id !== preset.id && p.name.toLowerCase() === preset.name.toLowerCase()
+    );
+
+    if (nameTaken || (index !== -1 && !overwrite)) {
+      result.skipped++;
+    } else if (index !== -1) {
+      data.presets[index] = preset;
+      result.overwritten++;
+    } else {
+      data.presets.push(preset);
+      result.added++;
+    }
+  }
+
+  if (result.added > 0 || result.overwritten > 0) {
+    await savePresets(data);
+  }
+
+  return result;
+}
@@ -0,0 +1,429 @@
+/**
+ * Settings Rules Library
+ *
+ * Declarative rules that apply settings to owned cartridges based on their
+ * cart database metadata, e.g. "all PAL carts -> region Auto + progressive
+ * output". A rule applies either a saved preset or its own partial settings.
+ * Rules are evaluated in order, so later rules override earlier ones where
+ * they touch the same fields. Stored in .local/settings-rules.json.
+ */
+
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import {
+  getSettingsInfo,
+  saveLocalSettings,
+  uploadSettingsToSD,
+  createDefaultSettings,
+  type CartridgeSettings,
+} from './cartridge-settings.js';
+import {
+  getPreset,
+  applyPresetSettings,
+  validatePresetSettings,
+  type PresetSettings,
+} from './settings-presets.js';
+import { diffSettings, type SettingsFieldChange } from './settings-patch.js';
+import { getOwnedCartIds } from './owned-carts.js';
+import { lookupCartMetadata, type CartNameEntry } from './game-lookup.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Cart database criteria a rule matches on
+ * Every given criterion must match; within one, any listed value matches.
+ * Values are compared case-insensitively.
+ */
+export interface SettingsRuleMatch {
+  regions?: string[]; // e.g. 'Europe', 'Japan'
+  videoModes?: string[]; // 'NTSC' or 'PAL'
+  languages?: string[]; // Matches carts supporting any of these
+  releaseTypes?: string[]; // e.g. 'official', 'beta', 'aftermarket'
+}
+
+export interface SettingsRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  match: SettingsRuleMatch;
+  presetId?: string; // Apply a saved preset...
+  settings?: PresetSettings; // ...or these settings
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SettingsRulesData {
+  version: 1;
+  rules: SettingsRule[];
+}
+
+export interface SettingsRuleInput {
+  name?: unknown;
+  enabled?: unknown;
+  match?: unknown;
+  presetId?: unknown;
+  settings?: unknown;
+}
+
+export interface RuleCartPreview {
+  cartId: string;
+  title: string;
+  rules: string[]; // Names of matching rules, in evaluation order
+  created: boolean; // No local settings yet; a settings.json will be created
+  changes: SettingsFieldChange[]; // Against current settings, or defaults if created
+}
+
+export interface SettingsRulesPreview {
+  rules: Array<{ id: string; name: string; cartIds: string[] }>;
+  carts: RuleCartPreview[];
+  unknownCarts: string[]; // Owned carts missing from the cart database
+}
+
+export interface RuleApplyResult {
+  cartId: string;
+  success: boolean;
+  created: boolean;
+  changes: SettingsFieldChange[];
+  syncedToSD?: boolean;
+  error?: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const LOCAL_DIR = path.join(process.cwd(), '.local');
+const RULES_PATH = path.join(LOCAL_DIR, 'settings-rules.json');
+
+const MATCH_KEYS: Array<keyof SettingsRuleMatch> = ['regions', 'videoModes', 'languages', 'releaseTypes'];
+
+// =============================================================================
+// File Operations
+// =============================================================================
+
+/**
+ * Load rules from disk
+ */
+export async function loadRules(): Promise<SettingsRulesData> {
+  if (!existsSync(RULES_PATH)) {
+    return { version: 1, rules: [] };
+  }
+
+  try {
+    const content = await readFile(RULES_PATH, 'utf-8');
+    const data = JSON.parse(content) as SettingsRulesData;
+
+    if (!data.version || !Array.isArray(data.rules)) {
+      console.warn('Invalid settings-rules.json structure, returning empty');
+      return { version: 1, rules: [] };
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error loading settings rules:', error);
+    return { version: 1, rules: [] };
+  }
+}
+
+/**
+ * Save rules to disk
+ */
+async function saveRules(data: SettingsRulesData): Promise<void> {
+  await mkdir(LOCAL_DIR, { recursive: true });
+  await writeFile(RULES_PATH, JSON.stringify(data, null, 2), 'utf-8');
+}
+
+// =============================================================================
+// Validation & Matching
+// =============================================================================
+
+/**
+ * Validate a rule's match criteria, dropping empty lists
+ * Throws if no criterion is given, so a rule can't silently match every cart.
+ */
+export function validateRuleMatch(match: unknown): SettingsRuleMatch {
+  if (typeof match !== 'object' || match === null || Array.isArray(match)) {
+    throw new Error('Rule match must be an object');
+  }
+
+  const result: SettingsRuleMatch = {};
+  for (const [key, values] of Object.entries(match)) {
+    if (!MATCH_KEYS.includes(key as keyof SettingsRuleMatch)) {
+      throw new Error(`Unknown match criterion: ${key}`);
+    }
+    if (!Array.isArray(values) || values.some(v => typeof v !== 'string' || v.trim() === '')) {
+      throw new Error(`${key} must be a list of non-empty strings`);
+    }
+    if (values.length > 0) {
+      result[key as keyof SettingsRuleMatch] = values.map(v => v.trim());
+    }
+  }
+
+  if (Object.keys(result).length === 0) {
+    throw new Error(`Rule must match on at least one of: ${MATCH_KEYS.join(', ')}`);
+  }
+
+  return result;
+}
+
+/**
+ * Check whether a cart's database entry matches a rule's criteria
+ * Carts missing from the database never match.
+ */
+export function matchesRule(entry: CartNameEntry | undefined, match: SettingsRuleMatch): boolean {
+  if (!entry) return false;
+
+  const includes = (values: string[], value: string | undefined) =>
+    value !== undefined && values.some(v => v.toLowerCase() === value.toLowerCase());
+
+  if (match.regions && !includes(match.regions, entry.region)) return false;
+  if (match.videoModes && !includes(match.videoModes, entry.videoMode)) return false;
+  if (match.releaseTypes && !includes(match.releaseTypes, entry.releaseType)) return false;
+  if (match.languages && !(entry.languages ?? []).some(lang => includes(match.languages ?? [], lang))) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Validate and normalize a rule name
+ */
+function validateRuleName(name: unknown): string {
+  if (typeof name !== 'string' || name.trim().length === 0) {
+    throw new Error('Rule name is required');
+  }
+  if (name.trim().length > 64) {
+    throw new Error('Rule name must be 64 characters or fewer');
+  }
+  return name.trim();
+}
+
+/**
+ * Validate a rule's action: exactly one of an existing preset or settings
+ */
+async function validateRuleAction(
+  presetId: unknown,
+  settings: unknown
+): Promise<Pick<SettingsRule, 'presetId' | 'settings'>> {
+  if ((presetId === undefined) === (settings === undefined)) {
+    throw new Error('Rule must apply either a presetId or settings');
+  }
+
+  if (presetId !== undefined) {
+    if (typeof presetId !== 'string' || !(await getPreset(presetId))) {
+      throw new Error('Preset not found');
+    }
+    return { presetId };
+  }
+
+  return { settings: validatePresetSettings(settings) };
+}
+
+// =============================================================================
+// CRUD Operations
+// =============================================================================
+
+/**
+ * List all rules in evaluation order
+ */
+export async function listRules(): Promise<SettingsRule[]> {
+  const data = await loadRules();
+  return data.rules;
+}
+
+/**
+ * Create a rule, appended after existing rules
+ */
+export async function createRule(input: SettingsRuleInput): Promise<SettingsRule> {
+  const name = validateRuleName(input.name);
+  const match = validateRuleMatch(input.match);
+  const action = await validateRuleAction(input.presetId, input.settings);
+  const data = await loadRules();
+
+  const now = new Date().toISOString();
+  const rule: SettingsRule = {
+    id: randomUUID(),
+    name,
+    enabled: input.enabled !== false,
+    match,
+    ...action,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  data.rules.push(rule);
+  await saveRules(data);
+  return rule;
+}
+
+/**
+ * Update a rule's name, enabled state, criteria or action
+ * Giving either presetId or settings replaces the rule's action.
+ */
+export async function updateRule(id: string, input: SettingsRuleInput): Promise<SettingsRule | null> {
+  const data = await loadRules();
+  const rule = data.rules.find(r => r.id === id);
+  if (!rule) {
+    return null;
+  }
+
+  if (input.name !== undefined) rule.name = validateRuleName(input.name);
+  if (input.enabled !== undefined) rule.enabled = input.enabled === true;
+  if (input.match !== undefined) rule.match = validateRuleMatch(input.match);
+
+  if (input.presetId !== undefined || input.settings !== undefined) {
+    const action = await validateRuleAction(input.presetId, input.settings);
+    delete rule.presetId;
+    delete rule.settings;
+    Object.assign(rule, action);
+  }
+
+  rule.updatedAt = new Date().toISOString();
+  await saveRules(data);
+  return rule;
+}
+
+/**
+ * Delete a rule
+ */
+export async function deleteRule(id: string): Promise<boolean> {
+  const data = await loadRules();
+  const index = data.rules.findIndex(r => r.id === id);
+  if (index === -1) {
+    return false;
+  }
+
+  data.rules.splice(index, 1);
+  await saveRules(data);
+  return true;
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+interface PlannedCart extends RuleCartPreview {
+  settings: CartridgeSettings;
+}
+
+/**
+ * Work out the settings every owned cart would get from the enabled rules
+ * (or only the given rules, enabled or not)
+ */
+async function planRules(ruleIds?: string[]): Promise<{
+  rules: SettingsRule[];
+  matches: Map<string, string[]>;
+  carts: PlannedCart[];
+  unknownCarts: string[];
+}> {
+  const all = await listRules();
+  const rules = ruleIds ? all.filter(r => ruleIds.includes(r.id)) : all.filter(r => r.enabled);
+
+  // Resolve each rule's settings once; a rule whose preset was deleted is an error
+  const ruleSettings = new Map<string, PresetSettings>();
+  for (const rule of rules) {
+    const settings = rule.settings ?? (rule.presetId ? (await getPreset(rule.presetId))?.settings : undefined);
+    if (!settings) {
+      throw new Error(`The preset used by rule "${rule.name}" no longer exists`);
+    }
+    ruleSettings.set(rule.id, settings);
+  }
+
+  const matches = new Map<string, string[]>(rules.map(r => [r.id, []]));
+  const carts: PlannedCart[] = [];
+  const unknownCarts: string[] = [];
+
+  for (const cartId of await getOwnedCartIds()) {
+    const entry = await lookupCartMetadata(cartId);
+    if (!entry) {
+      unknownCarts.push(cartId);
+      continue;
+    }
+
+    const matching = rules.filter(rule => matchesRule(entry, rule.match));
+    if (matching.length === 0) continue;
+
+    const { local } = await getSettingsInfo(cartId);
+    const before = local.settings ?? createDefaultSettings(entry.name);
+    let after = before;
+    for (const rule of matching) {
+      after = applyPresetSettings(after, ruleSettings.get(rule.id) as PresetSettings);
+      matches.get(rule.id)?.push(cartId);
+    }
+
+    carts.push({
+      cartId,
+      title: before.title,
+      rules: matching.map(r => r.name),
+      created: !local.settings,
+      changes: diffSettings(before, after),
+      settings: after,
+    });
+  }
+
+  return { rules, matches, carts, unknownCarts };
+}
+
+/**
+ * Preview which owned carts each rule matches and what would change
+ */
+export async function previewSettingsRules(ruleIds?: string[]): Promise<SettingsRulesPreview> {
+  const { rules, matches, carts, unknownCarts } = await planRules(ruleIds);
+
+  return {
+    rules: rules.map(r => ({ id: r.id, name: r.name, cartIds: matches.get(r.id) ?? [] })),
+    carts: carts.map(({ cartId, title, rules: names, created, changes }) => ({
+      cartId,
+      title,
+      rules: names,
+      created,
+      changes,
+    })),
+    unknownCarts,
+  };
+}
+
+/**
+ * Apply rules to owned carts, writing settings.json for every cart that changes
+ * or has no local settings yet
+ * When an SD card path is given, the updated settings are also copied to it.
+ */
+export async function applySettingsRules(
+  ruleIds?: string[],
+  sdCardPath?: string
+): Promise<RuleApplyResult[]> {
+  const { carts } = await planRules(ruleIds);
+  const results: RuleApplyResult[] = [];
+
+  for (const cart of carts.filter(c => c.created || c.changes.length > 0)) {
+    try {
+      await saveLocalSettings(cart.cartId, cart.settings, `Rules: ${cart.rules.join(', ')}`);
+
+      const result: RuleApplyResult = {
+        cartId: cart.cartId,
+        success: true,
+        created: cart.created,
+        changes: cart.changes,
+      };
+      if (sdCardPath) {
+        result.syncedToSD = (await uploadSettingsToSD(cart.cartId, sdCardPath)).success;
+      }
+      results.push(result);
+    } catch (error) {
+      results.push({
+        cartId: cart.cartId,
+        success: false,
+        created: cart.created,
+        changes: cart.changes,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return results;
+}
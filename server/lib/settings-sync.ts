@@ -0,0 +1,235 @@
+/**
+ * Settings Sync Library
+ *
+ * Collection-wide sync of per-game settings.json files between the local
+ * library and an SD card. Every cart with settings on either side is
+ * classified, then a policy decides which side each cart is copied from.
+ */
+
+import { readdir, stat } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import {
+  getLocalGamesDir,
+  readSettingsFile,
+  uploadSettingsToSD,
+  downloadSettingsFromSD,
+  type CartridgeSettings,
+} from './cartridge-settings.js';
+import { diffSettings } from './settings-patch.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SettingsSyncStatus = 'local-only' | 'sd-only' | 'identical' | 'differing';
+
+/**
+ * How to resolve carts whose local and SD settings differ
+ * - newest: the side whose settings.json was modified last
+ * - local / sd: always that side
+ * - ask: leave the cart unchanged and report it for manual resolution
+ */
+export type SettingsSyncPolicy = 'newest' | 'local' | 'sd' | 'ask';
+
+export type SettingsSyncAction = 'upload' | 'download' | 'none' | 'ask';
+
+export interface SettingsSyncEntry {
+  cartId: string;
+  title: string;
+  status: SettingsSyncStatus;
+  localModified?: string;
+  sdModified?: string;
+  differences?: string[]; // Leaf paths, for 'differing' carts
+}
+
+export interface SettingsSyncScan {
+  entries: SettingsSyncEntry[];
+  summary: Record<SettingsSyncStatus, number>;
+}
+
+export interface SettingsSyncProgress {
+  index: number;
+  total: number;
+  cartId: string;
+  title: string;
+  action: SettingsSyncAction;
+  error?: string;
+}
+
+export interface SettingsSyncResult {
+  policy: SettingsSyncPolicy;
+  uploaded: number;
+  downloaded: number;
+  unchanged: number;
+  needsReview: SettingsSyncEntry[];
+  errors: Array<{ cartId: string; error: string }>;
+}
+
+export const SETTINGS_SYNC_POLICIES: SettingsSyncPolicy[] = ['newest', 'local', 'sd', 'ask'];
+
+interface SettingsFileInfo {
+  settings: CartridgeSettings;
+  modified: Date;
+}
+
+// =============================================================================
+// Scanning
+// =============================================================================
+
+/**
+ * Read every game folder's settings.json in a games directory, keyed by cart ID
+ * Folders whose settings cannot be parsed are skipped.
+ */
+async function readAllSettings(gamesDir: string): Promise<Map<string, SettingsFileInfo>> {
+  const result = new Map<string, SettingsFileInfo>();
+  if (!existsSync(gamesDir)) {
+    return result;
+  }
+
+  for (const folder of await readdir(gamesDir)) {
+    const match = folder.match(/([0-9a-fA-F]{8})$/);
+    const settingsPath = path.join(gamesDir, folder, 'settings.json');
+    if (!match || !existsSync(settingsPath)) continue;
+
+    try {
+      const [settings, stats] = await Promise.all([readSettingsFile(settingsPath), stat(settingsPath)]);
+      result.set(match[1].toLowerCase(), { settings, modified: stats.mtime });
+    } catch (error) {
+      console.error(`Error reading settings in ${folder}:`, error);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Classify every cart with settings locally or on the SD card
+ */
+export async function scanSettingsSync(sdCardPath: string): Promise<SettingsSyncScan> {
+  const [local, sd] = await Promise.all([
+    readAllSettings(getLocalGamesDir()),
+    readAllSettings(path.join(sdCardPath, 'Library', 'N64', 'Games')),
+  ]);
+
+  const entries: SettingsSyncEntry[] = [];
+  const cartIds = [...new Set([...local.keys(), ...sd.keys()])].sort();
+
+  for (const cartId of cartIds) {
+    const localInfo = local.get(cartId);
+    const sdInfo = sd.get(cartId);
+    const entry: SettingsSyncEntry = {
+      cartId,
+      title: localInfo?.settings.title ?? sdInfo?.settings.title ?? 'Unknown Cartridge',
+      status: 'identical',
+      localModified: localInfo?.modified.toISOString(),
+      sdModified: sdInfo?.modified.toISOString(),
+    };
+
+    if (!sdInfo) {
+      entry.status = 'local-only';
+    } else if (!localInfo) {
+      entry.status = 'sd-only';
+    } else {
+      const differences = diffSettings(localInfo.settings, sdInfo.settings).map(change => change.path);
+      if (differences.length > 0) {
+        entry.status = 'differing';
+        entry.differences = differences;
+      }
+    }
+
+    entries.push(entry);
+  }
+
+  const summary = { 'local-only': 0, 'sd-only': 0, identical: 0, differing: 0 };
+  for (const entry of entries) {
+    summary[entry.status]++;
+  }
+
+  return { entries, summary };
+}
+
+// =============================================================================
+// Sync
+// =============================================================================
+
+/**
+ * Decide what to do with a scanned cart under a policy
+ * Carts on one side only are always copied to the other; with 'newest', carts
+ * modified at the same moment on both sides are left for review.
+ */
+export function planSettingsSync(entry: SettingsSyncEntry, policy: SettingsSyncPolicy): SettingsSyncAction {
+  switch (entry.status) {
+    case 'local-only':
+      return 'upload';
+    case 'sd-only':
+      return 'download';
+    case 'identical':
+      return 'none';
+  }
+
+  if (policy === 'local') return 'upload';
+  if (policy === 'sd') return 'download';
+  if (policy === 'ask') return 'ask';
+
+  const localTime = entry.localModified ? Date.parse(entry.localModified) : 0;
+  const sdTime = entry.sdModified ? Date.parse(entry.sdModified) : 0;
+  if (localTime === sdTime) return 'ask';
+  return localTime > sdTime ? 'upload' : 'download';
+}
+
+/**
+ * Scan and sync every cart's settings between local storage and the SD card
+ * `onProgress` is called after each cart is handled.
+ */
+export async function syncAllSettings(
+  sdCardPath: string,
+  policy: SettingsSyncPolicy,
+  onProgress?: (progress: SettingsSyncProgress) => void,
+  scan?: SettingsSyncScan
+): Promise<SettingsSyncResult> {
+  const { entries } = scan ?? await scanSettingsSync(sdCardPath);
+  const result: SettingsSyncResult = {
+    policy,
+    uploaded: 0,
+    downloaded: 0,
+    unchanged: 0,
+    needsReview: [],
+    errors: [],
+  };
+
+  for (const [index, entry] of entries.entries()) {
+    const action = planSettingsSync(entry, policy);
+    let error: string | undefined;
+
+    try {
+      if (action === 'upload') {
+        const upload = await uploadSettingsToSD(entry.cartId, sdCardPath);
+        if (!upload.success) throw new Error(upload.error);
+        result.uploaded++;
+      } else if (action === 'download') {
+        const download = await downloadSettingsFromSD(entry.cartId, sdCardPath);
+        if (!download.success) throw new Error(download.error);
+        result.downloaded++;
+      } else if (action === 'ask') {
+        result.needsReview.push(entry);
+      } else {
+        result.unchanged++;
+      }
+    } catch (e) {
+      error = e instanceof Error ? e.message : 'Unknown error';
+      result.errors.push({ cartId: entry.cartId, error });
+    }
+
+    onProgress?.({
+      index: index + 1,
+      total: entries.length,
+      cartId: entry.cartId,
+      title: entry.title,
+      action,
+      ...(error ? { error } : {}),
+    });
+  }
+
+  return result;
+}
@@ -21,19 +21,46 @@ import {
   deleteLocalSettings,
   parseSettings,
   validateSettings,
+  getLocalGamesDir,
+  migrateAllSettings,
+  restoreSettingsRevision,
+  getSettingsSchemaVersion,
+  SETTINGS_SCHEMA_VERSION,
+  SETTINGS_SCHEMA_VERSIONS,
   type CartridgeSettings,
 } from '../lib/cartridge-settings.js';
 
-import { lookupGameName } from '../lib/game-lookup.js';
+import { lookupGameName, lookupGameNameByCode } from '../lib/game-lookup.js';
+
+import {
+  validatePatchOperations,
+  patchSettingsBulk,
+  diffSettings,
+  diffLocalAndSDSettings,
+  resolveLocalAndSDSettings,
+} from '../lib/settings-patch.js';
+
+import { listSettingsRevisions, getSettingsRevision } from '../lib/settings-history.js';
 
 import {
   getGamePakInfo,
+  getGamePakNotes,
+  exportGamePakNote,
+  importGamePakNote,
   readLocalGamePak,
   saveLocalGamePak,
   downloadGamePakFromSD,
   uploadGamePakToSD,
   deleteLocalGamePak,
+  repairLocalGamePak,
+  mergeGamePaks,
+  planGamePakMerge,
   validateGamePak,
+  validatePakSlotName,
+  listGamePakSlots,
+  createGamePakSlot,
+  swapGamePakSlot,
+  ACTIVE_PAK_SLOT,
   CONTROLLER_PAK_SIZE,
   listBackups,
   createBackup,
@@ -41,8 +68,30 @@ import {
   updateBackup,
   deleteBackup,
   restoreBackup,
+  getRetentionPolicy,
+  saveRetentionPolicy,
+  validateRetentionPolicy,
+  pruneAllAutoBackups,
+  getBackupTimeline,
 } from '../lib/game-pak.js';
 
+import {
+  getCartridgeSaveInfo,
+  readLocalCartridgeSave,
+  saveLocalCartridgeSave,
+  deleteLocalCartridgeSave,
+  convertSaveByteOrder,
+  listCartridgeSaveBackups,
+  createCartridgeSaveBackup,
+  getCartridgeSaveBackupBuffer,
+  updateCartridgeSaveBackup,
+  deleteCartridgeSaveBackup,
+  restoreCartridgeSaveBackup,
+  CARTRIDGE_SAVE_TYPES,
+  type CartridgeSaveType,
+  type SaveByteOrder,
+} from '../lib/cartridge-save.js';
+
 import {
   createBundle,
   getBundleInfo,
@@ -50,6 +99,7 @@ import {
   createSelectionBundle,
   type ImportOptions,
 } from '../lib/bundle-archive.js';
+import { ensureGlobalSettingsBackup } from '../lib/global-settings.js';
 
 const router = Router();
 
@@ -57,7 +107,7 @@ const router = Router();
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: {
-    fileSize: 1024 * 1024, // 1MB max for settings/game pak files
+    fileSize: 1024 * 1024, // 1MB max for settings/game pak/cartridge save files
   },
 });
 
@@ -353,6 +403,100 @@ router.post('/owned/import-from-sd/apply', async (req, res: Response) => {
 // Settings Routes
 // =============================================================================
 
+/**
+ * GET /api/cartridges/settings/schema-versions
+ * List the known settings.json schema versions and the firmware that writes them
+ */
+router.get('/settings/schema-versions', (_req, res) => {
+  res.json({ current: SETTINGS_SCHEMA_VERSION, versions: SETTINGS_SCHEMA_VERSIONS });
+});
+
+/**
+ * POST /api/cartridges/settings/migrate
+ * Migrate every game's settings.json to a target schema version
+ * Body: { source: 'local' | 'sd', sdCardPath?, targetVersion?, dryRun? }
+ * dryRun defaults to true, returning the report without writing anything.
+ */
+router.post('/settings/migrate', async (req, res) => {
+  const { source = 'sd', sdCardPath, targetVersion = SETTINGS_SCHEMA_VERSION, dryRun = true } = req.body;
+
+  if (source !== 'local' && source !== 'sd') {
+    return res.status(400).json({ error: 'Source must be "local" or "sd"' });
+  }
+
+  if (source === 'sd' && (!sdCardPath || typeof sdCardPath !== 'string')) {
+    return res.status(400).json({ error: 'SD card path required' });
+  }
+
+  try {
+    getSettingsSchemaVersion(Number(targetVersion));
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid target version' });
+  }
+
+  const gamesDir = source === 'sd'
+    ? path.join(sdCardPath, 'Library', 'N64', 'Games')
+    : getLocalGamesDir();
+
+  try {
+    const report = await migrateAllSettings(gamesDir, Number(targetVersion), dryRun !== false);
+    res.json(report);
+  } catch (error) {
+    console.error('Error migrating settings:', error);
+    res.status(500).json({ error: 'Failed to migrate settings' });
+  }
+});
+
+/**
+ * POST /api/cartridges/settings/patch
+ * Apply a partial settings update to many cartridges at once
+ * Body: {
+ *   cartIds: string[],
+ *   patch: [{ op: 'replace', path: '/hardware/overclock', value: 'Unleashed' }, ...],
+ *   sdCardPath?: string,          // Also write the patched settings to the SD card
+ *   titles?: Record<cartId, name>, // Titles for carts without local settings
+ *   dryRun?: boolean               // Return the diffs without writing
+ * }
+ * All carts are patched or none are; the response has a before/after diff per cart.
+ */
+router.post('/settings/patch', async (req, res) => {
+  const { cartIds, patch, sdCardPath, titles, dryRun } = req.body;
+
+  if (!Array.isArray(cartIds) || cartIds.length === 0) {
+    return res.status(400).json({ error: 'cartIds must be a non-empty array' });
+  }
+
+  if (!cartIds.every((id: unknown) => typeof id === 'string' && /^[0-9a-fA-F]{8}$/.test(id))) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  let operations;
+  try {
+    operations = validatePatchOperations(patch);
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid patch' });
+  }
+
+  try {
+    const result = await patchSettingsBulk({
+      cartIds,
+      operations,
+      sdCardPath: typeof sdCardPath === 'string' && sdCardPath ? sdCardPath : undefined,
+      titles: typeof titles === 'object' && titles !== null ? titles : undefined,
+      dryRun: dryRun === true,
+    });
+
+    if (!result.success) {
+      return res.status(400).json({ error: 'Patch failed for some cartridges', ...result });
+    }
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error patching settings:', error);
+    res.status(500).json({ error: 'Failed to patch settings; no changes were kept' });
+  }
+});
+
 /**
  * GET /api/cartridges/:cartId/settings
  * Get settings for a cartridge
@@ -459,6 +603,64 @@ router.post('/:cartId/settings/upload', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/cartridges/:cartId/settings/diff?sdCardPath=...
+ * List the fields that differ between local and SD card settings
+ */
+router.get('/:cartId/settings/diff', async (req, res) => {
+  const { cartId } = req.params;
+  const { sdCardPath } = req.query;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  if (!sdCardPath) {
+    return res.status(400).json({ error: 'SD card path is required' });
+  }
+
+  try {
+    const diff = await diffLocalAndSDSettings(cartId, sdCardPath as string);
+    res.json(diff);
+  } catch (error) {
+    console.error('Error comparing settings:', error);
+    res.status(500).json({ error: 'Failed to compare settings' });
+  }
+});
+
+/**
+ * POST /api/cartridges/:cartId/settings/resolve
+ * Merge local and SD card settings field by field and write the result to both
+ * Body: { sdCardPath, resolutions: { [path]: 'local' | 'sd' } }
+ * Every path from the diff must be resolved.
+ */
+router.post('/:cartId/settings/resolve', async (req, res) => {
+  const { cartId } = req.params;
+  const { sdCardPath, resolutions } = req.body;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  if (!sdCardPath) {
+    return res.status(400).json({ error: 'SD card path is required' });
+  }
+
+  if (typeof resolutions !== 'object' || resolutions === null || Array.isArray(resolutions)) {
+    return res.status(400).json({ error: 'resolutions must be an object of path to "local" or "sd"' });
+  }
+
+  try {
+    const settings = await resolveLocalAndSDSettings(cartId, sdCardPath, resolutions);
+    res.json({ success: true, settings });
+  } catch (error) {
+    console.error('Error resolving settings:', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to resolve settings',
+    });
+  }
+});
+
 /**
  * POST /api/cartridges/:cartId/settings/import
  * Import settings from uploaded file
@@ -509,7 +711,7 @@ router.post('/:cartId/settings/import', upload.single('settings'), async (req, r
     // Update the settings with the correct title
     settings.title = targetTitle;
 
-    const savedPath = await saveLocalSettings(cartId, settings);
+    const savedPath = await saveLocalSettings(cartId, settings, 'Import');
     res.json({ success: true, path: savedPath });
   } catch (error) {
     console.error('Error importing settings:', error);
@@ -568,6 +770,82 @@ router.delete('/:cartId/settings', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/cartridges/:cartId/settings/history
+ * List saved settings revisions, newest first
+ */
+router.get('/:cartId/settings/history', async (req, res) => {
+  const { cartId } = req.params;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const revisions = await listSettingsRevisions(cartId);
+    res.json({ revisions });
+  } catch (error) {
+    console.error('Error listing settings history:', error);
+    res.status(500).json({ error: 'Failed to list settings history' });
+  }
+});
+
+/**
+ * GET /api/cartridges/:cartId/settings/history/:revisionId/diff
+ * Compare a revision with the current local settings
+ * Each change's `before` is the current value and `after` the revision's,
+ * i.e. what restoring the revision would change.
+ */
+router.get('/:cartId/settings/history/:revisionId/diff', async (req, res) => {
+  const { cartId, revisionId } = req.params;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const revision = await getSettingsRevision(cartId, revisionId);
+    if (!revision) {
+      return res.status(404).json({ error: 'Revision not found' });
+    }
+
+    const { local } = await getSettingsInfo(cartId);
+    const changes = diffSettings(local.settings ?? null, revision.settings);
+    res.json({ revision, changes });
+  } catch (error) {
+    console.error('Error comparing settings revision:', error);
+    res.status(500).json({ error: 'Failed to compare settings revision' });
+  }
+});
+
+/**
+ * POST /api/cartridges/:cartId/settings/history/:revisionId/restore
+ * Restore a revision to local settings (and the SD card if sdCardPath is given)
+ */
+router.post('/:cartId/settings/history/:revisionId/restore', async (req, res) => {
+  const { cartId, revisionId } = req.params;
+  const { sdCardPath } = req.body;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const result = await restoreSettingsRevision(cartId, revisionId, sdCardPath);
+    res.json({
+      success: true,
+      settings: result.settings,
+      restoredToLocal: result.local,
+      restoredToSD: result.sd,
+    });
+  } catch (error) {
+    console.error('Error restoring settings revision:', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to restore settings revision',
+    });
+  }
+});
+
 // =============================================================================
 // Game Pak Routes
 // =============================================================================
@@ -660,10 +938,11 @@ router.post('/:cartId/game-pak/upload', async (req, res) => {
 /**
  * POST /api/cartridges/:cartId/game-pak/import
  * Import game pak from uploaded file
+ * Form data: gamePak, title?, slot? (a named pak slot; defaults to the active pak)
  */
 router.post('/:cartId/game-pak/import', upload.single('gamePak'), async (req, res) => {
   const { cartId } = req.params;
-  const { title } = req.body;
+  const { title, slot } = req.body;
 
   if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
     return res.status(400).json({ error: 'Invalid cart ID format' });
@@ -686,8 +965,15 @@ router.post('/:cartId/game-pak/import', upload.single('gamePak'), async (req, re
     });
   }
 
+  let targetSlot = ACTIVE_PAK_SLOT;
+  try {
+    if (slot) targetSlot = validatePakSlotName(slot);
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid pak slot' });
+  }
+
   try {
-    const savedPath = await saveLocalGamePak(cartId, buffer, title);
+    const savedPath = await saveLocalGamePak(cartId, buffer, title, 'Before import', targetSlot);
     res.json({ success: true, path: savedPath });
   } catch (error) {
     console.error('Error importing game pak:', error);
@@ -700,23 +986,34 @@ router.post('/:cartId/game-pak/import', upload.single('gamePak'), async (req, re
 /**
  * GET /api/cartridges/:cartId/game-pak/export
  * Export game pak as downloadable file
+ * Query params:
+ *   - slot: a named pak slot (defaults to the active pak)
  */
 router.get('/:cartId/game-pak/export', async (req, res) => {
   const { cartId } = req.params;
+  const { slot } = req.query;
 
   if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
     return res.status(400).json({ error: 'Invalid cart ID format' });
   }
 
+  let targetSlot = ACTIVE_PAK_SLOT;
   try {
-    const buffer = await readLocalGamePak(cartId);
+    if (slot) targetSlot = validatePakSlotName(slot);
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid pak slot' });
+  }
+
+  try {
+    const buffer = await readLocalGamePak(cartId, targetSlot);
 
     if (!buffer) {
       return res.status(404).json({ error: 'No local game pak found' });
     }
 
+    const suffix = targetSlot === ACTIVE_PAK_SLOT ? '' : `-${targetSlot}`;
     res.setHeader('Content-Type', 'application/octet-stream');
-    res.setHeader('Content-Disposition', `attachment; filename="controller_pak-${cartId}.img"`);
+    res.setHeader('Content-Disposition', `attachment; filename="controller_pak-${cartId}${suffix}.img"`);
     res.send(buffer);
   } catch (error) {
     console.error('Error exporting game pak:', error);
@@ -744,15 +1041,11 @@ router.delete('/:cartId/game-pak', async (req, res) => {
   }
 });
 
-// =============================================================================
-// Game Pak Backup Routes
-// =============================================================================
-
 /**
- * GET /api/cartridges/:cartId/game-pak/backups
- * List all backups for a cartridge
+ * GET /api/cartridges/:cartId/game-pak/slots
+ * List the cartridge's named pak slots (the active pak is not included)
  */
-router.get('/:cartId/game-pak/backups', async (req, res) => {
+router.get('/:cartId/game-pak/slots', async (req, res) => {
   const { cartId } = req.params;
 
   if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
@@ -760,152 +1053,792 @@ router.get('/:cartId/game-pak/backups', async (req, res) => {
   }
 
   try {
-    const backups = await listBackups(cartId);
-    res.json({ backups });
+    const slots = await listGamePakSlots(cartId);
+    res.json({ slots });
   } catch (error) {
-    console.error('Error listing backups:', error);
-    res.status(500).json({ error: 'Failed to list backups' });
+    console.error('Error listing pak slots:', error);
+    res.status(500).json({ error: 'Failed to list pak slots' });
   }
 });
 
 /**
- * POST /api/cartridges/:cartId/game-pak/backups
- * Create a new backup from current local game pak
+ * POST /api/cartridges/:cartId/game-pak/slots
+ * Create a named pak slot
+ * Body: { slot, source?: 'empty' | 'active', title? }
  */
-router.post('/:cartId/game-pak/backups', async (req, res) => {
+router.post('/:cartId/game-pak/slots', async (req, res) => {
   const { cartId } = req.params;
-  const { name, description } = req.body;
+  const { slot, source = 'empty', title } = req.body;
 
   if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
     return res.status(400).json({ error: 'Invalid cart ID format' });
   }
 
+  if (source !== 'empty' && source !== 'active') {
+    return res.status(400).json({ error: "source must be 'empty' or 'active'" });
+  }
+
   try {
-    const backup = await createBackup(cartId, name, description);
-    res.json({ success: true, backup });
+    validatePakSlotName(slot);
   } catch (error) {
-    console.error('Error creating backup:', error);
-    res.status(400).json({
-      error: error instanceof Error ? error.message : 'Failed to create backup',
-    });
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid pak slot' });
+  }
+
+  try {
+    const savedPath = await createGamePakSlot(cartId, slot, source, title);
+    res.status(201).json({ success: true, path: savedPath });
+  } catch (error) {
+    if (error instanceof Error && error.message.endsWith('already exists')) {
+      return res.status(409).json({ error: error.message });
+    }
+    if (error instanceof Error && error.message === 'No local game pak to copy') {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error creating pak slot:', error);
+    res.status(500).json({ error: 'Failed to create pak slot' });
   }
 });
 
 /**
- * GET /api/cartridges/:cartId/game-pak/backups/:backupId
- * Download a specific backup as .img file
+ * POST /api/cartridges/:cartId/game-pak/slots/:slot/swap
+ * Swap a named pak slot with the active pak
+ * Body: { sdCardPath?, title? } - with sdCardPath, the new active pak is uploaded
  */
-router.get('/:cartId/game-pak/backups/:backupId', async (req, res) => {
-  const { cartId, backupId } = req.params;
+router.post('/:cartId/game-pak/slots/:slot/swap', async (req, res) => {
+  const { cartId, slot } = req.params;
+  const { sdCardPath, title } = req.body;
 
   if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
     return res.status(400).json({ error: 'Invalid cart ID format' });
   }
 
   try {
-    const buffer = await getBackupBuffer(cartId, backupId);
-    if (!buffer) {
-      return res.status(404).json({ error: 'Backup not found' });
-    }
-
-    res.setHeader('Content-Type', 'application/octet-stream');
-    res.setHeader('Content-Disposition', `attachment; filename="backup-${backupId}.img"`);
-    res.send(buffer);
+    const result = await swapGamePakSlot(cartId, slot, sdCardPath, title);
+    res.json({ success: true, ...result });
   } catch (error) {
-    console.error('Error downloading backup:', error);
-    res.status(500).json({ error: 'Failed to download backup' });
+    if (error instanceof Error) {
+      return res.status(error.message === 'Pak slot not found' ? 404 : 400).json({ error: error.message });
+    }
+    console.error('Error swapping pak slot:', error);
+    res.status(500).json({ error: 'Failed to swap pak slot' });
   }
 });
 
 /**
- * PUT /api/cartridges/:cartId/game-pak/backups/:backupId
- * Update backup name/description
+ * DELETE /api/cartridges/:cartId/game-pak/slots/:slot
+ * Delete a named pak slot (an automatic backup is kept)
  */
-router.put('/:cartId/game-pak/backups/:backupId', async (req, res) => {
-  const { cartId, backupId } = req.params;
-  const { name, description } = req.body;
+router.delete('/:cartId/game-pak/slots/:slot', async (req, res) => {
+  const { cartId } = req.params;
 
   if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
     return res.status(400).json({ error: 'Invalid cart ID format' });
   }
 
+  let slot: string;
   try {
-    const backup = await updateBackup(cartId, backupId, { name, description });
-    if (!backup) {
-      return res.status(404).json({ error: 'Backup not found' });
+    slot = validatePakSlotName(req.params.slot);
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid pak slot' });
+  }
+
+  try {
+    const deleted = await deleteLocalGamePak(cartId, slot);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Pak slot not found' });
     }
-    res.json({ success: true, backup });
+    res.json({ success: true });
   } catch (error) {
-    console.error('Error updating backup:', error);
-    res.status(500).json({ error: 'Failed to update backup' });
+    console.error('Error deleting pak slot:', error);
+    res.status(500).json({ error: 'Failed to delete pak slot' });
   }
 });
 
 /**
- * DELETE /api/cartridges/:cartId/game-pak/backups/:backupId
- * Delete a backup
+ * POST /api/cartridges/:cartId/game-pak/repair
+ * Repair the local game pak filesystem (backup ID blocks and inode table,
+ * orphaned pages). A backup is created before any change is written.
  */
-router.delete('/:cartId/game-pak/backups/:backupId', async (req, res) => {
-  const { cartId, backupId } = req.params;
+router.post('/:cartId/game-pak/repair', async (req, res) => {
+  const { cartId } = req.params;
 
   if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
     return res.status(400).json({ error: 'Invalid cart ID format' });
   }
 
   try {
-    const deleted = await deleteBackup(cartId, backupId);
-    res.json({ success: deleted });
+    const result = await repairLocalGamePak(cartId);
+    res.json({ success: true, ...result });
   } catch (error) {
-    console.error('Error deleting backup:', error);
-    res.status(500).json({ error: 'Failed to delete backup' });
+    console.error('Error repairing game pak:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to repair game pak',
+    });
   }
 });
 
 /**
- * POST /api/cartridges/:cartId/game-pak/backups/:backupId/restore
- * Restore a backup to local (and optionally SD card)
+ * GET /api/cartridges/:cartId/game-pak/notes
+ * List the notes (individual game saves) stored in a game pak
+ * Query params:
+ *   - source: 'local' (default) or 'sd'
+ *   - sdCardPath: path to SD card (required when source is 'sd')
  */
-router.post('/:cartId/game-pak/backups/:backupId/restore', async (req, res) => {
-  const { cartId, backupId } = req.params;
-  const { syncToSD, sdCardPath, title } = req.body;
+router.get('/:cartId/game-pak/notes', async (req, res) => {
+  const { cartId } = req.params;
+  const { sdCardPath } = req.query;
+  const source = req.query.source === 'sd' ? 'sd' : 'local';
 
   if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
     return res.status(400).json({ error: 'Invalid cart ID format' });
   }
 
+  if (source === 'sd' && !sdCardPath) {
+    return res.status(400).json({ error: 'SD card path is required' });
+  }
+
   try {
-    const result = await restoreBackup(
-      cartId,
-      backupId,
-      title || 'Unknown Cartridge',
-      syncToSD ? sdCardPath : undefined
+    const pak = await getGamePakNotes(cartId, source, sdCardPath as string | undefined);
+    if (!pak) {
+      return res.status(404).json({ error: `No ${source === 'sd' ? 'SD card' : 'local'} game pak found` });
+    }
+
+    const notes = await Promise.all(
+      pak.notes.map(async (note) => ({
+        ...note,
+        gameName: await lookupGameNameByCode(note.gameCode),
+      }))
     );
-    res.json({
-      success: true,
-      restoredToLocal: result.local,
-      restoredToSD: result.sd,
-    });
+
+    res.json({ source, ...pak, notes });
   } catch (error) {
-    console.error('Error restoring backup:', error);
-    res.status(400).json({
-      error: error instanceof Error ? error.message : 'Failed to restore backup',
+    console.error('Error reading game pak notes:', error);
+    res.status(500).json({
+      error: error instanceof Error ? error.message : 'Failed to read game pak notes',
     });
   }
 });
 
-// =============================================================================
-// Bundle Export/Import Routes
-// =============================================================================
-
 /**
- * POST /api/cartridges/bundle/export
- * Create and download a bundle archive
- *
- * Body: {
+ * GET /api/cartridges/:cartId/game-pak/notes/:noteIndex/export
+ * Export a single note as a downloadable note file
+ * Query params:
+ *   - format: 'note' (MPK note, default) or 'n64' (DexDrive)
+ *   - source: 'local' (default) or 'sd'
+ *   - sdCardPath: path to SD card (required when source is 'sd')
+ */
+router.get('/:cartId/game-pak/notes/:noteIndex/export', async (req, res) => {
+  const { cartId } = req.params;
+  const noteIndex = parseInt(req.params.noteIndex, 10);
+  const { sdCardPath } = req.query;
+  const format = req.query.format === 'n64' ? 'n64' : 'note';
+  const source = req.query.source === 'sd' ? 'sd' : 'local';
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  if (isNaN(noteIndex) || noteIndex < 0 || noteIndex > 15) {
+    return res.status(400).json({ error: 'Invalid note index' });
+  }
+
+  if (source === 'sd' && !sdCardPath) {
+    return res.status(400).json({ error: 'SD card path is required' });
+  }
+
+  try {
+    const result = await exportGamePakNote(cartId, noteIndex, format, source, sdCardPath as string | undefined);
+    if (!result) {
+      return res.status(404).json({ error: `No ${source === 'sd' ? 'SD card' : 'local'} game pak found` });
+    }
+
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('Content-Disposition', `attachment; filename="${result.filename}"`);
+    res.send(result.buffer);
+  } catch (error) {
+    console.error('Error exporting game pak note:', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to export note',
+    });
+  }
+});
+
+/**
+ * POST /api/cartridges/:cartId/game-pak/notes/import
+ * Insert an uploaded note file (.note or DexDrive .n64) into the local game pak
+ */
+router.post('/:cartId/game-pak/notes/import', upload.single('note'), async (req, res) => {
+  const { cartId } = req.params;
+  const { title } = req.body;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  if (!req.file) {
+    return res.status(400).json({ error: 'No file uploaded' });
+  }
+
+  try {
+    const result = await importGamePakNote(cartId, req.file.buffer, title);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error importing game pak note:', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to import note',
+    });
+  }
+});
+
+/**
+ * GET /api/cartridges/:cartId/game-pak/merge-plan?sdCardPath=...
+ * Three-way merge plan for the local and SD card game paks, using the newest
+ * matching backup as the common base
+ */
+router.get('/:cartId/game-pak/merge-plan', async (req, res) => {
+  const { cartId } = req.params;
+  const sdCardPath = req.query.sdCardPath as string | undefined;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  if (!sdCardPath) {
+    return res.status(400).json({ error: 'SD card path is required' });
+  }
+
+  try {
+    const plan = await planGamePakMerge(cartId, sdCardPath);
+    res.json(plan);
+  } catch (error) {
+    console.error('Error planning game pak merge:', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to plan game pak merge',
+    });
+  }
+});
+
+/**
+ * POST /api/cartridges/:cartId/game-pak/merge
+ * Merge the local and SD card game paks, keeping the selected notes from each
+ * Body: { sdCardPath, local?: number[], sd?: number[], title? }
+ * Without local and sd, the three-way merge plan is applied (refused if any note conflicts).
+ */
+router.post('/:cartId/game-pak/merge', async (req, res) => {
+  const { cartId } = req.params;
+  const { sdCardPath, local, sd, title } = req.body;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  if (!sdCardPath) {
+    return res.status(400).json({ error: 'SD card path is required' });
+  }
+
+  const isNoteIndexList = (value: unknown): value is number[] =>
+    Array.isArray(value) && value.every(i => Number.isInteger(i) && i >= 0 && i <= 15);
+  const automatic = local === undefined && sd === undefined;
+  if (!automatic && (!isNoteIndexList(local) || !isNoteIndexList(sd))) {
+    return res.status(400).json({ error: 'local and sd must be arrays of note indexes (0-15)' });
+  }
+
+  try {
+    const result = await mergeGamePaks(cartId, sdCardPath, automatic ? undefined : { local, sd }, title);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error merging game paks:', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to merge game paks',
+    });
+  }
+});
+
+// =============================================================================
+// Game Pak Backup Routes
+// =============================================================================
+
+/**
+ * GET /api/cartridges/game-pak/retention
+ * Get the retention policy for automatic game pak backups
+ */
+router.get('/game-pak/retention', async (_req, res) => {
+  try {
+    const policy = await getRetentionPolicy();
+    res.json({ policy });
+  } catch (error) {
+    console.error('Error getting retention policy:', error);
+    res.status(500).json({ error: 'Failed to get retention policy' });
+  }
+});
+
+/**
+ * PUT /api/cartridges/game-pak/retention
+ * Update the retention policy and prune automatic backups that fall outside it
+ * Body: { mode: 'count', keepLast: number } | { mode: 'days', keepDays: number }
+ */
+router.put('/game-pak/retention', async (req, res) => {
+  let policy;
+  try {
+    policy = validateRetentionPolicy(req.body);
+  } catch (error) {
+    return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid retention policy' });
+  }
+
+  try {
+    await saveRetentionPolicy(policy);
+    const pruned = await pruneAllAutoBackups(policy);
+    res.json({ success: true, policy, pruned });
+  } catch (error) {
+    console.error('Error updating retention policy:', error);
+    res.status(500).json({ error: 'Failed to update retention policy' });
+  }
+});
+
+/**
+ * GET /api/cartridges/:cartId/game-pak/backups
+ * List all backups for a cartridge
+ */
+router.get('/:cartId/game-pak/backups', async (req, res) => {
+  const { cartId } = req.params;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const backups = await listBackups(cartId);
+    res.json({ backups });
+  } catch (error) {
+    console.error('Error listing backups:', error);
+    res.status(500).json({ error: 'Failed to list backups' });
+  }
+});
+
+/**
+ * GET /api/cartridges/:cartId/game-pak/timeline?includeCurrent=true
+ * Get the backup history with page and note changes between consecutive states
+ */
+router.get('/:cartId/game-pak/timeline', async (req, res) => {
+  const { cartId } = req.params;
+  const includeCurrent = req.query.includeCurrent !== 'false';
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const timeline = await getBackupTimeline(cartId, includeCurrent);
+    res.json({ timeline });
+  } catch (error) {
+    console.error('Error building backup timeline:', error);
+    res.status(500).json({ error: 'Failed to build backup timeline' });
+  }
+});
+
+/**
+ * POST /api/cartridges/:cartId/game-pak/backups
+ * Create a new backup from current local game pak
+ */
+router.post('/:cartId/game-pak/backups', async (req, res) => {
+  const { cartId } = req.params;
+  const { name, description } = req.body;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const backup = await createBackup(cartId, name, description);
+    res.json({ success: true, backup });
+  } catch (error) {
+    console.error('Error creating backup:', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to create backup',
+    });
+  }
+});
+
+/**
+ * GET /api/cartridges/:cartId/game-pak/backups/:backupId
+ * Download a specific backup as .img file
+ */
+router.get('/:cartId/game-pak/backups/:backupId', async (req, res) => {
+  const { cartId, backupId } = req.params;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const buffer = await getBackupBuffer(cartId, backupId);
+    if (!buffer) {
+      return res.status(404).json({ error: 'Backup not found' });
+    }
+
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('Content-Disposition', `attachment; filename="backup-${backupId}.img"`);
+    res.send(buffer);
+  } catch (error) {
+    console.error('Error downloading backup:', error);
+    res.status(500).json({ error: 'Failed to download backup' });
+  }
+});
+
+/**
+ * PUT /api/cartridges/:cartId/game-pak/backups/:backupId
+ * Update backup name/description
+ */
+router.put('/:cartId/game-pak/backups/:backupId', async (req, res) => {
+  const { cartId, backupId } = req.params;
+  const { name, description } = req.body;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const backup = await updateBackup(cartId, backupId, { name, description });
+    if (!backup) {
+      return res.status(404).json({ error: 'Backup not found' });
+    }
+    res.json({ success: true, backup });
+  } catch (error) {
+    console.error('Error updating backup:', error);
+    res.status(500).json({ error: 'Failed to update backup' });
+  }
+});
+
+/**
+ * DELETE /api/cartridges/:cartId/game-pak/backups/:backupId
+ * Delete a backup
+ */
+router.delete('/:cartId/game-pak/backups/:backupId', async (req, res) => {
+  const { cartId, backupId } = req.params;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const deleted = await deleteBackup(cartId, backupId);
+    res.json({ success: deleted });
+  } catch (error) {
+    console.error('Error deleting backup:', error);
+    res.status(500).json({ error: 'Failed to delete backup' });
+  }
+});
+
+/**
+ * POST /api/cartridges/:cartId/game-pak/backups/:backupId/restore
+ * Restore a backup to local (and optionally SD card)
+ */
+router.post('/:cartId/game-pak/backups/:backupId/restore', async (req, res) => {
+  const { cartId, backupId } = req.params;
+  const { syncToSD, sdCardPath, title } = req.body;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const result = await restoreBackup(
+      cartId,
+      backupId,
+      title || 'Unknown Cartridge',
+      syncToSD ? sdCardPath : undefined
+    );
+    res.json({
+      success: true,
+      restoredToLocal: result.local,
+      restoredToSD: result.sd,
+    });
+  } catch (error) {
+    console.error('Error restoring backup:', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to restore backup',
+    });
+  }
+});
+
+// =============================================================================
+// Cartridge Save Routes (EEPROM / SRAM / FlashRAM)
+// =============================================================================
+
+const SAVE_BYTE_ORDERS: SaveByteOrder[] = ['big-endian', 'little-endian', 'byte-swapped'];
+
+/**
+ * GET /api/cartridges/:cartId/cartridge-save
+ * Get local cartridge save info
+ */
+router.get('/:cartId/cartridge-save', async (req, res) => {
+  const { cartId } = req.params;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const info = await getCartridgeSaveInfo(cartId);
+    res.json(info);
+  } catch (error) {
+    console.error('Error getting cartridge save info:', error);
+    res.status(500).json({ error: 'Failed to get cartridge save info' });
+  }
+});
+
+/**
+ * POST /api/cartridges/:cartId/cartridge-save/import
+ * Import a cartridge save from an uploaded file
+ * Form fields:
+ *   - save: the save file
+ *   - saveType: optional, detected from the file size when omitted
+ *   - byteOrder: 'big-endian' (default), 'little-endian' or 'byte-swapped'
+ *   - title: game title used when creating the local game folder
+ */
+router.post('/:cartId/cartridge-save/import', upload.single('save'), async (req, res) => {
+  const { cartId } = req.params;
+  const { saveType, byteOrder, title } = req.body;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  if (!req.file) {
+    return res.status(400).json({ error: 'No file uploaded' });
+  }
+
+  if (saveType && !(saveType in CARTRIDGE_SAVE_TYPES)) {
+    return res.status(400).json({ error: `Invalid save type: ${saveType}` });
+  }
+
+  if (byteOrder && !SAVE_BYTE_ORDERS.includes(byteOrder)) {
+    return res.status(400).json({ error: `Invalid byte order: ${byteOrder}` });
+  }
+
+  try {
+    const result = await saveLocalCartridgeSave(cartId, req.file.buffer, {
+      saveType: saveType as CartridgeSaveType | undefined,
+      byteOrder,
+      title,
+      backupReason: 'Before import',
+    });
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error importing cartridge save:', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to import cartridge save',
+    });
+  }
+});
+
+/**
+ * GET /api/cartridges/:cartId/cartridge-save/export?byteOrder=big-endian
+ * Export the local cartridge save, optionally converted to another byte order
+ */
+router.get('/:cartId/cartridge-save/export', async (req, res) => {
+  const { cartId } = req.params;
+  const byteOrder = (req.query.byteOrder as SaveByteOrder | undefined) || 'big-endian';
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  if (!SAVE_BYTE_ORDERS.includes(byteOrder)) {
+    return res.status(400).json({ error: `Invalid byte order: ${byteOrder}` });
+  }
+
+  try {
+    const save = await readLocalCartridgeSave(cartId);
+    if (!save) {
+      return res.status(404).json({ error: 'No local cartridge save found' });
+    }
+
+    const extension = CARTRIDGE_SAVE_TYPES[save.saveType].extension;
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('Content-Disposition', `attachment; filename="${cartId.toLowerCase()}.${extension}"`);
+    res.send(convertSaveByteOrder(save.buffer, byteOrder));
+  } catch (error) {
+    console.error('Error exporting cartridge save:', error);
+    res.status(500).json({ error: 'Failed to export cartridge save' });
+  }
+});
+
+/**
+ * DELETE /api/cartridges/:cartId/cartridge-save
+ * Delete the local cartridge save
+ */
+router.delete('/:cartId/cartridge-save', async (req, res) => {
+  const { cartId } = req.params;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const deleted = await deleteLocalCartridgeSave(cartId);
+    res.json({ success: deleted });
+  } catch (error) {
+    console.error('Error deleting cartridge save:', error);
+    res.status(500).json({ error: 'Failed to delete cartridge save' });
+  }
+});
+
+/**
+ * GET /api/cartridges/:cartId/cartridge-save/backups
+ * List all cartridge save backups for a cartridge
+ */
+router.get('/:cartId/cartridge-save/backups', async (req, res) => {
+  const { cartId } = req.params;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const backups = await listCartridgeSaveBackups(cartId);
+    res.json({ backups });
+  } catch (error) {
+    console.error('Error listing cartridge save backups:', error);
+    res.status(500).json({ error: 'Failed to list backups' });
+  }
+});
+
+/**
+ * POST /api/cartridges/:cartId/cartridge-save/backups
+ * Create a new backup from the current local cartridge save
+ */
+router.post('/:cartId/cartridge-save/backups', async (req, res) => {
+  const { cartId } = req.params;
+  const { name, description } = req.body;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const backup = await createCartridgeSaveBackup(cartId, name, description);
+    res.json({ success: true, backup });
+  } catch (error) {
+    console.error('Error creating cartridge save backup:', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to create backup',
+    });
+  }
+});
+
+/**
+ * GET /api/cartridges/:cartId/cartridge-save/backups/:backupId
+ * Download a specific cartridge save backup
+ */
+router.get('/:cartId/cartridge-save/backups/:backupId', async (req, res) => {
+  const { cartId, backupId } = req.params;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const buffer = await getCartridgeSaveBackupBuffer(cartId, backupId);
+    if (!buffer) {
+      return res.status(404).json({ error: 'Backup not found' });
+    }
+
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('Content-Disposition', `attachment; filename="backup-${backupId}.sav"`);
+    res.send(buffer);
+  } catch (error) {
+    console.error('Error downloading cartridge save backup:', error);
+    res.status(500).json({ error: 'Failed to download backup' });
+  }
+});
+
+/**
+ * PUT /api/cartridges/:cartId/cartridge-save/backups/:backupId
+ * Update backup name/description
+ */
+router.put('/:cartId/cartridge-save/backups/:backupId', async (req, res) => {
+  const { cartId, backupId } = req.params;
+  const { name, description } = req.body;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const backup = await updateCartridgeSaveBackup(cartId, backupId, { name, description });
+    if (!backup) {
+      return res.status(404).json({ error: 'Backup not found' });
+    }
+    res.json({ success: true, backup });
+  } catch (error) {
+    console.error('Error updating cartridge save backup:', error);
+    res.status(500).json({ error: 'Failed to update backup' });
+  }
+});
+
+/**
+ * DELETE /api/cartridges/:cartId/cartridge-save/backups/:backupId
+ * Delete a cartridge save backup
+ */
+router.delete('/:cartId/cartridge-save/backups/:backupId', async (req, res) => {
+  const { cartId, backupId } = req.params;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const deleted = await deleteCartridgeSaveBackup(cartId, backupId);
+    res.json({ success: deleted });
+  } catch (error) {
+    console.error('Error deleting cartridge save backup:', error);
+    res.status(500).json({ error: 'Failed to delete backup' });
+  }
+});
+
+/**
+ * POST /api/cartridges/:cartId/cartridge-save/backups/:backupId/restore
+ * Restore a cartridge save backup to local storage
+ */
+router.post('/:cartId/cartridge-save/backups/:backupId/restore', async (req, res) => {
+  const { cartId, backupId } = req.params;
+  const { title } = req.body;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const result = await restoreCartridgeSaveBackup(cartId, backupId, title || 'Unknown Cartridge');
+    res.json({ success: true, ...result });
+  } catch (error) {
+    console.error('Error restoring cartridge save backup:', error);
+    res.status(400).json({
+      error: error instanceof Error ? error.message : 'Failed to restore backup',
+    });
+  }
+});
+
+// =============================================================================
+// Bundle Export/Import Routes
+// =============================================================================
+
+/**
+ * POST /api/cartridges/bundle/export
+ * Create and download a bundle archive
+ *
+ * Body: {
  *   includeLabels?: boolean,
  *   includeOwnership?: boolean,
  *   includeSettings?: boolean,
  *   includeGamePaks?: boolean,
+ *   includeGamePakBackups?: boolean,
+ *   includeCartridgeSaves?: boolean,
+ *   includePresets?: boolean,
+ *   includePakLibrary?: boolean,
+ *   includeGlobalSettings?: boolean,
+ *   sdCardPath?: string, // Back up the SD card's global settings first
  *   cartIds?: string[] // Optional: only include specific carts
  * }
  */
@@ -916,14 +1849,34 @@ router.post('/bundle/export', async (req, res) => {
       includeOwnership = true,
       includeSettings = true,
       includeGamePaks = true,
+      includeGamePakBackups = true,
+      includeCartridgeSaves = true,
+      includePresets = true,
+      includePakLibrary = true,
+      includeGlobalSettings = true,
+      sdCardPath,
       cartIds,
     } = req.body;
 
+    // Capture the console's current global settings so the bundle holds its full configuration
+    if (includeGlobalSettings && sdCardPath) {
+      try {
+        await ensureGlobalSettingsBackup(sdCardPath, 'Bundle export');
+      } catch (err) {
+        console.warn('Could not back up global settings before bundle export:', err);
+      }
+    }
+
     const bundle = await createBundle({
       includeLabels,
       includeOwnership,
       includeSettings,
       includeGamePaks,
+      includeGamePakBackups,
+      includeCartridgeSaves,
+      includePresets,
+      includePakLibrary,
+      includeGlobalSettings,
       cartIds,
     });
 
@@ -1011,6 +1964,10 @@ router.post('/bundle/import', bundleUpload.single('file'), async (req, res) => {
         importSettings: true,
         importGamePaks: true,
         importGamePakBackups: true,
+        importCartridgeSaves: true,
+        importPresets: true,
+        importPakLibrary: true,
+        importGlobalSettings: true,
         mergeStrategy: 'skip',
       };
     }
@@ -1022,6 +1979,10 @@ router.post('/bundle/import', bundleUpload.single('file'), async (req, res) => {
       importSettings: options.importSettings ?? true,
       importGamePaks: options.importGamePaks ?? true,
       importGamePakBackups: options.importGamePakBackups ?? true,
+      importCartridgeSaves: options.importCartridgeSaves ?? true,
+      importPresets: options.importPresets ?? true,
+      importPakLibrary: options.importPakLibrary ?? true,
+      importGlobalSettings: options.importGlobalSettings ?? true,
       mergeStrategy: options.mergeStrategy ?? 'skip',
     };
 
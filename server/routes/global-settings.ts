@@ -0,0 +1,177 @@
+import { Router } from 'express';
+
+import {
+  listSDGlobalSettings,
+  readSDGlobalSettingsFile,
+  listGlobalSettingsBackups,
+  createGlobalSettingsBackup,
+  readGlobalSettingsBackupFile,
+  restoreGlobalSettingsBackup,
+  updateGlobalSettingsBackup,
+  deleteGlobalSettingsBackup,
+} from '../lib/global-settings.js';
+import { validateSDCardPath } from './sync.js';
+
+const router = Router();
+
+/**
+ * GET /api/global-settings/sd
+ * List the files in the SD card's Settings/Global directory
+ * Query: sdCardPath
+ */
+router.get('/sd', async (req, res) => {
+  const sdCardPath = req.query.sdCardPath as string;
+
+  if (!(await validateSDCardPath(sdCardPath, res))) return;
+
+  try {
+    const result = await listSDGlobalSettings(sdCardPath);
+    res.json(result);
+  } catch (error) {
+    console.error('Error listing global settings:', error);
+    res.status(500).json({ error: 'Failed to list global settings' });
+  }
+});
+
+/**
+ * GET /api/global-settings/sd/file
+ * Read one SD card global settings file as JSON, text or a hex dump
+ * Query: sdCardPath, path
+ */
+router.get('/sd/file', async (req, res) => {
+  const sdCardPath = req.query.sdCardPath as string;
+
+  if (!(await validateSDCardPath(sdCardPath, res))) return;
+
+  try {
+    const content = await readSDGlobalSettingsFile(sdCardPath, req.query.path);
+    if (!content) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+    res.json(content);
+  } catch (error) {
+    if (error instanceof Error) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error reading global settings file:', error);
+    res.status(500).json({ error: 'Failed to read global settings file' });
+  }
+});
+
+/**
+ * GET /api/global-settings/backups
+ * List global settings backups, newest first
+ */
+router.get('/backups', async (_req, res) => {
+  try {
+    const backups = await listGlobalSettingsBackups();
+    res.json({ backups });
+  } catch (error) {
+    console.error('Error listing global settings backups:', error);
+    res.status(500).json({ error: 'Failed to list global settings backups' });
+  }
+});
+
+/**
+ * POST /api/global-settings/backups
+ * Back up the SD card's Settings/Global directory
+ * Body: { sdCardPath, name?, description? }
+ */
+router.post('/backups', async (req, res) => {
+  const { sdCardPath, name, description } = req.body;
+
+  if (!(await validateSDCardPath(sdCardPath, res))) return;
+
+  try {
+    const backup = await createGlobalSettingsBackup(sdCardPath, name, description);
+    res.status(201).json(backup);
+  } catch (error) {
+    if (error instanceof Error) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error creating global settings backup:', error);
+    res.status(500).json({ error: 'Failed to create global settings backup' });
+  }
+});
+
+/**
+ * GET /api/global-settings/backups/:id/file
+ * Read one file from a backup as JSON, text or a hex dump
+ * Query: path
+ */
+router.get('/backups/:id/file', async (req, res) => {
+  try {
+    const content = await readGlobalSettingsBackupFile(req.params.id, req.query.path);
+    if (!content) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+    res.json(content);
+  } catch (error) {
+    if (error instanceof Error) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error reading global settings backup file:', error);
+    res.status(500).json({ error: 'Failed to read global settings backup file' });
+  }
+});
+
+/**
+ * POST /api/global-settings/backups/:id/restore
+ * Restore a backup to the SD card (the card's current global settings are backed up first)
+ * Body: { sdCardPath }
+ */
+router.post('/backups/:id/restore', async (req, res) => {
+  const { sdCardPath } = req.body;
+
+  if (!(await validateSDCardPath(sdCardPath, res))) return;
+
+  try {
+    const result = await restoreGlobalSettingsBackup(req.params.id, sdCardPath);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof Error) {
+      return res.status(error.message === 'Backup not found' ? 404 : 400).json({ error: error.message });
+    }
+    console.error('Error restoring global settings backup:', error);
+    res.status(500).json({ error: 'Failed to restore global settings backup' });
+  }
+});
+
+/**
+ * PUT /api/global-settings/backups/:id
+ * Rename a backup or change its description
+ * Body: { name?, description? }
+ */
+router.put('/backups/:id', async (req, res) => {
+  const { name, description } = req.body;
+
+  try {
+    const backup = await updateGlobalSettingsBackup(req.params.id, { name, description });
+    if (!backup) {
+      return res.status(404).json({ error: 'Backup not found' });
+    }
+    res.json(backup);
+  } catch (error) {
+    console.error('Error updating global settings backup:', error);
+    res.status(500).json({ error: 'Failed to update global settings backup' });
+  }
+});
+
+/**
+ * DELETE /api/global-settings/backups/:id
+ * Delete a backup
+ */
+router.delete('/backups/:id', async (req, res) => {
+  try {
+    const deleted = await deleteGlobalSettingsBackup(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Backup not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting global settings backup:', error);
+    res.status(500).json({ error: 'Failed to delete global settings backup' });
+  }
+});
+
+export default router;
@@ -1,4 +1,5 @@
 import { Router } from 'express';
+import type { Response } from 'express';
 import multer from 'multer';
 import path from 'path';
 import { readFile, writeFile, unlink, mkdir, stat } from 'fs/promises';
@@ -15,13 +16,24 @@ import {
   deleteEntryFromLabelsDb,
   updateEntryInLabelsDb,
   hasLocalLabelsDb,
+  writeLabelsDbFile,
 } from '../lib/labels-db-core.js';
+import { verifyLabelsDb, repairLabelsDb } from '../lib/labels-db-verify.js';
+import {
+  withLabelHistory,
+  listLabelVersions,
+  getLabelVersionImage,
+  revertLabel,
+} from '../lib/label-history.js';
 import { getOwnedCartIds } from '../lib/owned-carts.js';
-import { detectSDCards } from '../lib/sd-card.js';
+import { detectSDCards, isValidAnalogueDir } from '../lib/sd-card.js';
 import { compareQuick, compareDetailed } from '../lib/labels-db-compare.js';
+import { compareVisual, getLabelDiffOverlay, copyLabelEntry } from '../lib/labels-db-diff.js';
 import {
   syncChangedEntries,
   createModifiedLabelsDb,
+  withLabelsDbLock,
+  syncLabelEntry,
 } from '../lib/labels-db-sync.js';
 import {
   copyFileWithProgress,
@@ -255,13 +267,14 @@ router.post('/import', uploadDb.single('file'), async (req, res) => {
 
     if (mode === 'replace') {
       // Simple replacement - use existing function
-      const result = await importLabelsDbFileFromBuffer(req.file.buffer);
+      const result = await withLabelHistory('import', undefined, () => importLabelsDbFileFromBuffer(req.file!.buffer));
       entryCount = result.entryCount;
       fileSize = result.fileSize;
       importedAt = result.importedAt;
     } else {
       // Merge modes - need to combine databases
-      const result = await mergeLabelsDbFromBuffer(req.file.buffer, mode as 'merge-overwrite' | 'merge-skip');
+      const merge = () => mergeLabelsDbFromBuffer(req.file!.buffer, mode as 'merge-overwrite' | 'merge-skip');
+      const result = mode === 'merge-overwrite' ? await withLabelHistory('merge', undefined, merge) : await merge();
       entryCount = result.entryCount;
       fileSize = result.fileSize;
       importedAt = result.importedAt;
@@ -766,6 +779,96 @@ router.post('/reset', async (_req, res) => {
   }
 });
 
+/**
+ * Resolve the labels.db path for a verify/repair target
+ * The 'sd' target needs the selected card's path, which must be an Analogue 3D SD card.
+ * Returns null (after sending an error response) if the target is unavailable
+ */
+async function resolveLabelsDbTarget(
+  target: unknown,
+  sdCardPath: unknown,
+  res: Response
+): Promise<string | null> {
+  if (target !== 'local' && target !== 'sd') {
+    res.status(400).json({ error: "target must be 'local' or 'sd'" });
+    return null;
+  }
+
+  let labelsDbPath = getLocalLabelsDbPath();
+  if (target === 'sd') {
+    if (!sdCardPath || typeof sdCardPath !== 'string') {
+      res.status(400).json({ error: 'SD card path required' });
+      return null;
+    }
+    if (!(await isValidAnalogueDir(sdCardPath))) {
+      res.status(400).json({ error: 'Invalid Analogue 3D SD card' });
+      return null;
+    }
+    labelsDbPath = path.join(sdCardPath, 'Library', 'N64', 'Images', 'labels.db');
+  }
+
+  try {
+    await stat(labelsDbPath);
+  } catch {
+    res.status(404).json({ error: target === 'sd' ? 'No labels.db on SD card' : 'No local labels.db found' });
+    return null;
+  }
+
+  return labelsDbPath;
+}
+
+// GET /api/labels/verify?target=local|sd&sdCardPath=... - Check a labels.db against the file format
+router.get('/verify', async (req, res) => {
+  try {
+    const labelsDbPath = await resolveLabelsDbTarget(req.query.target, req.query.sdCardPath, res);
+    if (!labelsDbPath) return;
+
+    const report = verifyLabelsDb(await readFile(labelsDbPath));
+    res.json({ target: req.query.target, path: labelsDbPath, ...report });
+  } catch (error) {
+    console.error('Error verifying labels.db:', error);
+    res.status(500).json({ error: 'Failed to verify labels.db' });
+  }
+});
+
+// POST /api/labels/repair - Re-sort, de-duplicate and trim a labels.db
+// Body: { target: 'local' | 'sd', sdCardPath?: string }
+router.post('/repair', async (req, res) => {
+  try {
+    const labelsDbPath = await resolveLabelsDbTarget(req.body?.target, req.body?.sdCardPath, res);
+    if (!labelsDbPath) return;
+
+    const repair = async () => {
+      const repaired = repairLabelsDb(await readFile(labelsDbPath));
+      await writeLabelsDbFile(labelsDbPath, repaired.data);
+      return repaired;
+    };
+    const result = req.body.target === 'sd'
+      ? await withLabelsDbLock(labelsDbPath, repair)
+      : await repair();
+
+    if (req.body.target === 'local') {
+      invalidateSortedCache();
+    }
+
+    console.log(`Repaired ${req.body.target} labels.db: kept ${result.entriesKept}, dropped ${result.entriesDropped}`);
+
+    res.json({
+      success: true,
+      entriesKept: result.entriesKept,
+      entriesDropped: result.entriesDropped,
+      before: result.before,
+      after: result.after,
+    });
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith('Cannot repair')) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error repairing labels.db:', error);
+    res.status(500).json({ error: 'Failed to repair labels.db' });
+  }
+});
+
 // POST /api/labels/add/:cartId - Add a new cartridge with label
 router.post('/add/:cartId', uploadImage.single('image'), async (req, res) => {
   try {
@@ -824,7 +927,7 @@ router.put('/:cartId', uploadImage.single('image'), async (req, res) => {
 
     console.log(`Updating label for cartridge ${cartId}...`);
 
-    await updateEntryInLabelsDb(cartIdNum, req.file.buffer);
+    await withLabelHistory('upload', [cartIdNum], () => updateEntryInLabelsDb(cartIdNum, req.file!.buffer));
 
     // Invalidate sorted cache after updating
     invalidateSortedCache();
@@ -843,6 +946,76 @@ router.put('/:cartId', uploadImage.single('image'), async (req, res) => {
   }
 });
 
+// Label history version IDs are UUIDs
+const VERSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// GET /api/labels/:cartId/history - List earlier label versions, newest first
+router.get('/:cartId/history', async (req, res) => {
+  try {
+    const cartId = req.params.cartId.toLowerCase();
+    if (!/^[0-9a-f]{8}$/.test(cartId)) {
+      return res.status(400).json({ error: 'Invalid cart ID. Must be 8 hex characters.' });
+    }
+
+    const versions = await listLabelVersions(cartId);
+    res.json({ versions });
+  } catch (error) {
+    console.error('Error listing label history:', error);
+    res.status(500).json({ error: 'Failed to list label history' });
+  }
+});
+
+// GET /api/labels/:cartId/history/:versionId - Get an earlier label version's image
+router.get('/:cartId/history/:versionId', async (req, res) => {
+  try {
+    const cartId = req.params.cartId.toLowerCase();
+    if (!/^[0-9a-f]{8}$/.test(cartId)) {
+      return res.status(400).json({ error: 'Invalid cart ID. Must be 8 hex characters.' });
+    }
+    if (!VERSION_ID_PATTERN.test(req.params.versionId)) {
+      return res.status(400).json({ error: 'Invalid version ID' });
+    }
+
+    const pngBuffer = await getLabelVersionImage(cartId, req.params.versionId);
+    if (!pngBuffer) {
+      return res.status(404).json({ error: 'Version not found' });
+    }
+
+    res.set('Content-Type', 'image/png');
+    res.set('Cache-Control', 'public, max-age=3600');
+    res.send(pngBuffer);
+  } catch (error) {
+    console.error('Error fetching label version:', error);
+    res.status(500).json({ error: 'Failed to fetch label version' });
+  }
+});
+
+// POST /api/labels/:cartId/history/:versionId/revert - Restore an earlier label version
+router.post('/:cartId/history/:versionId/revert', async (req, res) => {
+  try {
+    const cartId = req.params.cartId.toLowerCase();
+    if (!/^[0-9a-f]{8}$/.test(cartId)) {
+      return res.status(400).json({ error: 'Invalid cart ID. Must be 8 hex characters.' });
+    }
+    if (!VERSION_ID_PATTERN.test(req.params.versionId)) {
+      return res.status(400).json({ error: 'Invalid version ID' });
+    }
+
+    const version = await revertLabel(cartId, req.params.versionId);
+
+    // Invalidate sorted cache after updating
+    invalidateSortedCache();
+
+    res.json({ success: true, cartId, version });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Version not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Error reverting label:', error);
+    res.status(500).json({ error: 'Failed to revert label' });
+  }
+});
+
 // GET /api/labels/:cartId - Get label image
 router.get('/:cartId', async (req, res) => {
   try {
@@ -965,6 +1138,122 @@ router.get('/compare/detailed', async (req, res) => {
   }
 });
 
+/**
+ * Resolve the local and SD card labels.db paths for the visual compare routes
+ * Sends an error response and returns null if either is missing.
+ */
+async function resolveComparePaths(
+  sdCardPath: unknown,
+  res: Response
+): Promise<{ localPath: string; sdPath: string } | null> {
+  const localPath = await resolveLabelsDbTarget('local', undefined, res);
+  if (!localPath) return null;
+  const sdPath = await resolveLabelsDbTarget('sd', sdCardPath, res);
+  if (!sdPath) return null;
+  return { localPath, sdPath };
+}
+
+// GET /api/labels/compare/visual?sdCardPath=... - Differing entries with the share of pixels changed
+router.get('/compare/visual', async (req, res) => {
+  try {
+    const paths = await resolveComparePaths(req.query.sdCardPath, res);
+    if (!paths) return;
+
+    const result = await compareVisual(paths.localPath, paths.sdPath);
+    res.json(result);
+  } catch (error) {
+    console.error('Error in visual compare:', error);
+    res.status(500).json({ error: 'Failed to compare labels databases' });
+  }
+});
+
+// GET /api/labels/compare/image/:cartId?side=local|sd|diff&sdCardPath=... - Label image from one side, or the difference overlay
+router.get('/compare/image/:cartId', async (req, res) => {
+  try {
+    const side = req.query.side;
+    if (side !== 'local' && side !== 'sd' && side !== 'diff') {
+      return res.status(400).json({ error: "side must be 'local', 'sd' or 'diff'" });
+    }
+
+    const paths = await resolveComparePaths(req.query.sdCardPath, res);
+    if (!paths) return;
+
+    const cartId = req.params.cartId;
+    const pngBuffer = side === 'diff'
+      ? await getLabelDiffOverlay(paths.localPath, paths.sdPath, cartId)
+      : await getLabelsDbImageFromPath(side === 'local' ? paths.localPath : paths.sdPath, cartId);
+
+    if (!pngBuffer) {
+      return res.status(404).json({ error: 'Label not found' });
+    }
+
+    res.set('Content-Type', 'image/png');
+    res.set('Cache-Control', 'no-cache');
+    res.send(pngBuffer);
+  } catch (error) {
+    console.error('Error fetching compare image:', error);
+    res.status(500).json({ error: 'Failed to fetch label' });
+  }
+});
+
+// POST /api/labels/compare/:cartId/push - Make the SD card's entry match local
+// Body: { sdCardPath: string }
+router.post('/compare/:cartId/push', async (req, res) => {
+  try {
+    const cartId = req.params.cartId.toLowerCase();
+    if (!/^[0-9a-f]{8}$/.test(cartId)) {
+      return res.status(400).json({ error: 'Invalid cart ID. Must be 8 hex characters.' });
+    }
+
+    const paths = await resolveComparePaths(req.body?.sdCardPath, res);
+    if (!paths) return;
+
+    // Write just this entry's slot (and the ID table if it moves), under the SD card lock
+    const result = await syncLabelEntry(paths.localPath, paths.sdPath, parseInt(cartId, 16));
+
+    console.log(`Pushed label ${cartId} to SD card (${formatBytes(result.bytesWritten)} written)`);
+    res.json({ success: true, cartId });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Entry not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Error pushing label:', error);
+    res.status(500).json({ error: 'Failed to push label to SD card' });
+  }
+});
+
+// POST /api/labels/compare/:cartId/pull - Make the local entry match the SD card
+// Body: { sdCardPath: string }
+router.post('/compare/:cartId/pull', async (req, res) => {
+  try {
+    const cartId = req.params.cartId.toLowerCase();
+    if (!/^[0-9a-f]{8}$/.test(cartId)) {
+      return res.status(400).json({ error: 'Invalid cart ID. Must be 8 hex characters.' });
+    }
+
+    const paths = await resolveComparePaths(req.body?.sdCardPath, res);
+    if (!paths) return;
+
+    const cartIdNum = parseInt(cartId, 16);
+    await withLabelHistory('pull', [cartIdNum], async () => {
+      const [localData, sdData] = await Promise.all([readFile(paths.localPath), readFile(paths.sdPath)]);
+      await writeLabelsDbFile(paths.localPath, copyLabelEntry(sdData, localData, cartIdNum));
+    });
+
+    // Invalidate sorted cache after updating
+    invalidateSortedCache();
+
+    console.log(`Pulled label ${cartId} from SD card`);
+    res.json({ success: true, cartId });
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Entry not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Error pulling label:', error);
+    res.status(500).json({ error: 'Failed to pull label from SD card' });
+  }
+});
+
 // GET /api/labels/debug/benchmark-stream - Run debug benchmark with SSE progress
 // This is the streaming version that provides real-time progress updates
 router.get('/debug/benchmark-stream', async (_req, res) => {
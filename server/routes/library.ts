@@ -0,0 +1,103 @@
+import { Router } from 'express';
+
+import { isValidAnalogueDir } from '../lib/sd-card.js';
+import {
+  readSDLibraryDb,
+  getEntryByCartIdHex,
+  toPlayStats,
+} from '../lib/library-db-core.js';
+import { getPlayHistorySummary } from '../lib/play-history.js';
+
+const router = Router();
+
+/**
+ * GET /api/library?sdCardPath=...
+ * Get play statistics for every cartridge in the SD card's library.db
+ */
+router.get('/', async (req, res) => {
+  const sdCardPath = req.query.sdCardPath as string | undefined;
+
+  if (!sdCardPath) {
+    return res.status(400).json({ error: 'SD card path is required' });
+  }
+
+  try {
+    if (!(await isValidAnalogueDir(sdCardPath))) {
+      return res.status(400).json({ error: 'Invalid Analogue 3D SD card' });
+    }
+
+    const db = await readSDLibraryDb(sdCardPath);
+    if (!db) {
+      return res.status(404).json({ error: 'library.db not found on SD card' });
+    }
+
+    const entries = db.entries.map(toPlayStats);
+
+    res.json({
+      entryCount: db.entryCount,
+      totalPlayTime: entries.reduce((sum, e) => sum + e.playTime, 0),
+      totalSessions: entries.reduce((sum, e) => sum + e.sessions, 0),
+      entries,
+    });
+  } catch (error) {
+    console.error('Error reading library.db:', error);
+    res.status(500).json({ error: 'Failed to read library.db' });
+  }
+});
+
+/**
+ * GET /api/library/history?limit=10&weeks=12
+ * Get the play history dashboard summary built from stored snapshots
+ */
+router.get('/history', async (req, res) => {
+  const limit = parseInt(req.query.limit as string) || 10;
+  const weeks = parseInt(req.query.weeks as string) || 12;
+
+  try {
+    const summary = await getPlayHistorySummary({ limit, weeks });
+    res.json(summary);
+  } catch (error) {
+    console.error('Error getting play history:', error);
+    res.status(500).json({ error: 'Failed to get play history' });
+  }
+});
+
+/**
+ * GET /api/library/:cartId?sdCardPath=...
+ * Get play statistics for a single cartridge
+ */
+router.get('/:cartId', async (req, res) => {
+  const { cartId } = req.params;
+  const sdCardPath = req.query.sdCardPath as string | undefined;
+
+  if (!/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  if (!sdCardPath) {
+    return res.status(400).json({ error: 'SD card path is required' });
+  }
+
+  try {
+    if (!(await isValidAnalogueDir(sdCardPath))) {
+      return res.status(400).json({ error: 'Invalid Analogue 3D SD card' });
+    }
+
+    const db = await readSDLibraryDb(sdCardPath);
+    if (!db) {
+      return res.status(404).json({ error: 'library.db not found on SD card' });
+    }
+
+    const entry = getEntryByCartIdHex(db, cartId);
+    if (!entry) {
+      return res.json({ found: false, cartId: cartId.toLowerCase() });
+    }
+
+    res.json({ found: true, ...toPlayStats(entry) });
+  } catch (error) {
+    console.error('Error reading library.db:', error);
+    res.status(500).json({ error: 'Failed to read library.db' });
+  }
+});
+
+export default router;
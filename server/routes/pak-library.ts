@@ -0,0 +1,171 @@
+import { Router } from 'express';
+import multer from 'multer';
+
+import {
+  listLibraryPaks,
+  getLibraryPakBuffer,
+  addLibraryPak,
+  updateLibraryPak,
+  deleteLibraryPak,
+  saveCartPakToLibrary,
+  loadLibraryPak,
+} from '../lib/pak-library.js';
+
+const router = Router();
+
+// Configure multer for file uploads (memory storage)
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 1024 * 1024, // 1MB max for game pak files
+  },
+});
+
+/**
+ * GET /api/pak-library
+ * List library paks, newest first
+ */
+router.get('/', async (_req, res) => {
+  try {
+    const paks = await listLibraryPaks();
+    res.json({ paks });
+  } catch (error) {
+    console.error('Error listing pak library:', error);
+    res.status(500).json({ error: 'Failed to list pak library' });
+  }
+});
+
+/**
+ * POST /api/pak-library
+ * Add a pak image file to the library
+ * Form data: pak, name, description?
+ */
+router.post('/', upload.single('pak'), async (req, res) => {
+  const { name, description } = req.body;
+
+  if (!req.file) {
+    return res.status(400).json({ error: 'No file uploaded' });
+  }
+
+  try {
+    const pak = await addLibraryPak(req.file.buffer, name, description);
+    res.status(201).json(pak);
+  } catch (error) {
+    if (error instanceof Error) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error adding library pak:', error);
+    res.status(500).json({ error: 'Failed to add library pak' });
+  }
+});
+
+/**
+ * POST /api/pak-library/from-cart
+ * Copy a cartridge's active pak or a named pak slot into the library
+ * Body: { cartId, name, slot?, description? }
+ */
+router.post('/from-cart', async (req, res) => {
+  const { cartId, name, slot, description } = req.body;
+
+  if (typeof cartId !== 'string' || !/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const pak = await saveCartPakToLibrary(cartId, name, slot, description);
+    res.status(201).json(pak);
+  } catch (error) {
+    if (error instanceof Error) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error saving pak to library:', error);
+    res.status(500).json({ error: 'Failed to save pak to library' });
+  }
+});
+
+/**
+ * GET /api/pak-library/:id/download
+ * Download a library pak as .img
+ */
+router.get('/:id/download', async (req, res) => {
+  try {
+    const buffer = await getLibraryPakBuffer(req.params.id);
+    if (!buffer) {
+      return res.status(404).json({ error: 'Library pak not found' });
+    }
+
+    res.setHeader('Content-Type', 'application/octet-stream');
+    res.setHeader('Content-Disposition', `attachment; filename="controller_pak-${req.params.id}.img"`);
+    res.send(buffer);
+  } catch (error) {
+    console.error('Error downloading library pak:', error);
+    res.status(500).json({ error: 'Failed to download library pak' });
+  }
+});
+
+/**
+ * PUT /api/pak-library/:id
+ * Rename a library pak or change its description
+ * Body: { name?, description? }
+ */
+router.put('/:id', async (req, res) => {
+  const { name, description } = req.body;
+
+  try {
+    const pak = await updateLibraryPak(req.params.id, { name, description });
+    if (!pak) {
+      return res.status(404).json({ error: 'Library pak not found' });
+    }
+    res.json(pak);
+  } catch (error) {
+    if (error instanceof Error) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error updating library pak:', error);
+    res.status(500).json({ error: 'Failed to update library pak' });
+  }
+});
+
+/**
+ * DELETE /api/pak-library/:id
+ * Delete a library pak
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const deleted = await deleteLibraryPak(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Library pak not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting library pak:', error);
+    res.status(500).json({ error: 'Failed to delete library pak' });
+  }
+});
+
+/**
+ * POST /api/pak-library/:id/load
+ * Load a library pak into a cartridge's pak slot, saving the pak it
+ * replaces to the library first
+ * Body: { cartId, slot?, title?, sdCardPath? } - slot defaults to the active pak
+ */
+router.post('/:id/load', async (req, res) => {
+  const { cartId, slot, title, sdCardPath } = req.body;
+
+  if (typeof cartId !== 'string' || !/^[0-9a-fA-F]{8}$/.test(cartId)) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const result = await loadLibraryPak(req.params.id, cartId, { slot, title, sdCardPath });
+    res.json({ success: true, ...result });
+  } catch (error) {
+    if (error instanceof Error) {
+      return res.status(error.message === 'Library pak not found' ? 404 : 400).json({ error: error.message });
+    }
+    console.error('Error loading library pak:', error);
+    res.status(500).json({ error: 'Failed to load library pak' });
+  }
+});
+
+export default router;
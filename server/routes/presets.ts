@@ -0,0 +1,138 @@
+import { Router } from 'express';
+
+import {
+  listPresets,
+  getPreset,
+  createPreset,
+  updatePreset,
+  deletePreset,
+  applyPreset,
+} from '../lib/settings-presets.js';
+
+const router = Router();
+
+/**
+ * GET /api/presets
+ * List all settings presets
+ */
+router.get('/', async (_req, res) => {
+  try {
+    const presets = await listPresets();
+    res.json({ presets });
+  } catch (error) {
+    console.error('Error listing presets:', error);
+    res.status(500).json({ error: 'Failed to list presets' });
+  }
+});
+
+/**
+ * GET /api/presets/:id
+ * Get a single preset
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const preset = await getPreset(req.params.id);
+    if (!preset) {
+      return res.status(404).json({ error: 'Preset not found' });
+    }
+    res.json(preset);
+  } catch (error) {
+    console.error('Error getting preset:', error);
+    res.status(500).json({ error: 'Failed to get preset' });
+  }
+});
+
+/**
+ * POST /api/presets
+ * Create a preset
+ * Body: { name, description?, settings: { display?, hardware? } }
+ */
+router.post('/', async (req, res) => {
+  const { name, description, settings } = req.body;
+
+  try {
+    const preset = await createPreset(name, settings, description);
+    res.status(201).json(preset);
+  } catch (error) {
+    if (error instanceof Error) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error creating preset:', error);
+    res.status(500).json({ error: 'Failed to create preset' });
+  }
+});
+
+/**
+ * PUT /api/presets/:id
+ * Update a preset's name, description, or settings
+ * Body: { name?, description?, settings? }
+ */
+router.put('/:id', async (req, res) => {
+  const { name, description, settings } = req.body;
+
+  try {
+    const preset = await updatePreset(req.params.id, { name, description, settings });
+    if (!preset) {
+      return res.status(404).json({ error: 'Preset not found' });
+    }
+    res.json(preset);
+  } catch (error) {
+    if (error instanceof Error) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error updating preset:', error);
+    res.status(500).json({ error: 'Failed to update preset' });
+  }
+});
+
+/**
+ * DELETE /api/presets/:id
+ * Delete a preset
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const deleted = await deletePreset(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Preset not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting preset:', error);
+    res.status(500).json({ error: 'Failed to delete preset' });
+  }
+});
+
+/**
+ * POST /api/presets/:id/apply
+ * Apply a preset to a selection of cartridges
+ * Body: { cartIds: string[], sdCardPath? }
+ */
+router.post('/:id/apply', async (req, res) => {
+  const { cartIds, sdCardPath } = req.body;
+
+  if (!Array.isArray(cartIds) || cartIds.length === 0) {
+    return res.status(400).json({ error: 'cartIds must be a non-empty array' });
+  }
+
+  if (!cartIds.every((id: unknown) => typeof id === 'string' && /^[0-9a-fA-F]{8}$/.test(id))) {
+    return res.status(400).json({ error: 'Invalid cart ID format' });
+  }
+
+  try {
+    const results = await applyPreset(req.params.id, cartIds, sdCardPath);
+    if (!results) {
+      return res.status(404).json({ error: 'Preset not found' });
+    }
+    res.json({
+      success: results.every(r => r.success),
+      applied: results.filter(r => r.success).length,
+      failed: results.filter(r => !r.success).length,
+      results,
+    });
+  } catch (error) {
+    console.error('Error applying preset:', error);
+    res.status(500).json({ error: 'Failed to apply preset' });
+  }
+});
+
+export default router;
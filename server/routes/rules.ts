@@ -0,0 +1,150 @@
+import { Router } from 'express';
+
+import {
+  listRules,
+  createRule,
+  updateRule,
+  deleteRule,
+  previewSettingsRules,
+  applySettingsRules,
+} from '../lib/settings-rules.js';
+
+const router = Router();
+
+/**
+ * Validate an optional list of rule IDs from a request body
+ */
+function parseRuleIds(ruleIds: unknown): string[] | undefined | null {
+  if (ruleIds === undefined) return undefined;
+  if (!Array.isArray(ruleIds) || !ruleIds.every(id => typeof id === 'string')) return null;
+  return ruleIds;
+}
+
+/**
+ * GET /api/settings-rules
+ * List all settings rules in evaluation order
+ */
+router.get('/', async (_req, res) => {
+  try {
+    const rules = await listRules();
+    res.json({ rules });
+  } catch (error) {
+    console.error('Error listing settings rules:', error);
+    res.status(500).json({ error: 'Failed to list settings rules' });
+  }
+});
+
+/**
+ * POST /api/settings-rules
+ * Create a rule
+ * Body: { name, enabled?, match: { regions?, videoModes?, languages?, releaseTypes? },
+ *         presetId? | settings? }
+ */
+router.post('/', async (req, res) => {
+  const { name, enabled, match, presetId, settings } = req.body;
+
+  try {
+    const rule = await createRule({ name, enabled, match, presetId, settings });
+    res.status(201).json(rule);
+  } catch (error) {
+    if (error instanceof Error) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error creating settings rule:', error);
+    res.status(500).json({ error: 'Failed to create settings rule' });
+  }
+});
+
+/**
+ * POST /api/settings-rules/preview
+ * Show which owned carts each rule matches and what would change
+ * Body: { ruleIds? } - defaults to every enabled rule
+ */
+router.post('/preview', async (req, res) => {
+  const ruleIds = parseRuleIds(req.body.ruleIds);
+  if (ruleIds === null) {
+    return res.status(400).json({ error: 'ruleIds must be an array of rule IDs' });
+  }
+
+  try {
+    const preview = await previewSettingsRules(ruleIds);
+    res.json(preview);
+  } catch (error) {
+    if (error instanceof Error) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error previewing settings rules:', error);
+    res.status(500).json({ error: 'Failed to preview settings rules' });
+  }
+});
+
+/**
+ * POST /api/settings-rules/apply
+ * Apply rules to owned carts, generating or updating settings.json
+ * Body: { ruleIds?, sdCardPath? } - defaults to every enabled rule
+ */
+router.post('/apply', async (req, res) => {
+  const { sdCardPath } = req.body;
+  const ruleIds = parseRuleIds(req.body.ruleIds);
+  if (ruleIds === null) {
+    return res.status(400).json({ error: 'ruleIds must be an array of rule IDs' });
+  }
+
+  try {
+    const results = await applySettingsRules(ruleIds, sdCardPath);
+    res.json({
+      success: results.every(r => r.success),
+      applied: results.filter(r => r.success).length,
+      failed: results.filter(r => !r.success).length,
+      results,
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error applying settings rules:', error);
+    res.status(500).json({ error: 'Failed to apply settings rules' });
+  }
+});
+
+/**
+ * PUT /api/settings-rules/:id
+ * Update a rule's name, enabled state, criteria or action
+ * Body: { name?, enabled?, match?, presetId? | settings? }
+ */
+router.put('/:id', async (req, res) => {
+  const { name, enabled, match, presetId, settings } = req.body;
+
+  try {
+    const rule = await updateRule(req.params.id, { name, enabled, match, presetId, settings });
+    if (!rule) {
+      return res.status(404).json({ error: 'Rule not found' });
+    }
+    res.json(rule);
+  } catch (error) {
+    if (error instanceof Error) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error updating settings rule:', error);
+    res.status(500).json({ error: 'Failed to update settings rule' });
+  }
+});
+
+/**
+ * DELETE /api/settings-rules/:id
+ * Delete a rule
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const deleted = await deleteRule(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Rule not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting settings rule:', error);
+    res.status(500).json({ error: 'Failed to delete settings rule' });
+  }
+});
+
+export default router;
@@ -0,0 +1,187 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { stat } from 'fs/promises';
+
+import {
+  listCardSnapshots,
+  getSnapshotArchivePath,
+  createCardSnapshot,
+  restoreCardSnapshot,
+  verifyCardSnapshot,
+  updateCardSnapshot,
+  deleteCardSnapshot,
+} from '../lib/card-snapshot.js';
+import { formatBytes } from '../lib/file-transfer.js';
+import { setupSSE, createProgressSender } from './sync.js';
+
+const router = Router();
+
+/**
+ * GET /api/snapshots
+ * List card snapshots, newest first
+ */
+router.get('/', async (_req, res) => {
+  try {
+    const snapshots = await listCardSnapshots();
+    res.json({ snapshots });
+  } catch (error) {
+    console.error('Error listing snapshots:', error);
+    res.status(500).json({ error: 'Failed to list snapshots' });
+  }
+});
+
+/**
+ * GET /api/snapshots/create-stream
+ * Snapshot an SD card's Library/N64 and Settings directories (SSE progress)
+ * Query: sdCardPath, name?, description?
+ */
+router.get('/create-stream', async (req: Request, res: Response) => {
+  const sdCardPath = req.query.sdCardPath as string;
+  const name = req.query.name as string | undefined;
+  const description = req.query.description as string | undefined;
+
+  if (!sdCardPath) {
+    return res.status(400).json({ error: 'SD card path is required' });
+  }
+
+  setupSSE(res);
+  const sendProgress = createProgressSender(res);
+
+  try {
+    sendProgress({ type: 'start' });
+
+    const snapshot = await createCardSnapshot(sdCardPath, { name, description }, (progress) => sendProgress({
+      type: 'progress',
+      ...progress,
+      bytesProcessedFormatted: formatBytes(progress.bytesProcessed),
+      totalBytesFormatted: formatBytes(progress.totalBytes),
+    }));
+
+    sendProgress({ type: 'complete', success: true, snapshot });
+  } catch (error) {
+    sendProgress({
+      type: 'error',
+      error: `Snapshot failed: ${error instanceof Error ? error.message : error}`,
+    });
+  }
+
+  res.end();
+});
+
+/**
+ * GET /api/snapshots/:id/restore-stream
+ * Restore a snapshot to an SD card, which may be blank (SSE progress)
+ * Query: sdCardPath, mirror? ('true' removes files not in the snapshot)
+ */
+router.get('/:id/restore-stream', async (req: Request, res: Response) => {
+  const sdCardPath = req.query.sdCardPath as string;
+  const mirror = req.query.mirror === 'true';
+
+  if (!sdCardPath) {
+    return res.status(400).json({ error: 'SD card path is required' });
+  }
+
+  try {
+    if (!(await stat(sdCardPath)).isDirectory()) {
+      return res.status(400).json({ error: 'SD card path is not a directory' });
+    }
+  } catch {
+    return res.status(400).json({ error: 'SD card path not found' });
+  }
+
+  setupSSE(res);
+  const sendProgress = createProgressSender(res);
+
+  try {
+    sendProgress({ type: 'start', mirror });
+
+    const result = await restoreCardSnapshot(req.params.id, sdCardPath, { mirror }, (progress) => sendProgress({
+      type: 'progress',
+      ...progress,
+      bytesProcessedFormatted: formatBytes(progress.bytesProcessed),
+      totalBytesFormatted: formatBytes(progress.totalBytes),
+    }));
+
+    sendProgress({ type: 'complete', success: true, ...result });
+  } catch (error) {
+    sendProgress({
+      type: 'error',
+      error: `Restore failed: ${error instanceof Error ? error.message : error}`,
+    });
+  }
+
+  res.end();
+});
+
+/**
+ * POST /api/snapshots/:id/verify
+ * Check a snapshot's archive and files against their checksums
+ */
+router.post('/:id/verify', async (req, res) => {
+  try {
+    const result = await verifyCardSnapshot(req.params.id);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'Snapshot not found') {
+      return res.status(404).json({ error: error.message });
+    }
+    console.error('Error verifying snapshot:', error);
+    res.status(500).json({ error: 'Failed to verify snapshot' });
+  }
+});
+
+/**
+ * GET /api/snapshots/:id/download
+ * Download a snapshot archive
+ */
+router.get('/:id/download', async (req, res) => {
+  try {
+    const archivePath = await getSnapshotArchivePath(req.params.id);
+    if (!archivePath) {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+    res.download(archivePath, `a3d-snapshot-${req.params.id}.zip`);
+  } catch (error) {
+    console.error('Error downloading snapshot:', error);
+    res.status(500).json({ error: 'Failed to download snapshot' });
+  }
+});
+
+/**
+ * PUT /api/snapshots/:id
+ * Rename a snapshot or change its description
+ * Body: { name?, description? }
+ */
+router.put('/:id', async (req, res) => {
+  const { name, description } = req.body;
+
+  try {
+    const snapshot = await updateCardSnapshot(req.params.id, { name, description });
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+    res.json(snapshot);
+  } catch (error) {
+    console.error('Error updating snapshot:', error);
+    res.status(500).json({ error: 'Failed to update snapshot' });
+  }
+});
+
+/**
+ * DELETE /api/snapshots/:id
+ * Delete a snapshot and its archive
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const deleted = await deleteCardSnapshot(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Snapshot not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting snapshot:', error);
+    res.status(500).json({ error: 'Failed to delete snapshot' });
+  }
+});
+
+export default router;
@@ -6,6 +6,8 @@ import {
   detectSDCards,
   isValidAnalogueDir,
   exportLabelsToSDWithProgress,
+  ensureSDCardId,
+  type SDCardInfo,
 } from '../lib/sd-card.js';
 import {
   formatBytes,
@@ -18,6 +20,14 @@ import {
   getLocalLabelsDbPath,
   getLabelsDbStatus,
 } from '../lib/labels-db-core.js';
+import { captureSnapshots } from '../lib/play-history.js';
+import { recoverLabelsDb } from '../lib/labels-db-sync.js';
+import {
+  scanSettingsSync,
+  syncAllSettings,
+  SETTINGS_SYNC_POLICIES,
+  type SettingsSyncPolicy,
+} from '../lib/settings-sync.js';
 
 const router = Router();
 
@@ -47,7 +57,7 @@ function getSDLabelsPath(sdCardPath: string): string {
 /**
  * Set up Server-Sent Events (SSE) on a response
  */
-function setupSSE(res: Response): void {
+export function setupSSE(res: Response): void {
   res.setHeader('Content-Type', 'text/event-stream');
   res.setHeader('Cache-Control', 'no-cache');
   res.setHeader('Connection', 'keep-alive');
@@ -57,7 +67,7 @@ function setupSSE(res: Response): void {
 /**
  * Create a progress sender function for SSE
  */
-function createProgressSender(res: Response): (data: object) => void {
+export function createProgressSender(res: Response): (data: object) => void {
   return (data: object) => {
     res.write(`data: ${JSON.stringify(data)}\n\n`);
   };
@@ -89,7 +99,7 @@ function formatProgressEvent(progress: {
  * Validate SD card path and return error response if invalid
  * Returns true if validation passed, false if error response was sent
  */
-async function validateSDCardPath(
+export async function validateSDCardPath(
   sdCardPath: string | undefined,
   res: Response
 ): Promise<boolean> {
@@ -110,10 +120,46 @@ async function validateSDCardPath(
 // Routes
 // =============================================================================
 
+/** Cards that have been checked for interrupted labels.db writes since they were connected */
+const recoveredCards = new Set<string>();
+
+/**
+ * Finish or roll back labels.db writes interrupted by a removed card
+ * Runs once per card connect, in the background and under the labels.db lock,
+ * so polling for cards never writes to them.
+ */
+function recoverNewlyConnectedCards(sdCards: SDCardInfo[]): void {
+  const connected = new Set(sdCards.map(card => card.path));
+  for (const cardPath of recoveredCards) {
+    if (!connected.has(cardPath)) recoveredCards.delete(cardPath);
+  }
+
+  for (const sdCard of sdCards) {
+    if (recoveredCards.has(sdCard.path)) continue;
+    recoveredCards.add(sdCard.path);
+
+    recoverLabelsDb(sdCard.labelsDbPath, getLocalLabelsDbPath())
+      .then(recovery => {
+        if (recovery.status === 'failed') {
+          console.error(`labels.db recovery failed on ${sdCard.name}: ${recovery.error}`);
+        } else if (recovery.status !== 'clean') {
+          console.log(`labels.db on ${sdCard.name}: interrupted write ${recovery.status.replace('_', ' ')}`);
+        }
+      })
+      .catch(error => console.error(`labels.db recovery failed on ${sdCard.name}:`, error));
+  }
+}
+
 // GET /api/sd-cards - Detect connected SD cards
 router.get('/sd-cards', async (_req, res) => {
   try {
     const sdCards = await detectSDCards();
+
+    recoverNewlyConnectedCards(sdCards);
+
+    // Record play statistics for the play history dashboard
+    await captureSnapshots(sdCards);
+
     res.json(sdCards);
   } catch (error) {
     console.error('Error detecting SD cards:', error);
@@ -277,6 +323,9 @@ router.get('/labels/upload-stream', async (req: Request, res: Response) => {
   const sdLabelsPath = getSDLabelsPath(sdCardPath);
 
   try {
+    // Uploads write to the card anyway, so this is when it gets its play history ID
+    await ensureSDCardId(sdCardPath);
+
     const status = await getLabelsDbStatus();
     const entryCount = status?.entryCount || 0;
     const fileSize = status?.fileSize || 0;
@@ -298,6 +347,8 @@ router.get('/labels/upload-stream', async (req: Request, res: Response) => {
       success: true,
       entryCount: exportResult.entryCount,
       fileSize: exportResult.fileSize,
+      mode: exportResult.mode,
+      bytesWritten: exportResult.bytesWritten,
     });
   } catch (error) {
     sendProgress({
@@ -365,4 +416,72 @@ router.get('/labels/download-stream', async (req: Request, res: Response) => {
   res.end();
 });
 
+// GET /api/sync/settings/status - Classify every cart's settings (local vs SD)
+router.get('/settings/status', async (req, res) => {
+  const sdCardPath = req.query.sdCardPath as string;
+
+  if (!(await validateSDCardPath(sdCardPath, res))) return;
+
+  try {
+    const scan = await scanSettingsSync(sdCardPath);
+    res.json(scan);
+  } catch (error) {
+    console.error('Error scanning settings sync status:', error);
+    res.status(500).json({ error: 'Failed to get settings sync status' });
+  }
+});
+
+// GET /api/sync/settings/sync-stream - Sync all carts' settings with SSE progress
+// Query: sdCardPath, policy ('newest' | 'local' | 'sd' | 'ask', default 'ask')
+router.get('/settings/sync-stream', async (req: Request, res: Response) => {
+  const sdCardPath = req.query.sdCardPath as string;
+  const policy = (req.query.policy as string | undefined) ?? 'ask';
+
+  if (!(await validateSDCardPath(sdCardPath, res))) return;
+
+  if (!SETTINGS_SYNC_POLICIES.includes(policy as SettingsSyncPolicy)) {
+    res.status(400).json({ error: `policy must be one of: ${SETTINGS_SYNC_POLICIES.join(', ')}` });
+    return;
+  }
+
+  setupSSE(res);
+  const sendProgress = createProgressSender(res);
+
+  try {
+    await ensureSDCardId(sdCardPath);
+    const scan = await scanSettingsSync(sdCardPath);
+
+    sendProgress({
+      type: 'start',
+      policy,
+      total: scan.entries.length,
+      summary: scan.summary,
+    });
+
+    const result = await syncAllSettings(
+      sdCardPath,
+      policy as SettingsSyncPolicy,
+      (progress) => sendProgress({
+        type: 'progress',
+        percentage: Math.round((progress.index / progress.total) * 100),
+        ...progress,
+      }),
+      scan
+    );
+
+    sendProgress({
+      type: 'complete',
+      success: result.errors.length === 0,
+      ...result,
+    });
+  } catch (error) {
+    sendProgress({
+      type: 'error',
+      error: `Settings sync failed: ${error}`,
+    });
+  }
+
+  res.end();
+});
+
 export default router;
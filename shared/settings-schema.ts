@@ -0,0 +1,303 @@
+/**
+ * Cartridge Settings Schema
+ *
+ * Value sets and types for the per-game settings.json written by the
+ * Analogue 3D. Shared by the server (validation) and the UI (option lists)
+ * so both accept exactly what the console writes.
+ *
+ * When a firmware update adds or changes a field, bump
+ * SETTINGS_SCHEMA_VERSION and record the change in docs/FIRMWARE_CHANGELOG.md.
+ */
+
+// =============================================================================
+// Version
+// =============================================================================
+
+/** Schema version: 1 = 3D OS 1.1.x and earlier, 2 = 3D OS 1.2.0 */
+export const SETTINGS_SCHEMA_VERSION = 2;
+
+/** Newest firmware whose settings.json this schema describes */
+export const SETTINGS_SCHEMA_FIRMWARE = '1.2.0';
+
+// =============================================================================
+// Value Sets
+// =============================================================================
+
+export const DISPLAY_MODE_VALUES = ['bvm', 'pvm', 'crt', 'scanlines', 'clean'] as const;
+export const CRT_DISPLAY_MODES = ['bvm', 'pvm', 'crt', 'scanlines'] as const;
+export const BEAM_CONVERGENCE_VALUES = ['Off', 'Consumer', 'Professional'] as const;
+export const IMAGE_SIZE_VALUES = ['Fill', 'Integer', 'Integer+'] as const;
+export const IMAGE_FIT_VALUES = ['Original', 'Stretch', 'Cinema Zoom'] as const;
+export const SHARPNESS_VALUES = ['Very Soft', 'Soft', 'Medium', 'Sharp', 'Very Sharp'] as const;
+export const INTERPOLATION_ALG_VALUES = ['BC Spline', 'Bilinear', 'Blackman Harris', 'Lanczos2'] as const;
+export const GAMMA_TRANSFER_VALUES = ['Tube', 'Modern', 'Professional'] as const;
+export const REGION_VALUES = ['Auto', 'NTSC', 'PAL'] as const;
+export const OVERCLOCK_VALUES = ['Auto', 'Enhanced', 'Enhanced+', 'Unleashed'] as const;
+
+export type DisplayMode = typeof DISPLAY_MODE_VALUES[number];
+export type CRTDisplayMode = typeof CRT_DISPLAY_MODES[number];
+export type BeamConvergence = typeof BEAM_CONVERGENCE_VALUES[number];
+export type ImageSize = typeof IMAGE_SIZE_VALUES[number];
+export type ImageFit = typeof IMAGE_FIT_VALUES[number];
+export type Sharpness = typeof SHARPNESS_VALUES[number];
+export type InterpolationAlg = typeof INTERPOLATION_ALG_VALUES[number];
+export type GammaTransfer = typeof GAMMA_TRANSFER_VALUES[number];
+export type Region = typeof REGION_VALUES[number];
+export type Overclock = typeof OVERCLOCK_VALUES[number];
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface CRTModeSettings {
+  horizontalBeamConvergence: BeamConvergence;
+  verticalBeamConvergence: BeamConvergence;
+  enableEdgeOvershoot: boolean;
+  enableEdgeHardness: boolean;
+  imageSize: ImageSize;
+  imageFit: ImageFit;
+}
+
+export interface CleanModeSettings {
+  interpolationAlg: InterpolationAlg;
+  gammaTransferFunction: GammaTransfer;
+  sharpness: Sharpness;
+  imageSize: ImageSize;
+  imageFit: ImageFit;
+}
+
+export interface DisplayCatalog {
+  bvm: CRTModeSettings;
+  pvm: CRTModeSettings;
+  crt: CRTModeSettings;
+  scanlines: CRTModeSettings;
+  clean: CleanModeSettings;
+}
+
+export interface DisplaySettings {
+  odm: DisplayMode;
+  catalog: DisplayCatalog;
+}
+
+export interface HardwareSettings {
+  virtualExpansionPak: boolean;
+  region: Region;
+  disableDeblur: boolean;
+  enable32BitColor: boolean;
+  /** Added in 3D OS 1.2.0; absent from files written by older firmware */
+  forceProgressiveOutput?: boolean;
+  disableTextureFiltering: boolean;
+  disableAntialiasing: boolean;
+  forceOriginalHardware: boolean;
+  overclock: Overclock;
+}
+
+export interface CartridgeSettings {
+  title: string;
+  display: DisplaySettings;
+  hardware: HardwareSettings;
+}
+
+// =============================================================================
+// Field Definitions
+// =============================================================================
+
+type FieldRule = readonly string[] | 'boolean';
+
+const CRT_MODE_FIELDS: Record<keyof CRTModeSettings, FieldRule> = {
+  horizontalBeamConvergence: BEAM_CONVERGENCE_VALUES,
+  verticalBeamConvergence: BEAM_CONVERGENCE_VALUES,
+  enableEdgeOvershoot: 'boolean',
+  enableEdgeHardness: 'boolean',
+  imageSize: IMAGE_SIZE_VALUES,
+  imageFit: IMAGE_FIT_VALUES,
+};
+
+const CLEAN_MODE_FIELDS: Record<keyof CleanModeSettings, FieldRule> = {
+  interpolationAlg: INTERPOLATION_ALG_VALUES,
+  gammaTransferFunction: GAMMA_TRANSFER_VALUES,
+  sharpness: SHARPNESS_VALUES,
+  imageSize: IMAGE_SIZE_VALUES,
+  imageFit: IMAGE_FIT_VALUES,
+};
+
+const HARDWARE_FIELDS: Record<keyof HardwareSettings, FieldRule> = {
+  virtualExpansionPak: 'boolean',
+  region: REGION_VALUES,
+  disableDeblur: 'boolean',
+  enable32BitColor: 'boolean',
+  forceProgressiveOutput: 'boolean',
+  disableTextureFiltering: 'boolean',
+  disableAntialiasing: 'boolean',
+  forceOriginalHardware: 'boolean',
+  overclock: OVERCLOCK_VALUES,
+};
+
+type SchemaNode = FieldRule | 'string' | { readonly [key: string]: SchemaNode };
+
+/** Every key the schema defines, as a tree */
+const SETTINGS_TREE: SchemaNode = {
+  title: 'string',
+  display: {
+    odm: DISPLAY_MODE_VALUES,
+    catalog: {
+      bvm: CRT_MODE_FIELDS,
+      pvm: CRT_MODE_FIELDS,
+      crt: CRT_MODE_FIELDS,
+      scanlines: CRT_MODE_FIELDS,
+      clean: CLEAN_MODE_FIELDS,
+    },
+  },
+  hardware: HARDWARE_FIELDS,
+};
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check the fields present in an object against their rules
+ * Missing fields are allowed (the console fills in defaults) and unknown
+ * fields are kept for forward compatibility with newer firmware.
+ */
+function validateFields(
+  value: Record<string, unknown>,
+  fields: Record<string, FieldRule>,
+  prefix: string
+): string[] {
+  const errors: string[] = [];
+
+  for (const [field, rule] of Object.entries(fields)) {
+    const fieldValue = value[field];
+    if (fieldValue === undefined) continue;
+
+    if (rule === 'boolean') {
+      if (typeof fieldValue !== 'boolean') {
+        errors.push(`${prefix}${field} must be a boolean`);
+      }
+    } else if (typeof fieldValue !== 'string' || !rule.includes(fieldValue)) {
+      errors.push(`Invalid ${prefix}${field}: ${String(fieldValue)}`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate hardware settings against the schema
+ */
+export function validateHardwareSchema(hardware: Record<string, unknown>): string[] {
+  return validateFields(hardware, HARDWARE_FIELDS, '');
+}
+
+/**
+ * Validate display settings (active mode and every catalog entry)
+ */
+export function validateDisplaySchema(display: Record<string, unknown>): string[] {
+  const errors: string[] = [];
+
+  if (display.odm !== undefined && !DISPLAY_MODE_VALUES.includes(display.odm as DisplayMode)) {
+    errors.push(`Invalid display mode: ${String(display.odm)}`);
+  }
+
+  if (display.catalog !== undefined) {
+    if (!isObject(display.catalog)) {
+      errors.push('Display catalog must be an object');
+      return errors;
+    }
+
+    for (const mode of DISPLAY_MODE_VALUES) {
+      const entry = display.catalog[mode];
+      if (entry === undefined) continue;
+      if (!isObject(entry)) {
+        errors.push(`Display catalog ${mode} must be an object`);
+        continue;
+      }
+      const fields = mode === 'clean' ? CLEAN_MODE_FIELDS : CRT_MODE_FIELDS;
+      errors.push(...validateFields(entry, fields, `${mode}.`));
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a complete settings object against the schema
+ */
+export function validateSettingsSchema(settings: unknown): string[] {
+  if (!isObject(settings)) {
+    return ['Settings must be an object'];
+  }
+
+  const errors: string[] = [];
+
+  if (settings.title !== undefined && typeof settings.title !== 'string') {
+    errors.push('Title must be a string');
+  }
+
+  if (settings.display !== undefined) {
+    if (!isObject(settings.display)) {
+      errors.push('Display must be an object');
+    } else {
+      errors.push(...validateDisplaySchema(settings.display));
+    }
+  }
+
+  if (settings.hardware !== undefined) {
+    if (!isObject(settings.hardware)) {
+      errors.push('Hardware must be an object');
+    } else {
+      errors.push(...validateHardwareSchema(settings.hardware));
+    }
+  }
+
+  return errors;
+}
+
+// =============================================================================
+// Known Keys
+// =============================================================================
+
+function schemaChild(node: SchemaNode, key: string): SchemaNode | undefined {
+  if (typeof node !== 'object' || Array.isArray(node)) return undefined;
+  return Object.prototype.hasOwnProperty.call(node, key)
+    ? (node as Record<string, SchemaNode>)[key]
+    : undefined;
+}
+
+function unknownKeysIn(node: SchemaNode, value: unknown, prefix: string): string[] {
+  if (!isObject(value) || typeof node !== 'object' || Array.isArray(node)) return [];
+
+  const unknown: string[] = [];
+  for (const key of Object.keys(value)) {
+    const child = schemaChild(node, key);
+    if (child === undefined) {
+      unknown.push(`${prefix}/${key}`);
+    } else {
+      unknown.push(...unknownKeysIn(child, value[key], `${prefix}/${key}`));
+    }
+  }
+  return unknown;
+}
+
+/**
+ * List the paths in `segments`, and keys inside `value`, that the schema doesn't define
+ * Unlike validateSettingsSchema, which keeps unknown fields from newer
+ * firmware, this is for rejecting edits that would add them.
+ */
+export function findUnknownSettingsKeys(segments: string[], value?: unknown): string[] {
+  let node = SETTINGS_TREE;
+  for (let i = 0; i < segments.length; i++) {
+    const child = schemaChild(node, segments[i]);
+    if (child === undefined) {
+      return ['/' + segments.slice(0, i + 1).join('/')];
+    }
+    node = child;
+  }
+
+  return unknownKeysIn(node, value, segments.length > 0 ? '/' + segments.join('/') : '');
+}
@@ -3,6 +3,8 @@ import { useState, useEffect, createContext, useContext, useCallback } from 'rea
 import { CartridgesPage } from './components/CartridgesPage';
 import { Navbar } from './components/Navbar';
 import { HelpPage } from './components/HelpPage';
+import { PlayStatsPage } from './components/PlayStatsPage';
+import { LabelsComparePage } from './components/LabelsComparePage';
 import { SettingsPage } from './components/SettingsPage';
 import { ComponentTestPage } from './components/ComponentTestPage';
 import { LabelSyncProvider } from './components/LabelSyncIndicator';
@@ -195,7 +197,9 @@ function AppContent() {
           <Route path="/" element={<Navigate to="/cartridges" replace />} />
           <Route path="/cartridges" element={<CartridgesPage />} />
           <Route path="/labels" element={<Navigate to="/cartridges" replace />} />
+          <Route path="/labels/compare" element={<LabelsComparePage />} />
           <Route path="/settings" element={<SettingsPage />} />
+          <Route path="/stats" element={<PlayStatsPage />} />
           <Route path="/help" element={<HelpPage />} />
           <Route path="/component-test" element={<ComponentTestPage />} />
         </Routes>
@@ -0,0 +1,179 @@
+import { useState, useEffect } from 'react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import type { SettingsPreset } from '../lib/presets';
+import { describePreset } from '../lib/presets';
+import './PasteSettingsModal.css';
+import './ApplyPresetModal.css';
+
+interface ApplyPresetModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onApplyComplete: () => void;
+  selectedCartIds: string[];
+  sdCardPath?: string;
+}
+
+export function ApplyPresetModal({
+  isOpen,
+  onClose,
+  onApplyComplete,
+  selectedCartIds,
+  sdCardPath,
+}: ApplyPresetModalProps) {
+  const [presets, setPresets] = useState<SettingsPreset[]>([]);
+  const [selectedPresetId, setSelectedPresetId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [results, setResults] = useState<{ success: number; failed: number } | null>(null);
+
+  // Load presets when modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setIsApplying(false);
+    setError(null);
+    setResults(null);
+    setLoading(true);
+
+    fetch('/api/presets')
+      .then(res => res.json())
+      .then(data => {
+        const list: SettingsPreset[] = data.presets || [];
+        setPresets(list);
+        setSelectedPresetId(list[0]?.id ?? null);
+      })
+      .catch(() => setError('Failed to load presets'))
+      .finally(() => setLoading(false));
+  }, [isOpen]);
+
+  const handleApply = async () => {
+    if (!selectedPresetId) return;
+    setIsApplying(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/presets/${selectedPresetId}/apply`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cartIds: selectedCartIds, sdCardPath }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to apply preset');
+      }
+
+      setResults({ success: data.applied, failed: data.failed });
+
+      // If all succeeded, auto-close after a brief delay
+      if (data.failed === 0) {
+        setTimeout(() => {
+          setResults(null);
+          onApplyComplete();
+        }, 1500);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply preset');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleClose = () => {
+    setResults(null);
+    setError(null);
+    onClose();
+  };
+
+  const footer = results ? (
+    <div className="paste-results-footer">
+      {results.failed === 0 ? (
+        <span className="paste-success-message">Preset applied successfully!</span>
+      ) : (
+        <Button variant="primary" onClick={handleClose}>
+          Done
+        </Button>
+      )}
+    </div>
+  ) : (
+    <>
+      <Button variant="ghost" onClick={handleClose} disabled={isApplying}>
+        Cancel
+      </Button>
+      <Button variant="primary" onClick={handleApply} disabled={isApplying || !selectedPresetId}>
+        {isApplying ? 'Applying...' : `Apply to ${selectedCartIds.length} Cartridge${selectedCartIds.length !== 1 ? 's' : ''}`}
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Apply Preset"
+      footer={footer}
+      size="sm"
+    >
+      <div className="paste-settings-content">
+        {!results ? (
+          <>
+            {loading ? (
+              <div className="loading">Loading presets...</div>
+            ) : presets.length === 0 ? (
+              <p className="preset-empty">
+                No presets yet. Open a cartridge's Settings tab and click "Save as Preset" to create one.
+              </p>
+            ) : (
+              <div className="preset-list">
+                {presets.map(preset => (
+                  <label
+                    key={preset.id}
+                    className={`preset-option ${selectedPresetId === preset.id ? 'selected' : ''}`}
+                  >
+                    <input
+                      type="radio"
+                      name="preset"
+                      checked={selectedPresetId === preset.id}
+                      onChange={() => setSelectedPresetId(preset.id)}
+                      disabled={isApplying}
+                    />
+                    <span className="preset-option-text">
+                      <span className="preset-name">{preset.name}</span>
+                      <span className="preset-summary">{preset.description || describePreset(preset)}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <div className="paste-note">
+              <p>Only the settings stored in the preset are changed. Each cartridge keeps its title.</p>
+              {sdCardPath && (
+                <p className="paste-sd-note">Settings will also be synced to the connected SD card.</p>
+              )}
+            </div>
+          </>
+        ) : (
+          <div className="paste-results">
+            {results.success > 0 && (
+              <div className="paste-result-success">
+                <span className="result-icon">✓</span>
+                <span>Applied preset to {results.success} cartridge{results.success !== 1 ? 's' : ''}</span>
+              </div>
+            )}
+            {results.failed > 0 && (
+              <div className="paste-result-failed">
+                <span className="result-icon">✗</span>
+                <span>Failed to apply preset to {results.failed} cartridge{results.failed !== 1 ? 's' : ''}</span>
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && <div className="error-message">{error}</div>}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,168 @@
+import { useState, useEffect } from 'react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import type { SettingsRulesPreview } from '../lib/rules';
+import './PasteSettingsModal.css';
+
+interface ApplyRulesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sdCardPath?: string;
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? '—' : String(value);
+}
+
+export function ApplyRulesModal({ isOpen, onClose, sdCardPath }: ApplyRulesModalProps) {
+  const [preview, setPreview] = useState<SettingsRulesPreview | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [results, setResults] = useState<{ success: number; failed: number } | null>(null);
+
+  // Preview every enabled rule when modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    fetch('/api/settings-rules/preview', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
+    })
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to preview rules');
+        setPreview(data);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to preview rules'));
+  }, [isOpen]);
+
+  const handleApply = async () => {
+    setIsApplying(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/settings-rules/apply', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sdCardPath }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to apply rules');
+      }
+
+      setResults({ success: data.applied, failed: data.failed });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply rules');
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const handleClose = () => {
+    setPreview(null);
+    setResults(null);
+    setError(null);
+    onClose();
+  };
+
+  const affected = preview?.carts.filter(cart => cart.created || cart.changes.length > 0) ?? [];
+
+  const footer = results ? (
+    <Button variant="primary" onClick={handleClose}>
+      Done
+    </Button>
+  ) : (
+    <>
+      <Button variant="ghost" onClick={handleClose} disabled={isApplying}>
+        Cancel
+      </Button>
+      <Button variant="primary" onClick={handleApply} disabled={isApplying || affected.length === 0}>
+        {isApplying ? 'Applying...' : `Apply to ${affected.length} Cartridge${affected.length !== 1 ? 's' : ''}`}
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Apply Settings Rules"
+      footer={footer}
+      size="md"
+    >
+      <div className="paste-settings-content">
+        {results ? (
+          <div className="paste-results">
+            {results.success > 0 && (
+              <div className="paste-result-success">
+                <span className="result-icon">✓</span>
+                <span>Updated settings for {results.success} cartridge{results.success !== 1 ? 's' : ''}</span>
+              </div>
+            )}
+            {results.failed > 0 && (
+              <div className="paste-result-failed">
+                <span className="result-icon">✗</span>
+                <span>Failed to update {results.failed} cartridge{results.failed !== 1 ? 's' : ''}</span>
+              </div>
+            )}
+          </div>
+        ) : !preview ? (
+          !error && <div className="loading">Evaluating rules...</div>
+        ) : (
+          <>
+            <div className="paste-note">
+              {preview.rules.length === 0 && <p>No enabled rules.</p>}
+              {preview.rules.map(rule => (
+                <p key={rule.id}>
+                  <strong>{rule.name}</strong> matches {rule.cartIds.length} owned cartridge{rule.cartIds.length !== 1 ? 's' : ''}
+                </p>
+              ))}
+            </div>
+
+            {affected.length === 0 ? (
+              <p className="paste-note">Every matching cartridge already has these settings.</p>
+            ) : (
+              affected.map(cart => (
+                <details key={cart.cartId} className="paste-diff">
+                  <summary>
+                    {cart.title}
+                    <span className="paste-diff-count">
+                      {cart.created ? 'new settings · ' : ''}
+                      {cart.changes.length} change{cart.changes.length !== 1 ? 's' : ''}
+                    </span>
+                  </summary>
+                  <p className="paste-diff-count">{cart.rules.join(', ')}</p>
+                  <ul>
+                    {cart.changes.map(change => (
+                      <li key={change.path}>
+                        <code>{change.path}</code>: {formatValue(change.before)} → {formatValue(change.after)}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              ))
+            )}
+
+            <div className="paste-note">
+              {preview.unknownCarts.length > 0 && (
+                <p>
+                  {preview.unknownCarts.length} owned cartridge{preview.unknownCarts.length !== 1 ? 's are' : ' is'} not
+                  in the cart database and can't be matched.
+                </p>
+              )}
+              <p>Later rules win when several rules set the same field.</p>
+              {sdCardPath && (
+                <p className="paste-sd-note">Settings will also be synced to the connected SD card.</p>
+              )}
+            </div>
+          </>
+        )}
+
+        {error && <div className="error-message">{error}</div>}
+      </div>
+    </Modal>
+  );
+}
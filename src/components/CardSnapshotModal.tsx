@@ -0,0 +1,195 @@
+import { useState } from 'react';
+import { Modal, Button } from './ui';
+import { ProgressBar } from './ProgressBar';
+import { SNAPSHOT_PHASE_LABELS, type CardSnapshot, type SnapshotPhase } from '../lib/snapshots';
+import './CardSnapshotModal.css';
+
+type SnapshotAction =
+  | { kind: 'create'; sdCardPath: string }
+  | { kind: 'restore'; snapshot: CardSnapshot; sdCardPath?: string };
+
+type SnapshotStep = 'confirm' | 'running' | 'complete' | 'error';
+
+interface CardSnapshotModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onComplete: () => void;
+  action: SnapshotAction;
+}
+
+interface SnapshotProgressState {
+  phase: SnapshotPhase;
+  percentage: number;
+  label: string;
+  bytesProcessed: string;
+  totalBytes: string;
+}
+
+export function CardSnapshotModal({ isOpen, onClose, onComplete, action }: CardSnapshotModalProps) {
+  const [step, setStep] = useState<SnapshotStep>('confirm');
+  const [name, setName] = useState('');
+  const [targetPath, setTargetPath] = useState(action.sdCardPath ?? '');
+  const [mirror, setMirror] = useState(true);
+  const [progress, setProgress] = useState<SnapshotProgressState | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleStart = () => {
+    setStep('running');
+    setError(null);
+    setProgress(null);
+
+    const url = action.kind === 'create'
+      ? `/api/snapshots/create-stream?${new URLSearchParams({ sdCardPath: action.sdCardPath, name })}`
+      : `/api/snapshots/${action.snapshot.id}/restore-stream?${new URLSearchParams({
+        sdCardPath: targetPath,
+        mirror: String(mirror),
+      })}`;
+    const eventSource = new EventSource(url);
+
+    eventSource.onmessage = (event) => {
+      const data = JSON.parse(event.data);
+
+      switch (data.type) {
+        case 'progress':
+          setProgress({
+            phase: data.phase,
+            percentage: data.percentage,
+            label: data.currentFileName,
+            bytesProcessed: data.bytesProcessedFormatted,
+            totalBytes: data.totalBytesFormatted,
+          });
+          break;
+
+        case 'complete':
+          setSummary(action.kind === 'create'
+            ? `Saved "${data.snapshot.name}": ${data.snapshot.fileCount} files.`
+            : `Restored ${data.filesRestored} files` +
+              (data.filesRemoved > 0 ? ` and removed ${data.filesRemoved} not in the snapshot.` : '.'));
+          setStep('complete');
+          eventSource.close();
+          onComplete();
+          break;
+
+        case 'error':
+          setError(data.error);
+          setStep('error');
+          eventSource.close();
+          break;
+      }
+    };
+
+    eventSource.onerror = () => {
+      eventSource.close();
+      setError(action.kind === 'create' ? 'Connection lost during snapshot' : 'Connection lost during restore');
+      setStep('error');
+    };
+  };
+
+  const handleClose = () => {
+    setStep('confirm');
+    setName('');
+    setProgress(null);
+    setSummary(null);
+    setError(null);
+    onClose();
+  };
+
+  const isRunning = step === 'running';
+  const title = action.kind === 'create' ? 'Snapshot SD Card' : `Restore "${action.snapshot.name}"`;
+
+  const footer = step === 'confirm' ? (
+    <>
+      <Button variant="ghost" onClick={handleClose}>
+        Cancel
+      </Button>
+      <Button
+        variant={action.kind === 'create' ? 'primary' : 'danger'}
+        onClick={handleStart}
+        disabled={action.kind === 'restore' && !targetPath.trim()}
+      >
+        {action.kind === 'create' ? 'Create Snapshot' : 'Restore'}
+      </Button>
+    </>
+  ) : (
+    <Button variant={step === 'complete' ? 'primary' : 'ghost'} onClick={handleClose} disabled={isRunning}>
+      {step === 'complete' ? 'Done' : 'Close'}
+    </Button>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={isRunning ? () => {} : handleClose}
+      title={title}
+      size="md"
+      footer={footer}
+    >
+      <div className="card-snapshot-content">
+        {step === 'confirm' && action.kind === 'create' && (
+          <>
+            <p>
+              Archives the card's <span className="text-code">Library/N64</span> and{' '}
+              <span className="text-code">Settings</span> directories, including labels.db, library.db and every
+              game folder, with a checksum for each file.
+            </p>
+            <input
+              type="text"
+              className="card-snapshot-input"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name (optional)"
+              maxLength={64}
+              autoComplete="off"
+              data-1p-ignore
+              data-lpignore="true"
+            />
+          </>
+        )}
+
+        {step === 'confirm' && action.kind === 'restore' && (
+          <>
+            <p>
+              Every file is checked against its checksum before the card is written. Restore to the card the snapshot
+              was taken from, or to a blank card formatted for the Analogue 3D.
+            </p>
+            <label className="card-snapshot-field">
+              <span>SD card path</span>
+              <input
+                type="text"
+                className="card-snapshot-input"
+                value={targetPath}
+                onChange={(e) => setTargetPath(e.target.value)}
+                placeholder="/Volumes/ANALOGUE 3D"
+              />
+            </label>
+            <label className="export-option">
+              <input type="checkbox" checked={mirror} onChange={(e) => setMirror(e.target.checked)} />
+              <div className="option-content">
+                <span className="option-label">Remove files not in the snapshot</span>
+                <span className="option-desc">
+                  Makes <span className="text-code">Library/N64</span> and <span className="text-code">Settings</span>{' '}
+                  match the snapshot exactly. Game folders added since the snapshot are deleted.
+                </span>
+              </div>
+            </label>
+          </>
+        )}
+
+        {isRunning && (
+          <ProgressBar
+            progress={progress?.percentage}
+            showPercentage={!!progress}
+            label={progress ? SNAPSHOT_PHASE_LABELS[progress.phase] : 'Starting...'}
+            transferDetails={progress ? { bytesWritten: progress.bytesProcessed, totalBytes: progress.totalBytes } : undefined}
+          />
+        )}
+        {isRunning && progress?.label && <p className="card-snapshot-file">{progress.label}</p>}
+
+        {step === 'complete' && summary && <p>{summary}</p>}
+
+        {error && <div className="error-message">{error}</div>}
+      </div>
+    </Modal>
+  );
+}
@@ -6,6 +6,11 @@ import { CartridgeSprite } from './CartridgeSprite';
 import { ConnectionIndicator } from './ConnectionIndicator';
 import { useLabelSync } from './LabelSyncIndicator';
 import { queueSettingsSave, onSaveStatus } from '../lib/settingsAutoSave';
+import { LABEL_VERSION_SOURCE_LABELS, type LabelVersion } from '../lib/labelHistory';
+import { SavePresetModal } from './SavePresetModal';
+import { SettingsHistoryModal } from './SettingsHistoryModal';
+import { SettingsMergeModal } from './SettingsMergeModal';
+import { PakLibraryModal } from './PakLibraryModal';
 import {
   createDefaultSettings,
   type BeamConvergence,
@@ -23,6 +28,17 @@ import {
   type CartridgeSettings,
   type HardwareSettings,
 } from '../lib/defaultSettings';
+import {
+  DISPLAY_MODE_VALUES,
+  BEAM_CONVERGENCE_VALUES,
+  IMAGE_SIZE_VALUES,
+  IMAGE_FIT_VALUES,
+  SHARPNESS_VALUES,
+  INTERPOLATION_ALG_VALUES,
+  GAMMA_TRANSFER_VALUES,
+  REGION_VALUES,
+  OVERCLOCK_VALUES,
+} from '../../shared/settings-schema';
 import './CartridgeDetailPanel.css';
 
 interface CartridgeDetailPanelProps {
@@ -43,8 +59,16 @@ interface LookupResult {
   videoMode?: string;
 }
 
-// Option arrays for controls
-const DISPLAY_MODE_OPTIONS: DisplayMode[] = ['bvm', 'pvm', 'crt', 'scanlines', 'clean'];
+interface PlayStatsResult {
+  found: boolean;
+  cartId: string;
+  addedAt?: string | null;
+  playTime?: number;
+  sessions?: number;
+}
+
+// Option arrays for controls (value sets come from the shared settings schema)
+const DISPLAY_MODE_OPTIONS: DisplayMode[] = [...DISPLAY_MODE_VALUES];
 const DISPLAY_MODE_LABELS: Record<DisplayMode, string> = {
   bvm: 'BVM',
   pvm: 'PVM',
@@ -52,14 +76,14 @@ const DISPLAY_MODE_LABELS: Record<DisplayMode, string> = {
   scanlines: 'Scanlines',
   clean: 'Clean',
 };
-const BEAM_CONVERGENCE_OPTIONS: BeamConvergence[] = ['Off', 'Consumer', 'Professional'];
-const IMAGE_SIZE_OPTIONS: ImageSize[] = ['Fill', 'Integer', 'Integer+'];
-const IMAGE_FIT_OPTIONS: ImageFit[] = ['Original', 'Stretch', 'Cinema Zoom'];
-const SHARPNESS_OPTIONS: Sharpness[] = ['Very Soft', 'Soft', 'Medium', 'Sharp', 'Very Sharp'];
-const INTERPOLATION_OPTIONS: InterpolationAlg[] = ['BC Spline', 'Bilinear', 'Blackman Harris', 'Lanczos2'];
-const GAMMA_OPTIONS: GammaTransfer[] = ['Tube', 'Modern', 'Professional'];
-const REGION_OPTIONS: Region[] = ['Auto', 'NTSC', 'PAL'];
-const OVERCLOCK_OPTIONS: Overclock[] = ['Auto', 'Enhanced', 'Enhanced+', 'Unleashed'];
+const BEAM_CONVERGENCE_OPTIONS: BeamConvergence[] = [...BEAM_CONVERGENCE_VALUES];
+const IMAGE_SIZE_OPTIONS: ImageSize[] = [...IMAGE_SIZE_VALUES];
+const IMAGE_FIT_OPTIONS: ImageFit[] = [...IMAGE_FIT_VALUES];
+const SHARPNESS_OPTIONS: Sharpness[] = [...SHARPNESS_VALUES];
+const INTERPOLATION_OPTIONS: InterpolationAlg[] = [...INTERPOLATION_ALG_VALUES];
+const GAMMA_OPTIONS: GammaTransfer[] = [...GAMMA_TRANSFER_VALUES];
+const REGION_OPTIONS: Region[] = [...REGION_VALUES];
+const OVERCLOCK_OPTIONS: Overclock[] = [...OVERCLOCK_VALUES];
 const EDGE_HARDNESS_OPTIONS = ['Soft', 'Hard'];
 const BIT_COLOR_OPTIONS = ['Off', 'Auto'];
 
@@ -83,6 +107,21 @@ interface GamePakSaveInfo {
   percentUsed: number;
 }
 
+interface GamePakIntegrityIssue {
+  code: string;
+  severity: 'error' | 'warning';
+  message: string;
+  repairable: boolean;
+  noteIndex?: number;
+  pages?: number[];
+}
+
+interface GamePakIntegrity {
+  valid: boolean;
+  repairable: boolean;
+  issues: GamePakIntegrityIssue[];
+}
+
 interface GamePakInfoItem {
   exists: boolean;
   source: 'local' | 'sd';
@@ -91,7 +130,9 @@ interface GamePakInfoItem {
   lastModified?: string;
   isValidSize?: boolean;
   saveInfo?: GamePakSaveInfo;
+  integrity?: GamePakIntegrity;
   md5Hash?: string;
+  slot?: string;
 }
 
 interface GamePakSyncStatus {
@@ -107,6 +148,32 @@ interface GamePakInfoResponse {
   syncStatus?: GamePakSyncStatus;
 }
 
+interface GamePakNote {
+  index: number;
+  gameCode: string;
+  publisherCode: string;
+  name: string;
+  extension: string;
+  startPage: number;
+  pageCount: number;
+  size: number;
+  chainError?: string;
+  gameName?: string;
+}
+
+interface GamePakNotesResponse {
+  source: 'local' | 'sd';
+  notes: GamePakNote[];
+  pagesUsed: number;
+  pagesFree: number;
+}
+
+interface GamePakMergePlanNote {
+  local?: number;
+  sd?: number;
+  resolution: 'local' | 'sd' | 'drop' | 'conflict';
+}
+
 interface GamePakBackup {
   id: string;
   name: string;
@@ -114,9 +181,52 @@ interface GamePakBackup {
   createdAt: string;
   md5Hash: string;
   size: number;
+  tags?: string[];
+}
+
+interface GamePakMergePlanResponse {
+  base: GamePakBackup | null;
+  notes: GamePakMergePlanNote[];
+  conflicts: number;
+}
+
+interface GamePakNoteChange {
+  change: 'added' | 'removed' | 'modified';
+  gameCode: string;
+  publisherCode: string;
+  name: string;
+  extension: string;
+  pagesBefore: number;
+  pagesAfter: number;
+}
+
+interface GamePakTimelineEntry {
+  backup: GamePakBackup | null;
+  createdAt: string;
+  md5Hash: string;
+  noteCount: number;
+  pagesUsed: number;
+  valid: boolean;
+  issueCount: number;
+  diff: {
+    changedPages: number[];
+    pagesAdded: number[];
+    pagesFreed: number[];
+    byteDelta: number;
+    pagesUsedDelta: number;
+    notes: GamePakNoteChange[];
+  } | null;
 }
 
-type TabId = 'label' | 'settings' | 'gamepak';
+type TabId = 'label' | 'settings' | 'gamepak' | 'cartsave';
+
+function formatPlayTime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${seconds}s`;
+}
 
 export function CartridgeDetailPanel({
   cartId,
@@ -129,6 +239,7 @@ export function CartridgeDetailPanel({
   const [activeTab, setActiveTab] = useState<TabId>('label');
   const [isOwned, setIsOwned] = useState(false);
   const [lookupResult, setLookupResult] = useState<LookupResult | null>(null);
+  const [playStats, setPlayStats] = useState<PlayStatsResult | null>(null);
   const { imageCacheBuster: globalCacheBuster } = useImageCache();
   const [localCacheBuster, setLocalCacheBuster] = useState(() => Date.now());
   // Combine global and local cache busters
@@ -167,6 +278,27 @@ export function CartridgeDetailPanel({
     lookupCart();
   }, [cartId]);
 
+  // Load play statistics from the SD card's library.db
+  useEffect(() => {
+    if (!sdCardPath) return;
+
+    const loadPlayStats = async () => {
+      try {
+        const params = new URLSearchParams({ sdCardPath });
+        const response = await fetch(`/api/library/${cartId}?${params}`);
+        if (response.ok) {
+          const data: PlayStatsResult = await response.json();
+          setPlayStats(data);
+        } else {
+          setPlayStats(null);
+        }
+      } catch (err) {
+        console.error('Failed to load play stats:', err);
+      }
+    };
+    loadPlayStats();
+  }, [cartId, sdCardPath]);
+
   const handleToggleOwned = async (newValue: boolean) => {
     try {
       if (newValue) {
@@ -223,6 +355,12 @@ export function CartridgeDetailPanel({
             >
               Game Pak
             </button>
+            <button
+              className={`tab-btn ${activeTab === 'cartsave' ? 'active' : ''}`}
+              onClick={() => setActiveTab('cartsave')}
+            >
+              Cart Save
+            </button>
           </div>
           <div className="ownership-toggle">
             <ToggleSwitch
@@ -241,6 +379,7 @@ export function CartridgeDetailPanel({
               cartId={cartId}
               lookupResult={lookupResult}
               setLookupResult={setLookupResult}
+              playStats={sdCardPath ? playStats : null}
               imageCacheBuster={imageCacheBuster}
               onImageUpdate={() => setLocalCacheBuster(Date.now())}
               onUpdate={onUpdate}
@@ -262,6 +401,12 @@ export function CartridgeDetailPanel({
               gameName={displayName}
             />
           )}
+          {activeTab === 'cartsave' && (
+            <CartridgeSaveTab
+              cartId={cartId}
+              gameName={displayName}
+            />
+          )}
         </div>
       </div>
     </div>
@@ -276,6 +421,7 @@ interface LabelTabProps {
   cartId: string;
   lookupResult: LookupResult | null;
   setLookupResult: React.Dispatch<React.SetStateAction<LookupResult | null>>;
+  playStats: PlayStatsResult | null;
   imageCacheBuster: number;
   onImageUpdate: () => void;
   onUpdate: () => void;
@@ -287,6 +433,7 @@ function LabelTab({
   cartId,
   lookupResult,
   setLookupResult,
+  playStats,
   imageCacheBuster,
   onImageUpdate,
   onUpdate,
@@ -301,6 +448,8 @@ function LabelTab({
   const [dragActive, setDragActive] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [deletingLabel, setDeletingLabel] = useState(false);
+  const [versions, setVersions] = useState<LabelVersion[]>([]);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
   // User cart editing state
@@ -315,6 +464,21 @@ function LabelTab({
     }
   }, [lookupResult?.name]);
 
+  const fetchHistory = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/labels/${cartId}/history`);
+      if (!response.ok) return;
+      const data = await response.json();
+      setVersions(data.versions);
+    } catch {
+      // History is optional - the label itself still works without it
+    }
+  }, [cartId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
   const imageUrl = `/api/labels/${cartId}?v=${imageCacheBuster}`;
 
   const isUserCart = lookupResult?.source === 'user';
@@ -406,6 +570,7 @@ function LabelTab({
       onImageUpdate();
       onUpdate();
       markLocalChanges(); // Mark that local labels have changed
+      fetchHistory();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Upload failed');
     } finally {
@@ -413,6 +578,35 @@ function LabelTab({
     }
   };
 
+  const handleRevert = async (version: LabelVersion) => {
+    if (!confirm(`Revert to the label from ${new Date(version.createdAt).toLocaleString()}? The current label will be kept in the history.`)) {
+      return;
+    }
+
+    try {
+      setRevertingId(version.id);
+      setError(null);
+
+      const response = await fetch(`/api/labels/${cartId}/history/${version.id}/revert`, {
+        method: 'POST',
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Revert failed');
+      }
+
+      onImageUpdate();
+      onUpdate();
+      markLocalChanges();
+      fetchHistory();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Revert failed');
+    } finally {
+      setRevertingId(null);
+    }
+  };
+
   const handleDelete = async () => {
     if (!confirm(`Delete label for ${cartId}? This cannot be undone.`)) {
       return;
@@ -536,6 +730,29 @@ function LabelTab({
         )}
       </div>
 
+      {/* Play Statistics (from SD card library.db) */}
+      {playStats?.found && (
+        <div className="save-info-card play-stats-card">
+          <h4 className="text-label">Play Statistics</h4>
+          <div className="save-stats">
+            <div className="stat">
+              <span className="stat-value">{formatPlayTime(playStats.playTime ?? 0)}</span>
+              <span className="stat-label">Play Time</span>
+            </div>
+            <div className="stat">
+              <span className="stat-value">{playStats.sessions ?? 0}</span>
+              <span className="stat-label">Sessions</span>
+            </div>
+            <div className="stat">
+              <span className="stat-value">
+                {playStats.addedAt ? new Date(playStats.addedAt).toLocaleDateString() : '—'}
+              </span>
+              <span className="stat-label">Added</span>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Label Preview & Upload */}
       <div className="label-comparison">
         <div className="label-current">
@@ -584,6 +801,35 @@ function LabelTab({
         Image will be resized to 74x86 pixels.
       </p>
 
+      {/* Label History */}
+      {versions.length > 0 && (
+        <div className="label-history">
+          <h4 className="text-label">Previous Labels</h4>
+          <div className="label-history-list">
+            {versions.map((version) => (
+              <div key={version.id} className="label-history-entry">
+                <img
+                  src={`/api/labels/${cartId}/history/${version.id}`}
+                  alt="Previous label"
+                  className="label-history-image"
+                />
+                <div className="label-history-info">
+                  <span>{LABEL_VERSION_SOURCE_LABELS[version.source]}</span>
+                  <span className="text-subtle">{new Date(version.createdAt).toLocaleString()}</span>
+                </div>
+                <button
+                  className="btn-ghost btn-small"
+                  onClick={() => handleRevert(version)}
+                  disabled={revertingId !== null || uploading || deleting || deletingLabel}
+                >
+                  {revertingId === version.id ? 'Reverting...' : 'Revert'}
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {error && <div className="error-message">{error}</div>}
 
       {/* Actions */}
@@ -592,14 +838,14 @@ function LabelTab({
           <button
             className="btn-ghost btn-danger-text"
             onClick={handleDelete}
-            disabled={uploading || deleting || deletingLabel}
+            disabled={uploading || deleting || deletingLabel || revertingId !== null}
           >
             {deleting ? 'Deleting...' : 'Delete Cartridge'}
           </button>
           <button
             className="btn-ghost btn-danger-text"
             onClick={handleDeleteLabel}
-            disabled={uploading || deleting || deletingLabel}
+            disabled={uploading || deleting || deletingLabel || revertingId !== null}
           >
             {deletingLabel ? 'Deleting...' : 'Delete Label'}
           </button>
@@ -607,7 +853,7 @@ function LabelTab({
         <button
           className="btn-primary"
           onClick={handleUpload}
-          disabled={!file || uploading || deleting || deletingLabel}
+          disabled={!file || uploading || deleting || deletingLabel || revertingId !== null}
         >
           {uploading ? 'Uploading...' : 'Update Label'}
         </button>
@@ -644,6 +890,9 @@ function SettingsTab({ cartId, sdCardPath, gameName }: SettingsTabProps) {
   const [autoImported, setAutoImported] = useState(false);
   const [showCopiedMessage, setShowCopiedMessage] = useState(false);
   const [showExportImportMenu, setShowExportImportMenu] = useState(false);
+  const [showSavePresetModal, setShowSavePresetModal] = useState(false);
+  const [showHistoryModal, setShowHistoryModal] = useState(false);
+  const [showMergeModal, setShowMergeModal] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   const exportImportRef = useRef<HTMLDivElement>(null);
   const { copySettings: copyToClipboard } = useSettingsClipboard();
@@ -931,6 +1180,13 @@ function SettingsTab({ cartId, sdCardPath, gameName }: SettingsTabProps) {
               <span className="conflict-btn-title">Use SD Card Settings</span>
               <span className="conflict-btn-desc">Replace local with SD card settings</span>
             </button>
+            <button
+              className="btn-secondary conflict-btn"
+              onClick={() => setShowMergeModal(true)}
+            >
+              <span className="conflict-btn-title">Resolve Field by Field</span>
+              <span className="conflict-btn-desc">Review each difference and pick a side</span>
+            </button>
           </div>
         </div>
       )}
@@ -1008,6 +1264,24 @@ function SettingsTab({ cartId, sdCardPath, gameName }: SettingsTabProps) {
                   >
                     Import settings.json
                   </button>
+                  <button
+                    className="dropdown-item"
+                    onClick={() => {
+                      setShowSavePresetModal(true);
+                      setShowExportImportMenu(false);
+                    }}
+                  >
+                    Save as Preset...
+                  </button>
+                  <button
+                    className="dropdown-item"
+                    onClick={() => {
+                      setShowHistoryModal(true);
+                      setShowExportImportMenu(false);
+                    }}
+                  >
+                    History...
+                  </button>
                 </div>
               )}
             </div>
@@ -1040,6 +1314,39 @@ function SettingsTab({ cartId, sdCardPath, gameName }: SettingsTabProps) {
         onChange={(e) => e.target.files?.[0] && handleImportFile(e.target.files[0])}
         style={{ display: 'none' }}
       />
+
+      {info?.local?.settings && (
+        <SavePresetModal
+          isOpen={showSavePresetModal}
+          onClose={() => setShowSavePresetModal(false)}
+          settings={info.local.settings}
+          gameName={gameName}
+        />
+      )}
+
+      <SettingsHistoryModal
+        isOpen={showHistoryModal}
+        onClose={() => setShowHistoryModal(false)}
+        onRestored={() => {
+          setConflictState('resolved');
+          fetchInfo();
+        }}
+        cartId={cartId}
+        sdCardPath={sdCardPath}
+      />
+
+      {sdCardPath && (
+        <SettingsMergeModal
+          isOpen={showMergeModal}
+          onClose={() => setShowMergeModal(false)}
+          onResolved={() => {
+            setConflictState('resolved');
+            fetchInfo();
+          }}
+          cartId={cartId}
+          sdCardPath={sdCardPath}
+        />
+      )}
     </div>
   );
 }
@@ -1388,6 +1695,208 @@ interface GamePakTabProps {
 
 type GamePakConflictResolution = 'pending' | 'use-local' | 'use-sd' | 'resolved';
 
+interface GamePakMergeViewProps {
+  cartId: string;
+  sdCardPath: string;
+  gameName?: string;
+  onMerged: () => void;
+  onCancel: () => void;
+}
+
+const PAK_DATA_PAGES = 123;
+const PAK_MAX_NOTES = 16;
+
+function noteKey(note: GamePakNote): string {
+  return `${note.gameCode}-${note.publisherCode}-${note.name}-${note.extension}`;
+}
+
+/**
+ * Side-by-side view of the local and SD card paks' notes, letting the user
+ * pick which notes end up in the merged pak
+ * The selection starts from the server's three-way plan: saves changed on
+ * one side only are picked from that side, and conflicts are highlighted.
+ */
+function GamePakMergeView({ cartId, sdCardPath, gameName, onMerged, onCancel }: GamePakMergeViewProps) {
+  const [localNotes, setLocalNotes] = useState<GamePakNote[] | null>(null);
+  const [sdNotes, setSdNotes] = useState<GamePakNote[] | null>(null);
+  const [plan, setPlan] = useState<GamePakMergePlanResponse | null>(null);
+  const [selectedLocal, setSelectedLocal] = useState<Set<number>>(new Set());
+  const [selectedSd, setSelectedSd] = useState<Set<number>>(new Set());
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchNotes = async () => {
+      try {
+        const [localResponse, sdResponse, planResponse] = await Promise.all([
+          fetch(`/api/cartridges/${cartId}/game-pak/notes?source=local`),
+          fetch(`/api/cartridges/${cartId}/game-pak/notes?${new URLSearchParams({ source: 'sd', sdCardPath })}`),
+          fetch(`/api/cartridges/${cartId}/game-pak/merge-plan?${new URLSearchParams({ sdCardPath })}`),
+        ]);
+        if (!localResponse.ok || !sdResponse.ok || !planResponse.ok) {
+          throw new Error('Failed to read game pak saves');
+        }
+        const local: GamePakNotesResponse = await localResponse.json();
+        const sd: GamePakNotesResponse = await sdResponse.json();
+        const mergePlan: GamePakMergePlanResponse = await planResponse.json();
+
+        // Take resolved saves from the side the plan picked; for conflicts,
+        // start from the local copy, or the SD copy if local has none
+        const intact = (notes: GamePakNote[], index?: number) =>
+          index !== undefined && notes.some(n => n.index === index && !n.chainError);
+        const fromLocal = mergePlan.notes.filter(n =>
+          n.resolution === 'local' || (n.resolution === 'conflict' && intact(local.notes, n.local)));
+        const fromSd = mergePlan.notes.filter(n =>
+          n.resolution === 'sd' || (n.resolution === 'conflict' && !intact(local.notes, n.local)));
+
+        setLocalNotes(local.notes);
+        setSdNotes(sd.notes);
+        setPlan(mergePlan);
+        setSelectedLocal(new Set(fromLocal.filter(n => intact(local.notes, n.local)).map(n => n.local!)));
+        setSelectedSd(new Set(fromSd.filter(n => intact(sd.notes, n.sd)).map(n => n.sd!)));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to read game pak saves');
+      }
+    };
+    fetchNotes();
+  }, [cartId, sdCardPath]);
+
+  const conflicts = plan?.notes.filter(n => n.resolution === 'conflict') ?? [];
+  const conflictLocal = new Set(conflicts.map(n => n.local));
+  const conflictSd = new Set(conflicts.map(n => n.sd));
+
+  const toggle = (set: Set<number>, index: number) => {
+    const next = new Set(set);
+    if (next.has(index)) next.delete(index);
+    else next.add(index);
+    return next;
+  };
+
+  const merged = [
+    ...(localNotes ?? []).filter(n => selectedLocal.has(n.index)).map(n => ({ ...n, from: 'Local' })),
+    ...(sdNotes ?? []).filter(n => selectedSd.has(n.index)).map(n => ({ ...n, from: 'SD' })),
+  ];
+  const pagesNeeded = merged.reduce((sum, n) => sum + n.pageCount, 0);
+  const duplicateKeys = new Set(
+    merged.map(noteKey).filter((key, i, keys) => keys.indexOf(key) !== i)
+  );
+  const overCapacity = pagesNeeded > PAK_DATA_PAGES || merged.length > PAK_MAX_NOTES;
+
+  const handleMerge = async () => {
+    try {
+      setMerging(true);
+      setError(null);
+      const response = await fetch(`/api/cartridges/${cartId}/game-pak/merge`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sdCardPath,
+          local: Array.from(selectedLocal),
+          sd: Array.from(selectedSd),
+          title: gameName,
+        }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Merge failed');
+      }
+      onMerged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Merge failed');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const renderColumn = (
+    title: string,
+    notes: GamePakNote[] | null,
+    selected: Set<number>,
+    conflicted: Set<number | undefined>,
+    onToggle: (index: number) => void
+  ) => (
+    <div className="merge-column">
+      <h5 className="text-label">{title}</h5>
+      {notes === null ? (
+        <p className="text-muted">Loading...</p>
+      ) : notes.length === 0 ? (
+        <p className="text-muted">No saves</p>
+      ) : (
+        notes.map((note) => (
+          <label
+            key={note.index}
+            className={`merge-note ${note.chainError ? 'disabled' : ''} ${conflicted.has(note.index) ? 'conflict' : ''}`}
+          >
+            <input
+              type="checkbox"
+              checked={selected.has(note.index)}
+              disabled={!!note.chainError}
+              onChange={() => onToggle(note.index)}
+            />
+            <span className="merge-note-name">{note.name || note.gameCode}</span>
+            <span className="merge-note-pages">{note.pageCount}p</span>
+          </label>
+        ))
+      )}
+    </div>
+  );
+
+  return (
+    <div className="merge-view">
+      {plan && (
+        <p className="merge-base">
+          {plan.base
+            ? `Compared against the backup "${plan.base.name}" from ${new Date(plan.base.createdAt).toLocaleString()}. `
+            : 'No common backup found, so every difference needs a choice. '}
+          {plan.conflicts > 0
+            ? `${plan.conflicts} save(s) changed on both sides are highlighted.`
+            : 'No saves changed on both sides.'}
+        </p>
+      )}
+      <div className="merge-columns">
+        {renderColumn('Local', localNotes, selectedLocal, conflictLocal, (i) => setSelectedLocal(toggle(selectedLocal, i)))}
+        {renderColumn('SD Card', sdNotes, selectedSd, conflictSd, (i) => setSelectedSd(toggle(selectedSd, i)))}
+        <div className="merge-column merge-result">
+          <h5 className="text-label">Merged</h5>
+          {merged.length === 0 ? (
+            <p className="text-muted">No saves selected</p>
+          ) : (
+            merged.map((note) => (
+              <div
+                key={`${note.from}-${note.index}`}
+                className={`merge-note ${duplicateKeys.has(noteKey(note)) ? 'duplicate' : ''}`}
+              >
+                <span className="merge-note-name">{note.name || note.gameCode}</span>
+                <span className="merge-note-pages">{note.from}</span>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      <p className={`merge-capacity ${overCapacity ? 'over' : ''}`}>
+        {pagesNeeded} / {PAK_DATA_PAGES} pages • {merged.length} / {PAK_MAX_NOTES} saves
+        {duplicateKeys.size > 0 && ' • the same save is selected from both sides'}
+      </p>
+
+      {error && <div className="error-message">{error}</div>}
+
+      <div className="conflict-options">
+        <button className="btn-ghost" onClick={onCancel} disabled={merging}>
+          Cancel
+        </button>
+        <button
+          className="btn-primary"
+          onClick={handleMerge}
+          disabled={merging || overCapacity || duplicateKeys.size > 0 || localNotes === null || sdNotes === null}
+        >
+          {merging ? 'Merging...' : 'Merge & Write to Both'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
 export function GamePakTab({ cartId, sdCardPath, gameName }: GamePakTabProps) {
   const [info, setInfo] = useState<GamePakInfoResponse | null>(null);
   const [loading, setLoading] = useState(true);
@@ -1395,6 +1904,8 @@ export function GamePakTab({ cartId, sdCardPath, gameName }: GamePakTabProps) {
   const [downloading, setDownloading] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [syncing, setSyncing] = useState(false);
+  const [repairing, setRepairing] = useState(false);
+  const [merging, setMerging] = useState(false);
   const [conflictState, setConflictState] = useState<GamePakConflictResolution>('resolved');
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -1408,6 +1919,20 @@ export function GamePakTab({ cartId, sdCardPath, gameName }: GamePakTabProps) {
   const [editingBackupId, setEditingBackupId] = useState<string | null>(null);
   const [editBackupName, setEditBackupName] = useState('');
   const [editBackupDescription, setEditBackupDescription] = useState('');
+  const [showTimeline, setShowTimeline] = useState(false);
+  const [timeline, setTimeline] = useState<GamePakTimelineEntry[] | null>(null);
+
+  // Named pak slots and the pak library
+  const [slots, setSlots] = useState<GamePakInfoItem[]>([]);
+  const [showSlotForm, setShowSlotForm] = useState(false);
+  const [newSlotName, setNewSlotName] = useState('');
+  const [newSlotSource, setNewSlotSource] = useState<'empty' | 'active'>('empty');
+  const [slotBusy, setSlotBusy] = useState(false);
+  const [showPakLibrary, setShowPakLibrary] = useState(false);
+
+  // Notes (individual saves) stored in the pak
+  const [notes, setNotes] = useState<GamePakNotesResponse | null>(null);
+  const noteInputRef = useRef<HTMLInputElement>(null);
 
   // Update conflict state when info changes
   useEffect(() => {
@@ -1463,6 +1988,44 @@ export function GamePakTab({ cartId, sdCardPath, gameName }: GamePakTabProps) {
     fetchBackups();
   }, [fetchBackups]);
 
+  // Fetch named pak slots
+  const fetchSlots = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/cartridges/${cartId}/game-pak/slots`);
+      if (response.ok) {
+        const data = await response.json();
+        setSlots(data.slots || []);
+      }
+    } catch {
+      // Silently fail - slots are optional
+    }
+  }, [cartId]);
+
+  useEffect(() => {
+    fetchSlots();
+  }, [fetchSlots]);
+
+  // Fetch notes from the local pak, falling back to the SD card pak
+  useEffect(() => {
+    const source = info?.local?.saveInfo ? 'local' : info?.sd?.saveInfo ? 'sd' : null;
+
+    const fetchNotes = async () => {
+      if (!source) {
+        setNotes(null);
+        return;
+      }
+      try {
+        const params = new URLSearchParams({ source });
+        if (source === 'sd' && sdCardPath) params.set('sdCardPath', sdCardPath);
+        const response = await fetch(`/api/cartridges/${cartId}/game-pak/notes?${params}`);
+        setNotes(response.ok ? await response.json() : null);
+      } catch {
+        setNotes(null);
+      }
+    };
+    fetchNotes();
+  }, [cartId, sdCardPath, info]);
+
   const handleDownloadFromSD = async () => {
     if (!sdCardPath) return;
     try {
@@ -1487,6 +2050,12 @@ export function GamePakTab({ cartId, sdCardPath, gameName }: GamePakTabProps) {
 
   const handleUploadToSD = async () => {
     if (!sdCardPath) return;
+    if (
+      info?.local?.integrity && !info.local.integrity.valid &&
+      !confirm('The local game pak has filesystem errors. Upload it to the SD card anyway?')
+    ) {
+      return;
+    }
     try {
       setUploading(true);
       setError(null);
@@ -1507,6 +2076,26 @@ export function GamePakTab({ cartId, sdCardPath, gameName }: GamePakTabProps) {
     }
   };
 
+  const handleRepair = async () => {
+    try {
+      setRepairing(true);
+      setError(null);
+      const response = await fetch(`/api/cartridges/${cartId}/game-pak/repair`, {
+        method: 'POST',
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Repair failed');
+      }
+      await fetchInfo();
+      await fetchBackups();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Repair failed');
+    } finally {
+      setRepairing(false);
+    }
+  };
+
   const handleImportFile = async (file: File) => {
     try {
       setError(null);
@@ -1526,9 +2115,10 @@ export function GamePakTab({ cartId, sdCardPath, gameName }: GamePakTabProps) {
     }
   };
 
-  const handleExport = async () => {
+  const handleExport = async (slot?: string) => {
     try {
-      const response = await fetch(`/api/cartridges/${cartId}/game-pak/export`);
+      const query = slot ? `?${new URLSearchParams({ slot })}` : '';
+      const response = await fetch(`/api/cartridges/${cartId}/game-pak/export${query}`);
       if (!response.ok) {
         const data = await response.json();
         throw new Error(data.error || 'Export failed');
@@ -1537,7 +2127,7 @@ export function GamePakTab({ cartId, sdCardPath, gameName }: GamePakTabProps) {
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${cartId}-controller_pak.img`;
+      a.download = slot ? `${cartId}-controller_pak-${slot}.img` : `${cartId}-controller_pak.img`;
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
@@ -1547,30 +2137,77 @@ export function GamePakTab({ cartId, sdCardPath, gameName }: GamePakTabProps) {
     }
   };
 
-  const handleDelete = async () => {
-    if (!confirm('Delete local game pak? This cannot be undone.')) return;
+  const handleExportNote = async (note: GamePakNote, format: 'note' | 'n64') => {
+    if (!notes) return;
     try {
       setError(null);
-      const response = await fetch(`/api/cartridges/${cartId}/game-pak`, { method: 'DELETE' });
+      const params = new URLSearchParams({ format, source: notes.source });
+      if (notes.source === 'sd' && sdCardPath) params.set('sdCardPath', sdCardPath);
+      const response = await fetch(`/api/cartridges/${cartId}/game-pak/notes/${note.index}/export?${params}`);
       if (!response.ok) {
         const data = await response.json();
-        throw new Error(data.error || 'Delete failed');
+        throw new Error(data.error || 'Export failed');
       }
-      await fetchInfo();
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${note.gameCode}-${note.name || `note${note.index}`}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Delete failed');
+      setError(err instanceof Error ? err.message : 'Export failed');
     }
   };
 
-  const handleResolveConflict = async (choice: 'use-local' | 'use-sd') => {
-    if (!sdCardPath) return;
-    setSyncing(true);
-    setError(null);
-
+  const handleImportNote = async (file: File) => {
     try {
-      if (choice === 'use-local') {
-        // Upload local to SD
-        const response = await fetch(`/api/cartridges/${cartId}/game-pak/upload`, {
+      setError(null);
+      const formData = new FormData();
+      formData.append('note', file);
+      if (gameName) formData.append('title', gameName);
+      const response = await fetch(`/api/cartridges/${cartId}/game-pak/notes/import`, {
+        method: 'POST',
+        body: formData,
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Import failed');
+      }
+      await fetchInfo();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      if (noteInputRef.current) noteInputRef.current.value = '';
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Delete local game pak? This cannot be undone.')) return;
+    try {
+      setError(null);
+      const response = await fetch(`/api/cartridges/${cartId}/game-pak`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Delete failed');
+      }
+      await fetchInfo();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Delete failed');
+    }
+  };
+
+  const handleResolveConflict = async (choice: 'use-local' | 'use-sd') => {
+    if (!sdCardPath) return;
+    setSyncing(true);
+    setError(null);
+
+    try {
+      if (choice === 'use-local') {
+        // Upload local to SD
+        const response = await fetch(`/api/cartridges/${cartId}/game-pak/upload`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ sdCardPath, title: gameName }),
@@ -1721,6 +2358,92 @@ export function GamePakTab({ cartId, sdCardPath, gameName }: GamePakTabProps) {
     }
   };
 
+  const handleCreateSlot = async () => {
+    try {
+      setSlotBusy(true);
+      setError(null);
+      const response = await fetch(`/api/cartridges/${cartId}/game-pak/slots`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ slot: newSlotName, source: newSlotSource, title: gameName }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to create pak slot');
+      }
+      setNewSlotName('');
+      setShowSlotForm(false);
+      await fetchSlots();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create pak slot');
+    } finally {
+      setSlotBusy(false);
+    }
+  };
+
+  const handleSwapSlot = async (slot: string) => {
+    const message = sdCardPath
+      ? `Make "${slot}" the active pak? The current active pak moves to "${slot}", and the new active pak is copied to the SD card.`
+      : `Make "${slot}" the active pak? The current active pak moves to "${slot}".`;
+    if (!confirm(message)) return;
+    try {
+      setSlotBusy(true);
+      setError(null);
+      const response = await fetch(`/api/cartridges/${cartId}/game-pak/slots/${encodeURIComponent(slot)}/swap`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sdCardPath, title: gameName }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to swap pak slot');
+      }
+      await Promise.all([fetchInfo(), fetchSlots()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to swap pak slot');
+    } finally {
+      setSlotBusy(false);
+    }
+  };
+
+  const handleDeleteSlot = async (slot: string) => {
+    if (!confirm(`Delete pak slot "${slot}"? An automatic backup is kept.`)) return;
+    try {
+      setError(null);
+      const response = await fetch(`/api/cartridges/${cartId}/game-pak/slots/${encodeURIComponent(slot)}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete pak slot');
+      }
+      await Promise.all([fetchSlots(), fetchBackups()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete pak slot');
+    }
+  };
+
+  const handleToggleTimeline = async () => {
+    if (showTimeline) {
+      setShowTimeline(false);
+      return;
+    }
+    setShowTimeline(true);
+    setTimeline(null);
+    try {
+      const response = await fetch(`/api/cartridges/${cartId}/game-pak/timeline`);
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to load history');
+      }
+      const data = await response.json();
+      setTimeline(data.timeline);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+      setShowTimeline(false);
+    }
+  };
+
   const startEditBackup = (backup: GamePakBackup) => {
     setEditingBackupId(backup.id);
     setEditBackupName(backup.name);
@@ -1735,6 +2458,13 @@ export function GamePakTab({ cartId, sdCardPath, gameName }: GamePakTabProps) {
   const hasSD = info?.sd?.exists;
   const localSaveInfo = info?.local?.saveInfo;
   const sdSaveInfo = info?.sd?.saveInfo;
+  const integrityReports: { label: string; source: 'local' | 'sd'; integrity: GamePakIntegrity }[] = [];
+  if (info?.local?.integrity?.issues.length) {
+    integrityReports.push({ label: 'Local', source: 'local', integrity: info.local.integrity });
+  }
+  if (info?.sd?.integrity?.issues.length) {
+    integrityReports.push({ label: 'SD Card', source: 'sd', integrity: info.sd.integrity });
+  }
 
   return (
     <div className="tab-content gamepak-tab">
@@ -1769,6 +2499,31 @@ export function GamePakTab({ cartId, sdCardPath, gameName }: GamePakTabProps) {
         </div>
       )}
 
+      {/* Filesystem Integrity */}
+      {integrityReports.map(({ label, source, integrity }) => (
+        <div
+          key={source}
+          className={`integrity-report ${integrity.valid ? 'has-warnings' : 'has-errors'}`}
+        >
+          <h4>
+            {label} Game Pak {integrity.valid ? 'Has Warnings' : 'Is Corrupted'}
+          </h4>
+          <ul className="integrity-issues">
+            {integrity.issues.map((issue, i) => (
+              <li key={i} className={`integrity-issue ${issue.severity}`}>
+                {issue.message}
+                {!issue.repairable && <span className="text-muted"> (cannot be repaired automatically)</span>}
+              </li>
+            ))}
+          </ul>
+          {source === 'local' && integrity.repairable && (
+            <button className="btn-secondary" onClick={handleRepair} disabled={repairing}>
+              {repairing ? 'Repairing...' : 'Repair Local Game Pak'}
+            </button>
+          )}
+        </div>
+      ))}
+
       {/* Conflict Resolution UI */}
       {conflictState === 'pending' && (
         <div className="conflict-resolution">
@@ -1791,8 +2546,30 @@ export function GamePakTab({ cartId, sdCardPath, gameName }: GamePakTabProps) {
               <span className="conflict-btn-title">Use SD Card Game Pak</span>
               <span className="conflict-btn-desc">Replace local with SD card save</span>
             </button>
+            <button
+              className="btn-secondary conflict-btn"
+              onClick={() => setMerging(true)}
+              disabled={syncing || merging}
+            >
+              <span className="conflict-btn-title">Merge Saves</span>
+              <span className="conflict-btn-desc">Pick which saves to keep from each</span>
+            </button>
           </div>
           {syncing && <p className="syncing-message">Syncing...</p>}
+          {merging && sdCardPath && (
+            <GamePakMergeView
+              cartId={cartId}
+              sdCardPath={sdCardPath}
+              gameName={gameName}
+              onCancel={() => setMerging(false)}
+              onMerged={async () => {
+                setMerging(false);
+                setConflictState('resolved');
+                await fetchInfo();
+                await fetchBackups();
+              }}
+            />
+          )}
         </div>
       )}
 
@@ -1827,6 +2604,49 @@ export function GamePakTab({ cartId, sdCardPath, gameName }: GamePakTabProps) {
         </div>
       )}
 
+      {/* Notes (individual game saves) */}
+      {notes && (
+        <div className="gamepak-notes">
+          <h4 className="text-label">
+            Saves on {notes.source === 'local' ? 'Local' : 'SD Card'} Game Pak
+          </h4>
+          {notes.notes.length === 0 ? (
+            <p className="text-muted">No saves on this game pak.</p>
+          ) : (
+            <ul className="gamepak-notes-list">
+              {notes.notes.map((note) => (
+                <li key={note.index} className="gamepak-note">
+                  <div className="gamepak-note-info">
+                    <span className="gamepak-note-title">
+                      {note.gameName || note.name || note.gameCode}
+                    </span>
+                    <span className="gamepak-note-meta">
+                      {note.name}{note.extension && `.${note.extension}`} • {note.gameCode}-{note.publisherCode}
+                    </span>
+                    {note.chainError && (
+                      <span className="gamepak-note-error">{note.chainError}</span>
+                    )}
+                  </div>
+                  <span className="gamepak-note-pages">
+                    {note.pageCount} {note.pageCount === 1 ? 'page' : 'pages'}
+                  </span>
+                  {!note.chainError && (
+                    <div className="gamepak-note-actions">
+                      <button className="btn-ghost" onClick={() => handleExportNote(note, 'note')}>
+                        .note
+                      </button>
+                      <button className="btn-ghost" onClick={() => handleExportNote(note, 'n64')}>
+                        .n64
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {error && <div className="error-message">{error}</div>}
 
       <div className="action-buttons">
@@ -1857,9 +2677,16 @@ export function GamePakTab({ cartId, sdCardPath, gameName }: GamePakTabProps) {
           Import from File
         </button>
 
+        <button
+          className="btn-secondary"
+          onClick={() => noteInputRef.current?.click()}
+        >
+          Import Save
+        </button>
+
         {hasLocal && (
           <>
-            <button className="btn-secondary" onClick={handleExport}>
+            <button className="btn-secondary" onClick={() => handleExport()}>
               Export
             </button>
             <button className="btn-ghost btn-danger-text" onClick={handleDelete}>
@@ -1877,6 +2704,14 @@ export function GamePakTab({ cartId, sdCardPath, gameName }: GamePakTabProps) {
         style={{ display: 'none' }}
       />
 
+      <input
+        ref={noteInputRef}
+        type="file"
+        accept=".note,.n64"
+        onChange={(e) => e.target.files?.[0] && handleImportNote(e.target.files[0])}
+        style={{ display: 'none' }}
+      />
+
       {!hasLocal && !hasSD && (
         <p className="empty-message">
           No game pak (controller pak save) available for this cartridge.
@@ -1884,20 +2719,190 @@ export function GamePakTab({ cartId, sdCardPath, gameName }: GamePakTabProps) {
         </p>
       )}
 
-      {/* Backups Section */}
+      {/* Pak Slots Section */}
       <div className="backups-section">
         <div className="backups-header">
-          <h4 className="text-label">Backups</h4>
-          {hasLocal && (
+          <h4 className="text-label">Pak Slots</h4>
+          <div className="backups-header-actions">
+            <button className="btn-ghost btn-sm" onClick={() => setShowPakLibrary(true)}>
+              Pak Library
+            </button>
+            <button className="btn-ghost btn-sm" onClick={() => setShowSlotForm(!showSlotForm)}>
+              {showSlotForm ? 'Cancel' : '+ New Slot'}
+            </button>
+          </div>
+        </div>
+
+        {showSlotForm && (
+          <div className="backup-form">
+            <input
+              type="text"
+              placeholder="Slot name, e.g. player-2"
+              value={newSlotName}
+              onChange={(e) => setNewSlotName(e.target.value)}
+              className="backup-input"
+              maxLength={32}
+            />
+            <select
+              value={newSlotSource}
+              onChange={(e) => setNewSlotSource(e.target.value as 'empty' | 'active')}
+              className="backup-input"
+            >
+              <option value="empty">Empty pak</option>
+              {hasLocal && <option value="active">Copy of the active pak</option>}
+            </select>
             <button
-              className="btn-ghost btn-sm"
-              onClick={() => setShowBackupForm(!showBackupForm)}
+              className="btn-primary btn-sm"
+              onClick={handleCreateSlot}
+              disabled={slotBusy || !newSlotName.trim()}
             >
-              {showBackupForm ? 'Cancel' : '+ Create Backup'}
+              {slotBusy ? 'Creating...' : 'Create Slot'}
             </button>
-          )}
+          </div>
+        )}
+
+        {slots.length === 0 ? (
+          <p className="empty-message">
+            The A3D only loads the active pak (controller_pak.img). Add slots to keep extra paks for this game, e.g. one per player.
+          </p>
+        ) : (
+          <div className="backups-list">
+            {slots.map((slot) => slot.slot && (
+              <div key={slot.slot} className="backup-item">
+                <div className="backup-info">
+                  <span className="backup-name">{slot.slot}</span>
+                  <span className="backup-date">
+                    {slot.lastModified && new Date(slot.lastModified).toLocaleDateString()}
+                  </span>
+                  {slot.saveInfo && (
+                    <span className="backup-description">
+                      {slot.saveInfo.pagesUsed} pages used ({slot.saveInfo.percentUsed}%)
+                    </span>
+                  )}
+                </div>
+                <div className="backup-actions">
+                  <button
+                    className="btn-ghost btn-sm"
+                    onClick={() => slot.slot && handleSwapSlot(slot.slot)}
+                    disabled={slotBusy}
+                    title="Swap this slot with the active pak"
+                  >
+                    Make Active
+                  </button>
+                  <button
+                    className="btn-ghost btn-sm"
+                    onClick={() => handleExport(slot.slot)}
+                    title="Download this pak"
+                  >
+                    Export
+                  </button>
+                  <button
+                    className="btn-ghost btn-sm btn-danger-text"
+                    onClick={() => slot.slot && handleDeleteSlot(slot.slot)}
+                    title="Delete this slot"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <PakLibraryModal
+        isOpen={showPakLibrary}
+        onClose={() => setShowPakLibrary(false)}
+        onLoaded={() => {
+          fetchInfo();
+          fetchSlots();
+          fetchBackups();
+        }}
+        cartId={cartId}
+        gameName={gameName}
+        sdCardPath={sdCardPath}
+        slots={slots.flatMap(slot => (slot.slot ? [slot.slot] : []))}
+        hasActivePak={!!hasLocal}
+      />
+
+      {/* Backups Section */}
+      <div className="backups-section">
+        <div className="backups-header">
+          <h4 className="text-label">Backups</h4>
+          <div className="backups-header-actions">
+            {backups.length > 0 && (
+              <button className="btn-ghost btn-sm" onClick={handleToggleTimeline}>
+                {showTimeline ? 'Hide History' : 'History'}
+              </button>
+            )}
+            {hasLocal && (
+              <button
+                className="btn-ghost btn-sm"
+                onClick={() => setShowBackupForm(!showBackupForm)}
+              >
+                {showBackupForm ? 'Cancel' : '+ Create Backup'}
+              </button>
+            )}
+          </div>
         </div>
 
+        {showTimeline && (
+          <div className="backup-timeline">
+            {!timeline ? (
+              <p className="loading-text">Comparing backups...</p>
+            ) : (
+              [...timeline].reverse().map((entry) => (
+                <div
+                  key={entry.backup?.id ?? 'current'}
+                  className={`timeline-entry ${entry.valid ? '' : 'is-corrupt'}`}
+                >
+                  <div className="timeline-entry-header">
+                    <span className="backup-name">{entry.backup ? entry.backup.name : 'Current local pak'}</span>
+                    <span className="backup-date">{new Date(entry.createdAt).toLocaleString()}</span>
+                  </div>
+                  <div className="timeline-entry-meta">
+                    {entry.noteCount} saves, {entry.pagesUsed} pages used
+                    {!entry.valid && ` · ${entry.issueCount} integrity issue${entry.issueCount === 1 ? '' : 's'}`}
+                  </div>
+                  {entry.diff ? (
+                    <div className="timeline-entry-diff">
+                      {entry.diff.byteDelta === 0 ? (
+                        <span>No changes</span>
+                      ) : (
+                        <span>
+                          {entry.diff.changedPages.length} pages changed ({entry.diff.byteDelta} bytes)
+                          {entry.diff.pagesAdded.length > 0 && `, ${entry.diff.pagesAdded.length} allocated`}
+                          {entry.diff.pagesFreed.length > 0 && `, ${entry.diff.pagesFreed.length} freed`}
+                        </span>
+                      )}
+                      {entry.diff.notes.map((change, i) => (
+                        <span key={i} className={`timeline-note-change change-${change.change}`}>
+                          {change.change === 'added' ? '+' : change.change === 'removed' ? '−' : '~'}{' '}
+                          {change.name || change.gameCode}
+                          {change.pagesBefore !== change.pagesAfter && ` (${change.pagesBefore} → ${change.pagesAfter} pages)`}
+                        </span>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="timeline-entry-diff">Oldest backup</div>
+                  )}
+                  {entry.backup && (
+                    <div className="backup-actions">
+                      <button
+                        className="btn-ghost btn-sm"
+                        onClick={() => entry.backup && handleRestoreBackup(entry.backup.id, entry.backup.name)}
+                        title="Restore this backup"
+                      >
+                        Restore
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        )}
+
         {showBackupForm && (
           <div className="backup-form">
             <input
@@ -1967,7 +2972,10 @@ export function GamePakTab({ cartId, sdCardPath, gameName }: GamePakTabProps) {
                 ) : (
                   <>
                     <div className="backup-info">
-                      <span className="backup-name">{backup.name}</span>
+                      <span className="backup-name">
+                        {backup.name}
+                        {backup.tags?.includes('auto') && <span className="backup-tag">Auto</span>}
+                      </span>
                       <span className="backup-date">
                         {new Date(backup.createdAt).toLocaleDateString()}
                       </span>
@@ -2024,3 +3032,399 @@ export function GamePakTab({ cartId, sdCardPath, gameName }: GamePakTabProps) {
     </div>
   );
 }
+
+// ============================================================================
+// Cartridge Save Tab
+// ============================================================================
+
+type CartridgeSaveType = 'eeprom4k' | 'eeprom16k' | 'sram' | 'flashram';
+type SaveByteOrder = 'big-endian' | 'little-endian' | 'byte-swapped';
+
+interface CartridgeSaveInfo {
+  exists: boolean;
+  path: string;
+  saveType?: CartridgeSaveType;
+  label?: string;
+  size?: number;
+  lastModified?: string;
+  md5Hash?: string;
+}
+
+interface CartridgeSaveBackup {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  md5Hash: string;
+  size: number;
+  saveType: CartridgeSaveType;
+}
+
+const SAVE_TYPE_OPTIONS: { value: CartridgeSaveType | ''; label: string }[] = [
+  { value: '', label: 'Detect from size' },
+  { value: 'eeprom4k', label: 'EEPROM 4Kbit (512 B)' },
+  { value: 'eeprom16k', label: 'EEPROM 16Kbit (2 KB)' },
+  { value: 'sram', label: 'SRAM (32 KB)' },
+  { value: 'flashram', label: 'FlashRAM (128 KB)' },
+];
+
+const BYTE_ORDER_OPTIONS: { value: SaveByteOrder; label: string }[] = [
+  { value: 'big-endian', label: 'Big-endian (native)' },
+  { value: 'little-endian', label: 'Little-endian (word-swapped)' },
+  { value: 'byte-swapped', label: 'Byte-swapped' },
+];
+
+interface CartridgeSaveTabProps {
+  cartId: string;
+  gameName?: string;
+}
+
+function CartridgeSaveTab({ cartId, gameName }: CartridgeSaveTabProps) {
+  const [info, setInfo] = useState<CartridgeSaveInfo | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saveType, setSaveType] = useState<CartridgeSaveType | ''>('');
+  const [byteOrder, setByteOrder] = useState<SaveByteOrder>('big-endian');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const [backups, setBackups] = useState<CartridgeSaveBackup[]>([]);
+  const [showBackupForm, setShowBackupForm] = useState(false);
+  const [newBackupName, setNewBackupName] = useState('');
+  const [newBackupDescription, setNewBackupDescription] = useState('');
+  const [creatingBackup, setCreatingBackup] = useState(false);
+
+  const fetchInfo = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch(`/api/cartridges/${cartId}/cartridge-save`);
+      if (response.ok) {
+        setInfo(await response.json());
+      } else {
+        setInfo({ exists: false, path: '' });
+      }
+    } catch {
+      setError('Failed to load cartridge save info');
+    } finally {
+      setLoading(false);
+    }
+  }, [cartId]);
+
+  const fetchBackups = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/cartridges/${cartId}/cartridge-save/backups`);
+      if (response.ok) {
+        const data = await response.json();
+        setBackups(data.backups || []);
+      }
+    } catch {
+      // Backups are optional, ignore errors
+    }
+  }, [cartId]);
+
+  useEffect(() => {
+    fetchInfo();
+  }, [fetchInfo]);
+
+  useEffect(() => {
+    fetchBackups();
+  }, [fetchBackups]);
+
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImportFile = async (file: File) => {
+    if (info?.exists && !confirm('Replace the current cartridge save? Create a backup first if you want to keep it.')) {
+      if (inputRef.current) inputRef.current.value = '';
+      return;
+    }
+    try {
+      setError(null);
+      const formData = new FormData();
+      formData.append('save', file);
+      if (saveType) formData.append('saveType', saveType);
+      formData.append('byteOrder', byteOrder);
+      if (gameName) formData.append('title', gameName);
+      const response = await fetch(`/api/cartridges/${cartId}/cartridge-save/import`, {
+        method: 'POST',
+        body: formData,
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Import failed');
+      }
+      await fetchInfo();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      setError(null);
+      const params = new URLSearchParams({ byteOrder });
+      const response = await fetch(`/api/cartridges/${cartId}/cartridge-save/export?${params}`);
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Export failed');
+      }
+      const extension = info?.path.split('.').pop() || 'sav';
+      downloadBlob(await response.blob(), `${cartId}.${extension}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Delete local cartridge save? This cannot be undone.')) return;
+    try {
+      setError(null);
+      const response = await fetch(`/api/cartridges/${cartId}/cartridge-save`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Delete failed');
+      }
+      await fetchInfo();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Delete failed');
+    }
+  };
+
+  const handleCreateBackup = async () => {
+    try {
+      setCreatingBackup(true);
+      setError(null);
+      const response = await fetch(`/api/cartridges/${cartId}/cartridge-save/backups`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: newBackupName || undefined,
+          description: newBackupDescription || undefined,
+        }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to create backup');
+      }
+      setNewBackupName('');
+      setNewBackupDescription('');
+      setShowBackupForm(false);
+      await fetchBackups();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create backup');
+    } finally {
+      setCreatingBackup(false);
+    }
+  };
+
+  const handleRestoreBackup = async (backup: CartridgeSaveBackup) => {
+    if (!confirm(`Restore backup "${backup.name}"? This will replace your current cartridge save.`)) return;
+    try {
+      setError(null);
+      const response = await fetch(`/api/cartridges/${cartId}/cartridge-save/backups/${backup.id}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: gameName }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to restore backup');
+      }
+      await fetchInfo();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore backup');
+    }
+  };
+
+  const handleExportBackup = async (backup: CartridgeSaveBackup) => {
+    try {
+      const response = await fetch(`/api/cartridges/${cartId}/cartridge-save/backups/${backup.id}`);
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Export failed');
+      }
+      const sanitizedGameName = gameName ? gameName.replace(/[^a-z0-9]/gi, '_') : cartId;
+      const sanitizedBackupName = backup.name.replace(/[^a-z0-9]/gi, '_');
+      downloadBlob(await response.blob(), `${sanitizedGameName}-${sanitizedBackupName}.sav`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+  };
+
+  const handleDeleteBackup = async (backup: CartridgeSaveBackup) => {
+    if (!confirm(`Delete backup "${backup.name}"? This cannot be undone.`)) return;
+    try {
+      setError(null);
+      const response = await fetch(`/api/cartridges/${cartId}/cartridge-save/backups/${backup.id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete backup');
+      }
+      await fetchBackups();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete backup');
+    }
+  };
+
+  if (loading) {
+    return <div className="tab-content loading">Loading cartridge save info...</div>;
+  }
+
+  const hasLocal = info?.exists;
+
+  return (
+    <div className="tab-content cartsave-tab">
+      <div className="data-status">
+        <div className={`status-item ${hasLocal ? 'has-data' : ''}`}>
+          <span className="status-icon">{hasLocal ? '✓' : '○'}</span>
+          <span>Local Cartridge Save</span>
+          {info?.label && <span className="status-detail">({info.label})</span>}
+        </div>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+
+      <div className="cartsave-options">
+        <label>
+          <span className="text-label">Save Type</span>
+          <select value={saveType} onChange={(e) => setSaveType(e.target.value as CartridgeSaveType | '')}>
+            {SAVE_TYPE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          <span className="text-label">Byte Order</span>
+          <select value={byteOrder} onChange={(e) => setByteOrder(e.target.value as SaveByteOrder)}>
+            {BYTE_ORDER_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="action-buttons">
+        <button className="btn-secondary" onClick={() => inputRef.current?.click()}>
+          Import from File
+        </button>
+        {hasLocal && (
+          <>
+            <button className="btn-secondary" onClick={handleExport}>
+              Export
+            </button>
+            <button className="btn-ghost btn-danger-text" onClick={handleDelete}>
+              Delete Local
+            </button>
+          </>
+        )}
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".eep,.sra,.fla,.sav,.bin"
+        onChange={(e) => e.target.files?.[0] && handleImportFile(e.target.files[0])}
+        style={{ display: 'none' }}
+      />
+
+      {!hasLocal && (
+        <p className="empty-message">
+          No cartridge save for this cartridge. Import an EEPROM, SRAM or FlashRAM dump to keep it with your library.
+        </p>
+      )}
+
+      <div className="backups-section">
+        <div className="backups-header">
+          <h4 className="text-label">Backups</h4>
+          {hasLocal && (
+            <button
+              className="btn-ghost btn-sm"
+              onClick={() => setShowBackupForm(!showBackupForm)}
+            >
+              {showBackupForm ? 'Cancel' : '+ Create Backup'}
+            </button>
+          )}
+        </div>
+
+        {showBackupForm && (
+          <div className="backup-form">
+            <input
+              type="text"
+              placeholder="Backup name (optional)"
+              value={newBackupName}
+              onChange={(e) => setNewBackupName(e.target.value)}
+              className="backup-input"
+            />
+            <textarea
+              placeholder="Description (optional)"
+              value={newBackupDescription}
+              onChange={(e) => setNewBackupDescription(e.target.value)}
+              className="backup-textarea"
+              rows={2}
+            />
+            <button
+              className="btn-primary btn-sm"
+              onClick={handleCreateBackup}
+              disabled={creatingBackup}
+            >
+              {creatingBackup ? 'Creating...' : 'Create Backup'}
+            </button>
+          </div>
+        )}
+
+        {backups.length === 0 ? (
+          <p className="empty-message">
+            No backups yet.{hasLocal ? ' Create a backup to save your current cartridge save.' : ''}
+          </p>
+        ) : (
+          <div className="backups-list">
+            {[...backups].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()).map((backup) => (
+              <div key={backup.id} className="backup-item">
+                <div className="backup-info">
+                  <span className="backup-name">{backup.name}</span>
+                  <span className="backup-date">
+                    {new Date(backup.createdAt).toLocaleDateString()}
+                  </span>
+                  {backup.description && (
+                    <span className="backup-description">{backup.description}</span>
+                  )}
+                </div>
+                <div className="backup-actions">
+                  <button className="btn-ghost btn-sm" onClick={() => handleRestoreBackup(backup)} title="Restore this backup">
+                    Restore
+                  </button>
+                  <button className="btn-ghost btn-sm" onClick={() => handleExportBackup(backup)} title="Download this backup">
+                    Export
+                  </button>
+                  <button className="btn-ghost btn-sm btn-danger-text" onClick={() => handleDeleteBackup(backup)} title="Delete this backup">
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="info-box">
+        <h4 className="text-label">About Cartridge Saves</h4>
+        <p>
+          Many games save to the cartridge itself: EEPROM (4Kbit or 16Kbit), SRAM (32KB) or FlashRAM (128KB).
+          Saves are stored big-endian; pick the byte order of dumps from emulators or cart readers that swap words or bytes.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ interface ExportBundleModalProps {
   onClose: () => void;
   onExportComplete?: () => void;
   selectedCartIds?: string[]; // If provided, export only these carts
+  sdCardPath?: string; // If provided, the SD card's global settings are backed up before export
 }
 
 export function ExportBundleModal({
@@ -13,12 +14,17 @@ export function ExportBundleModal({
   onClose,
   onExportComplete,
   selectedCartIds,
+  sdCardPath,
 }: ExportBundleModalProps) {
   const [includeLabels, setIncludeLabels] = useState(true);
   const [includeOwnership, setIncludeOwnership] = useState(true);
   const [includeSettings, setIncludeSettings] = useState(true);
   const [includeGamePaks, setIncludeGamePaks] = useState(true);
   const [includeGamePakBackups, setIncludeGamePakBackups] = useState(true);
+  const [includeCartridgeSaves, setIncludeCartridgeSaves] = useState(true);
+  const [includePresets, setIncludePresets] = useState(true);
+  const [includePakLibrary, setIncludePakLibrary] = useState(true);
+  const [includeGlobalSettings, setIncludeGlobalSettings] = useState(true);
   const [exporting, setExporting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -32,6 +38,10 @@ export function ExportBundleModal({
       setIncludeSettings(true);
       setIncludeGamePaks(true);
       setIncludeGamePakBackups(true);
+      setIncludeCartridgeSaves(true);
+      setIncludePresets(true);
+      setIncludePakLibrary(true);
+      setIncludeGlobalSettings(true);
       setError(null);
     }
   }, [isOpen]);
@@ -47,6 +57,11 @@ export function ExportBundleModal({
         includeSettings,
         includeGamePaks,
         includeGamePakBackups,
+        includeCartridgeSaves,
+        includePresets: !isSelectionExport && includePresets,
+        includePakLibrary: !isSelectionExport && includePakLibrary,
+        includeGlobalSettings: !isSelectionExport && includeGlobalSettings,
+        ...(!isSelectionExport && sdCardPath && { sdCardPath }),
         ...(isSelectionExport && { cartIds: selectedCartIds }),
       };
 
@@ -100,7 +115,7 @@ export function ExportBundleModal({
           <Button
             variant="primary"
             onClick={handleExport}
-            disabled={exporting || (!includeLabels && !includeOwnership && !includeSettings && !includeGamePaks && !includeGamePakBackups)}
+            disabled={exporting || (!includeLabels && !includeOwnership && !includeSettings && !includeGamePaks && !includeGamePakBackups && !includeCartridgeSaves && (isSelectionExport || (!includePresets && !includePakLibrary && !includeGlobalSettings)))}
             loading={exporting}
           >
             Export
@@ -190,6 +205,24 @@ export function ExportBundleModal({
           </div>
         </label>
 
+        <label className="export-option">
+          <input
+            type="checkbox"
+            checked={includeCartridgeSaves}
+            onChange={(e) => setIncludeCartridgeSaves(e.target.checked)}
+            disabled={exporting}
+          />
+          <div className="option-content">
+            <span className="option-label">Cartridge Saves</span>
+            <span className="option-desc">
+              {isSelectionExport
+                ? 'EEPROM, SRAM and FlashRAM saves and backups for selected cartridges'
+                : 'EEPROM, SRAM and FlashRAM saves and their backups'
+              }
+            </span>
+          </div>
+        </label>
+
         <label className="export-option">
           <input
             type="checkbox"
@@ -207,6 +240,55 @@ export function ExportBundleModal({
             </span>
           </div>
         </label>
+
+        {!isSelectionExport && (
+          <label className="export-option">
+            <input
+              type="checkbox"
+              checked={includePresets}
+              onChange={(e) => setIncludePresets(e.target.checked)}
+              disabled={exporting}
+            />
+            <div className="option-content">
+              <span className="option-label">Settings Presets</span>
+              <span className="option-desc">Your named display and hardware presets</span>
+            </div>
+          </label>
+        )}
+
+        {!isSelectionExport && (
+          <label className="export-option">
+            <input
+              type="checkbox"
+              checked={includePakLibrary}
+              onChange={(e) => setIncludePakLibrary(e.target.checked)}
+              disabled={exporting}
+            />
+            <div className="option-content">
+              <span className="option-label">Pak Library</span>
+              <span className="option-desc">Standalone controller paks not tied to a cartridge</span>
+            </div>
+          </label>
+        )}
+
+        {!isSelectionExport && (
+          <label className="export-option">
+            <input
+              type="checkbox"
+              checked={includeGlobalSettings}
+              onChange={(e) => setIncludeGlobalSettings(e.target.checked)}
+              disabled={exporting}
+            />
+            <div className="option-content">
+              <span className="option-label">Global Settings</span>
+              <span className="option-desc">
+                {sdCardPath
+                  ? "Backups of the console's Settings/Global directory, including the SD card's current files"
+                  : "Backups of the console's Settings/Global directory"}
+              </span>
+            </div>
+          </label>
+        )}
       </div>
 
       {error && <div className="error-message">{error}</div>}
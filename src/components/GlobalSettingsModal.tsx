@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { Modal, Button } from './ui';
+import {
+  formatGlobalSettingsContent,
+  type GlobalSettingsFile,
+  type GlobalSettingsFileContent,
+} from '../lib/globalSettings';
+import './GlobalSettingsModal.css';
+
+type GlobalSettingsSource =
+  | { kind: 'sd'; sdCardPath: string }
+  | { kind: 'backup'; backupId: string };
+
+interface GlobalSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  source: GlobalSettingsSource;
+  files: GlobalSettingsFile[];
+}
+
+function getFileUrl(source: GlobalSettingsSource, filePath: string): string {
+  return source.kind === 'sd'
+    ? `/api/global-settings/sd/file?${new URLSearchParams({ sdCardPath: source.sdCardPath, path: filePath })}`
+    : `/api/global-settings/backups/${source.backupId}/file?${new URLSearchParams({ path: filePath })}`;
+}
+
+export function GlobalSettingsModal({ isOpen, onClose, title, source, files }: GlobalSettingsModalProps) {
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [content, setContent] = useState<GlobalSettingsFileContent | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setSelectedPath(null);
+    setContent(null);
+    setError(null);
+    onClose();
+  };
+
+  const handleSelect = async (filePath: string) => {
+    setSelectedPath(filePath);
+    setContent(null);
+    setError(null);
+    setLoading(true);
+    try {
+      const response = await fetch(getFileUrl(source, filePath));
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to read file');
+      }
+      setContent(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={title}
+      size="lg"
+      footer={
+        <Button variant="secondary" onClick={handleClose}>
+          Close
+        </Button>
+      }
+    >
+      <div className="global-settings-viewer">
+        <ul className="global-settings-files">
+          {files.map(file => (
+            <li key={file.path}>
+              <button
+                className={`global-settings-file ${file.path === selectedPath ? 'selected' : ''}`}
+                onClick={() => handleSelect(file.path)}
+              >
+                <span className="global-settings-file-name">{file.path}</span>
+                <span className="global-settings-file-size">{file.size} B</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="global-settings-content">
+          {!selectedPath ? (
+            <p className="global-settings-hint">Select a file to view it.</p>
+          ) : loading ? (
+            <p className="loading-text">Loading...</p>
+          ) : content ? (
+            <>
+              <p className="global-settings-hint">
+                {content.format === 'json' ? 'JSON' : content.format === 'text' ? 'Text' : 'Binary (hex)'}
+                {' · '}{content.size} bytes
+                {content.truncated && ', only the start is shown'}
+              </p>
+              <pre className="global-settings-pre">{formatGlobalSettingsContent(content)}</pre>
+            </>
+          ) : null}
+          {error && <div className="error-message">{error}</div>}
+        </div>
+      </div>
+    </Modal>
+  );
+}
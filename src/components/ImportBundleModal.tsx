@@ -11,6 +11,12 @@ interface BundleManifest {
     settingsCount: number;
     gamePaksCount: number;
     gamePakBackupsCount: number;
+    cartridgeSavesCount?: number;
+    cartridgeSaveBackupsCount?: number;
+    presetsCount?: number;
+    gamePakSlotsCount?: number;
+    pakLibraryCount?: number;
+    globalSettingsBackupsCount?: number;
     cartIds: string[];
   };
 }
@@ -22,6 +28,11 @@ interface ImportResult {
   settingsImported: { added: number; skipped: number; overwritten: number };
   gamePaksImported: { added: number; skipped: number; overwritten: number };
   gamePakBackupsImported: { added: number; skipped: number; merged: number };
+  cartridgeSavesImported: { added: number; skipped: number; overwritten: number };
+  cartridgeSaveBackupsImported: { added: number; skipped: number };
+  presetsImported?: { added: number; skipped: number; overwritten: number };
+  pakLibraryImported?: { added: number; skipped: number };
+  globalSettingsImported?: { added: number; skipped: number };
   errors: string[];
 }
 
@@ -52,6 +63,10 @@ export function ImportBundleModal({
   const [importSettings, setImportSettings] = useState(true);
   const [importGamePaks, setImportGamePaks] = useState(true);
   const [importGamePakBackups, setImportGamePakBackups] = useState(true);
+  const [importCartridgeSaves, setImportCartridgeSaves] = useState(true);
+  const [importPresets, setImportPresets] = useState(true);
+  const [importPakLibrary, setImportPakLibrary] = useState(true);
+  const [importGlobalSettings, setImportGlobalSettings] = useState(true);
   const [mergeStrategy, setMergeStrategy] = useState<MergeStrategy>('skip');
   const [dragActive, setDragActive] = useState(false);
 
@@ -68,6 +83,10 @@ export function ImportBundleModal({
       setImportSettings(true);
       setImportGamePaks(true);
       setImportGamePakBackups(true);
+      setImportCartridgeSaves(true);
+      setImportPresets(true);
+      setImportPakLibrary(true);
+      setImportGlobalSettings(true);
       setMergeStrategy('skip');
     }
   }, [isOpen]);
@@ -102,6 +121,10 @@ export function ImportBundleModal({
       setImportSettings(info.contents.settingsCount > 0);
       setImportGamePaks(info.contents.gamePaksCount > 0);
       setImportGamePakBackups(info.contents.gamePakBackupsCount > 0);
+      setImportCartridgeSaves((info.contents.cartridgeSavesCount ?? 0) + (info.contents.cartridgeSaveBackupsCount ?? 0) > 0);
+      setImportPresets((info.contents.presetsCount ?? 0) > 0);
+      setImportPakLibrary((info.contents.pakLibraryCount ?? 0) > 0);
+      setImportGlobalSettings((info.contents.globalSettingsBackupsCount ?? 0) > 0);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to read bundle');
     } finally {
@@ -125,6 +148,10 @@ export function ImportBundleModal({
         importSettings,
         importGamePaks,
         importGamePakBackups,
+        importCartridgeSaves,
+        importPresets,
+        importPakLibrary,
+        importGlobalSettings,
         mergeStrategy,
       }));
 
@@ -156,6 +183,13 @@ export function ImportBundleModal({
     }
   };
 
+  // Bundles created before cartridge save support have no counts
+  const hasCartridgeSaves = manifest !== null &&
+    (manifest.contents.cartridgeSavesCount ?? 0) + (manifest.contents.cartridgeSaveBackupsCount ?? 0) > 0;
+  const hasPresets = manifest !== null && (manifest.contents.presetsCount ?? 0) > 0;
+  const hasPakLibrary = manifest !== null && (manifest.contents.pakLibraryCount ?? 0) > 0;
+  const hasGlobalSettings = manifest !== null && (manifest.contents.globalSettingsBackupsCount ?? 0) > 0;
+
   return (
     <Modal
       isOpen={isOpen}
@@ -172,7 +206,7 @@ export function ImportBundleModal({
             <Button
               variant="primary"
               onClick={handleImport}
-              disabled={importing || (!importLabels && !importOwnership && !importSettings && !importGamePaks && !importGamePakBackups)}
+              disabled={importing || (!importLabels && !importOwnership && !importSettings && !importGamePaks && !importGamePakBackups && !importCartridgeSaves && !importPresets && !importPakLibrary && !importGlobalSettings)}
               loading={importing}
             >
               Import
@@ -238,6 +272,38 @@ export function ImportBundleModal({
                 {result.gamePakBackupsImported.skipped > 0 && `, ${result.gamePakBackupsImported.skipped} skipped`}
               </div>
             )}
+            {(result.cartridgeSavesImported.added > 0 || result.cartridgeSavesImported.skipped > 0 || result.cartridgeSavesImported.overwritten > 0) && (
+              <div className="result-item">
+                Cartridge Saves: {result.cartridgeSavesImported.added} added
+                {result.cartridgeSavesImported.overwritten > 0 && `, ${result.cartridgeSavesImported.overwritten} updated`}
+                {result.cartridgeSavesImported.skipped > 0 && `, ${result.cartridgeSavesImported.skipped} skipped`}
+              </div>
+            )}
+            {(result.cartridgeSaveBackupsImported.added > 0 || result.cartridgeSaveBackupsImported.skipped > 0) && (
+              <div className="result-item">
+                Cartridge Save Backups: {result.cartridgeSaveBackupsImported.added} added
+                {result.cartridgeSaveBackupsImported.skipped > 0 && `, ${result.cartridgeSaveBackupsImported.skipped} skipped`}
+              </div>
+            )}
+            {result.presetsImported && (result.presetsImported.added > 0 || result.presetsImported.skipped > 0 || result.presetsImported.overwritten > 0) && (
+              <div className="result-item">
+                Settings Presets: {result.presetsImported.added} added
+                {result.presetsImported.overwritten > 0 && `, ${result.presetsImported.overwritten} updated`}
+                {result.presetsImported.skipped > 0 && `, ${result.presetsImported.skipped} skipped`}
+              </div>
+            )}
+            {result.pakLibraryImported && (result.pakLibraryImported.added > 0 || result.pakLibraryImported.skipped > 0) && (
+              <div className="result-item">
+                Pak Library: {result.pakLibraryImported.added} added
+                {result.pakLibraryImported.skipped > 0 && `, ${result.pakLibraryImported.skipped} skipped`}
+              </div>
+            )}
+            {result.globalSettingsImported && (result.globalSettingsImported.added > 0 || result.globalSettingsImported.skipped > 0) && (
+              <div className="result-item">
+                Global Settings Backups: {result.globalSettingsImported.added} added
+                {result.globalSettingsImported.skipped > 0 && `, ${result.globalSettingsImported.skipped} skipped`}
+              </div>
+            )}
           </div>
 
           {result.errors.length > 0 && (
@@ -287,6 +353,42 @@ export function ImportBundleModal({
                   <span>{manifest.contents.gamePakBackupsCount} backups</span>
                 </div>
               )}
+              {(manifest.contents.cartridgeSavesCount ?? 0) > 0 && (
+                <div className="detail-row">
+                  <span>Cartridge Saves:</span>
+                  <span>{manifest.contents.cartridgeSavesCount} saves</span>
+                </div>
+              )}
+              {(manifest.contents.cartridgeSaveBackupsCount ?? 0) > 0 && (
+                <div className="detail-row">
+                  <span>Cartridge Save Backups:</span>
+                  <span>{manifest.contents.cartridgeSaveBackupsCount} backups</span>
+                </div>
+              )}
+              {hasPresets && (
+                <div className="detail-row">
+                  <span>Settings Presets:</span>
+                  <span>{manifest.contents.presetsCount} presets</span>
+                </div>
+              )}
+              {(manifest.contents.gamePakSlotsCount ?? 0) > 0 && (
+                <div className="detail-row">
+                  <span>Game Pak Slots:</span>
+                  <span>{manifest.contents.gamePakSlotsCount} paks</span>
+                </div>
+              )}
+              {hasPakLibrary && (
+                <div className="detail-row">
+                  <span>Pak Library:</span>
+                  <span>{manifest.contents.pakLibraryCount} paks</span>
+                </div>
+              )}
+              {hasGlobalSettings && (
+                <div className="detail-row">
+                  <span>Global Settings:</span>
+                  <span>{manifest.contents.globalSettingsBackupsCount} backups</span>
+                </div>
+              )}
             </div>
           </div>
 
@@ -342,6 +444,49 @@ export function ImportBundleModal({
               />
               <span>Game Pak Backups ({manifest.contents.gamePakBackupsCount})</span>
             </label>
+
+            <label className={`import-option ${!hasCartridgeSaves ? 'disabled' : ''}`}>
+              <input
+                type="checkbox"
+                checked={importCartridgeSaves}
+                onChange={(e) => setImportCartridgeSaves(e.target.checked)}
+                disabled={importing || !hasCartridgeSaves}
+              />
+              <span>
+                Cartridge Saves ({manifest.contents.cartridgeSavesCount ?? 0}
+                {(manifest.contents.cartridgeSaveBackupsCount ?? 0) > 0 && ` + ${manifest.contents.cartridgeSaveBackupsCount} backups`})
+              </span>
+            </label>
+
+            <label className={`import-option ${!hasPresets ? 'disabled' : ''}`}>
+              <input
+                type="checkbox"
+                checked={importPresets}
+                onChange={(e) => setImportPresets(e.target.checked)}
+                disabled={importing || !hasPresets}
+              />
+              <span>Settings Presets ({manifest.contents.presetsCount ?? 0})</span>
+            </label>
+
+            <label className={`import-option ${!hasPakLibrary ? 'disabled' : ''}`}>
+              <input
+                type="checkbox"
+                checked={importPakLibrary}
+                onChange={(e) => setImportPakLibrary(e.target.checked)}
+                disabled={importing || !hasPakLibrary}
+              />
+              <span>Pak Library ({manifest.contents.pakLibraryCount ?? 0})</span>
+            </label>
+
+            <label className={`import-option ${!hasGlobalSettings ? 'disabled' : ''}`}>
+              <input
+                type="checkbox"
+                checked={importGlobalSettings}
+                onChange={(e) => setImportGlobalSettings(e.target.checked)}
+                disabled={importing || !hasGlobalSettings}
+              />
+              <span>Global Settings Backups ({manifest.contents.globalSettingsBackupsCount ?? 0})</span>
+            </label>
           </div>
 
           <div className="merge-strategy">
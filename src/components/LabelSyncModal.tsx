@@ -50,7 +50,11 @@ export function LabelSyncModal({ isOpen, onClose, onSyncComplete }: LabelSyncMod
     speed: '',
     eta: '',
   });
-  const [syncResult, setSyncResult] = useState<{ entryCount: number; direction: SyncDirection } | null>(null);
+  const [syncResult, setSyncResult] = useState<{
+    entryCount: number;
+    direction: SyncDirection;
+    incremental?: boolean;
+  } | null>(null);
 
   const isSyncing = step === 'syncing';
 
@@ -138,7 +142,7 @@ export function LabelSyncModal({ isOpen, onClose, onSyncComplete }: LabelSyncMod
             break;
 
           case 'complete':
-            setSyncResult({ entryCount: data.entryCount, direction });
+            setSyncResult({ entryCount: data.entryCount, direction, incremental: data.mode === 'incremental' });
             setStep('complete');
             eventSource.close();
             // Update the sync status indicator
@@ -367,7 +371,9 @@ export function LabelSyncModal({ isOpen, onClose, onSyncComplete }: LabelSyncMod
               <h3>Sync Complete!</h3>
               <p>
                 {syncResult.direction === 'upload'
-                  ? `Uploaded ${syncResult.entryCount} labels to SD card.`
+                  ? syncResult.incremental
+                    ? `Updated the SD card's labels.db in place (${syncResult.entryCount} labels).`
+                    : `Uploaded ${syncResult.entryCount} labels to SD card.`
                   : `Downloaded ${syncResult.entryCount} labels from SD card.`}
               </p>
               <div className="sync-actions">
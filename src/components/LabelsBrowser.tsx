@@ -8,6 +8,7 @@ import { ImportFromSDModal } from './ImportFromSDModal';
 import { ExportBundleModal } from './ExportBundleModal';
 import { LabelSyncModal } from './LabelSyncModal';
 import { PasteSettingsModal } from './PasteSettingsModal';
+import { ApplyPresetModal } from './ApplyPresetModal';
 import { CartridgesEmptyState } from './CartridgesEmptyState';
 import { useLabelSync } from './LabelSyncIndicator';
 import { TooltipIcon, Tooltip, Button } from './ui';
@@ -96,6 +97,7 @@ export function LabelsBrowser({ onSelectLabel, refreshKey, sdCardPath }: LabelsB
   const [showExportBundleModal, setShowExportBundleModal] = useState(false);
   const [showSyncModal, setShowSyncModal] = useState(false);
   const [showPasteSettingsModal, setShowPasteSettingsModal] = useState(false);
+  const [showApplyPresetModal, setShowApplyPresetModal] = useState(false);
 
   // Selection mode
   const [selectionMode, setSelectionMode] = useState(false);
@@ -589,6 +591,14 @@ export function LabelsBrowser({ onSelectLabel, refreshKey, sdCardPath }: LabelsB
                     </Button>
                   </Tooltip>
                 )}
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  disabled={selectedCartIds.size === 0}
+                  onClick={() => setShowApplyPresetModal(true)}
+                >
+                  Apply Preset
+                </Button>
                 <Button
                   variant="secondary"
                   size="sm"
@@ -701,6 +711,18 @@ export function LabelsBrowser({ onSelectLabel, refreshKey, sdCardPath }: LabelsB
         )}
         sdCardPath={sdCardPath}
       />
+
+      <ApplyPresetModal
+        isOpen={showApplyPresetModal}
+        onClose={() => setShowApplyPresetModal(false)}
+        onApplyComplete={() => {
+          setShowApplyPresetModal(false);
+          setSelectionMode(false);
+          setSelectedCartIds(new Set());
+        }}
+        selectedCartIds={Array.from(selectedCartIds)}
+        sdCardPath={sdCardPath}
+      />
     </div>
   );
 }
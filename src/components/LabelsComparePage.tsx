@@ -0,0 +1,255 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useImageCache, useSDCard } from '../App';
+import { useLabelSync } from './LabelSyncIndicator';
+import { Button } from './ui';
+import {
+  LABEL_DIFF_STATUS_LABELS,
+  type LabelDiffEntry,
+  type LabelDiffStatus,
+  type VisualCompareResult,
+} from '../lib/labelsCompare';
+import './LabelsComparePage.css';
+
+type StatusFilter = 'all' | LabelDiffStatus;
+
+type EntryAction = 'push' | 'pull';
+
+const FILTERS: StatusFilter[] = ['all', 'modified', 'only_local', 'only_sd'];
+
+/**
+ * Confirmation text for an action that removes an entry, or null if it only
+ * adds or replaces one
+ */
+function describeRemoval(entry: LabelDiffEntry, action: EntryAction): string | null {
+  if (action === 'push' && entry.status === 'only_sd') {
+    return `Remove ${entry.cartId} from the SD card? It isn't in your local labels.db.`;
+  }
+  if (action === 'pull' && entry.status === 'only_local') {
+    return `Remove ${entry.cartId} from your local labels.db? It isn't on the SD card.`;
+  }
+  return null;
+}
+
+export function LabelsComparePage() {
+  const { selectedSDCard } = useSDCard();
+  const { invalidateImageCache } = useImageCache();
+  const { checkSyncStatus, markLocalChanges } = useLabelSync();
+  const [result, setResult] = useState<VisualCompareResult | null>(null);
+  const [gameNames, setGameNames] = useState<Record<string, string>>({});
+  const [filter, setFilter] = useState<StatusFilter>('all');
+  const [comparing, setComparing] = useState(false);
+  const [pending, setPending] = useState<string | null>(null);
+  const [compareKey, setCompareKey] = useState(Date.now());
+  const [error, setError] = useState<string | null>(null);
+
+  const isConnected = selectedSDCard !== null;
+  const sdCardPath = selectedSDCard?.path;
+
+  const runCompare = useCallback(async () => {
+    if (!sdCardPath) return;
+
+    try {
+      setComparing(true);
+      setError(null);
+      const response = await fetch(`/api/labels/compare/visual?sdCardPath=${encodeURIComponent(sdCardPath)}`);
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Comparison failed');
+      }
+      setResult(await response.json());
+      setCompareKey(Date.now());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Comparison failed');
+    } finally {
+      setComparing(false);
+    }
+  }, [sdCardPath]);
+
+  // Compare whenever the selected card changes
+  useEffect(() => {
+    if (isConnected) {
+      runCompare();
+    } else {
+      setResult(null);
+    }
+  }, [runCompare, isConnected]);
+
+  // Resolve game names for the entries shown
+  useEffect(() => {
+    if (!result) return;
+
+    const lookupNames = async () => {
+      const entries = await Promise.all(
+        result.entries.map(async ({ cartId }) => {
+          try {
+            const response = await fetch(`/api/labels/lookup/${cartId}`);
+            if (!response.ok) return null;
+            const data = await response.json();
+            return data.name ? [cartId, data.name as string] as const : null;
+          } catch {
+            return null;
+          }
+        })
+      );
+      setGameNames(Object.fromEntries(entries.filter((e): e is readonly [string, string] => e !== null)));
+    };
+    lookupNames();
+  }, [result]);
+
+  const handleAction = async (entry: LabelDiffEntry, action: EntryAction) => {
+    const removal = describeRemoval(entry, action);
+    if (removal && !confirm(removal)) {
+      return;
+    }
+
+    try {
+      setPending(`${entry.cartId}:${action}`);
+      setError(null);
+
+      const response = await fetch(`/api/labels/compare/${entry.cartId}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sdCardPath }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || (action === 'push' ? 'Push failed' : 'Pull failed'));
+      }
+
+      // The entry now matches on both sides
+      setResult(prev => prev && {
+        ...prev,
+        entries: prev.entries.filter(e => e.cartId !== entry.cartId),
+      });
+
+      if (action === 'pull') {
+        invalidateImageCache();
+        markLocalChanges();
+      }
+      checkSyncStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const entries = result?.entries.filter(e => filter === 'all' || e.status === filter) ?? [];
+  const countFor = (status: StatusFilter) =>
+    status === 'all' ? result?.entries.length ?? 0 : result?.entries.filter(e => e.status === status).length ?? 0;
+  const imageUrl = (cartId: string, side: 'local' | 'sd' | 'diff') =>
+    `/api/labels/compare/image/${cartId}?side=${side}&sdCardPath=${encodeURIComponent(sdCardPath ?? '')}&v=${compareKey}`;
+
+  return (
+    <div className="labels-compare-page">
+      <div className="labels-compare-content">
+        <h1>Compare Labels</h1>
+
+        <p className="labels-compare-intro">
+          Shows every label that differs between your local <span className="text-code">labels.db</span> and
+          the one on your SD card. Push a label to make the SD card match local, or pull it to make local match
+          the SD card, one cartridge at a time.
+        </p>
+
+        <div className="labels-compare-toolbar">
+          <div className="labels-compare-filters">
+            {FILTERS.map((status) => (
+              <button
+                key={status}
+                className={`labels-compare-filter ${filter === status ? 'active' : ''}`}
+                onClick={() => setFilter(status)}
+              >
+                {status === 'all' ? 'All' : LABEL_DIFF_STATUS_LABELS[status]} ({countFor(status)})
+              </button>
+            ))}
+          </div>
+          <Button variant="secondary" onClick={runCompare} loading={comparing} disabled={!isConnected || comparing}>
+            Compare Again
+          </Button>
+        </div>
+
+        {error && <div className="error-message">{error}</div>}
+
+        {!isConnected && (
+          <div className="labels-compare-empty">
+            <p>No SD card connected.</p>
+            <p className="text-muted">Connect an Analogue 3D SD card to compare its labels.</p>
+          </div>
+        )}
+
+        {isConnected && comparing && !result && <p className="text-muted">Comparing labels...</p>}
+
+        {result && result.entries.length === 0 && (
+          <div className="labels-compare-empty">
+            <p>Local and SD card labels match.</p>
+            <p className="text-muted">{result.totalCompared} labels compared.</p>
+          </div>
+        )}
+
+        {entries.length > 0 && (
+          <ul className="labels-compare-list">
+            {entries.map((entry) => (
+              <li key={entry.cartId} className="labels-compare-entry">
+                <div className="labels-compare-entry-info">
+                  <span className="labels-compare-entry-name">{gameNames[entry.cartId] || 'Unknown Cartridge'}</span>
+                  <code className="text-label text-accent">{entry.cartId}</code>
+                  <span className={`labels-compare-status labels-compare-status-${entry.status}`}>
+                    {entry.status === 'modified'
+                      ? `${entry.percentChanged!.toFixed(1)}% changed (${entry.changedPixels} pixels)`
+                      : LABEL_DIFF_STATUS_LABELS[entry.status]}
+                  </span>
+                </div>
+
+                <div className="labels-compare-images">
+                  <figure>
+                    {entry.status === 'only_sd' ? (
+                      <div className="labels-compare-missing">Not in local</div>
+                    ) : (
+                      <img src={imageUrl(entry.cartId, 'local')} alt="Local label" loading="lazy" />
+                    )}
+                    <figcaption>Local</figcaption>
+                  </figure>
+                  <figure>
+                    {entry.status === 'only_local' ? (
+                      <div className="labels-compare-missing">Not on SD</div>
+                    ) : (
+                      <img src={imageUrl(entry.cartId, 'sd')} alt="SD card label" loading="lazy" />
+                    )}
+                    <figcaption>SD Card</figcaption>
+                  </figure>
+                  {entry.status === 'modified' && (
+                    <figure>
+                      <img src={imageUrl(entry.cartId, 'diff')} alt="Changed pixels" loading="lazy" />
+                      <figcaption>Difference</figcaption>
+                    </figure>
+                  )}
+                </div>
+
+                <div className="labels-compare-actions">
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => handleAction(entry, 'push')}
+                    disabled={pending !== null}
+                    loading={pending === `${entry.cartId}:push`}
+                  >
+                    Push to SD
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleAction(entry, 'pull')}
+                    disabled={pending !== null}
+                    loading={pending === `${entry.cartId}:pull`}
+                  >
+                    Pull from SD
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
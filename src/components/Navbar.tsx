@@ -21,6 +21,12 @@ export function Navbar() {
         >
           Settings
         </Link>
+        <Link
+          to="/stats"
+          className={`nav-tab text-pixel ${location.pathname === '/stats' ? 'active' : ''}`}
+        >
+          Play Stats
+        </Link>
         <Link
           to="/help"
           className={`nav-tab text-pixel ${location.pathname === '/help' ? 'active' : ''}`}
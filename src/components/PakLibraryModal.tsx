@@ -0,0 +1,216 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Modal, Button } from './ui';
+import './PakLibraryModal.css';
+
+interface LibraryPak {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  origin?: { cartId: string; slot: string };
+}
+
+interface PakLibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onLoaded: () => void;
+  cartId: string;
+  gameName?: string;
+  sdCardPath?: string;
+  slots: string[];
+  hasActivePak: boolean;
+}
+
+export function PakLibraryModal({
+  isOpen,
+  onClose,
+  onLoaded,
+  cartId,
+  gameName,
+  sdCardPath,
+  slots,
+  hasActivePak,
+}: PakLibraryModalProps) {
+  const [paks, setPaks] = useState<LibraryPak[] | null>(null);
+  const [targetSlot, setTargetSlot] = useState('active');
+  const [newName, setNewName] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const fetchPaks = useCallback(async () => {
+    try {
+      const response = await fetch('/api/pak-library');
+      const data = await response.json();
+      setPaks(data.paks || []);
+    } catch {
+      setError('Failed to load pak library');
+    }
+  }, []);
+
+  // Load the library when modal opens
+  useEffect(() => {
+    if (isOpen) fetchPaks();
+  }, [isOpen, fetchPaks]);
+
+  const handleClose = () => {
+    setTargetSlot('active');
+    setNewName('');
+    setError(null);
+    setMessage(null);
+    onClose();
+  };
+
+  const handleLoad = async (pak: LibraryPak) => {
+    try {
+      setBusy(true);
+      setError(null);
+      setMessage(null);
+      const response = await fetch(`/api/pak-library/${pak.id}/load`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cartId, slot: targetSlot, title: gameName, sdCardPath }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load pak');
+      }
+      setMessage(
+        data.saved
+          ? `Loaded "${pak.name}". The previous pak was saved to the library as "${data.saved.name}".`
+          : `Loaded "${pak.name}".`
+      );
+      await fetchPaks();
+      onLoaded();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load pak');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveToLibrary = async () => {
+    try {
+      setBusy(true);
+      setError(null);
+      setMessage(null);
+      const response = await fetch('/api/pak-library/from-cart', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cartId, slot: targetSlot, name: newName }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to save pak');
+      }
+      setNewName('');
+      await fetchPaks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save pak');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (pak: LibraryPak) => {
+    if (!confirm(`Delete "${pak.name}" from the pak library?`)) return;
+    try {
+      setError(null);
+      const response = await fetch(`/api/pak-library/${pak.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete pak');
+      }
+      await fetchPaks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete pak');
+    }
+  };
+
+  const canSaveTarget = targetSlot === 'active' ? hasActivePak : slots.includes(targetSlot);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Pak Library"
+      size="md"
+      footer={
+        <Button variant="secondary" onClick={handleClose}>
+          Done
+        </Button>
+      }
+    >
+      <div className="pak-library-target">
+        <label htmlFor="pak-library-slot">Pak slot</label>
+        <select
+          id="pak-library-slot"
+          value={targetSlot}
+          onChange={(e) => setTargetSlot(e.target.value)}
+          disabled={busy}
+        >
+          <option value="active">Active pak</option>
+          {slots.map(slot => (
+            <option key={slot} value={slot}>{slot}</option>
+          ))}
+        </select>
+      </div>
+
+      {!paks ? (
+        <p className="loading-text">Loading pak library...</p>
+      ) : paks.length === 0 ? (
+        <p className="pak-library-empty">The pak library is empty. Save a pak below to start it.</p>
+      ) : (
+        <ul className="pak-library-list">
+          {paks.map(pak => (
+            <li key={pak.id} className="pak-library-item">
+              <div className="pak-library-info">
+                <span className="pak-library-name">{pak.name}</span>
+                <span className="pak-library-meta">
+                  {new Date(pak.createdAt).toLocaleDateString()}
+                  {pak.description && ` · ${pak.description}`}
+                </span>
+              </div>
+              <Button variant="secondary" size="sm" onClick={() => handleLoad(pak)} disabled={busy}>
+                Load
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => handleDelete(pak)} disabled={busy}>
+                Delete
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="pak-library-save">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Name, e.g. Player 2 pak"
+          maxLength={64}
+          disabled={busy}
+          autoComplete="off"
+          data-1p-ignore
+          data-lpignore="true"
+        />
+        <Button
+          variant="secondary"
+          size="sm"
+          onClick={handleSaveToLibrary}
+          disabled={busy || !newName.trim() || !canSaveTarget}
+        >
+          Save Slot to Library
+        </Button>
+      </div>
+
+      <p className="pak-library-note">
+        Loading a pak replaces the selected slot. The pak it replaces is saved to the library first.
+        {sdCardPath && targetSlot === 'active' && ' The active pak is also copied to the SD card.'}
+      </p>
+
+      {message && <p className="pak-library-message">{message}</p>}
+      {error && <div className="error-message">{error}</div>}
+    </Modal>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { useSettingsClipboard } from '../App';
 import { Modal } from './ui/Modal';
 import { Button } from './ui/Button';
+import type { CartridgeSettings } from '../lib/defaultSettings';
 import './PasteSettingsModal.css';
 
 interface PasteSettingsModalProps {
@@ -13,6 +14,62 @@ interface PasteSettingsModalProps {
   sdCardPath?: string;
 }
 
+interface PasteField {
+  path: string;
+  label: string;
+}
+
+interface FieldChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface CartPasteResult {
+  cartId: string;
+  changes: FieldChange[];
+}
+
+// Subtrees that can be pasted independently, as JSON Pointer paths
+const DISPLAY_FIELDS: PasteField[] = [
+  { path: '/display/odm', label: 'Display Mode' },
+  { path: '/display/catalog/bvm', label: 'BVM' },
+  { path: '/display/catalog/pvm', label: 'PVM' },
+  { path: '/display/catalog/crt', label: 'CRT' },
+  { path: '/display/catalog/scanlines', label: 'Scanlines' },
+  { path: '/display/catalog/clean', label: 'Clean' },
+];
+
+const HARDWARE_FIELDS: PasteField[] = [
+  { path: '/hardware/virtualExpansionPak', label: 'Expansion Pak' },
+  { path: '/hardware/region', label: 'Region' },
+  { path: '/hardware/disableDeblur', label: 'De-Blur' },
+  { path: '/hardware/enable32BitColor', label: '32bit Color' },
+  { path: '/hardware/forceProgressiveOutput', label: 'Force Progressive Output' },
+  { path: '/hardware/disableTextureFiltering', label: 'Disable Texture Filtering' },
+  { path: '/hardware/disableAntialiasing', label: 'Disable Antialiasing' },
+  { path: '/hardware/forceOriginalHardware', label: 'Force Original Hardware' },
+  { path: '/hardware/overclock', label: 'Overclock' },
+];
+
+const ALL_FIELDS = [...DISPLAY_FIELDS, ...HARDWARE_FIELDS];
+
+/**
+ * Read the value at a JSON Pointer path from settings
+ */
+function getValueAtPath(settings: CartridgeSettings, pointer: string): unknown {
+  let value: unknown = settings;
+  for (const segment of pointer.slice(1).split('/')) {
+    if (typeof value !== 'object' || value === null) return undefined;
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? '—' : String(value);
+}
+
 export function PasteSettingsModal({
   isOpen,
   onClose,
@@ -22,102 +79,83 @@ export function PasteSettingsModal({
   sdCardPath,
 }: PasteSettingsModalProps) {
   const { copiedSettings } = useSettingsClipboard();
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set(ALL_FIELDS.map(f => f.path)));
   const [isPasting, setIsPasting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [results, setResults] = useState<{ success: number; failed: number } | null>(null);
+  const [results, setResults] = useState<CartPasteResult[] | null>(null);
 
   // Reset state when modal opens
   useEffect(() => {
     if (isOpen) {
+      setSelectedPaths(new Set(ALL_FIELDS.map(f => f.path)));
       setIsPasting(false);
       setError(null);
       setResults(null);
     }
   }, [isOpen]);
 
+  const togglePath = (path: string) => {
+    setSelectedPaths(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const toggleGroup = (fields: PasteField[]) => {
+    const allSelected = fields.every(f => selectedPaths.has(f.path));
+    setSelectedPaths(prev => {
+      const next = new Set(prev);
+      for (const field of fields) {
+        if (allSelected) {
+          next.delete(field.path);
+        } else {
+          next.add(field.path);
+        }
+      }
+      return next;
+    });
+  };
+
   const handlePaste = async () => {
     if (!copiedSettings) return;
     setIsPasting(true);
     setError(null);
     setResults(null);
 
-    let successCount = 0;
-    let failCount = 0;
+    // Fields missing from the copied settings (e.g. from older firmware) are skipped
+    const patch = ALL_FIELDS
+      .filter(f => selectedPaths.has(f.path))
+      .map(f => ({ op: 'replace', path: f.path, value: getValueAtPath(copiedSettings.settings, f.path) }))
+      .filter(op => op.value !== undefined);
+
+    // Titles for carts that have no local settings yet
+    const titles = Object.fromEntries(
+      Object.entries(cartIdToName).filter((entry): entry is [string, string] =>
+        !!entry[1] && entry[1] !== 'Unknown Cartridge'
+      )
+    );
 
     try {
-      for (const targetCartId of selectedCartIds) {
-        try {
-          // Determine the appropriate title for this target cartridge
-          // Priority: existing target title > system game name > fallback to "Unknown Cartridge"
-          let targetTitle = 'Unknown Cartridge';
-
-          // First, try to get the target's existing settings
-          try {
-            const existingResponse = await fetch(`/api/cartridges/${targetCartId}/settings`);
-            if (existingResponse.ok) {
-              const existingData = await existingResponse.json();
-              if (existingData.local?.settings?.title &&
-                  existingData.local.settings.title !== 'Unknown Cartridge') {
-                targetTitle = existingData.local.settings.title;
-              }
-            }
-          } catch {
-            // Ignore errors fetching existing settings
-          }
-
-          // If still "Unknown Cartridge", try the system game name
-          if (targetTitle === 'Unknown Cartridge') {
-            const systemName = cartIdToName[targetCartId];
-            if (systemName && systemName !== 'Unknown Cartridge') {
-              targetTitle = systemName;
-            }
-          }
-
-          // Create settings for target cart with the appropriate title
-          const settingsForTarget = {
-            ...copiedSettings.settings,
-            title: targetTitle,
-          };
-
-          // Save settings to local
-          const response = await fetch(`/api/cartridges/${targetCartId}/settings`, {
-            method: 'PUT',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(settingsForTarget),
-          });
-
-          if (!response.ok) {
-            throw new Error(`Failed to save settings for ${targetCartId}`);
-          }
-
-          // If SD card is connected, also upload to SD
-          if (sdCardPath) {
-            await fetch(`/api/cartridges/${targetCartId}/settings/upload`, {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ sdCardPath }),
-            });
-          }
-
-          successCount++;
-        } catch (err) {
-          console.error(`Failed to paste settings to ${targetCartId}:`, err);
-          failCount++;
-        }
-      }
+      const response = await fetch('/api/cartridges/settings/patch', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cartIds: selectedCartIds, patch, sdCardPath, titles }),
+      });
+      const data = await response.json();
 
-      setResults({ success: successCount, failed: failCount });
-
-      // If all succeeded, auto-close after a brief delay
-      if (failCount === 0) {
-        setTimeout(() => {
-          // Reset state before closing so next open shows confirmation
-          setResults(null);
-          setError(null);
-          setIsPasting(false);
-          onPasteComplete();
-        }, 1500);
+      if (!response.ok) {
+        const details = (data.errors as Array<{ cartId: string; error: string }> | undefined)
+          ?.map(e => `${e.cartId}: ${e.error}`)
+          .join('; ');
+        throw new Error(details ? `${data.error}. ${details}` : data.error || 'Paste failed');
       }
+
+      setResults(data.results);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Paste failed');
     } finally {
@@ -126,39 +164,69 @@ export function PasteSettingsModal({
   };
 
   const handleClose = () => {
-    setResults(null);
+    if (results) {
+      // Settings were written, so let the caller leave selection mode
+      setResults(null);
+      onPasteComplete();
+      return;
+    }
     setError(null);
     onClose();
   };
 
+  const changedCount = results?.filter(r => r.changes.length > 0).length ?? 0;
+
   const footer = results ? (
     <div className="paste-results-footer">
-      {results.failed === 0 ? (
-        <span className="paste-success-message">All settings applied successfully!</span>
-      ) : (
-        <Button variant="primary" onClick={handleClose}>
-          Done
-        </Button>
-      )}
+      <Button variant="primary" onClick={handleClose}>
+        Done
+      </Button>
     </div>
   ) : (
     <>
       <Button variant="ghost" onClick={handleClose} disabled={isPasting}>
         Cancel
       </Button>
-      <Button variant="primary" onClick={handlePaste} disabled={isPasting}>
+      <Button variant="primary" onClick={handlePaste} disabled={isPasting || selectedPaths.size === 0}>
         {isPasting ? 'Pasting...' : `Paste to ${selectedCartIds.length} Cartridge${selectedCartIds.length !== 1 ? 's' : ''}`}
       </Button>
     </>
   );
 
+  const renderGroup = (title: string, fields: PasteField[]) => (
+    <div className="paste-field-group">
+      <label className="paste-field-group-header">
+        <input
+          type="checkbox"
+          checked={fields.every(f => selectedPaths.has(f.path))}
+          onChange={() => toggleGroup(fields)}
+          disabled={isPasting}
+        />
+        <span>{title}</span>
+      </label>
+      <div className="paste-field-list">
+        {fields.map(field => (
+          <label key={field.path} className="paste-field">
+            <input
+              type="checkbox"
+              checked={selectedPaths.has(field.path)}
+              onChange={() => togglePath(field.path)}
+              disabled={isPasting}
+            />
+            <span>{field.label}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+
   return (
     <Modal
       isOpen={isOpen}
       onClose={handleClose}
       title="Paste Settings"
       footer={footer}
-      size="sm"
+      size="md"
     >
       <div className="paste-settings-content">
         {!results ? (
@@ -178,8 +246,13 @@ export function PasteSettingsModal({
               </div>
             </div>
 
+            <div className="paste-fields">
+              {renderGroup('Display', DISPLAY_FIELDS)}
+              {renderGroup('Hardware', HARDWARE_FIELDS)}
+            </div>
+
             <div className="paste-note">
-              <p>This will copy all display and hardware settings to the selected cartridges.</p>
+              <p>Only the checked settings are copied. Everything else on each cartridge is left as it is.</p>
               {sdCardPath && (
                 <p className="paste-sd-note">Settings will also be synced to the connected SD card.</p>
               )}
@@ -187,18 +260,30 @@ export function PasteSettingsModal({
           </>
         ) : (
           <div className="paste-results">
-            {results.success > 0 && (
-              <div className="paste-result-success">
-                <span className="result-icon">✓</span>
-                <span>Successfully applied settings to {results.success} cartridge{results.success !== 1 ? 's' : ''}</span>
-              </div>
-            )}
-            {results.failed > 0 && (
-              <div className="paste-result-failed">
-                <span className="result-icon">✗</span>
-                <span>Failed to apply settings to {results.failed} cartridge{results.failed !== 1 ? 's' : ''}</span>
-              </div>
-            )}
+            <div className="paste-result-success">
+              <span className="result-icon">✓</span>
+              <span>
+                Pasted to {results.length} cartridge{results.length !== 1 ? 's' : ''}
+                {changedCount < results.length && ` (${results.length - changedCount} already matched)`}
+              </span>
+            </div>
+            {results.filter(r => r.changes.length > 0).map(result => (
+              <details key={result.cartId} className="paste-diff">
+                <summary>
+                  {cartIdToName[result.cartId] ?? result.cartId}
+                  <span className="paste-diff-count">
+                    {result.changes.length} change{result.changes.length !== 1 ? 's' : ''}
+                  </span>
+                </summary>
+                <ul>
+                  {result.changes.map(change => (
+                    <li key={change.path}>
+                      <code>{change.path}</code>: {formatValue(change.before)} → {formatValue(change.after)}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            ))}
           </div>
         )}
 
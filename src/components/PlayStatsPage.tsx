@@ -0,0 +1,241 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useSDCard } from '../App';
+import { Button } from './ui';
+import './PlayStatsPage.css';
+
+interface CartPlayTime {
+  cartId: string;
+  playTime: number;
+  sessions: number;
+}
+
+interface PlayTimeGain {
+  cartId: string;
+  playTimeGained: number;
+  sessionsGained: number;
+}
+
+interface WeeklyPlayTime {
+  weekStart: string;
+  playTime: number;
+}
+
+interface PlayHistorySummary {
+  snapshotCount: number;
+  firstSnapshotAt: string | null;
+  lastSnapshotAt: string | null;
+  totalPlayTime: number;
+  mostPlayed: CartPlayTime[];
+  sinceLastSync: {
+    since: string | null;
+    totalPlayTimeGained: number;
+    carts: PlayTimeGain[];
+  };
+  weekly: WeeklyPlayTime[];
+}
+
+function formatPlayTime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return `${seconds}s`;
+}
+
+export function PlayStatsPage() {
+  const { selectedSDCard } = useSDCard();
+  const [summary, setSummary] = useState<PlayHistorySummary | null>(null);
+  const [gameNames, setGameNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSummary = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const response = await fetch('/api/library/history');
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to load play history');
+      }
+      const data: PlayHistorySummary = await response.json();
+      setSummary(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load play history');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reload whenever the selected card changes, since detection records a new snapshot
+  useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary, selectedSDCard?.path]);
+
+  // Resolve game names for the carts shown
+  useEffect(() => {
+    if (!summary) return;
+
+    const cartIds = new Set([
+      ...summary.mostPlayed.map(c => c.cartId),
+      ...summary.sinceLastSync.carts.map(c => c.cartId),
+    ]);
+
+    const lookupNames = async () => {
+      const entries = await Promise.all(
+        Array.from(cartIds).map(async (cartId) => {
+          try {
+            const response = await fetch(`/api/labels/lookup/${cartId}`);
+            if (!response.ok) return null;
+            const data = await response.json();
+            return data.name ? [cartId, data.name as string] as const : null;
+          } catch {
+            return null;
+          }
+        })
+      );
+      setGameNames(Object.fromEntries(entries.filter((e): e is readonly [string, string] => e !== null)));
+    };
+    lookupNames();
+  }, [summary]);
+
+  const nameFor = (cartId: string) => gameNames[cartId] || 'Unknown Cartridge';
+  const maxWeekly = Math.max(1, ...(summary?.weekly.map(w => w.playTime) ?? []));
+  const maxMostPlayed = Math.max(1, ...(summary?.mostPlayed.map(c => c.playTime) ?? []));
+
+  return (
+    <div className="play-stats-page">
+      <div className="play-stats-content">
+        <h1>Play Stats</h1>
+
+        <p className="play-stats-intro">
+          Play time is read from <span className="text-code">library.db</span> on your SD card.
+          A snapshot is saved locally each time a card is detected, so history builds up as you
+          move the card between your Analogue 3D and this computer.
+        </p>
+
+        {error && <div className="error-message">{error}</div>}
+
+        {loading && !summary && <p className="text-muted">Loading play history...</p>}
+
+        {summary && summary.snapshotCount === 0 && (
+          <div className="play-stats-empty">
+            <p>No play history yet.</p>
+            <p className="text-muted">
+              Connect an Analogue 3D SD card to record the first snapshot.
+            </p>
+          </div>
+        )}
+
+        {summary && summary.snapshotCount > 0 && (
+          <>
+            {/* Overview */}
+            <div className="play-stats-overview">
+              <div className="play-stat">
+                <span className="play-stat-value">{formatPlayTime(summary.totalPlayTime)}</span>
+                <span className="play-stat-label">Total Play Time</span>
+              </div>
+              <div className="play-stat">
+                <span className="play-stat-value">
+                  {formatPlayTime(summary.sinceLastSync.totalPlayTimeGained)}
+                </span>
+                <span className="play-stat-label">Since Last Sync</span>
+              </div>
+              <div className="play-stat">
+                <span className="play-stat-value">{summary.snapshotCount}</span>
+                <span className="play-stat-label">Snapshots</span>
+              </div>
+            </div>
+            {summary.lastSnapshotAt && (
+              <p className="play-stats-meta">
+                Last snapshot: {new Date(summary.lastSnapshotAt).toLocaleString()}
+              </p>
+            )}
+
+            {/* Weekly Chart */}
+            <section className="play-stats-section">
+              <h2>Play Time per Week</h2>
+              <div className="weekly-chart">
+                {summary.weekly.map((week) => (
+                  <div
+                    key={week.weekStart}
+                    className="weekly-bar"
+                    title={`Week of ${week.weekStart}: ${formatPlayTime(week.playTime)}`}
+                  >
+                    <div
+                      className="weekly-bar-fill"
+                      style={{ height: `${(week.playTime / maxWeekly) * 100}%` }}
+                    />
+                    <span className="weekly-bar-label">{week.weekStart.slice(5)}</span>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            {/* Since Last Sync */}
+            <section className="play-stats-section">
+              <h2>Since Last Sync</h2>
+              {summary.sinceLastSync.carts.length === 0 ? (
+                <p className="text-muted">No new play time since the previous snapshot.</p>
+              ) : (
+                <ul className="play-stats-list">
+                  {summary.sinceLastSync.carts.map((cart) => (
+                    <li key={cart.cartId} className="play-stats-row">
+                      <div className="play-stats-row-info">
+                        <span className="play-stats-row-name">{nameFor(cart.cartId)}</span>
+                        <code className="text-label text-accent">{cart.cartId}</code>
+                      </div>
+                      <span className="play-stats-row-value">
+                        +{formatPlayTime(cart.playTimeGained)}
+                        {cart.sessionsGained > 0 && ` • ${cart.sessionsGained} session${cart.sessionsGained === 1 ? '' : 's'}`}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {summary.sinceLastSync.since && (
+                <p className="play-stats-meta">
+                  Compared with snapshot from {new Date(summary.sinceLastSync.since).toLocaleString()}
+                </p>
+              )}
+            </section>
+
+            {/* Most Played */}
+            <section className="play-stats-section">
+              <h2>Most Played</h2>
+              {summary.mostPlayed.length === 0 ? (
+                <p className="text-muted">No games have been played yet.</p>
+              ) : (
+                <ul className="play-stats-list">
+                  {summary.mostPlayed.map((cart) => (
+                    <li key={cart.cartId} className="play-stats-row">
+                      <div className="play-stats-row-info">
+                        <span className="play-stats-row-name">{nameFor(cart.cartId)}</span>
+                        <code className="text-label text-accent">{cart.cartId}</code>
+                        <div className="play-stats-bar">
+                          <div
+                            className="play-stats-bar-fill"
+                            style={{ width: `${(cart.playTime / maxMostPlayed) * 100}%` }}
+                          />
+                        </div>
+                      </div>
+                      <span className="play-stats-row-value">
+                        {formatPlayTime(cart.playTime)} • {cart.sessions} session{cart.sessions === 1 ? '' : 's'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          </>
+        )}
+
+        <div className="play-stats-actions">
+          <Button variant="secondary" onClick={fetchSummary} loading={loading}>
+            Refresh
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState, useEffect } from 'react';
+import { Modal, Button } from './ui';
+import { presetFromSettings } from '../lib/presets';
+import type { CartridgeSettings } from '../lib/defaultSettings';
+
+interface SavePresetModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved?: () => void;
+  settings: CartridgeSettings;
+  gameName?: string;
+}
+
+export function SavePresetModal({
+  isOpen,
+  onClose,
+  onSaved,
+  settings,
+  gameName,
+}: SavePresetModalProps) {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [includeDisplay, setIncludeDisplay] = useState(true);
+  const [includeHardware, setIncludeHardware] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset state when modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setName('');
+      setDescription(gameName ? `From ${gameName}` : '');
+      setIncludeDisplay(true);
+      setIncludeHardware(true);
+      setError(null);
+    }
+  }, [isOpen, gameName]);
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch('/api/presets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          description,
+          settings: presetFromSettings(settings, { display: includeDisplay, hardware: includeHardware }),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to save preset');
+      }
+
+      onSaved?.();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save preset');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Save as Preset"
+      size="sm"
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleSave}
+            disabled={saving || !name.trim() || (!includeDisplay && !includeHardware)}
+            loading={saving}
+          >
+            Save Preset
+          </Button>
+        </>
+      }
+    >
+      <div className="form-group">
+        <label>Name</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g., PVM purist"
+          maxLength={64}
+          autoFocus
+          autoComplete="off"
+          data-1p-ignore
+          data-lpignore="true"
+        />
+      </div>
+
+      <div className="form-group">
+        <label>Description</label>
+        <input
+          type="text"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Optional"
+          autoComplete="off"
+          data-1p-ignore
+          data-lpignore="true"
+        />
+      </div>
+
+      <div className="export-options">
+        <h4>Include in preset:</h4>
+
+        <label className="export-option">
+          <input
+            type="checkbox"
+            checked={includeDisplay}
+            onChange={(e) => setIncludeDisplay(e.target.checked)}
+            disabled={saving}
+          />
+          <div className="option-content">
+            <span className="option-label">Display</span>
+            <span className="option-desc">Display mode and every mode's catalog settings</span>
+          </div>
+        </label>
+
+        <label className="export-option">
+          <input
+            type="checkbox"
+            checked={includeHardware}
+            onChange={(e) => setIncludeHardware(e.target.checked)}
+            disabled={saving}
+          />
+          <div className="option-content">
+            <span className="option-label">Hardware</span>
+            <span className="option-desc">Expansion pak, region, overclock and other hardware options</span>
+          </div>
+        </label>
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+    </Modal>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState, useEffect } from 'react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { flushPendingSaves } from '../lib/settingsAutoSave';
+import type { CartridgeSettings } from '../lib/defaultSettings';
+import './PasteSettingsModal.css';
+import './SettingsHistoryModal.css';
+
+interface SettingsHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onRestored: () => void;
+  cartId: string;
+  sdCardPath?: string;
+}
+
+interface SettingsRevision {
+  id: string;
+  createdAt: string;
+  reason: string;
+  settings: CartridgeSettings;
+}
+
+interface FieldChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? '—' : String(value);
+}
+
+export function SettingsHistoryModal({
+  isOpen,
+  onClose,
+  onRestored,
+  cartId,
+  sdCardPath,
+}: SettingsHistoryModalProps) {
+  const [revisions, setRevisions] = useState<SettingsRevision[] | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [changes, setChanges] = useState<FieldChange[] | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load history when modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    // Make sure unsaved edits become the newest revision before listing
+    flushPendingSaves();
+
+    setRevisions(null);
+    setExpandedId(null);
+    setChanges(null);
+    setError(null);
+
+    fetch(`/api/cartridges/${cartId}/settings/history`)
+      .then(res => res.json())
+      .then(data => setRevisions(data.revisions || []))
+      .catch(() => setError('Failed to load settings history'));
+  }, [isOpen, cartId]);
+
+  const handleCompare = async (revisionId: string) => {
+    if (expandedId === revisionId) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(revisionId);
+    setChanges(null);
+
+    try {
+      const response = await fetch(`/api/cartridges/${cartId}/settings/history/${revisionId}/diff`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to compare revision');
+      }
+      setChanges(data.changes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare revision');
+      setExpandedId(null);
+    }
+  };
+
+  const handleRestore = async (revisionId: string) => {
+    setRestoringId(revisionId);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/cartridges/${cartId}/settings/history/${revisionId}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sdCardPath }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to restore revision');
+      }
+
+      onRestored();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore revision');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Settings History"
+      size="md"
+      footer={
+        <Button variant="ghost" onClick={onClose} disabled={!!restoringId}>
+          Close
+        </Button>
+      }
+    >
+      <div className="paste-settings-content">
+        {!revisions ? (
+          !error && <div className="loading">Loading history...</div>
+        ) : revisions.length === 0 ? (
+          <p className="settings-history-empty">
+            No saved revisions yet. Every change to this cartridge's settings is recorded here.
+          </p>
+        ) : (
+          <div className="settings-history-list">
+            {revisions.map((revision, index) => (
+              <div key={revision.id} className="settings-history-entry">
+                <div className="settings-history-header">
+                  <span className="settings-history-reason">
+                    {revision.reason}
+                    {index === 0 && <span className="settings-history-current"> (latest)</span>}
+                  </span>
+                  <span className="settings-history-date">{new Date(revision.createdAt).toLocaleString()}</span>
+                </div>
+                <div className="settings-history-actions">
+                  <button className="btn-ghost btn-sm" onClick={() => handleCompare(revision.id)}>
+                    {expandedId === revision.id ? 'Hide Changes' : 'Compare'}
+                  </button>
+                  <button
+                    className="btn-ghost btn-sm"
+                    onClick={() => handleRestore(revision.id)}
+                    disabled={!!restoringId}
+                  >
+                    {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+                  </button>
+                </div>
+                {expandedId === revision.id && (
+                  <div className="paste-diff">
+                    {!changes ? (
+                      <span className="paste-diff-count">Comparing...</span>
+                    ) : changes.length === 0 ? (
+                      <span className="paste-diff-count">Same as current settings</span>
+                    ) : (
+                      <ul>
+                        {changes.map(change => (
+                          <li key={change.path}>
+                            <code>{change.path}</code>: {formatValue(change.before)} → {formatValue(change.after)}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {sdCardPath && revisions && revisions.length > 0 && (
+          <div className="paste-note">
+            <p className="paste-sd-note">Restored settings will also be synced to the connected SD card.</p>
+          </div>
+        )}
+
+        {error && <div className="error-message">{error}</div>}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState, useEffect } from 'react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import './SettingsMergeModal.css';
+
+interface SettingsMergeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onResolved: () => void;
+  cartId: string;
+  sdCardPath: string;
+}
+
+type FieldSource = 'local' | 'sd';
+
+interface FieldConflict {
+  path: string;
+  local: unknown;
+  sd: unknown;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(not set)';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export function SettingsMergeModal({
+  isOpen,
+  onClose,
+  onResolved,
+  cartId,
+  sdCardPath,
+}: SettingsMergeModalProps) {
+  const [differences, setDifferences] = useState<FieldConflict[] | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, FieldSource>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the diff when modal opens; every field starts on the local value
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setDifferences(null);
+    setResolutions({});
+    setError(null);
+
+    fetch(`/api/cartridges/${cartId}/settings/diff?sdCardPath=${encodeURIComponent(sdCardPath)}`)
+      .then(res => res.json())
+      .then(data => {
+        const list: FieldConflict[] = data.differences || [];
+        setDifferences(list);
+        setResolutions(Object.fromEntries(list.map(d => [d.path, 'local' as const])));
+      })
+      .catch(() => setError('Failed to compare settings'));
+  }, [isOpen, cartId, sdCardPath]);
+
+  const setAll = (source: FieldSource) => {
+    setResolutions(Object.fromEntries((differences ?? []).map(d => [d.path, source])));
+  };
+
+  const handleApply = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/cartridges/${cartId}/settings/resolve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sdCardPath, resolutions }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to merge settings');
+      }
+
+      onResolved();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const sdCount = Object.values(resolutions).filter(source => source === 'sd').length;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Resolve Settings Field by Field"
+      size="md"
+      footer={
+        <>
+          <Button variant="ghost" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleApply}
+            disabled={isSaving || !differences || differences.length === 0}
+          >
+            {isSaving ? 'Saving...' : 'Write to Local & SD Card'}
+          </Button>
+        </>
+      }
+    >
+      <div className="settings-merge-content">
+        {!differences ? (
+          !error && <div className="loading">Comparing settings...</div>
+        ) : differences.length === 0 ? (
+          <p className="settings-merge-empty">Local and SD card settings are already the same.</p>
+        ) : (
+          <>
+            <div className="settings-merge-toolbar">
+              <span>
+                {differences.length} difference{differences.length !== 1 ? 's' : ''} ·{' '}
+                {differences.length - sdCount} from local, {sdCount} from SD card
+              </span>
+              <span className="settings-merge-bulk">
+                <button className="btn-ghost btn-sm" onClick={() => setAll('local')}>All Local</button>
+                <button className="btn-ghost btn-sm" onClick={() => setAll('sd')}>All SD Card</button>
+              </span>
+            </div>
+
+            <table className="settings-merge-table">
+              <thead>
+                <tr>
+                  <th>Field</th>
+                  <th>Local</th>
+                  <th>SD Card</th>
+                </tr>
+              </thead>
+              <tbody>
+                {differences.map(diff => (
+                  <tr key={diff.path}>
+                    <td><code>{diff.path}</code></td>
+                    {(['local', 'sd'] as const).map(source => (
+                      <td key={source}>
+                        <label className={`settings-merge-choice ${resolutions[diff.path] === source ? 'selected' : ''}`}>
+                          <input
+                            type="radio"
+                            name={diff.path}
+                            checked={resolutions[diff.path] === source}
+                            onChange={() => setResolutions(prev => ({ ...prev, [diff.path]: source }))}
+                            disabled={isSaving}
+                          />
+                          <span>{formatValue(diff[source])}</span>
+                        </label>
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        {error && <div className="error-message">{error}</div>}
+      </div>
+    </Modal>
+  );
+}
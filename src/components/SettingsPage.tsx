@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useImageCache, useSDCard } from '../App';
 import { ConnectionIndicator } from './ConnectionIndicator';
 import { ProgressBar } from './ProgressBar';
@@ -8,8 +9,18 @@ import { ExportBundleModal } from './ExportBundleModal';
 import { ImportBundleModal } from './ImportBundleModal';
 import { AddCartridgeModal } from './AddCartridgeModal';
 import { LabelsImportModal } from './LabelsImportModal';
+import { SettingsSyncModal } from './SettingsSyncModal';
+import { SettingsRuleModal } from './SettingsRuleModal';
+import { ApplyRulesModal } from './ApplyRulesModal';
+import { GlobalSettingsModal } from './GlobalSettingsModal';
+import { CardSnapshotModal } from './CardSnapshotModal';
 import { useLabelSync } from './LabelSyncIndicator';
 import { Button } from './ui';
+import { describePreset, type SettingsPreset } from '../lib/presets';
+import { describeRuleMatch, describeRuleAction, type SettingsRule } from '../lib/rules';
+import type { GlobalSettingsBackup, GlobalSettingsFile } from '../lib/globalSettings';
+import type { CardSnapshot } from '../lib/snapshots';
+import { LABELS_DB_TARGET_LABELS, type LabelsDbReport, type LabelsDbTarget } from '../lib/labelsVerify';
 import './SettingsPage.css';
 
 interface QuickCompareResult {
@@ -66,6 +77,10 @@ interface ChunkBenchmarkResult {
   avgSpeedFormatted: string;
 }
 
+type RetentionPolicy =
+  | { mode: 'count'; keepLast: number }
+  | { mode: 'days'; keepDays: number };
+
 interface LocalDataStatus {
   labels: { exists: boolean; entryCount?: number; fileSize?: number };
   ownedCarts: { exists: boolean; count: number };
@@ -77,6 +92,7 @@ export function SettingsPage() {
   const { invalidateImageCache, lastInvalidated } = useImageCache();
   const { selectedSDCard } = useSDCard();
   const { checkSyncStatus } = useLabelSync();
+  const navigate = useNavigate();
   const isConnected = selectedSDCard !== null;
 
   const [quickResult, setQuickResult] = useState<QuickCompareResult | null>(null);
@@ -119,6 +135,9 @@ export function SettingsPage() {
   const [showExportBundleModal, setShowExportBundleModal] = useState(false);
   const [showImportBundleModal, setShowImportBundleModal] = useState(false);
 
+  // Settings sync modal state
+  const [showSettingsSyncModal, setShowSettingsSyncModal] = useState(false);
+
   // Add cartridge modal state
   const [showAddCartridgeModal, setShowAddCartridgeModal] = useState(false);
 
@@ -133,6 +152,323 @@ export function SettingsPage() {
   const [showDeleteLocalDataModal, setShowDeleteLocalDataModal] = useState(false);
   const [deleteDataType, setDeleteDataType] = useState<LocalDataType>('labels');
 
+  // Automatic game pak backup retention
+  const [retentionMode, setRetentionMode] = useState<RetentionPolicy['mode']>('count');
+  const [retentionValue, setRetentionValue] = useState(10);
+  const [savingRetention, setSavingRetention] = useState(false);
+  const [retentionMessage, setRetentionMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchRetentionPolicy = async () => {
+      try {
+        const response = await fetch('/api/cartridges/game-pak/retention');
+        if (response.ok) {
+          const { policy } = await response.json() as { policy: RetentionPolicy };
+          setRetentionMode(policy.mode);
+          setRetentionValue(policy.mode === 'count' ? policy.keepLast : policy.keepDays);
+        }
+      } catch (err) {
+        console.error('Failed to fetch retention policy:', err);
+      }
+    };
+    fetchRetentionPolicy();
+  }, []);
+
+  const handleSaveRetention = async () => {
+    setSavingRetention(true);
+    setRetentionMessage(null);
+    try {
+      const policy: RetentionPolicy = retentionMode === 'count'
+        ? { mode: 'count', keepLast: retentionValue }
+        : { mode: 'days', keepDays: retentionValue };
+      const response = await fetch('/api/cartridges/game-pak/retention', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(policy),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save retention policy');
+      }
+      setRetentionMessage(data.pruned > 0 ? `Saved. Removed ${data.pruned} old automatic backups.` : 'Saved.');
+    } catch (err) {
+      setRetentionMessage(err instanceof Error ? err.message : 'Failed to save retention policy');
+    } finally {
+      setSavingRetention(false);
+    }
+  };
+
+  // Settings presets
+  const [presets, setPresets] = useState<SettingsPreset[]>([]);
+  const [presetError, setPresetError] = useState<string | null>(null);
+
+  const fetchPresets = useCallback(async () => {
+    try {
+      const response = await fetch('/api/presets');
+      if (response.ok) {
+        const data = await response.json();
+        setPresets(data.presets);
+      }
+    } catch (err) {
+      console.error('Failed to fetch presets:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPresets();
+  }, [fetchPresets]);
+
+  const handleDeletePreset = async (preset: SettingsPreset) => {
+    if (!confirm(`Delete the preset "${preset.name}"?`)) return;
+    setPresetError(null);
+    try {
+      const response = await fetch(`/api/presets/${preset.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete preset');
+      }
+      await fetchPresets();
+    } catch (err) {
+      setPresetError(err instanceof Error ? err.message : 'Failed to delete preset');
+    }
+  };
+
+  // Settings rules
+  const [rules, setRules] = useState<SettingsRule[]>([]);
+  const [ruleError, setRuleError] = useState<string | null>(null);
+  const [showRuleModal, setShowRuleModal] = useState(false);
+  const [showApplyRulesModal, setShowApplyRulesModal] = useState(false);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/settings-rules');
+      if (response.ok) {
+        const data = await response.json();
+        setRules(data.rules);
+      }
+    } catch (err) {
+      console.error('Failed to fetch settings rules:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const handleToggleRule = async (rule: SettingsRule) => {
+    setRuleError(null);
+    try {
+      const response = await fetch(`/api/settings-rules/${rule.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !rule.enabled }),
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update rule');
+      }
+      await fetchRules();
+    } catch (err) {
+      setRuleError(err instanceof Error ? err.message : 'Failed to update rule');
+    }
+  };
+
+  const handleDeleteRule = async (rule: SettingsRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) return;
+    setRuleError(null);
+    try {
+      const response = await fetch(`/api/settings-rules/${rule.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete rule');
+      }
+      await fetchRules();
+    } catch (err) {
+      setRuleError(err instanceof Error ? err.message : 'Failed to delete rule');
+    }
+  };
+
+  // Global settings (SD card Settings/Global)
+  const [sdGlobalFiles, setSDGlobalFiles] = useState<GlobalSettingsFile[]>([]);
+  const [globalBackups, setGlobalBackups] = useState<GlobalSettingsBackup[]>([]);
+  const [globalBusy, setGlobalBusy] = useState(false);
+  const [globalMessage, setGlobalMessage] = useState<string | null>(null);
+  const [globalError, setGlobalError] = useState<string | null>(null);
+  const [viewingGlobal, setViewingGlobal] = useState<GlobalSettingsBackup | 'sd' | null>(null);
+
+  const fetchSDGlobalFiles = useCallback(async () => {
+    if (!selectedSDCard) return;
+    try {
+      const response = await fetch(`/api/global-settings/sd?sdCardPath=${encodeURIComponent(selectedSDCard.path)}`);
+      if (response.ok) {
+        const data = await response.json();
+        setSDGlobalFiles(data.files);
+      }
+    } catch (err) {
+      console.error('Failed to fetch global settings:', err);
+    }
+  }, [selectedSDCard]);
+
+  const fetchGlobalBackups = useCallback(async () => {
+    try {
+      const response = await fetch('/api/global-settings/backups');
+      if (response.ok) {
+        const data = await response.json();
+        setGlobalBackups(data.backups);
+      }
+    } catch (err) {
+      console.error('Failed to fetch global settings backups:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSDGlobalFiles();
+  }, [fetchSDGlobalFiles]);
+
+  useEffect(() => {
+    fetchGlobalBackups();
+  }, [fetchGlobalBackups]);
+
+  const handleBackupGlobalSettings = async () => {
+    if (!selectedSDCard) return;
+    setGlobalBusy(true);
+    setGlobalError(null);
+    setGlobalMessage(null);
+    try {
+      const response = await fetch('/api/global-settings/backups', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sdCardPath: selectedSDCard.path }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to back up global settings');
+      }
+      setGlobalMessage(`Backed up ${data.files.length} files.`);
+      await fetchGlobalBackups();
+    } catch (err) {
+      setGlobalError(err instanceof Error ? err.message : 'Failed to back up global settings');
+    } finally {
+      setGlobalBusy(false);
+    }
+  };
+
+  const handleRestoreGlobalSettings = async (backup: GlobalSettingsBackup) => {
+    if (!selectedSDCard) return;
+    if (!confirm(`Restore "${backup.name}" to the SD card? The card's current global settings are backed up first.`)) return;
+    setGlobalBusy(true);
+    setGlobalError(null);
+    setGlobalMessage(null);
+    try {
+      const response = await fetch(`/api/global-settings/backups/${backup.id}/restore`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sdCardPath: selectedSDCard.path }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to restore global settings');
+      }
+      setGlobalMessage(
+        `Restored ${data.filesWritten} files` +
+        (data.filesRemoved > 0 ? ` and removed ${data.filesRemoved} not in the backup.` : '.')
+      );
+      await Promise.all([fetchSDGlobalFiles(), fetchGlobalBackups()]);
+    } catch (err) {
+      setGlobalError(err instanceof Error ? err.message : 'Failed to restore global settings');
+    } finally {
+      setGlobalBusy(false);
+    }
+  };
+
+  const handleDeleteGlobalBackup = async (backup: GlobalSettingsBackup) => {
+    if (!confirm(`Delete the backup "${backup.name}"?`)) return;
+    setGlobalError(null);
+    setGlobalMessage(null);
+    try {
+      const response = await fetch(`/api/global-settings/backups/${backup.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete backup');
+      }
+      await fetchGlobalBackups();
+    } catch (err) {
+      setGlobalError(err instanceof Error ? err.message : 'Failed to delete backup');
+    }
+  };
+
+  // Card snapshots (full Library/N64 + Settings archives)
+  const [snapshots, setSnapshots] = useState<CardSnapshot[]>([]);
+  const [snapshotAction, setSnapshotAction] = useState<
+    { kind: 'create'; sdCardPath: string } | { kind: 'restore'; snapshot: CardSnapshot; sdCardPath?: string } | null
+  >(null);
+  const [verifyingSnapshot, setVerifyingSnapshot] = useState<string | null>(null);
+  const [snapshotMessage, setSnapshotMessage] = useState<string | null>(null);
+  const [snapshotError, setSnapshotError] = useState<string | null>(null);
+
+  const fetchSnapshots = useCallback(async () => {
+    try {
+      const response = await fetch('/api/snapshots');
+      if (response.ok) {
+        const data = await response.json();
+        setSnapshots(data.snapshots);
+      }
+    } catch (err) {
+      console.error('Failed to fetch snapshots:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSnapshots();
+  }, [fetchSnapshots]);
+
+  const handleVerifySnapshot = async (snapshot: CardSnapshot) => {
+    setVerifyingSnapshot(snapshot.id);
+    setSnapshotError(null);
+    setSnapshotMessage(null);
+    try {
+      const response = await fetch(`/api/snapshots/${snapshot.id}/verify`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to verify snapshot');
+      }
+      if (data.valid) {
+        setSnapshotMessage(`"${snapshot.name}" is intact: all ${snapshot.fileCount} files match their checksums.`);
+      } else {
+        setSnapshotError(`"${snapshot.name}" is damaged: ${data.errors.join('; ')}`);
+      }
+    } catch (err) {
+      setSnapshotError(err instanceof Error ? err.message : 'Failed to verify snapshot');
+    } finally {
+      setVerifyingSnapshot(null);
+    }
+  };
+
+  const handleDownloadSnapshot = (snapshot: CardSnapshot) => {
+    const a = document.createElement('a');
+    a.href = `/api/snapshots/${snapshot.id}/download`;
+    a.download = `a3d-snapshot-${snapshot.id}.zip`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
+  const handleDeleteSnapshot = async (snapshot: CardSnapshot) => {
+    if (!confirm(`Delete the snapshot "${snapshot.name}"?`)) return;
+    setSnapshotError(null);
+    setSnapshotMessage(null);
+    try {
+      const response = await fetch(`/api/snapshots/${snapshot.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to delete snapshot');
+      }
+      await fetchSnapshots();
+    } catch (err) {
+      setSnapshotError(err instanceof Error ? err.message : 'Failed to delete snapshot');
+    }
+  };
+
   const fetchLocalDataStatus = useCallback(async () => {
     try {
       const response = await fetch('/api/local-data/status');
@@ -145,6 +481,68 @@ export function SettingsPage() {
     }
   }, []);
 
+  // labels.db integrity
+  const [labelsReport, setLabelsReport] = useState<LabelsDbReport | null>(null);
+  const [verifyingLabels, setVerifyingLabels] = useState<LabelsDbTarget | null>(null);
+  const [repairingLabels, setRepairingLabels] = useState(false);
+  const [labelsRepairMessage, setLabelsRepairMessage] = useState<string | null>(null);
+  const [labelsVerifyError, setLabelsVerifyError] = useState<string | null>(null);
+
+  const handleVerifyLabels = async (target: LabelsDbTarget) => {
+    setVerifyingLabels(target);
+    setLabelsVerifyError(null);
+    setLabelsRepairMessage(null);
+    try {
+      const params = new URLSearchParams({ target });
+      if (target === 'sd' && selectedSDCard) {
+        params.set('sdCardPath', selectedSDCard.path);
+      }
+      const response = await fetch(`/api/labels/verify?${params}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to verify labels.db');
+      }
+      setLabelsReport(data);
+    } catch (err) {
+      setLabelsReport(null);
+      setLabelsVerifyError(err instanceof Error ? err.message : 'Failed to verify labels.db');
+    } finally {
+      setVerifyingLabels(null);
+    }
+  };
+
+  const handleRepairLabels = async () => {
+    if (!labelsReport) return;
+    const target = labelsReport.target;
+    if (!confirm(`Repair the ${LABELS_DB_TARGET_LABELS[target]}? Entries without a cart ID and duplicate entries are dropped.`)) return;
+    setRepairingLabels(true);
+    setLabelsVerifyError(null);
+    try {
+      const response = await fetch('/api/labels/repair', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ target, sdCardPath: selectedSDCard?.path }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to repair labels.db');
+      }
+      setLabelsReport({ ...labelsReport, ...data.after });
+      setLabelsRepairMessage(
+        `Repaired: kept ${data.entriesKept} labels` +
+        (data.entriesDropped > 0 ? `, dropped ${data.entriesDropped}.` : '.')
+      );
+      if (target === 'local') {
+        fetchLocalDataStatus();
+      }
+      checkSyncStatus();
+    } catch (err) {
+      setLabelsVerifyError(err instanceof Error ? err.message : 'Failed to repair labels.db');
+    } finally {
+      setRepairingLabels(false);
+    }
+  };
+
   useEffect(() => {
     fetchLocalDataStatus();
   }, [fetchLocalDataStatus]);
@@ -392,8 +790,257 @@ export function SettingsPage() {
               Import Bundle
             </Button>
           </div>
+
+          <div className="setting-row">
+            <div className="setting-info">
+              <h3>Automatic Game Pak Backups</h3>
+              <p className="setting-description">
+                A backup tagged <span className="text-code">auto</span> is created before a controller pak is
+                overwritten or deleted. Choose how many to keep for each cartridge. Manual backups are never removed.
+              </p>
+              <div className="retention-controls">
+                <select
+                  value={retentionMode}
+                  onChange={(e) => setRetentionMode(e.target.value as RetentionPolicy['mode'])}
+                  disabled={savingRetention}
+                >
+                  <option value="count">Keep the last</option>
+                  <option value="days">Keep from the last</option>
+                </select>
+                <input
+                  type="number"
+                  min={1}
+                  value={retentionValue}
+                  onChange={(e) => setRetentionValue(Math.max(1, parseInt(e.target.value, 10) || 1))}
+                  disabled={savingRetention}
+                />
+                <span>{retentionMode === 'count' ? 'backups' : 'days'}</span>
+              </div>
+              {retentionMessage && <p className="setting-meta">{retentionMessage}</p>}
+            </div>
+            <Button variant="secondary" onClick={handleSaveRetention} loading={savingRetention}>
+              Save
+            </Button>
+          </div>
         </section>
 
+        {/* Global Settings */}
+        <section className="settings-section">
+          <h2>Global Settings</h2>
+          <p>
+            The console keeps device-wide settings in <span className="text-code">Settings/Global</span> on
+            the SD card. Their format isn't documented, so files are shown as JSON, text or a hex dump and
+            backed up and restored as a whole. Backups are included in bundle exports.
+          </p>
+
+          {isConnected && selectedSDCard && (
+            <div className="setting-row">
+              <div className="setting-info">
+                <h3>SD Card</h3>
+                <p className="setting-description">
+                  {sdGlobalFiles.length === 0
+                    ? 'No global settings files on this SD card.'
+                    : `${sdGlobalFiles.length} files · ${formatBytes(sdGlobalFiles.reduce((sum, file) => sum + file.size, 0))}`}
+                </p>
+              </div>
+              <Button variant="ghost" onClick={() => setViewingGlobal('sd')} disabled={sdGlobalFiles.length === 0}>
+                View
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={handleBackupGlobalSettings}
+                loading={globalBusy}
+                disabled={sdGlobalFiles.length === 0}
+              >
+                Back Up
+              </Button>
+            </div>
+          )}
+
+          {globalBackups.length === 0 ? (
+            <p className="setting-meta">No global settings backups yet.</p>
+          ) : (
+            globalBackups.map(backup => (
+              <div className="setting-row" key={backup.id}>
+                <div className="setting-info">
+                  <h3>{backup.name}</h3>
+                  <p className="setting-description">
+                    {new Date(backup.createdAt).toLocaleString()} · {backup.files.length} files · {formatBytes(backup.totalSize)}
+                    {backup.tags?.includes('auto') && ' · auto'}
+                  </p>
+                </div>
+                <Button variant="ghost" onClick={() => setViewingGlobal(backup)}>
+                  View
+                </Button>
+                {isConnected && (
+                  <Button variant="secondary" onClick={() => handleRestoreGlobalSettings(backup)} disabled={globalBusy}>
+                    Restore
+                  </Button>
+                )}
+                <Button variant="secondary" onClick={() => handleDeleteGlobalBackup(backup)} disabled={globalBusy}>
+                  Delete
+                </Button>
+              </div>
+            ))
+          )}
+          {globalMessage && <p className="setting-meta">{globalMessage}</p>}
+          {globalError && <div className="error-message">{globalError}</div>}
+        </section>
+
+        {/* Card Snapshots */}
+        <section className="settings-section">
+          <h2>Card Snapshots</h2>
+          <p>
+            A snapshot archives the SD card's <span className="text-code">Library/N64</span> and{' '}
+            <span className="text-code">Settings</span> directories exactly as they are, with a checksum for every
+            file. Restore one to the same card to roll back, or to a blank card to clone it.
+          </p>
+
+          {isConnected && selectedSDCard && (
+            <div className="setting-row">
+              <div className="setting-info">
+                <h3>Take Snapshot</h3>
+                <p className="setting-description">Archive {selectedSDCard.name} as it is now.</p>
+              </div>
+              <Button variant="secondary" onClick={() => setSnapshotAction({ kind: 'create', sdCardPath: selectedSDCard.path })}>
+                Snapshot
+              </Button>
+            </div>
+          )}
+
+          {snapshots.length === 0 ? (
+            <p className="setting-meta">No snapshots yet.</p>
+          ) : (
+            snapshots.map(snapshot => (
+              <div className="setting-row" key={snapshot.id}>
+                <div className="setting-info">
+                  <h3>{snapshot.name}</h3>
+                  <p className="setting-description">
+                    {new Date(snapshot.createdAt).toLocaleString()} · {snapshot.sourceCard} · {snapshot.fileCount} files
+                    · {formatBytes(snapshot.totalSize)} ({formatBytes(snapshot.archiveSize)} compressed)
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  onClick={() => handleVerifySnapshot(snapshot)}
+                  loading={verifyingSnapshot === snapshot.id}
+                >
+                  Verify
+                </Button>
+                <Button variant="ghost" onClick={() => handleDownloadSnapshot(snapshot)}>
+                  Download
+                </Button>
+                <Button
+                  variant="secondary"
+                  onClick={() => setSnapshotAction({ kind: 'restore', snapshot, sdCardPath: selectedSDCard?.path })}
+                >
+                  Restore
+                </Button>
+                <Button variant="secondary" onClick={() => handleDeleteSnapshot(snapshot)}>
+                  Delete
+                </Button>
+              </div>
+            ))
+          )}
+          {snapshotMessage && <p className="setting-meta">{snapshotMessage}</p>}
+          {snapshotError && <div className="error-message">{snapshotError}</div>}
+        </section>
+
+        {/* Settings Presets */}
+        <section className="settings-section">
+          <h2>Settings Presets</h2>
+          <p>
+            Named sets of display and hardware settings. Save a preset from a cartridge's Settings tab,
+            then apply it to any selection of cartridges with <strong>Apply Preset</strong> in Select mode.
+          </p>
+
+          {presets.length === 0 ? (
+            <p className="setting-meta">No presets saved yet.</p>
+          ) : (
+            presets.map(preset => (
+              <div className="setting-row" key={preset.id}>
+                <div className="setting-info">
+                  <h3>{preset.name}</h3>
+                  <p className="setting-description">
+                    {preset.description ? `${preset.description} · ` : ''}{describePreset(preset)}
+                  </p>
+                </div>
+                <Button variant="secondary" onClick={() => handleDeletePreset(preset)}>
+                  Delete
+                </Button>
+              </div>
+            ))
+          )}
+          {presetError && <div className="error-message">{presetError}</div>}
+        </section>
+
+        {/* Settings Rules */}
+        <section className="settings-section">
+          <h2>Settings Rules</h2>
+          <p>
+            Apply settings automatically by region, video mode, language or release type from the cart database.
+            Rules run in order over your owned cartridges, so later rules win when they set the same field.
+          </p>
+
+          {rules.length === 0 ? (
+            <p className="setting-meta">No rules yet.</p>
+          ) : (
+            rules.map(rule => (
+              <div className="setting-row" key={rule.id}>
+                <div className="setting-info">
+                  <h3>{rule.name}{!rule.enabled && ' (disabled)'}</h3>
+                  <p className="setting-description">
+                    {describeRuleMatch(rule.match)} → {describeRuleAction(rule, presets)}
+                  </p>
+                </div>
+                <Button variant="ghost" onClick={() => handleToggleRule(rule)}>
+                  {rule.enabled ? 'Disable' : 'Enable'}
+                </Button>
+                <Button variant="secondary" onClick={() => handleDeleteRule(rule)}>
+                  Delete
+                </Button>
+              </div>
+            ))
+          )}
+          <div className="setting-row">
+            <Button variant="secondary" onClick={() => setShowRuleModal(true)}>
+              Add Rule
+            </Button>
+            <Button
+              variant="primary"
+              onClick={() => setShowApplyRulesModal(true)}
+              disabled={!rules.some(rule => rule.enabled)}
+            >
+              Preview &amp; Apply
+            </Button>
+          </div>
+          {ruleError && <div className="error-message">{ruleError}</div>}
+        </section>
+
+        {/* Game Settings Sync - only show when SD card connected */}
+        {isConnected && selectedSDCard && (
+          <section className="settings-section">
+            <h2>Game Settings Sync</h2>
+            <p>
+              Sync every cartridge's <span className="text-code">settings.json</span> between your local library
+              and the SD card in one go.
+            </p>
+
+            <div className="setting-row">
+              <div className="setting-info">
+                <h3>Sync All Settings</h3>
+                <p className="setting-description">
+                  Settings found on only one side are copied to the other. For cartridges whose settings differ,
+                  choose whether the newest, local or SD card version wins, or review them one by one.
+                </p>
+              </div>
+              <Button variant="secondary" onClick={() => setShowSettingsSyncModal(true)}>
+                Sync Settings
+              </Button>
+            </div>
+          </section>
+        )}
+
         {/* Import labels.db */}
         <section className="settings-section">
           <h2>Import Labels Database</h2>
@@ -428,6 +1075,91 @@ export function SettingsPage() {
           </div>
         </section>
 
+        {/* labels.db Integrity */}
+        <section className="settings-section">
+          <h2>Labels Database Integrity</h2>
+          <p>
+            Checks a <span className="text-code">labels.db</span> against the file format: a sorted ID table
+            without duplicates, one full image slot per cart ID, and 0xFF slot padding. Repair re-sorts the
+            table, drops duplicate and orphaned entries, and trims partial data at the end of the file.
+          </p>
+
+          <div className="setting-row">
+            <div className="setting-info">
+              <h3>Verify labels.db</h3>
+              <p className="setting-description">Reads the whole file. Nothing is changed until you repair.</p>
+            </div>
+            <div className="button-group">
+              <Button
+                variant="secondary"
+                onClick={() => handleVerifyLabels('local')}
+                loading={verifyingLabels === 'local'}
+                disabled={verifyingLabels !== null || repairingLabels}
+              >
+                Check Local
+              </Button>
+              {isConnected && (
+                <Button
+                  variant="secondary"
+                  onClick={() => handleVerifyLabels('sd')}
+                  loading={verifyingLabels === 'sd'}
+                  disabled={verifyingLabels !== null || repairingLabels}
+                >
+                  Check SD Card
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {labelsReport && (
+            <div className="compare-results">
+              <h4>{LABELS_DB_TARGET_LABELS[labelsReport.target]}</h4>
+              <div className={`result-badge ${labelsReport.issues.length === 0 ? 'identical' : 'different'}`}>
+                {labelsReport.issues.length === 0
+                  ? 'No problems found'
+                  : labelsReport.valid
+                    ? `${labelsReport.issues.length} warnings`
+                    : `${labelsReport.issues.filter(issue => issue.severity === 'error').length} errors`}
+              </div>
+              <dl className="result-details">
+                <dt>File size</dt>
+                <dd>{formatBytes(labelsReport.fileSize)}</dd>
+                <dt>Cart IDs</dt>
+                <dd>{labelsReport.entryCount}</dd>
+                <dt>Image slots</dt>
+                <dd>{labelsReport.slotCount}</dd>
+              </dl>
+
+              {labelsReport.issues.length > 0 && (
+                <div className="diff-summary">
+                  {labelsReport.issues.map(issue => (
+                    <div className="diff-group" key={issue.code}>
+                      <h5>{issue.severity === 'error' ? 'Error' : 'Warning'}: {issue.message}</h5>
+                      {issue.indices && (
+                        <p className="diff-ids">
+                          Entries {issue.indices.join(', ')}
+                          {issue.count > issue.indices.length && ` and ${issue.count - issue.indices.length} more`}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                  {labelsReport.repairable ? (
+                    <Button variant="danger" onClick={handleRepairLabels} loading={repairingLabels}>
+                      Repair
+                    </Button>
+                  ) : (
+                    <p className="setting-meta">
+                      This file can't be repaired. Import a labels.db or restore one from a backup.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+          {labelsRepairMessage && <p className="setting-meta">{labelsRepairMessage}</p>}
+          {labelsVerifyError && <div className="error-message">{labelsVerifyError}</div>}
+        </section>
+
         <section className="settings-section">
           <h2>Image Cache</h2>
           <p>
@@ -686,6 +1418,22 @@ export function SettingsPage() {
             </div>
           </div>
 
+          <div className="setting-row">
+            <div className="setting-info">
+              <p className="setting-description">
+                <strong>Visual Compare:</strong> Shows local and SD card images side by side with the
+                changed pixels highlighted. Push or pull each differing label individually.
+              </p>
+            </div>
+            <button
+              className="btn-secondary"
+              onClick={() => navigate('/labels/compare')}
+              disabled={!isConnected}
+            >
+              Visual Compare
+            </button>
+          </div>
+
           {compareError && (
             <div className="compare-error">
               {compareError}
@@ -978,6 +1726,27 @@ export function SettingsPage() {
       </div>
 
       {/* Modals */}
+      {selectedSDCard && (
+        <SettingsSyncModal
+          isOpen={showSettingsSyncModal}
+          onClose={() => setShowSettingsSyncModal(false)}
+          sdCardPath={selectedSDCard.path}
+        />
+      )}
+
+      <SettingsRuleModal
+        isOpen={showRuleModal}
+        onClose={() => setShowRuleModal(false)}
+        onSaved={fetchRules}
+        presets={presets}
+      />
+
+      <ApplyRulesModal
+        isOpen={showApplyRulesModal}
+        onClose={() => setShowApplyRulesModal(false)}
+        sdCardPath={selectedSDCard?.path}
+      />
+
       {selectedSDCard && (
         <DeleteSDLabelsModal
           isOpen={showDeleteSDLabelsModal}
@@ -1002,6 +1771,8 @@ export function SettingsPage() {
       <ExportBundleModal
         isOpen={showExportBundleModal}
         onClose={() => setShowExportBundleModal(false)}
+        onExportComplete={fetchGlobalBackups}
+        sdCardPath={selectedSDCard?.path}
       />
 
       <ImportBundleModal
@@ -1010,9 +1781,39 @@ export function SettingsPage() {
         onImportComplete={() => {
           fetchLocalDataStatus();
           checkSyncStatus();
+          fetchPresets();
+          fetchGlobalBackups();
         }}
       />
 
+      {viewingGlobal && (
+        <GlobalSettingsModal
+          isOpen
+          onClose={() => setViewingGlobal(null)}
+          title={viewingGlobal === 'sd' ? 'SD Card Global Settings' : viewingGlobal.name}
+          source={viewingGlobal === 'sd'
+            ? { kind: 'sd', sdCardPath: selectedSDCard?.path ?? '' }
+            : { kind: 'backup', backupId: viewingGlobal.id }}
+          files={viewingGlobal === 'sd' ? sdGlobalFiles : viewingGlobal.files}
+        />
+      )}
+
+      {snapshotAction && (
+        <CardSnapshotModal
+          isOpen
+          onClose={() => setSnapshotAction(null)}
+          onComplete={() => {
+            fetchSnapshots();
+            if (snapshotAction.kind === 'restore') {
+              fetchLocalDataStatus();
+              checkSyncStatus();
+              fetchSDGlobalFiles();
+            }
+          }}
+          action={snapshotAction}
+        />
+      )}
+
       <AddCartridgeModal
         isOpen={showAddCartridgeModal}
         onClose={() => setShowAddCartridgeModal(false)}
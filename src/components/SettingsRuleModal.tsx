@@ -0,0 +1,289 @@
+import { useState, useEffect } from 'react';
+import { Modal, Button } from './ui';
+import { REGION_VALUES, OVERCLOCK_VALUES } from '../../shared/settings-schema';
+import type { HardwareSettings } from '../lib/defaultSettings';
+import type { SettingsPreset } from '../lib/presets';
+import { RELEASE_TYPES, type SettingsRuleMatch } from '../lib/rules';
+import './SettingsRuleModal.css';
+
+interface SettingsRuleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSaved: () => void;
+  presets: SettingsPreset[];
+}
+
+interface FilterOptions {
+  regions: string[];
+  languages: string[];
+  videoModes: string[];
+}
+
+type MatchKey = keyof SettingsRuleMatch;
+type HardwareKey = keyof HardwareSettings;
+
+const BOOLEAN_HARDWARE_FIELDS: Array<{ key: HardwareKey; label: string }> = [
+  { key: 'virtualExpansionPak', label: 'Expansion Pak' },
+  { key: 'disableDeblur', label: 'Disable De-Blur' },
+  { key: 'enable32BitColor', label: '32bit Color' },
+  { key: 'forceProgressiveOutput', label: 'Force Progressive Output' },
+  { key: 'disableTextureFiltering', label: 'Disable Texture Filtering' },
+  { key: 'disableAntialiasing', label: 'Disable Antialiasing' },
+  { key: 'forceOriginalHardware', label: 'Force Original Hardware' },
+];
+
+export function SettingsRuleModal({ isOpen, onClose, onSaved, presets }: SettingsRuleModalProps) {
+  const [name, setName] = useState('');
+  const [options, setOptions] = useState<FilterOptions | null>(null);
+  const [match, setMatch] = useState<Record<MatchKey, string[]>>({
+    videoModes: [],
+    regions: [],
+    languages: [],
+    releaseTypes: [],
+  });
+  const [actionType, setActionType] = useState<'hardware' | 'preset'>('hardware');
+  const [presetId, setPresetId] = useState('');
+  const [hardware, setHardware] = useState<Partial<HardwareSettings>>({});
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load match options from the cart database when modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    fetch('/api/labels/filter-options')
+      .then(res => res.json())
+      .then(data => setOptions(data))
+      .catch(() => setOptions({ regions: [], languages: [], videoModes: ['NTSC', 'PAL'] }));
+  }, [isOpen]);
+
+  // Reset the form on close so the next rule starts empty
+  const handleClose = () => {
+    setName('');
+    setMatch({ videoModes: [], regions: [], languages: [], releaseTypes: [] });
+    setActionType('hardware');
+    setPresetId('');
+    setHardware({});
+    setError(null);
+    onClose();
+  };
+
+  const toggleMatch = (key: MatchKey, value: string) => {
+    setMatch(prev => ({
+      ...prev,
+      [key]: prev[key].includes(value) ? prev[key].filter(v => v !== value) : [...prev[key], value],
+    }));
+  };
+
+  const toggleHardware = (key: HardwareKey, defaultValue: HardwareSettings[HardwareKey]) => {
+    setHardware(prev => {
+      const next = { ...prev };
+      if (key in next) {
+        delete next[key];
+      } else {
+        Object.assign(next, { [key]: defaultValue });
+      }
+      return next;
+    });
+  };
+
+  const hasCriteria = Object.values(match).some(values => values.length > 0);
+  const hasAction = actionType === 'preset' ? !!presetId : Object.keys(hardware).length > 0;
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      const ruleMatch = Object.fromEntries(
+        Object.entries(match).filter(([, values]) => values.length > 0)
+      );
+
+      const response = await fetch('/api/settings-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          match: ruleMatch,
+          ...(actionType === 'preset' ? { presetId } : { settings: { hardware } }),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to save rule');
+      }
+
+      onSaved();
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderChoices = (key: MatchKey, values: readonly string[]) => (
+    <div className="rule-choices">
+      {values.map(value => (
+        <label key={value} className={`rule-choice ${match[key].includes(value) ? 'selected' : ''}`}>
+          <input
+            type="checkbox"
+            checked={match[key].includes(value)}
+            onChange={() => toggleMatch(key, value)}
+            disabled={saving}
+          />
+          {value}
+        </label>
+      ))}
+    </div>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="New Settings Rule"
+      size="md"
+      footer={
+        <>
+          <Button variant="secondary" onClick={handleClose} disabled={saving}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleSave}
+            disabled={saving || !name.trim() || !hasCriteria || !hasAction}
+            loading={saving}
+          >
+            Save Rule
+          </Button>
+        </>
+      }
+    >
+      <div className="form-group">
+        <label>Name</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g., PAL carts progressive"
+          maxLength={64}
+          autoFocus
+          autoComplete="off"
+          data-1p-ignore
+          data-lpignore="true"
+        />
+      </div>
+
+      <div className="rule-section">
+        <h4>Match carts where (every chosen group must match):</h4>
+        {!options ? (
+          <p className="loading-text">Loading cart database...</p>
+        ) : (
+          <>
+            <span className="rule-section-label">Video mode</span>
+            {renderChoices('videoModes', options.videoModes)}
+            <span className="rule-section-label">Region</span>
+            {renderChoices('regions', options.regions)}
+            <span className="rule-section-label">Language (any of)</span>
+            {renderChoices('languages', options.languages)}
+            <span className="rule-section-label">Release type</span>
+            {renderChoices('releaseTypes', RELEASE_TYPES)}
+          </>
+        )}
+      </div>
+
+      <div className="rule-section">
+        <h4>Apply:</h4>
+        <div className="rule-choices">
+          <label className={`rule-choice ${actionType === 'hardware' ? 'selected' : ''}`}>
+            <input
+              type="radio"
+              name="rule-action"
+              checked={actionType === 'hardware'}
+              onChange={() => setActionType('hardware')}
+              disabled={saving}
+            />
+            Hardware settings
+          </label>
+          <label className={`rule-choice ${actionType === 'preset' ? 'selected' : ''}`}>
+            <input
+              type="radio"
+              name="rule-action"
+              checked={actionType === 'preset'}
+              onChange={() => setActionType('preset')}
+              disabled={saving || presets.length === 0}
+            />
+            Preset
+          </label>
+        </div>
+
+        {actionType === 'preset' ? (
+          <select value={presetId} onChange={(e) => setPresetId(e.target.value)} disabled={saving}>
+            <option value="">Choose a preset...</option>
+            {presets.map(preset => (
+              <option key={preset.id} value={preset.id}>{preset.name}</option>
+            ))}
+          </select>
+        ) : (
+          <div className="rule-hardware">
+            <label className="rule-hardware-field">
+              <input
+                type="checkbox"
+                checked={'region' in hardware}
+                onChange={() => toggleHardware('region', 'Auto')}
+                disabled={saving}
+              />
+              <span>Region</span>
+              <select
+                value={hardware.region ?? 'Auto'}
+                onChange={(e) => setHardware(prev => ({ ...prev, region: e.target.value as HardwareSettings['region'] }))}
+                disabled={saving || !('region' in hardware)}
+              >
+                {REGION_VALUES.map(v => <option key={v} value={v}>{v}</option>)}
+              </select>
+            </label>
+            <label className="rule-hardware-field">
+              <input
+                type="checkbox"
+                checked={'overclock' in hardware}
+                onChange={() => toggleHardware('overclock', 'Auto')}
+                disabled={saving}
+              />
+              <span>Overclock</span>
+              <select
+                value={hardware.overclock ?? 'Auto'}
+                onChange={(e) => setHardware(prev => ({ ...prev, overclock: e.target.value as HardwareSettings['overclock'] }))}
+                disabled={saving || !('overclock' in hardware)}
+              >
+                {OVERCLOCK_VALUES.map(v => <option key={v} value={v}>{v}</option>)}
+              </select>
+            </label>
+            {BOOLEAN_HARDWARE_FIELDS.map(({ key, label }) => (
+              <label key={key} className="rule-hardware-field">
+                <input
+                  type="checkbox"
+                  checked={key in hardware}
+                  onChange={() => toggleHardware(key, true)}
+                  disabled={saving}
+                />
+                <span>{label}</span>
+                <select
+                  value={String(hardware[key] ?? true)}
+                  onChange={(e) => setHardware(prev => ({ ...prev, [key]: e.target.value === 'true' }))}
+                  disabled={saving || !(key in hardware)}
+                >
+                  <option value="true">On</option>
+                  <option value="false">Off</option>
+                </select>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {error && <div className="error-message">{error}</div>}
+    </Modal>
+  );
+}
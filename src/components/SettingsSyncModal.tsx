@@ -0,0 +1,222 @@
+import { useState, useEffect } from 'react';
+import { Modal } from './ui/Modal';
+import { Button } from './ui/Button';
+import { ProgressBar } from './ProgressBar';
+import './SettingsSyncModal.css';
+
+interface SettingsSyncModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sdCardPath: string;
+}
+
+type SyncStatus = 'local-only' | 'sd-only' | 'identical' | 'differing';
+type SyncPolicy = 'newest' | 'local' | 'sd' | 'ask';
+type SyncStep = 'loading' | 'review' | 'syncing' | 'complete' | 'error';
+
+interface SyncEntry {
+  cartId: string;
+  title: string;
+  status: SyncStatus;
+  differences?: string[];
+}
+
+interface SyncScan {
+  entries: SyncEntry[];
+  summary: Record<SyncStatus, number>;
+}
+
+interface SyncResult {
+  uploaded: number;
+  downloaded: number;
+  unchanged: number;
+  needsReview: SyncEntry[];
+  errors: Array<{ cartId: string; error: string }>;
+}
+
+const STATUS_LABELS: Record<SyncStatus, string> = {
+  'local-only': 'Local only (will be copied to SD card)',
+  'sd-only': 'SD card only (will be copied to local)',
+  identical: 'Identical',
+  differing: 'Different on each side',
+};
+
+const POLICY_OPTIONS: Array<{ value: SyncPolicy; label: string; desc: string }> = [
+  { value: 'newest', label: 'Newest wins', desc: 'Use whichever settings.json was modified last' },
+  { value: 'local', label: 'Local wins', desc: 'Overwrite the SD card with local settings' },
+  { value: 'sd', label: 'SD card wins', desc: 'Overwrite local settings with the SD card' },
+  { value: 'ask', label: 'Ask', desc: 'Leave differing carts unchanged and list them for review' },
+];
+
+export function SettingsSyncModal({ isOpen, onClose, sdCardPath }: SettingsSyncModalProps) {
+  const [step, setStep] = useState<SyncStep>('loading');
+  const [scan, setScan] = useState<SyncScan | null>(null);
+  const [policy, setPolicy] = useState<SyncPolicy>('ask');
+  const [progress, setProgress] = useState<{ percentage: number; label: string }>({ percentage: 0, label: '' });
+  const [result, setResult] = useState<SyncResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Scan when modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+
+    fetch(`/api/sync/settings/status?sdCardPath=${encodeURIComponent(sdCardPath)}`)
+      .then(async res => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || 'Failed to scan settings');
+        setScan(data);
+        setStep('review');
+      })
+      .catch(err => {
+        setError(err instanceof Error ? err.message : 'Failed to scan settings');
+        setStep('error');
+      });
+  }, [isOpen, sdCardPath]);
+
+  const handleSync = () => {
+    setStep('syncing');
+    setError(null);
+    setProgress({ percentage: 0, label: '' });
+
+    const params = new URLSearchParams({ sdCardPath, policy });
+    const eventSource = new EventSource(`/api/sync/settings/sync-stream?${params}`);
+
+    eventSource.onmessage = (event) => {
+      const data = JSON.parse(event.data);
+
+      switch (data.type) {
+        case 'progress':
+          setProgress({ percentage: data.percentage || 0, label: data.title || data.cartId });
+          break;
+
+        case 'complete':
+          setResult(data);
+          setStep('complete');
+          eventSource.close();
+          break;
+
+        case 'error':
+          setError(data.error);
+          setStep('error');
+          eventSource.close();
+          break;
+      }
+    };
+
+    eventSource.onerror = () => {
+      eventSource.close();
+      setError('Connection lost during sync');
+      setStep('error');
+    };
+  };
+
+  // Reset state on close so the next open starts with a fresh scan
+  const handleClose = () => {
+    setStep('loading');
+    setScan(null);
+    setResult(null);
+    setError(null);
+    onClose();
+  };
+
+  const isSyncing = step === 'syncing';
+  const nothingToSync = !!scan && scan.summary.identical === scan.entries.length;
+
+  const footer = step === 'review' ? (
+    <>
+      <Button variant="ghost" onClick={handleClose}>
+        Cancel
+      </Button>
+      <Button variant="primary" onClick={handleSync} disabled={nothingToSync}>
+        Sync {scan?.entries.length ?? 0} Cartridge{scan?.entries.length !== 1 ? 's' : ''}
+      </Button>
+    </>
+  ) : (
+    <Button variant={step === 'complete' ? 'primary' : 'ghost'} onClick={handleClose} disabled={isSyncing}>
+      {step === 'complete' ? 'Done' : 'Close'}
+    </Button>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={isSyncing ? () => {} : handleClose}
+      title="Sync Game Settings"
+      size="md"
+      footer={footer}
+    >
+      <div className="settings-sync-content">
+        {step === 'loading' && <div className="loading">Scanning local and SD card settings...</div>}
+
+        {step === 'review' && scan && (
+          <>
+            <ul className="settings-sync-summary">
+              {(Object.keys(STATUS_LABELS) as SyncStatus[]).map(status => (
+                <li key={status} className={`status-${status}`}>
+                  <span className="settings-sync-count">{scan.summary[status]}</span>
+                  <span>{STATUS_LABELS[status]}</span>
+                </li>
+              ))}
+            </ul>
+
+            {scan.summary.differing > 0 && (
+              <div className="settings-sync-policy">
+                <h4>For carts that differ:</h4>
+                {POLICY_OPTIONS.map(option => (
+                  <label key={option.value} className="export-option">
+                    <input
+                      type="radio"
+                      name="sync-policy"
+                      checked={policy === option.value}
+                      onChange={() => setPolicy(option.value)}
+                    />
+                    <div className="option-content">
+                      <span className="option-label">{option.label}</span>
+                      <span className="option-desc">{option.desc}</span>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        {step === 'syncing' && (
+          <ProgressBar progress={progress.percentage} showPercentage label={progress.label} />
+        )}
+
+        {step === 'complete' && result && (
+          <div className="settings-sync-result">
+            <p>
+              Copied {result.uploaded} to the SD card and {result.downloaded} to local. {result.unchanged} already in sync.
+            </p>
+            {result.needsReview.length > 0 && (
+              <div className="settings-sync-review">
+                <h4>Needs review ({result.needsReview.length})</h4>
+                <p className="settings-sync-hint">
+                  Open each cartridge's Settings tab to resolve the differences field by field.
+                </p>
+                <ul>
+                  {result.needsReview.map(entry => (
+                    <li key={entry.cartId}>
+                      {entry.title} <code>{entry.cartId}</code>
+                      {entry.differences && ` · ${entry.differences.length} field${entry.differences.length !== 1 ? 's' : ''}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {result.errors.length > 0 && (
+              <div className="error-message">
+                Failed for {result.errors.length} cartridge{result.errors.length !== 1 ? 's' : ''}:{' '}
+                {result.errors.map(e => `${e.cartId} (${e.error})`).join(', ')}
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && <div className="error-message">{error}</div>}
+      </div>
+    </Modal>
+  );
+}
@@ -5,64 +5,29 @@
  * display modes and hardware configuration.
  */
 
-// Settings types matching backend and settings.md
-export type BeamConvergence = 'Off' | 'Consumer' | 'Professional';
-export type ImageSize = 'Fill' | 'Integer' | 'Integer+';
-export type ImageFit = 'Original' | 'Stretch' | 'Cinema Zoom';
-export type Sharpness = 'Very Soft' | 'Soft' | 'Medium' | 'Sharp' | 'Very Sharp';
-export type Region = 'Auto' | 'NTSC' | 'PAL';
-export type Overclock = 'Auto' | 'Enhanced' | 'Enhanced+' | 'Unleashed';
-export type DisplayMode = 'bvm' | 'pvm' | 'crt' | 'scanlines' | 'clean';
-export type InterpolationAlg = 'BC Spline' | 'Bilinear' | 'Blackman Harris' | 'Lanczos2';
-export type GammaTransfer = 'Tube' | 'Modern' | 'Professional';
+import type {
+  CRTModeSettings,
+  CartridgeSettings,
+} from '../../shared/settings-schema';
 
-export interface CRTModeSettings {
-  horizontalBeamConvergence: BeamConvergence;
-  verticalBeamConvergence: BeamConvergence;
-  enableEdgeOvershoot: boolean;
-  enableEdgeHardness: boolean;
-  imageSize: ImageSize;
-  imageFit: ImageFit;
-}
-
-export interface CleanModeSettings {
-  interpolationAlg: InterpolationAlg;
-  gammaTransferFunction: GammaTransfer;
-  sharpness: Sharpness;
-  imageSize: ImageSize;
-  imageFit: ImageFit;
-}
-
-export interface DisplayCatalog {
-  bvm: CRTModeSettings;
-  pvm: CRTModeSettings;
-  crt: CRTModeSettings;
-  scanlines: CRTModeSettings;
-  clean: CleanModeSettings;
-}
-
-export interface DisplaySettings {
-  odm: DisplayMode;
-  catalog: DisplayCatalog;
-}
-
-export interface HardwareSettings {
-  virtualExpansionPak: boolean;
-  region: Region;
-  disableDeblur: boolean;
-  enable32BitColor: boolean;
-  forceProgressiveOutput: boolean;
-  disableTextureFiltering: boolean;
-  disableAntialiasing: boolean;
-  forceOriginalHardware: boolean;
-  overclock: Overclock;
-}
-
-export interface CartridgeSettings {
-  title: string;
-  display: DisplaySettings;
-  hardware: HardwareSettings;
-}
+// Settings types come from the shared schema used by the backend validator
+export type {
+  BeamConvergence,
+  ImageSize,
+  ImageFit,
+  Sharpness,
+  Region,
+  Overclock,
+  DisplayMode,
+  InterpolationAlg,
+  GammaTransfer,
+  CRTModeSettings,
+  CleanModeSettings,
+  DisplayCatalog,
+  DisplaySettings,
+  HardwareSettings,
+  CartridgeSettings,
+} from '../../shared/settings-schema';
 
 /**
  * Creates default settings for a cartridge.
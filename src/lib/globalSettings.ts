@@ -0,0 +1,50 @@
+/**
+ * Global Settings
+ *
+ * Types and helpers for the SD card's Settings/Global directory and its
+ * backups (see /api/global-settings).
+ */
+
+// Types matching backend
+export interface GlobalSettingsFile {
+  path: string;
+  size: number;
+  md5Hash: string;
+  lastModified?: string;
+}
+
+export interface GlobalSettingsFileContent {
+  path: string;
+  size: number;
+  format: 'json' | 'text' | 'binary';
+  json?: unknown;
+  text?: string;
+  hex?: string;
+  truncated?: boolean;
+}
+
+export interface GlobalSettingsBackup {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  files: GlobalSettingsFile[];
+  totalSize: number;
+  fingerprint: string;
+  tags?: string[];
+}
+
+/**
+ * Render a file's contents for display: JSON pretty-printed, text as-is,
+ * binary files as a hex dump
+ */
+export function formatGlobalSettingsContent(content: GlobalSettingsFileContent): string {
+  switch (content.format) {
+    case 'json':
+      return JSON.stringify(content.json, null, 2);
+    case 'text':
+      return content.text ?? '';
+    case 'binary':
+      return content.hex ?? '';
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Label History
+ *
+ * Types for a cartridge's earlier label versions (see /api/labels/:cartId/history).
+ */
+
+// Types matching backend
+export type LabelVersionSource = 'upload' | 'merge' | 'import' | 'revert' | 'pull';
+
+export interface LabelVersion {
+  id: string;
+  createdAt: string;
+  source: LabelVersionSource;
+  md5Hash: string;
+  size: number;
+}
+
+export const LABEL_VERSION_SOURCE_LABELS: Record<LabelVersionSource, string> = {
+  upload: 'Replaced by upload',
+  merge: 'Replaced by merge',
+  import: 'Replaced by import',
+  revert: 'Replaced by revert',
+  pull: 'Replaced from SD card',
+};
@@ -0,0 +1,29 @@
+/**
+ * Labels Compare
+ *
+ * Types for the visual local vs SD card labels.db compare (see /api/labels/compare/visual).
+ */
+
+// Types matching backend
+export type LabelDiffStatus = 'modified' | 'only_local' | 'only_sd';
+
+export interface LabelDiffEntry {
+  cartId: string;
+  status: LabelDiffStatus;
+  changedPixels?: number;
+  totalPixels?: number;
+  percentChanged?: number;
+}
+
+export interface VisualCompareResult {
+  identical: boolean;
+  entries: LabelDiffEntry[];
+  totalCompared: number;
+  durationMs: number;
+}
+
+export const LABEL_DIFF_STATUS_LABELS: Record<LabelDiffStatus, string> = {
+  modified: 'Modified',
+  only_local: 'Only in Local',
+  only_sd: 'Only on SD Card',
+};
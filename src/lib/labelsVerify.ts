@@ -0,0 +1,32 @@
+/**
+ * labels.db Integrity
+ *
+ * Types for the labels.db verifier and repair tool (see /api/labels/verify).
+ */
+
+// Types matching backend
+export type LabelsDbTarget = 'local' | 'sd';
+
+export interface LabelsDbIssue {
+  code: string;
+  severity: 'error' | 'warning';
+  message: string;
+  count: number;
+  indices?: number[];
+}
+
+export interface LabelsDbReport {
+  target: LabelsDbTarget;
+  path: string;
+  valid: boolean;
+  fileSize: number;
+  entryCount: number;
+  slotCount: number;
+  issues: LabelsDbIssue[];
+  repairable: boolean;
+}
+
+export const LABELS_DB_TARGET_LABELS: Record<LabelsDbTarget, string> = {
+  local: 'Local labels.db',
+  sd: 'SD card labels.db',
+};
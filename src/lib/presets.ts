@@ -0,0 +1,68 @@
+/**
+ * Settings Presets
+ *
+ * Types and helpers for named settings presets (see /api/presets).
+ */
+
+import type {
+  CRTModeSettings,
+  CleanModeSettings,
+  DisplayMode,
+  HardwareSettings,
+  CartridgeSettings,
+} from '../../shared/settings-schema';
+
+// Preset types matching backend
+export interface PresetSettings {
+  display?: {
+    odm?: DisplayMode;
+    catalog?: {
+      bvm?: Partial<CRTModeSettings>;
+      pvm?: Partial<CRTModeSettings>;
+      crt?: Partial<CRTModeSettings>;
+      scanlines?: Partial<CRTModeSettings>;
+      clean?: Partial<CleanModeSettings>;
+    };
+  };
+  hardware?: Partial<HardwareSettings>;
+}
+
+export interface SettingsPreset {
+  id: string;
+  name: string;
+  description?: string;
+  settings: PresetSettings;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Build preset settings from a cartridge's settings
+ */
+export function presetFromSettings(
+  settings: CartridgeSettings,
+  include: { display: boolean; hardware: boolean }
+): PresetSettings {
+  const preset: PresetSettings = {};
+  if (include.display) preset.display = structuredClone(settings.display);
+  if (include.hardware) preset.hardware = { ...settings.hardware };
+  return preset;
+}
+
+/**
+ * Short summary of what a preset changes, e.g. "Display (PVM) + Hardware"
+ */
+export function describePreset(preset: SettingsPreset): string {
+  const parts: string[] = [];
+  const { display, hardware } = preset.settings;
+
+  if (display) {
+    parts.push(display.odm ? `Display (${display.odm.toUpperCase()})` : 'Display');
+  }
+  if (hardware) {
+    const count = Object.keys(hardware).length;
+    parts.push(count < 9 ? `Hardware (${count} setting${count !== 1 ? 's' : ''})` : 'Hardware');
+  }
+
+  return parts.join(' + ') || 'Empty';
+}
@@ -0,0 +1,77 @@
+/**
+ * Settings Rules
+ *
+ * Types and helpers for rule-based settings (see /api/settings-rules).
+ */
+
+import type { PresetSettings, SettingsPreset } from './presets';
+
+// Rule types matching backend
+export interface SettingsRuleMatch {
+  regions?: string[];
+  videoModes?: string[];
+  languages?: string[];
+  releaseTypes?: string[];
+}
+
+export interface SettingsRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  match: SettingsRuleMatch;
+  presetId?: string;
+  settings?: PresetSettings;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SettingsFieldChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface RuleCartPreview {
+  cartId: string;
+  title: string;
+  rules: string[];
+  created: boolean;
+  changes: SettingsFieldChange[];
+}
+
+export interface SettingsRulesPreview {
+  rules: Array<{ id: string; name: string; cartIds: string[] }>;
+  carts: RuleCartPreview[];
+  unknownCarts: string[];
+}
+
+// Release types used in the cart database
+export const RELEASE_TYPES = ['official', 'beta', 'proto', 'demo', 'unlicensed', 'aftermarket'] as const;
+
+/**
+ * Short summary of what a rule matches, e.g. "PAL · Europe, Germany"
+ */
+export function describeRuleMatch(match: SettingsRuleMatch): string {
+  const parts = [
+    match.videoModes?.join(', '),
+    match.regions?.join(', '),
+    match.languages && `Languages: ${match.languages.join(', ')}`,
+    match.releaseTypes?.join(', '),
+  ];
+  return parts.filter(Boolean).join(' · ');
+}
+
+/**
+ * Short summary of what a rule applies, e.g. "Preset: PVM purist"
+ */
+export function describeRuleAction(rule: SettingsRule, presets: SettingsPreset[]): string {
+  if (rule.presetId) {
+    const preset = presets.find(p => p.id === rule.presetId);
+    return preset ? `Preset: ${preset.name}` : 'Preset: (deleted)';
+  }
+
+  const hardware = rule.settings?.hardware ?? {};
+  const fields = Object.entries(hardware).map(([key, value]) => `${key} ${String(value)}`);
+  if (rule.settings?.display) fields.unshift('display settings');
+  return fields.join(', ') || 'No settings';
+}
@@ -0,0 +1,28 @@
+/**
+ * Card Snapshots
+ *
+ * Types and helpers for full SD card snapshots (see /api/snapshots).
+ */
+
+// Types matching backend
+export interface CardSnapshot {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  sourceCard: string;
+  fileCount: number;
+  totalSize: number;
+  archiveSize: number;
+  archiveSha256: string;
+}
+
+export type SnapshotPhase = 'checksum' | 'archive' | 'verify' | 'copy' | 'clean';
+
+export const SNAPSHOT_PHASE_LABELS: Record<SnapshotPhase, string> = {
+  checksum: 'Checksumming',
+  archive: 'Compressing',
+  verify: 'Verifying',
+  copy: 'Copying to card',
+  clean: 'Removing files not in the snapshot',
+};
@@ -5,6 +5,13 @@
  * - Ownership tracking (owned-carts.ts)
  * - Settings parsing/validation (cartridge-settings.ts)
  * - Game pak operations (game-pak.ts)
+ * - Controller pak filesystem parsing (controller-pak.ts)
+ * - Cartridge saves (cartridge-save.ts)
+ * - Settings presets (settings-presets.ts)
+ * - Partial settings patches (settings-patch.ts)
+ * - Settings history (settings-history.ts)
+ * - Collection-wide settings sync (settings-sync.ts)
+ * - Rule-based settings (settings-rules.ts)
  */
 
 import { readFile, writeFile, mkdir, rm } from 'fs/promises';
@@ -25,17 +32,81 @@ import {
   createDefaultSettings,
   createDefaultDisplaySettings,
   DEFAULT_HARDWARE_SETTINGS,
+  detectSettingsSchema,
+  migrateSettings,
+  migrateAllSettings,
   type CartridgeSettings,
 } from '../../server/lib/cartridge-settings.js';
 
+import {
+  validatePresetSettings,
+  applyPresetSettings,
+} from '../../server/lib/settings-presets.js';
+
+import {
+  validatePatchOperations,
+  applySettingsPatch,
+  diffSettings,
+  mergeSettingsFields,
+} from '../../server/lib/settings-patch.js';
+
+import { appendSettingsRevision } from '../../server/lib/settings-history.js';
+
+import { planSettingsSync, type SettingsSyncEntry } from '../../server/lib/settings-sync.js';
+
+import { matchesRule, validateRuleMatch } from '../../server/lib/settings-rules.js';
+import type { CartNameEntry } from '../../server/lib/game-lookup.js';
+
 import {
   validateGamePak,
   createEmptyGamePak,
   isGamePakEmpty,
   getGamePakSaveInfo,
   CONTROLLER_PAK_SIZE,
+  selectExpiredAutoBackups,
+  validateRetentionPolicy,
+  AUTO_BACKUP_TAG,
+  ACTIVE_PAK_SLOT,
+  getGamePakFilename,
+  parseGamePakFilename,
+  validatePakSlotName,
+  type GamePakBackup,
 } from '../../server/lib/game-pak.js';
 
+import {
+  detectCartridgeSaveType,
+  validateCartridgeSave,
+  convertSaveByteOrder,
+  CARTRIDGE_SAVE_TYPES,
+} from '../../server/lib/cartridge-save.js';
+
+import {
+  parseControllerPak,
+  followPageChain,
+  decodeN64String,
+  encodeN64String,
+  readIdBlock,
+  readInodeTable,
+  extractNote,
+  serializeNoteFile,
+  parseNoteFile,
+  insertNote,
+  writeInodeTable,
+  validateControllerPak,
+  repairControllerPak,
+  clearNotes,
+  buildMergedPak,
+  planNoteMerge,
+  diffControllerPaks,
+  DEXDRIVE_MAGIC,
+  INODE_BACKUP_OFFSET,
+  INODE_TABLE_OFFSET,
+  PAK_PAGE_SIZE,
+  INODE_END,
+  INODE_FREE,
+  NOTE_TABLE_OFFSET,
+} from '../../server/lib/controller-pak.js';
+
 // =============================================================================
 // Test Output Directory
 // =============================================================================
@@ -199,6 +270,48 @@ const settingsTests = [
     assertEqual(errors.length, 0, 'Should have no errors for valid values');
   }),
 
+  test('validateSettings accepts 3D OS 1.2.0 display values', () => {
+    const settings = createDefaultSettings('Test Game');
+    settings.display.catalog.crt.imageSize = 'Integer+';
+    settings.display.catalog.crt.imageFit = 'Cinema Zoom';
+    settings.display.catalog.clean.sharpness = 'Very Sharp';
+    settings.display.catalog.clean.interpolationAlg = 'Lanczos2';
+    settings.hardware.forceProgressiveOutput = true;
+
+    const result = validateSettings(settings);
+    assert(result.valid, `Settings should be valid: ${result.errors.join(', ')}`);
+  }),
+
+  test('validateSettings rejects pre-1.2.0 display values', () => {
+    const settings = createDefaultSettings('Test Game') as unknown as {
+      display: { catalog: { bvm: Record<string, unknown>; clean: Record<string, unknown> } };
+    };
+    settings.display.catalog.bvm.imageSize = 'Fit';
+    settings.display.catalog.clean.sharpness = 'Low';
+
+    const result = validateSettings(settings);
+    assertEqual(result.errors.length, 2, 'Should report both invalid values');
+    assert(result.errors.some(e => e.includes('bvm.imageSize')), 'Error should name the field');
+    assert(result.errors.some(e => e.includes('clean.sharpness')), 'Error should name the field');
+  }),
+
+  test('validateSettings allows missing forceProgressiveOutput and unknown fields', () => {
+    const settings = createDefaultSettings('Old Firmware') as unknown as {
+      hardware: Record<string, unknown>;
+    };
+    delete settings.hardware.forceProgressiveOutput;
+    settings.hardware.futureSetting = 'anything';
+
+    assert(validateSettings(settings).valid, 'Older and newer firmware files should validate');
+    assertEqual(DEFAULT_HARDWARE_SETTINGS.forceProgressiveOutput, false, 'Default should be off');
+  }),
+
+  test('validateSettings rejects non-boolean forceProgressiveOutput', () => {
+    const errors = validateHardwareSettings({ forceProgressiveOutput: 'yes' as never });
+    assertEqual(errors.length, 1, 'Should have one error');
+    assert(errors[0].includes('forceProgressiveOutput'), 'Error should mention the field');
+  }),
+
   test('createDefaultSettings creates valid structure', () => {
     const settings = createDefaultSettings('Test Game');
 
@@ -247,6 +360,370 @@ const settingsTests = [
     }
     assert(threw, 'Should throw for non-object input');
   }),
+
+  test('detectSettingsSchema identifies 1.1.x and 1.2.0 files', () => {
+    const current = createDefaultSettings('Test Game');
+    assertEqual(detectSettingsSchema(current).version, 2, 'forceProgressiveOutput means 1.2.0');
+
+    const old = createDefaultSettings('Test Game');
+    delete old.hardware.forceProgressiveOutput;
+    const detection = detectSettingsSchema(old);
+    assertEqual(detection.version, 1, 'Missing forceProgressiveOutput means 1.1.x');
+    assertEqual(detection.missingFields.length, 0, 'A complete 1.1.x file has no missing fields');
+  }),
+
+  test('migrateSettings upgrades with explicit defaults and keeps unknown fields', () => {
+    const old = createDefaultSettings('Test Game') as unknown as { hardware: Record<string, unknown> };
+    delete old.hardware.forceProgressiveOutput;
+    old.hardware.futureSetting = true;
+
+    const result = migrateSettings(old, 2);
+    const hardware = result.settings.hardware as Record<string, unknown>;
+    assertEqual(result.fromVersion, 1, 'Should start at version 1');
+    assertEqual(result.added.join(','), 'hardware.forceProgressiveOutput', 'Should add the 1.2.0 field');
+    assertEqual(hardware.forceProgressiveOutput, false, 'Should use the default value');
+    assertEqual(hardware.futureSetting, true, 'Should keep unknown fields when upgrading');
+    assert(old.hardware.forceProgressiveOutput === undefined, 'Should not mutate the input');
+  }),
+
+  test('migrateSettings downgrades by stripping unknown fields', () => {
+    const current = createDefaultSettings('Test Game') as unknown as {
+      hardware: Record<string, unknown>;
+      display: { catalog: { crt: Record<string, unknown> } };
+    };
+    current.hardware.forceProgressiveOutput = true;
+    current.display.catalog.crt.futureFilter = 'On';
+
+    const result = migrateSettings(current, 1);
+    assertEqual(result.removed.length, 2, 'Should strip two fields');
+    assert(result.removed.includes('hardware.forceProgressiveOutput'), 'Should strip the 1.2.0 field');
+    assert(result.removed.includes('display.catalog.crt.futureFilter'), 'Should strip unknown display fields');
+    assertEqual(detectSettingsSchema(result.settings).version, 1, 'Result should detect as 1.1.x');
+  }),
+
+  test('migrateAllSettings dry run reports without writing', async () => {
+    const gamesDir = path.join(OUTPUT_DIR, 'migrate-games');
+    const oldFolder = path.join(gamesDir, 'Old Game 11111111');
+    const newFolder = path.join(gamesDir, 'New Game 22222222');
+    await mkdir(oldFolder, { recursive: true });
+    await mkdir(newFolder, { recursive: true });
+
+    const old = createDefaultSettings('Old Game');
+    delete old.hardware.forceProgressiveOutput;
+    const oldContent = JSON.stringify(old, null, 2);
+    await writeFile(path.join(oldFolder, 'settings.json'), oldContent);
+    await writeFile(path.join(newFolder, 'settings.json'), JSON.stringify(createDefaultSettings('New Game')));
+
+    const dryRun = await migrateAllSettings(gamesDir, 2, true);
+    assertEqual(dryRun.total, 2, 'Should scan both folders');
+    assertEqual(dryRun.changed, 1, 'Only the old file needs migrating');
+    assertEqual(await readFile(path.join(oldFolder, 'settings.json'), 'utf-8'), oldContent, 'Dry run should not write');
+
+    const applied = await migrateAllSettings(gamesDir, 2, false);
+    assertEqual(applied.changed, 1, 'Should migrate the old file');
+    const migrated = JSON.parse(await readFile(path.join(oldFolder, 'settings.json'), 'utf-8'));
+    assertEqual(migrated.hardware.forceProgressiveOutput, false, 'Should write the default');
+  }),
+];
+
+// =============================================================================
+// Settings Preset Tests
+// =============================================================================
+
+const presetTests = [
+  test('validatePresetSettings keeps display and hardware and drops the title', () => {
+    const settings = createDefaultSettings('Source Game');
+    const preset = validatePresetSettings(settings);
+
+    assert(preset.display !== undefined, 'Should keep display');
+    assert(preset.hardware !== undefined, 'Should keep hardware');
+    assert(!('title' in preset), 'Should not keep the title');
+  }),
+
+  test('validatePresetSettings rejects empty and invalid presets', () => {
+    let emptyError = '';
+    try {
+      validatePresetSettings({ title: 'Only a title' });
+    } catch (e) {
+      emptyError = e instanceof Error ? e.message : '';
+    }
+    assert(emptyError.includes('display or hardware'), 'Should reject a preset with no settings');
+
+    let invalidError = '';
+    try {
+      validatePresetSettings({ hardware: { overclock: 'Ludicrous' } });
+    } catch (e) {
+      invalidError = e instanceof Error ? e.message : '';
+    }
+    assert(invalidError.includes('overclock'), 'Should reject invalid values');
+  }),
+
+  test('applyPresetSettings merges only the fields the preset holds', () => {
+    const base = createDefaultSettings('Target Game');
+    const result = applyPresetSettings(base, {
+      display: { odm: 'pvm', catalog: { pvm: { imageSize: 'Integer+' } } },
+      hardware: { overclock: 'Unleashed' },
+    });
+
+    assertEqual(result.title, 'Target Game', 'Should keep the target title');
+    assertEqual(result.display.odm, 'pvm', 'Should set the display mode');
+    assertEqual(result.display.catalog.pvm.imageSize, 'Integer+', 'Should set the catalog field');
+    assertEqual(result.display.catalog.pvm.imageFit, base.display.catalog.pvm.imageFit, 'Should keep other catalog fields');
+    assertEqual(result.hardware.overclock, 'Unleashed', 'Should set the hardware field');
+    assertEqual(result.hardware.region, base.hardware.region, 'Should keep other hardware fields');
+    assertEqual(base.hardware.overclock, 'Auto', 'Should not mutate the base settings');
+  }),
+];
+
+// =============================================================================
+// Settings Patch Tests
+// =============================================================================
+
+const settingsPatchTests = [
+  test('applySettingsPatch replaces a leaf and a subtree', () => {
+    const base = createDefaultSettings('Test Game');
+    const crt = { ...base.display.catalog.crt, imageSize: 'Integer' as const };
+    const result = applySettingsPatch(base, [
+      { op: 'replace', path: '/hardware/overclock', value: 'Enhanced+' },
+      { op: 'replace', path: '/display/catalog/crt', value: crt },
+    ]);
+
+    assertEqual(result.hardware.overclock, 'Enhanced+', 'Should replace the leaf');
+    assertEqual(result.display.catalog.crt.imageSize, 'Integer', 'Should replace the subtree');
+    assertEqual(result.hardware.region, base.hardware.region, 'Should leave other fields');
+    assertEqual(base.hardware.overclock, 'Auto', 'Should not mutate the input');
+  }),
+
+  test('validatePatchOperations rejects title paths and unsupported ops', () => {
+    const rejects = (patch: unknown) => {
+      try {
+        validatePatchOperations(patch);
+        return false;
+      } catch {
+        return true;
+      }
+    };
+
+    assert(rejects([{ op: 'replace', path: '/title', value: 'Other' }]), 'Should reject /title');
+    assert(rejects([{ op: 'remove', path: '/hardware/region' }]), 'Should reject remove');
+    assert(rejects([]), 'Should reject an empty patch');
+    assert(!rejects([{ op: 'replace', path: '/hardware', value: {} }]), 'Should accept /hardware');
+  }),
+
+  test('applySettingsPatch rejects invalid values and missing parents', () => {
+    const base = createDefaultSettings('Test Game');
+    let invalid = '';
+    try {
+      applySettingsPatch(base, [{ op: 'replace', path: '/hardware/region', value: 'SECAM' }]);
+    } catch (e) {
+      invalid = e instanceof Error ? e.message : '';
+    }
+    assert(invalid.includes('region'), 'Should reject an invalid region');
+
+    const partial = createDefaultSettings('Test Game') as unknown as { display: { catalog: Record<string, unknown> } };
+    delete partial.display.catalog.bvm;
+    let missing = '';
+    try {
+      applySettingsPatch(partial as unknown as typeof base, [
+        { op: 'replace', path: '/display/catalog/bvm/imageSize', value: 'Fill' },
+      ]);
+    } catch (e) {
+      missing = e instanceof Error ? e.message : '';
+    }
+    assert(missing.includes('does not exist'), 'Should reject a path with no parent');
+  }),
+
+  test('validatePatchOperations rejects keys outside the settings schema', () => {
+    const rejects = (patch: unknown) => {
+      try {
+        validatePatchOperations(patch);
+        return false;
+      } catch {
+        return true;
+      }
+    };
+
+    assert(rejects([{ op: 'replace', path: '/hardware/turbo', value: true }]), 'Should reject an unknown leaf');
+    assert(rejects([{ op: 'replace', path: '/display/catalog/vga/imageSize', value: 'Fill' }]), 'Should reject an unknown mode');
+    assert(rejects([{ op: 'replace', path: '/hardware/__proto__', value: {} }]), 'Should reject __proto__ in the path');
+    assert(rejects([{ op: 'replace', path: '/display/constructor', value: {} }]), 'Should reject constructor in the path');
+    assert(
+      rejects(JSON.parse('[{"op":"replace","path":"/hardware","value":{"__proto__":{"polluted":true}}}]')),
+      'Should reject __proto__ inside a value'
+    );
+    assert(
+      rejects([{ op: 'replace', path: '/display/catalog', value: { crt: { imageSize: 'Fill', extra: 1 } } }]),
+      'Should reject unknown keys nested in a value'
+    );
+    assert(
+      !rejects([{ op: 'replace', path: '/display/catalog/clean', value: { sharpness: 'Soft' } }]),
+      'Should accept known keys'
+    );
+  }),
+
+  test('diffSettings lists leaf changes with before and after values', () => {
+    const before = createDefaultSettings('Test Game');
+    const after = applySettingsPatch(before, [
+      { op: 'replace', path: '/hardware/overclock', value: 'Unleashed' },
+      { op: 'replace', path: '/display/odm', value: 'clean' },
+    ]);
+
+    const changes = diffSettings(before, after);
+    assertEqual(changes.length, 2, 'Should find two changes');
+    const overclock = changes.find(c => c.path === '/hardware/overclock');
+    assertEqual(overclock?.before, 'Auto', 'Should record the old value');
+    assertEqual(overclock?.after, 'Unleashed', 'Should record the new value');
+    assertEqual(diffSettings(before, before).length, 0, 'Identical settings have no changes');
+  }),
+
+  test('mergeSettingsFields takes each resolved field from the chosen side', () => {
+    const local = createDefaultSettings('Test Game');
+    const sd = applySettingsPatch(local, [
+      { op: 'replace', path: '/hardware/overclock', value: 'Enhanced' },
+      { op: 'replace', path: '/display/catalog/clean/sharpness', value: 'Sharp' },
+    ]);
+
+    const merged = mergeSettingsFields(local, sd, {
+      '/hardware/overclock': 'sd',
+      '/display/catalog/clean/sharpness': 'local',
+    });
+    assertEqual(merged.hardware.overclock, 'Enhanced', 'Should take overclock from SD');
+    assertEqual(merged.display.catalog.clean.sharpness, local.display.catalog.clean.sharpness, 'Should keep local sharpness');
+  }),
+
+  test('mergeSettingsFields removes fields the chosen side does not have', () => {
+    const local = createDefaultSettings('Test Game');
+    const sd = structuredClone(local);
+    delete sd.hardware.forceProgressiveOutput;
+
+    const merged = mergeSettingsFields(local, sd, { '/hardware/forceProgressiveOutput': 'sd' });
+    assert(!('forceProgressiveOutput' in merged.hardware), 'Should drop the field');
+  }),
+
+  test('mergeSettingsFields rejects unresolved and unknown paths', () => {
+    const local = createDefaultSettings('Test Game');
+    const sd = applySettingsPatch(local, [{ op: 'replace', path: '/hardware/region', value: 'PAL' }]);
+    const rejects = (resolutions: Record<string, 'local' | 'sd'>) => {
+      try {
+        mergeSettingsFields(local, sd, resolutions);
+        return false;
+      } catch {
+        return true;
+      }
+    };
+
+    assert(rejects({}), 'Should reject an unresolved difference');
+    assert(rejects({ '/hardware/region': 'sd', '/hardware/overclock': 'sd' }), 'Should reject a path with no difference');
+    assert(!rejects({ '/hardware/region': 'sd' }), 'Should accept a complete resolution');
+  }),
+];
+
+// =============================================================================
+// Settings History Tests
+// =============================================================================
+
+const settingsHistoryTests = [
+  test('appendSettingsRevision skips saves identical to the latest revision', () => {
+    const settings = createDefaultSettings('Test Game');
+    const first = appendSettingsRevision([], settings, 'Save');
+    const second = appendSettingsRevision(first, structuredClone(settings), 'Save');
+
+    assertEqual(first.length, 1, 'Should record the first save');
+    assertEqual(second, first, 'Should return the same list for an unchanged save');
+  }),
+
+  test('appendSettingsRevision keeps the overwritten settings on the first save', () => {
+    const original = createDefaultSettings('Test Game');
+    const edited = applySettingsPatch(original, [{ op: 'replace', path: '/display/odm', value: 'pvm' }]);
+    const revisions = appendSettingsRevision([], edited, 'Save', original);
+
+    assertEqual(revisions.length, 2, 'Should record the original and the save');
+    assertEqual(revisions[0].reason, 'Original');
+    assertEqual(revisions[0].settings.display.odm, original.display.odm);
+    assertEqual(revisions[1].settings.display.odm, 'pvm');
+  }),
+
+  test('appendSettingsRevision drops the oldest revisions past the limit', () => {
+    let revisions = appendSettingsRevision([], createDefaultSettings('Game 0'), 'Save', null, 3);
+    for (let i = 1; i < 5; i++) {
+      revisions = appendSettingsRevision(revisions, createDefaultSettings(`Game ${i}`), 'Save', null, 3);
+    }
+
+    assertEqual(revisions.length, 3, 'Should keep the limit');
+    assertEqual(revisions.map(r => r.settings.title).join(','), 'Game 2,Game 3,Game 4');
+  }),
+];
+
+// =============================================================================
+// Settings Sync Tests
+// =============================================================================
+
+function syncEntry(status: SettingsSyncEntry['status'], localModified?: string, sdModified?: string): SettingsSyncEntry {
+  return { cartId: 'aabbccdd', title: 'Test Game', status, localModified, sdModified };
+}
+
+const settingsSyncTests = [
+  test('planSettingsSync copies one-sided carts regardless of policy', () => {
+    for (const policy of ['newest', 'local', 'sd', 'ask'] as const) {
+      assertEqual(planSettingsSync(syncEntry('local-only'), policy), 'upload', `local-only with ${policy}`);
+      assertEqual(planSettingsSync(syncEntry('sd-only'), policy), 'download', `sd-only with ${policy}`);
+      assertEqual(planSettingsSync(syncEntry('identical'), policy), 'none', `identical with ${policy}`);
+    }
+  }),
+
+  test('planSettingsSync follows local, sd and ask policies for differing carts', () => {
+    const entry = syncEntry('differing', '2025-01-02T00:00:00Z', '2025-01-01T00:00:00Z');
+    assertEqual(planSettingsSync(entry, 'local'), 'upload');
+    assertEqual(planSettingsSync(entry, 'sd'), 'download');
+    assertEqual(planSettingsSync(entry, 'ask'), 'ask');
+  }),
+
+  test('planSettingsSync newest policy picks the later file and asks on a tie', () => {
+    assertEqual(planSettingsSync(syncEntry('differing', '2025-01-02T00:00:00Z', '2025-01-01T00:00:00Z'), 'newest'), 'upload');
+    assertEqual(planSettingsSync(syncEntry('differing', '2025-01-01T00:00:00Z', '2025-01-02T00:00:00Z'), 'newest'), 'download');
+    assertEqual(planSettingsSync(syncEntry('differing', '2025-01-01T00:00:00Z', '2025-01-01T00:00:00Z'), 'newest'), 'ask');
+  }),
+];
+
+// =============================================================================
+// Settings Rules Tests
+// =============================================================================
+
+const palEntry: CartNameEntry = {
+  id: '03cc04ee',
+  name: 'Super Mario 64',
+  region: 'Europe',
+  languages: ['English', 'French', 'German'],
+  videoMode: 'PAL',
+  releaseType: 'official',
+};
+
+const settingsRulesTests = [
+  test('matchesRule requires every criterion and is case-insensitive', () => {
+    assert(matchesRule(palEntry, { videoModes: ['pal'] }), 'Should match video mode ignoring case');
+    assert(matchesRule(palEntry, { videoModes: ['PAL'], regions: ['Europe', 'Germany'] }), 'Should match when all criteria match');
+    assert(!matchesRule(palEntry, { videoModes: ['PAL'], releaseTypes: ['aftermarket'] }), 'Should not match when one criterion fails');
+    assert(matchesRule(palEntry, { languages: ['Japanese', 'german'] }), 'Should match any shared language');
+  }),
+
+  test('matchesRule never matches carts missing from the database', () => {
+    assert(!matchesRule(undefined, { videoModes: ['PAL'] }), 'Unknown cart should not match');
+    assert(!matchesRule({ id: 'deadbeef', name: 'Homebrew' }, { releaseTypes: ['aftermarket'] }), 'Missing field should not match');
+  }),
+
+  test('validateRuleMatch rejects empty and unknown criteria', () => {
+    assertEqual(JSON.stringify(validateRuleMatch({ videoModes: [' PAL '], regions: [] })), JSON.stringify({ videoModes: ['PAL'] }));
+
+    for (const match of [{}, { regions: [] }, { publisher: ['Nintendo'] }, { regions: 'Europe' }, null]) {
+      let threw = false;
+      try {
+        validateRuleMatch(match);
+      } catch {
+        threw = true;
+      }
+      assert(threw, `Should reject ${JSON.stringify(match)}`);
+    }
+  }),
 ];
 
 // =============================================================================
@@ -349,6 +826,484 @@ const gamePakTests = [
       assertEqual(status, 0x0003, `Free page ${i} should have status 0x0003`);
     }
   }),
+
+  test('Pak slot filenames round-trip', () => {
+    assertEqual(getGamePakFilename(), 'controller_pak.img');
+    assertEqual(getGamePakFilename('player-2'), 'controller_pak.player-2.img');
+    assertEqual(parseGamePakFilename('controller_pak.img'), ACTIVE_PAK_SLOT);
+    assertEqual(parseGamePakFilename('controller_pak.player-2.img'), 'player-2');
+    assertEqual(parseGamePakFilename('controller_pak.Bad Name.img'), null);
+    assertEqual(parseGamePakFilename('metadata.json'), null);
+  }),
+
+  test('validatePakSlotName normalizes names and rejects reserved or invalid ones', () => {
+    assertEqual(validatePakSlotName('  Player-2 '), 'player-2');
+
+    for (const bad of [ACTIVE_PAK_SLOT, '', 'has space', '-leading', 'a'.repeat(33), 42]) {
+      let threw = false;
+      try {
+        validatePakSlotName(bad);
+      } catch {
+        threw = true;
+      }
+      assert(threw, `Slot name ${JSON.stringify(bad)} should be rejected`);
+    }
+  }),
+];
+
+// =============================================================================
+// Backup Retention Tests
+// =============================================================================
+
+function backupAt(id: string, createdAt: string, auto = true): GamePakBackup {
+  return {
+    id,
+    name: id,
+    createdAt,
+    md5Hash: id,
+    size: CONTROLLER_PAK_SIZE,
+    ...(auto ? { tags: [AUTO_BACKUP_TAG] } : {}),
+  };
+}
+
+const retentionTests = [
+  test('selectExpiredAutoBackups keeps the newest N auto backups', () => {
+    const backups = [
+      backupAt('oldest', '2025-01-01T00:00:00Z'),
+      backupAt('newest', '2025-01-03T00:00:00Z'),
+      backupAt('middle', '2025-01-02T00:00:00Z'),
+    ];
+    const expired = selectExpiredAutoBackups(backups, { mode: 'count', keepLast: 2 });
+    assertEqual(expired.map(b => b.id).join(','), 'oldest');
+  }),
+
+  test('selectExpiredAutoBackups keeps auto backups from the last X days', () => {
+    const backups = [
+      backupAt('old', '2025-01-01T00:00:00Z'),
+      backupAt('recent', '2025-01-09T00:00:00Z'),
+    ];
+    const expired = selectExpiredAutoBackups(backups, { mode: 'days', keepDays: 7 }, new Date('2025-01-10T00:00:00Z'));
+    assertEqual(expired.map(b => b.id).join(','), 'old');
+  }),
+
+  test('selectExpiredAutoBackups never expires manual backups', () => {
+    const backups = [
+      backupAt('manual', '2020-01-01T00:00:00Z', false),
+      backupAt('auto', '2025-01-01T00:00:00Z'),
+    ];
+    assertEqual(selectExpiredAutoBackups(backups, { mode: 'count', keepLast: 1 }).length, 0, 'Count mode');
+    assertEqual(selectExpiredAutoBackups(backups, { mode: 'days', keepDays: 1 }, new Date('2025-06-01T00:00:00Z')).length, 1, 'Days mode');
+  }),
+
+  test('validateRetentionPolicy rejects unknown modes and non-positive values', () => {
+    assertEqual(validateRetentionPolicy({ mode: 'days', keepDays: 30 }).mode, 'days', 'Valid policy');
+    for (const policy of [{ mode: 'forever' }, { mode: 'count', keepLast: 0 }, { mode: 'days', keepDays: 1.5 }, null]) {
+      let threw = false;
+      try {
+        validateRetentionPolicy(policy);
+      } catch {
+        threw = true;
+      }
+      assert(threw, `Should reject ${JSON.stringify(policy)}`);
+    }
+  }),
+];
+
+// =============================================================================
+// Controller Pak Filesystem Tests
+// =============================================================================
+
+const controllerPakTests = [
+  test('parseControllerPak lists the fixture note', async () => {
+    const pak = parseControllerPak(await getFixtureGamePak());
+
+    assertEqual(pak.notes.length, 1, 'Fixture should have one note');
+    const note = pak.notes[0];
+    assertEqual(note.gameCode, 'NHXE', 'Game code');
+    assertEqual(note.publisherCode, '4X', 'Publisher code');
+    assertEqual(note.name, 'HEXEN GAME SLOT', 'Note name');
+    assertEqual(note.startPage, 5, 'Start page');
+    assertEqual(note.pageCount, 90, 'Page count');
+    assertEqual(note.chainError, undefined, 'Chain should be intact');
+  }),
+
+  test('parseControllerPak page counts match getGamePakSaveInfo', async () => {
+    const buffer = await getFixtureGamePak();
+    const pak = parseControllerPak(buffer);
+    const info = getGamePakSaveInfo(buffer);
+
+    assertEqual(pak.pagesUsed, info.pagesUsed, 'Pages used');
+    assertEqual(pak.pagesFree, info.pagesFree, 'Pages free');
+  }),
+
+  test('parseControllerPak verifies fixture checksums', async () => {
+    const pak = parseControllerPak(await getFixtureGamePak());
+
+    assert(pak.idBlocks.every(b => b.valid), 'All ID blocks should be valid');
+    assert(pak.inodeChecksumValid, 'Inode checksum should be valid');
+  }),
+
+  test('readIdBlock detects a corrupted ID block', async () => {
+    const buffer = Buffer.from(await getFixtureGamePak());
+    buffer[0x24] ^= 0xff;
+
+    assert(!readIdBlock(buffer, 0x20).valid, 'Corrupted block should be invalid');
+    assert(readIdBlock(buffer, 0x60).valid, 'Backup block should stay valid');
+  }),
+
+  test('parseControllerPak rejects wrong size buffer', () => {
+    let threw = false;
+    try {
+      parseControllerPak(Buffer.alloc(1000));
+    } catch {
+      threw = true;
+    }
+    assert(threw, 'Should throw for wrong size');
+  }),
+
+  test('followPageChain reports loops and free pages', () => {
+    const inodes = new Array(128).fill(INODE_FREE);
+    inodes[5] = 6;
+    inodes[6] = 5;
+    assert(followPageChain(inodes, 5).error?.includes('loops'), 'Should detect loop');
+
+    inodes[6] = 7;
+    assert(followPageChain(inodes, 5).error?.includes('free'), 'Should detect free page');
+
+    inodes[7] = INODE_END;
+    assertEqual(followPageChain(inodes, 5).pages.join(','), '5,6,7', 'Intact chain');
+  }),
+
+  test('N64 font strings round-trip', () => {
+    const encoded = encodeN64String('Mario Kart 64!', 16);
+    assertEqual(encoded.length, 16, 'Padded length');
+    assertEqual(decodeN64String(encoded), 'MARIO KART 64!', 'Decoded text');
+  }),
+
+  test('empty pak has no notes', () => {
+    const empty = createEmptyGamePak();
+    assertEqual(empty.readUInt16BE(NOTE_TABLE_OFFSET + 6), 0, 'Empty note table');
+    assertEqual(parseControllerPak(empty).notes.length, 0, 'No notes');
+  }),
+
+  test('extractNote round-trips through a .note file', async () => {
+    const note = extractNote(await getFixtureGamePak(), 0);
+    assertEqual(note.data.length, 90 * PAK_PAGE_SIZE, 'Note data size');
+
+    const parsed = parseNoteFile(serializeNoteFile(note, 'note'));
+    assertEqual(parsed.format, 'note', 'Format');
+    assert(parsed.entry.equals(note.entry), 'Entry preserved');
+    assert(parsed.data.equals(note.data), 'Data preserved');
+  }),
+
+  test('parseNoteFile detects DexDrive files and reads the comment', async () => {
+    const note = extractNote(await getFixtureGamePak(), 0);
+    const file = serializeNoteFile({ ...note, comment: 'Hexen' }, 'n64');
+    assertEqual(file.subarray(0, DEXDRIVE_MAGIC.length).toString('ascii'), DEXDRIVE_MAGIC, 'Magic');
+
+    const parsed = parseNoteFile(file);
+    assertEqual(parsed.format, 'n64', 'Format');
+    assertEqual(parsed.comment, 'Hexen', 'Comment');
+    assert(parsed.data.equals(note.data), 'Data preserved');
+  }),
+
+  test('insertNote allocates free pages in an empty pak', async () => {
+    const note = extractNote(await getFixtureGamePak(), 0);
+    const empty = createEmptyGamePak();
+    const { buffer, noteIndex } = insertNote(empty, note);
+
+    assertEqual(noteIndex, 0, 'First free slot');
+    const pak = parseControllerPak(buffer);
+    assertEqual(pak.notes.length, 1, 'One note');
+    assertEqual(pak.notes[0].name, 'HEXEN GAME SLOT', 'Note name');
+    assertEqual(pak.notes[0].startPage, 5, 'Start page');
+    assertEqual(pak.notes[0].pageCount, 90, 'Page count');
+    assert(pak.inodeChecksumValid, 'Inode checksum updated');
+    assert(
+      buffer.subarray(INODE_BACKUP_OFFSET, INODE_BACKUP_OFFSET + PAK_PAGE_SIZE)
+        .equals(buffer.subarray(INODE_TABLE_OFFSET, INODE_TABLE_OFFSET + PAK_PAGE_SIZE)),
+      'Backup inode table matches'
+    );
+    assert(extractNote(buffer, 0).data.equals(note.data), 'Page data copied');
+    assertEqual(parseControllerPak(empty).notes.length, 0, 'Input pak untouched');
+  }),
+
+  test('insertNote rejects duplicate notes', async () => {
+    const fixture = await getFixtureGamePak();
+    let error = '';
+    try {
+      insertNote(fixture, extractNote(fixture, 0));
+    } catch (err) {
+      error = (err as Error).message;
+    }
+    assert(error.includes('already exists'), 'Should reject duplicate');
+  }),
+
+  test('insertNote rejects notes larger than the free space', async () => {
+    const fixture = await getFixtureGamePak();
+    const note = extractNote(fixture, 0);
+    note.entry[0x10] = 0x1a; // Rename so it is not a duplicate
+    const freePages = readInodeTable(fixture).filter(i => i === INODE_FREE).length;
+    assert(freePages < 90, 'Fixture should not fit a second copy');
+
+    let error = '';
+    try {
+      insertNote(fixture, note);
+    } catch (err) {
+      error = (err as Error).message;
+    }
+    assert(error.includes('Not enough free pages'), 'Should reject oversized note');
+  }),
+
+  test('validateControllerPak reports no issues for the fixture', async () => {
+    const result = validateControllerPak(await getFixtureGamePak());
+    assert(result.valid, 'Fixture should be valid');
+    assertEqual(result.issues.length, 0, 'No issues');
+  }),
+
+  test('repairControllerPak restores a corrupted ID block from a backup copy', async () => {
+    const fixture = await getFixtureGamePak();
+    const buffer = Buffer.from(fixture);
+    buffer[0x24] ^= 0xff;
+
+    const before = validateControllerPak(buffer);
+    assert(!before.valid, 'Corrupted primary ID block is an error');
+    assertEqual(before.issues[0].code, 'id-block-checksum', 'Issue code');
+
+    const { buffer: repaired, validation } = repairControllerPak(buffer);
+    assert(validation.valid && validation.issues.length === 0, 'Repaired pak is clean');
+    assert(repaired.equals(fixture), 'Repaired pak matches the original');
+  }),
+
+  test('repairControllerPak restores the inode table from its backup', async () => {
+    const fixture = await getFixtureGamePak();
+    const buffer = Buffer.from(fixture);
+    buffer.writeUInt16BE(INODE_END, INODE_TABLE_OFFSET + 6 * 2);
+
+    const before = validateControllerPak(buffer);
+    assert(before.issues.some(i => i.code === 'inode-checksum' && i.severity === 'error'), 'Primary checksum error');
+    assertEqual(parseControllerPak(buffer).notes[0].pageCount, 2, 'Primary table truncates the chain');
+
+    const { buffer: repaired } = repairControllerPak(buffer);
+    assert(repaired.equals(fixture), 'Repaired pak matches the original');
+  }),
+
+  test('repairControllerPak frees orphaned pages', async () => {
+    const buffer = Buffer.from(await getFixtureGamePak());
+    const inodes = readInodeTable(buffer);
+    inodes[120] = INODE_END;
+    writeInodeTable(buffer, inodes);
+
+    const before = validateControllerPak(buffer);
+    assert(before.valid, 'Orphaned pages are only a warning');
+    assertEqual(before.issues[0].code, 'orphaned-pages', 'Issue code');
+    assertEqual(before.issues[0].pages?.join(','), '120', 'Orphaned page');
+
+    const { buffer: repaired, validation } = repairControllerPak(buffer);
+    assertEqual(validation.issues.length, 0, 'No issues after repair');
+    assertEqual(readInodeTable(repaired)[120], INODE_FREE, 'Page freed');
+    assertEqual(parseControllerPak(repaired).notes[0].pageCount, 90, 'Note untouched');
+  }),
+
+  test('validateControllerPak flags looping chains as unrepairable', async () => {
+    const buffer = Buffer.from(await getFixtureGamePak());
+    const inodes = readInodeTable(buffer);
+    inodes[10] = 5;
+    writeInodeTable(buffer, inodes);
+
+    const result = validateControllerPak(buffer);
+    const issue = result.issues.find(i => i.code === 'broken-chain');
+    assert(!result.valid, 'Loop is an error');
+    assert(issue !== undefined && !issue.repairable, 'Broken chain cannot be repaired');
+  }),
+
+  test('repairControllerPak keeps pages past a broken chain', async () => {
+    const buffer = Buffer.from(await getFixtureGamePak());
+    const inodes = readInodeTable(buffer);
+    inodes[10] = 200; // Out of range: pages 11-94 are no longer reached
+    writeInodeTable(buffer, inodes);
+
+    const before = validateControllerPak(buffer);
+    const orphaned = before.issues.find(i => i.code === 'orphaned-pages');
+    assert(orphaned !== undefined && !orphaned.repairable, 'Unreached pages are not repairable orphans');
+
+    const { buffer: repaired } = repairControllerPak(buffer);
+    const repairedInodes = readInodeTable(repaired);
+    for (let page = 11; page <= 94; page++) {
+      assertEqual(repairedInodes[page], inodes[page], `Page ${page} kept`);
+    }
+    assert(repaired.subarray(11 * PAK_PAGE_SIZE).equals(buffer.subarray(11 * PAK_PAGE_SIZE)), 'Save data untouched');
+  }),
+
+  test('repairControllerPak formats the ID blocks of an empty pak', () => {
+    const empty = createEmptyGamePak();
+    assert(!validateControllerPak(empty).valid, 'Unformatted ID blocks are an error');
+
+    const { validation } = repairControllerPak(empty);
+    assert(validation.valid, 'Repaired empty pak is valid');
+    assertEqual(validation.issues.length, 0, 'No issues');
+  }),
+
+  test('clearNotes removes every note and frees all pages', async () => {
+    const cleared = clearNotes(await getFixtureGamePak());
+    const pak = parseControllerPak(cleared);
+    assertEqual(pak.notes.length, 0, 'No notes');
+    assertEqual(pak.pagesFree, 123, 'All pages free');
+    assert(pak.idBlocks[0].valid, 'ID sector kept');
+  }),
+
+  test('buildMergedPak combines notes from two paks', async () => {
+    const fixture = await getFixtureGamePak();
+    const entry = Buffer.alloc(32);
+    entry.write('NTST01', 0, 'latin1');
+    encodeN64String('TEST SAVE', 16).copy(entry, 0x10);
+    const other = { entry, data: Buffer.alloc(2 * PAK_PAGE_SIZE, 0xab) };
+
+    const merged = buildMergedPak(fixture, [extractNote(fixture, 0), other]);
+    const pak = parseControllerPak(merged);
+    assertEqual(pak.notes.map(n => n.name).join(','), 'HEXEN GAME SLOT,TEST SAVE', 'Merged notes');
+    assertEqual(pak.pagesUsed, 92, 'Pages used');
+    assert(validateControllerPak(merged).valid, 'Merged pak is valid');
+    assert(extractNote(merged, 1).data.equals(other.data), 'Second note data copied');
+  }),
+
+  test('buildMergedPak refuses notes that exceed 123 pages', async () => {
+    const fixture = await getFixtureGamePak();
+    const copy = extractNote(fixture, 0);
+    copy.entry[0x10] = 0x1a;
+
+    let error = '';
+    try {
+      buildMergedPak(fixture, [extractNote(fixture, 0), copy]);
+    } catch (err) {
+      error = (err as Error).message;
+    }
+    assert(error.includes('180 pages') && error.includes('123'), `Should explain capacity: ${error}`);
+  }),
+
+  test('planNoteMerge resolves one-sided changes against the base', () => {
+    const save = (name: string, fill: number) => {
+      const entry = Buffer.alloc(32);
+      entry.write('NTST01', 0, 'latin1');
+      encodeN64String(name, 16).copy(entry, 0x10);
+      return { entry, data: Buffer.alloc(PAK_PAGE_SIZE, fill) };
+    };
+    const pak = (...notes: ReturnType<typeof save>[]) => buildMergedPak(createEmptyGamePak(), notes);
+
+    const base = pak(save('KEPT', 1), save('LOCAL EDIT', 1), save('SD EDIT', 1), save('BOTH EDIT', 1), save('SD DELETE', 1));
+    const local = pak(save('KEPT', 1), save('LOCAL EDIT', 2), save('SD EDIT', 1), save('BOTH EDIT', 2), save('SD DELETE', 1), save('LOCAL NEW', 1));
+    const sd = pak(save('KEPT', 1), save('LOCAL EDIT', 1), save('SD EDIT', 3), save('BOTH EDIT', 3));
+
+    const resolutions = Object.fromEntries(planNoteMerge(base, local, sd).map(n => [n.name, n.resolution]));
+    assertEqual(resolutions['KEPT'], 'local', 'Unchanged');
+    assertEqual(resolutions['LOCAL EDIT'], 'local', 'Changed locally');
+    assertEqual(resolutions['SD EDIT'], 'sd', 'Changed on the SD card');
+    assertEqual(resolutions['BOTH EDIT'], 'conflict', 'Changed on both sides');
+    assertEqual(resolutions['SD DELETE'], 'drop', 'Deleted on the SD card');
+    assertEqual(resolutions['LOCAL NEW'], 'local', 'Added locally');
+
+    const twoWay = Object.fromEntries(planNoteMerge(null, local, sd).map(n => [n.name, n.resolution]));
+    assertEqual(twoWay['KEPT'], 'local', 'Identical without a base');
+    assertEqual(twoWay['SD EDIT'], 'conflict', 'Any difference conflicts without a base');
+  }),
+];
+
+// =============================================================================
+// Controller Pak Diff Tests
+// =============================================================================
+
+const controllerPakDiffTests = [
+  test('diffControllerPaks reports no changes for identical paks', async () => {
+    const fixture = await getFixtureGamePak();
+    const diff = diffControllerPaks(fixture, Buffer.from(fixture));
+    assertEqual(diff.byteDelta, 0, 'Byte delta');
+    assertEqual(diff.changedPages.length, 0, 'Changed pages');
+    assertEqual(diff.notes.length, 0, 'Note changes');
+  }),
+
+  test('diffControllerPaks reports an added note and its allocated pages', async () => {
+    const empty = createEmptyGamePak();
+    const { buffer } = insertNote(empty, extractNote(await getFixtureGamePak(), 0));
+    const diff = diffControllerPaks(empty, buffer);
+
+    assertEqual(diff.notes.length, 1, 'One note change');
+    assertEqual(diff.notes[0].change, 'added', 'Change type');
+    assertEqual(diff.notes[0].name, 'HEXEN GAME SLOT', 'Note name');
+    assertEqual(diff.pagesAdded.length, 90, 'Pages allocated');
+    assertEqual(diff.pagesFreed.length, 0, 'Pages freed');
+    assertEqual(diff.pagesUsedDelta, 90, 'Pages used delta');
+    assert(diff.changedPages.includes(1) && diff.changedPages.includes(3), 'Inode and note table pages changed');
+  }),
+
+  test('diffControllerPaks reports a removed note and its freed pages', async () => {
+    const fixture = await getFixtureGamePak();
+    const diff = diffControllerPaks(fixture, clearNotes(fixture));
+
+    assertEqual(diff.notes.map(n => n.change).join(','), 'removed', 'Change type');
+    assertEqual(diff.notes[0].pagesBefore, 90, 'Pages before');
+    assertEqual(diff.pagesFreed.length, 90, 'Pages freed');
+    assertEqual(diff.pagesUsedDelta, -90, 'Pages used delta');
+  }),
+
+  test('diffControllerPaks reports a modified note down to the page', async () => {
+    const fixture = await getFixtureGamePak();
+    const startPage = parseControllerPak(fixture).notes[0].startPage;
+    const modified = Buffer.from(fixture);
+    modified[startPage * PAK_PAGE_SIZE + 10] ^= 0xFF;
+
+    const diff = diffControllerPaks(fixture, modified);
+    assertEqual(diff.notes.map(n => n.change).join(','), 'modified', 'Change type');
+    assertEqual(diff.byteDelta, 1, 'Byte delta');
+    assertEqual(diff.changedPages.join(','), String(startPage), 'Changed page');
+    assertEqual(diff.pagesAdded.length + diff.pagesFreed.length, 0, 'No allocation changes');
+  }),
+];
+
+// =============================================================================
+// Cartridge Save Tests
+// =============================================================================
+
+const cartridgeSaveTests = [
+  test('detectCartridgeSaveType maps sizes to save types', () => {
+    assertEqual(detectCartridgeSaveType(512), 'eeprom4k', 'EEPROM 4Kbit');
+    assertEqual(detectCartridgeSaveType(2048), 'eeprom16k', 'EEPROM 16Kbit');
+    assertEqual(detectCartridgeSaveType(32768), 'sram', 'SRAM');
+    assertEqual(detectCartridgeSaveType(131072), 'flashram', 'FlashRAM');
+    assertEqual(detectCartridgeSaveType(CONTROLLER_PAK_SIZE + 1), null, 'Unknown size');
+  }),
+
+  test('validateCartridgeSave rejects unknown sizes', () => {
+    const result = validateCartridgeSave(Buffer.alloc(1000));
+    assert(!result.valid, 'Should be invalid');
+    assert(result.errors[0].includes('1000 bytes'), `Should report size: ${result.errors[0]}`);
+  }),
+
+  test('validateCartridgeSave checks size against expected type', () => {
+    const sram = Buffer.alloc(CARTRIDGE_SAVE_TYPES.sram.size);
+    assertEqual(validateCartridgeSave(sram, 'sram').saveType, 'sram', 'Matching type');
+
+    const result = validateCartridgeSave(sram, 'flashram');
+    assert(!result.valid, 'Should reject SRAM-sized file as FlashRAM');
+    assert(result.errors[0].includes('FlashRAM'), `Should name expected type: ${result.errors[0]}`);
+  }),
+
+  test('convertSaveByteOrder swaps words and halfwords', () => {
+    const native = Buffer.from([0x01, 0x02, 0x03, 0x04, 0x05, 0x06, 0x07, 0x08]);
+
+    assertEqual(convertSaveByteOrder(native, 'little-endian').toString('hex'), '0403020108070605', 'Word swap');
+    assertEqual(convertSaveByteOrder(native, 'byte-swapped').toString('hex'), '0201040306050807', 'Halfword swap');
+    assertEqual(convertSaveByteOrder(native, 'big-endian').toString('hex'), native.toString('hex'), 'Native unchanged');
+  }),
+
+  test('convertSaveByteOrder round-trips without touching the input', () => {
+    const native = Buffer.alloc(CARTRIDGE_SAVE_TYPES.eeprom4k.size);
+    for (let i = 0; i < native.length; i++) native[i] = i & 0xFF;
+    const original = Buffer.from(native);
+
+    const swapped = convertSaveByteOrder(native, 'little-endian');
+    assert(native.equals(original), 'Input should not be modified');
+    assert(convertSaveByteOrder(swapped, 'little-endian').equals(original), 'Swapping twice restores the save');
+  }),
 ];
 
 // =============================================================================
@@ -360,6 +1315,15 @@ export const cartridgeDataSuite: TestSuite = {
   tests: [
     ...ownedCartsTests,
     ...settingsTests,
+    ...presetTests,
+    ...settingsPatchTests,
+    ...settingsHistoryTests,
+    ...settingsSyncTests,
+    ...settingsRulesTests,
     ...gamePakTests,
+    ...retentionTests,
+    ...controllerPakTests,
+    ...controllerPakDiffTests,
+    ...cartridgeSaveTests,
   ],
 };
@@ -5,9 +5,10 @@
  * used by the Analogue 3D for cartridge artwork.
  */
 
-import { readFileSync, writeFileSync, mkdirSync, rmSync, readdirSync } from 'fs';
+import { readFileSync, writeFileSync, mkdirSync, rmSync, readdirSync, existsSync, truncateSync } from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { createHash } from 'crypto';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 import sharp from 'sharp';
@@ -42,7 +43,24 @@ import {
   updateEntry,
   addEntry,
   deleteEntry,
+  writeLabelsDbFile,
+  getLabelsDbTempPath,
+  mergeLabelsDb,
 } from '../../server/lib/labels-db-core.js';
+import {
+  planIncrementalSync,
+  syncChangedEntries,
+  verifyLabelsDbCopy,
+  recoverLabelsDb,
+  getLabelsDbJournalPath,
+  withLabelsDbLock,
+  syncLabelEntry,
+  journalLabelEntrySync,
+  getLabelsDbPatchPath,
+} from '../../server/lib/labels-db-sync.js';
+import { verifyLabelsDb, repairLabelsDb } from '../../server/lib/labels-db-verify.js';
+import { findReplacedLabels, appendLabelVersion, type LabelVersion } from '../../server/lib/label-history.js';
+import { diffLabelPixels, createDiffOverlay, copyLabelEntry } from '../../server/lib/labels-db-diff.js';
 
 // Type for cart-ids.json mapping entries
 interface CartMapping {
@@ -436,6 +454,450 @@ function createBinaryTests(): ReturnType<typeof test>[] {
   ];
 }
 
+// =============================================================================
+// Incremental Sync Tests
+// =============================================================================
+
+function createSyncTests(): ReturnType<typeof test>[] {
+  const mapping = JSON.parse(readFileSync(path.join(FIXTURES_DIR, 'cart-ids.json'), 'utf-8'));
+  const [cart1, cart2, cart3, cart4] = [
+    mapping.test_cart_1,
+    mapping.test_cart_2,
+    mapping.test_cart_3,
+    mapping.test_cart_4,
+  ];
+  const samplePng = readFileSync(path.join(FIXTURES_DIR, 'sample-label.png'));
+
+  return [
+    test('planIncrementalSync rewrites only shifted and modified slots', () => {
+      // 20 is added, 40 is removed, 60 is modified, 70 and 80 shift back into place
+      const plan = planIncrementalSync([10, 20, 30, 50, 60, 70, 80], [10, 30, 40, 50, 60, 70, 80], new Set([60]));
+
+      assertEqual(JSON.stringify(plan.slotRuns), JSON.stringify([{ start: 1, count: 2 }, { start: 4, count: 1 }]));
+      assertEqual(JSON.stringify(plan.idTableRange), JSON.stringify({ start: 1, count: 2 }));
+      assertEqual(plan.targetSize, DATA_START + 7 * IMAGE_SLOT_SIZE);
+      assertEqual(plan.bytesToWrite, 3 * IMAGE_SLOT_SIZE + 2 * 4);
+
+      const shrink = planIncrementalSync([10], [10, 20, 30], new Set());
+      assertEqual(shrink.slotRuns.length, 0, 'Nothing to copy when only trailing entries are removed');
+      assertEqual(JSON.stringify(shrink.idTableRange), JSON.stringify({ start: 1, count: 2 }));
+      assertEqual(shrink.targetSize, DATA_START + IMAGE_SLOT_SIZE);
+    }),
+
+    test('syncChangedEntries patches added, removed and modified entries in place', async () => {
+      const source = await createLabelsDb([
+        { cartId: cart1.cartId, imageBuffer: samplePng },
+        { cartId: cart2.cartId, imageBuffer: samplePng },
+        { cartId: cart4.cartId, imageBuffer: samplePng },
+      ]);
+      source.fill(0x42, DATA_START + 2 * IMAGE_SLOT_SIZE, DATA_START + 2 * IMAGE_SLOT_SIZE + IMAGE_DATA_SIZE);
+
+      const dest = await createLabelsDb([
+        { cartId: cart1.cartId, imageBuffer: samplePng },
+        { cartId: cart3.cartId, imageBuffer: samplePng },
+        { cartId: cart4.cartId, imageBuffer: samplePng },
+      ]);
+
+      const sourcePath = path.join(OUTPUT_DIR, 'sync-source.db');
+      const destPath = path.join(OUTPUT_DIR, 'sync-dest.db');
+      writeFileSync(sourcePath, source);
+      writeFileSync(destPath, dest);
+
+      const result = await syncChangedEntries(sourcePath, destPath);
+      assertEqual(result.entriesAdded, 1, 'Added');
+      assertEqual(result.entriesRemoved, 1, 'Removed');
+      assertEqual(result.entriesUpdated, 1, 'Modified');
+      assertEqual(result.slotsWritten, 2, 'Slot 0 is untouched');
+      assertBuffersEqual(readFileSync(destPath), source, 'Destination after sync');
+
+      // Removing entries truncates the file in place
+      const smaller = await createLabelsDb([{ cartId: cart1.cartId, imageBuffer: samplePng }]);
+      writeFileSync(sourcePath, smaller);
+      const shrink = await syncChangedEntries(sourcePath, destPath);
+      assertEqual(shrink.slotsWritten, 0, 'No slots copied');
+      assertBuffersEqual(readFileSync(destPath), smaller, 'Destination after shrink');
+    }),
+
+    test('syncLabelEntry writes one slot, plus the ID table for a new entry', async () => {
+      // Local differs from the SD card in cart 1's image, cart 3 and cart 4
+      const local = await createLabelsDb([
+        { cartId: cart1.cartId, imageBuffer: samplePng },
+        { cartId: cart2.cartId, imageBuffer: samplePng },
+        { cartId: cart4.cartId, imageBuffer: samplePng },
+      ]);
+      local.fill(0x42, DATA_START, DATA_START + IMAGE_DATA_SIZE);
+      const sd = await createLabelsDb([
+        { cartId: cart1.cartId, imageBuffer: samplePng },
+        { cartId: cart2.cartId, imageBuffer: samplePng },
+        { cartId: cart3.cartId, imageBuffer: samplePng },
+      ]);
+
+      const localPath = path.join(OUTPUT_DIR, 'entry-local.db');
+      const sdPath = path.join(OUTPUT_DIR, 'entry-sd.db');
+      writeFileSync(localPath, local);
+      writeFileSync(sdPath, sd);
+
+      const modified = await syncLabelEntry(localPath, sdPath, cart1.cartId);
+      assertEqual(modified.bytesWritten, IMAGE_SLOT_SIZE, 'A modified entry writes only its slot');
+      assertBuffersEqual(
+        readFileSync(sdPath).subarray(DATA_START, DATA_START + IMAGE_SLOT_SIZE),
+        local.subarray(DATA_START, DATA_START + IMAGE_SLOT_SIZE),
+        'Pushed slot'
+      );
+      assertBuffersEqual(readFileSync(sdPath).subarray(DATA_START + IMAGE_SLOT_SIZE), sd.subarray(DATA_START + IMAGE_SLOT_SIZE), 'Other slots');
+
+      const added = await syncLabelEntry(localPath, sdPath, cart4.cartId);
+      assertEqual(added.slotsWritten, 1, 'A new last entry writes one slot');
+      assertEqual(added.bytesWritten, IMAGE_SLOT_SIZE + 4, 'Plus its ID table entry');
+      assertEqual(parseLabelsDb(readFileSync(sdPath)).entryCount, 4, 'Entry added');
+
+      await syncLabelEntry(localPath, sdPath, cart3.cartId);
+      assertBuffersEqual(readFileSync(sdPath), local, 'Removing the SD-only entry leaves the files identical');
+      assert(!existsSync(getLabelsDbJournalPath(sdPath)), 'Journal should be removed');
+      assert(!existsSync(getLabelsDbPatchPath(sdPath)), 'Patch file should be removed');
+    }),
+  ];
+}
+
+// =============================================================================
+// Crash Safety Tests
+// =============================================================================
+
+function createCrashSafetyTests(): ReturnType<typeof test>[] {
+  const mapping = JSON.parse(readFileSync(path.join(FIXTURES_DIR, 'cart-ids.json'), 'utf-8'));
+  const cart1 = mapping.test_cart_1;
+  const cart2 = mapping.test_cart_2;
+  const samplePng = readFileSync(path.join(FIXTURES_DIR, 'sample-label.png'));
+
+  return [
+    test('writeLabelsDbFile rejects invalid data and verifyLabelsDbCopy catches differences', async () => {
+      const db = await createLabelsDb([{ cartId: cart1.cartId, imageBuffer: samplePng }]);
+      const filePath = path.join(OUTPUT_DIR, 'atomic.db');
+      const copyPath = path.join(OUTPUT_DIR, 'atomic-copy.db');
+      await writeLabelsDbFile(filePath, db);
+      await writeLabelsDbFile(copyPath, db);
+      assert(!existsSync(getLabelsDbTempPath(filePath)), 'Temporary file should be renamed away');
+
+      let threw = false;
+      try {
+        await writeLabelsDbFile(filePath, Buffer.alloc(DATA_START));
+      } catch {
+        threw = true;
+      }
+      assert(threw, 'Should refuse a buffer without a valid header');
+      assertBuffersEqual(readFileSync(filePath), db, 'Original file after rejected write');
+
+      assertEqual((await verifyLabelsDbCopy(filePath, copyPath)).valid, true, 'Identical copy');
+
+      const damaged = Buffer.from(db);
+      damaged[DATA_START] ^= 0xff;
+      writeFileSync(copyPath, damaged);
+      assertEqual((await verifyLabelsDbCopy(filePath, copyPath)).valid, false, 'Damaged image');
+    }),
+
+    test('recoverLabelsDb finishes an interrupted sync and discards partial copies', async () => {
+      const source = await createLabelsDb([
+        { cartId: cart1.cartId, imageBuffer: samplePng },
+        { cartId: cart2.cartId, imageBuffer: samplePng },
+      ]);
+      source.fill(0x42, DATA_START, DATA_START + IMAGE_DATA_SIZE);
+      const original = await createLabelsDb([{ cartId: cart2.cartId, imageBuffer: samplePng }]);
+
+      const sourcePath = path.join(OUTPUT_DIR, 'recover-source.db');
+      const destPath = path.join(OUTPUT_DIR, 'recover-dest.db');
+      writeFileSync(sourcePath, source);
+
+      // Nothing interrupted
+      writeFileSync(destPath, original);
+      assertEqual((await recoverLabelsDb(destPath, sourcePath)).status, 'clean');
+
+      // A full copy stopped before the rename: the original is kept
+      writeFileSync(getLabelsDbTempPath(destPath), source.subarray(0, 1000));
+      assertEqual((await recoverLabelsDb(destPath, sourcePath)).status, 'rolled_back');
+      assert(!existsSync(getLabelsDbTempPath(destPath)), 'Temporary file should be removed');
+      assertBuffersEqual(readFileSync(destPath), original, 'Original after roll back');
+
+      // An in-place sync stopped after the first slot: the sync is finished
+      const partial = Buffer.concat([original.subarray(0, DATA_START), source.subarray(DATA_START, DATA_START + IMAGE_SLOT_SIZE)]);
+      writeFileSync(destPath, partial);
+      truncateSync(destPath, DATA_START + IMAGE_SLOT_SIZE + 5000);
+      const sourceHash = createHash('sha256').update(source).digest('hex');
+      writeFileSync(getLabelsDbJournalPath(destPath), JSON.stringify({ version: 1, operation: 'sync', sourceHash }));
+      assertEqual((await recoverLabelsDb(destPath, sourcePath)).status, 'completed');
+      assert(!existsSync(getLabelsDbJournalPath(destPath)), 'Journal should be removed');
+      assertBuffersEqual(readFileSync(destPath), source, 'Destination after recovery');
+    }),
+
+    test('recoverLabelsDb refuses to finish a sync whose source has changed', async () => {
+      const source = await createLabelsDb([{ cartId: cart1.cartId, imageBuffer: samplePng }]);
+      const original = await createLabelsDb([{ cartId: cart2.cartId, imageBuffer: samplePng }]);
+      const sourcePath = path.join(OUTPUT_DIR, 'recover-changed-source.db');
+      const destPath = path.join(OUTPUT_DIR, 'recover-changed-dest.db');
+      writeFileSync(sourcePath, source);
+      writeFileSync(destPath, original);
+
+      const staleHash = createHash('sha256').update(original).digest('hex');
+      writeFileSync(getLabelsDbJournalPath(destPath), JSON.stringify({ version: 1, operation: 'sync', sourceHash: staleHash }));
+      assertEqual((await recoverLabelsDb(destPath, sourcePath)).status, 'failed', 'Changed source');
+      assertBuffersEqual(readFileSync(destPath), original, 'Destination should not be touched');
+      assert(existsSync(getLabelsDbJournalPath(destPath)), 'Journal should be kept');
+
+      writeFileSync(getLabelsDbJournalPath(destPath), '{"version":1,"operation":"sync"}');
+      assertEqual((await recoverLabelsDb(destPath, sourcePath)).status, 'failed', 'Journal without a source hash');
+    }),
+
+    test('recoverLabelsDb finishes an interrupted label push from its patch file', async () => {
+      // The SD card keeps a cart the local labels.db doesn't have
+      const local = await createLabelsDb([{ cartId: cart1.cartId, imageBuffer: samplePng }]);
+      local.fill(0x42, DATA_START, DATA_START + IMAGE_DATA_SIZE);
+      const sd = await createLabelsDb([{ cartId: cart2.cartId, imageBuffer: samplePng }]);
+      const sourcePath = path.join(OUTPUT_DIR, 'push-source.db');
+      const destPath = path.join(OUTPUT_DIR, 'push-dest.db');
+      writeFileSync(sourcePath, local);
+      writeFileSync(destPath, sd);
+
+      // Journaled, then the card was pulled after half a slot
+      const { target } = await journalLabelEntrySync(sourcePath, destPath, cart1.cartId);
+      const partial = Buffer.from(sd);
+      target.copy(partial, DATA_START, DATA_START, DATA_START + IMAGE_SLOT_SIZE / 2);
+      writeFileSync(destPath, partial);
+
+      // The local labels.db has changed since, which the push doesn't need
+      writeFileSync(sourcePath, sd);
+      assertEqual((await recoverLabelsDb(destPath, sourcePath)).status, 'completed');
+      assertBuffersEqual(readFileSync(destPath), target, 'Destination after recovery');
+      assertEqual(parseLabelsDb(readFileSync(destPath)).entryCount, 2, 'SD-only entry kept');
+      assert(!existsSync(getLabelsDbJournalPath(destPath)), 'Journal should be removed');
+      assert(!existsSync(getLabelsDbPatchPath(destPath)), 'Patch file should be removed');
+    }),
+
+    test('withLabelsDbLock runs writes to the same file one at a time', async () => {
+      const filePath = path.join(OUTPUT_DIR, 'locked.db');
+      const order: string[] = [];
+      const write = (name: string, delayMs: number, fail = false) =>
+        withLabelsDbLock(filePath, async () => {
+          order.push(`${name}:start`);
+          await new Promise(resolve => setTimeout(resolve, delayMs));
+          order.push(`${name}:end`);
+          if (fail) throw new Error('write failed');
+          return name;
+        });
+
+      const results = await Promise.allSettled([write('a', 20, true), write('b', 0), write('c', 0)]);
+      assertEqual(order.join(' '), 'a:start a:end b:start b:end c:start c:end', 'Writes should not overlap');
+      assertEqual(results[0].status, 'rejected', 'A failed write still rejects');
+      assertEqual(results[2].status === 'fulfilled' && results[2].value, 'c', 'Later writes still run');
+    }),
+  ];
+}
+
+// =============================================================================
+// Integrity Tests
+// =============================================================================
+
+function createIntegrityTests(): ReturnType<typeof test>[] {
+  const mapping = JSON.parse(readFileSync(path.join(FIXTURES_DIR, 'cart-ids.json'), 'utf-8'));
+  const cart1 = mapping.test_cart_1;
+  const cart2 = mapping.test_cart_2;
+  const cart3 = mapping.test_cart_3;
+  const samplePng = readFileSync(path.join(FIXTURES_DIR, 'sample-label.png'));
+
+  return [
+    test('verifyLabelsDb accepts valid files and rejects bad headers', async () => {
+      const db = await createLabelsDb([
+        { cartId: cart1.cartId, imageBuffer: samplePng },
+        { cartId: cart2.cartId, imageBuffer: samplePng },
+      ]);
+      const report = verifyLabelsDb(db);
+      assertEqual(report.valid, true, 'Valid');
+      assertEqual(report.issues.length, 0, 'Issues');
+      assertEqual(report.entryCount, 2, 'Entry count');
+
+      assertEqual(verifyLabelsDb(createEmptyLabelsDb()).issues.length, 0, 'Empty database');
+
+      const bad = verifyLabelsDb(Buffer.alloc(DATA_START));
+      assertEqual(bad.issues[0].code, 'invalid_header');
+      assertEqual(bad.repairable, false, 'Unknown files are not repairable');
+    }),
+
+    test('repairLabelsDb re-sorts, drops duplicates and trims partial slots', async () => {
+      const db = await createLabelsDb([
+        { cartId: cart1.cartId, imageBuffer: samplePng },
+        { cartId: cart2.cartId, imageBuffer: samplePng },
+        { cartId: cart3.cartId, imageBuffer: samplePng },
+      ]);
+      db.fill(0x33, DATA_START + 2 * IMAGE_SLOT_SIZE, DATA_START + 2 * IMAGE_SLOT_SIZE + IMAGE_DATA_SIZE);
+      const cart3Slot = Buffer.from(db.subarray(DATA_START + 2 * IMAGE_SLOT_SIZE, DATA_START + 3 * IMAGE_SLOT_SIZE));
+
+      // Swap the first two IDs, duplicate cart3 into a fourth slot, damage padding and add trailing bytes
+      const damaged = Buffer.concat([db, cart3Slot, Buffer.alloc(100)]);
+      damaged.writeUInt32LE(cart2.cartId, ID_TABLE_START);
+      damaged.writeUInt32LE(cart1.cartId, ID_TABLE_START + 4);
+      damaged.writeUInt32LE(cart3.cartId, ID_TABLE_START + 12);
+      damaged[DATA_START + IMAGE_DATA_SIZE] = 0x00;
+
+      const report = verifyLabelsDb(damaged);
+      assertEqual(report.valid, false, 'Damaged file is invalid');
+      assertEqual(
+        report.issues.map(issue => issue.code).sort().join(','),
+        'bad_padding,duplicate_id,trailing_bytes,unsorted'
+      );
+
+      const result = repairLabelsDb(damaged);
+      assertEqual(result.entriesKept, 3, 'Kept');
+      assertEqual(result.entriesDropped, 1, 'Dropped');
+      assertEqual(result.after.issues.length, 0, 'Issues after repair');
+      assertEqual(result.data.length, DATA_START + 3 * IMAGE_SLOT_SIZE, 'Repaired size');
+      assertBuffersEqual(
+        result.data.subarray(DATA_START + 2 * IMAGE_SLOT_SIZE),
+        cart3Slot,
+        'Each cart keeps its own image'
+      );
+    }),
+  ];
+}
+
+function createMergeTests(): ReturnType<typeof test>[] {
+  const mapping = JSON.parse(readFileSync(path.join(FIXTURES_DIR, 'cart-ids.json'), 'utf-8'));
+  const cart1 = mapping.test_cart_1;
+  const cart2 = mapping.test_cart_2;
+  const samplePng = readFileSync(path.join(FIXTURES_DIR, 'sample-label.png'));
+
+  return [
+    test('mergeLabelsDb overwrites the right slot after inserting earlier entries', async () => {
+      const redPng = await sharp({
+        create: { width: IMAGE_WIDTH, height: IMAGE_HEIGHT, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } },
+      }).png().toBuffer();
+      const local = await createLabelsDb([
+        { cartId: cart1.cartId, imageBuffer: samplePng },
+        { cartId: cart2.cartId, imageBuffer: samplePng },
+      ]);
+      // Cart 0 sorts before both local entries, shifting their slots when inserted
+      const incoming = await createLabelsDb([
+        { cartId: 0, imageBuffer: samplePng },
+        { cartId: cart2.cartId, imageBuffer: redPng },
+      ]);
+      const slotOf = (data: Buffer, cartId: number) => {
+        const index = parseLabelsDb(data).idToIndex.get(cartId)!;
+        return data.subarray(DATA_START + index * IMAGE_SLOT_SIZE, DATA_START + (index + 1) * IMAGE_SLOT_SIZE);
+      };
+
+      const result = mergeLabelsDb(local, incoming, 'merge-overwrite');
+      assertEqual(result.added, 1, 'Added');
+      assertEqual(result.updated, 1, 'Updated');
+      assertBuffersEqual(slotOf(result.data, cart2.cartId), slotOf(incoming, cart2.cartId), 'Overwritten image');
+      assertBuffersEqual(slotOf(result.data, cart1.cartId), slotOf(local, cart1.cartId), 'Other images untouched');
+    }),
+  ];
+}
+
+function createLabelHistoryTests(): ReturnType<typeof test>[] {
+  const mapping = JSON.parse(readFileSync(path.join(FIXTURES_DIR, 'cart-ids.json'), 'utf-8'));
+  const cart1 = mapping.test_cart_1;
+  const cart2 = mapping.test_cart_2;
+  const cart3 = mapping.test_cart_3;
+  const samplePng = readFileSync(path.join(FIXTURES_DIR, 'sample-label.png'));
+
+  const version = (md5Hash: string): LabelVersion => ({
+    id: md5Hash,
+    createdAt: new Date().toISOString(),
+    source: 'upload',
+    md5Hash,
+    size: 100,
+  });
+
+  return [
+    test('findReplacedLabels finds changed images but not added or removed entries', async () => {
+      const previous = await createLabelsDb([
+        { cartId: cart1.cartId, imageBuffer: samplePng },
+        { cartId: cart2.cartId, imageBuffer: samplePng },
+      ]);
+      const redPng = await sharp({
+        create: { width: IMAGE_WIDTH, height: IMAGE_HEIGHT, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } },
+      }).png().toBuffer();
+
+      // cart1 is unchanged, cart2 is replaced and shifts index, cart3 is new
+      let next = await addEntry(previous, 0, samplePng);
+      next = await updateEntry(next, cart2.cartId, redPng);
+      next = await addEntry(next, cart3.cartId, redPng);
+
+      assertEqual(findReplacedLabels(previous, next).join(','), String(cart2.cartId), 'Replaced');
+      assertEqual(findReplacedLabels(previous, next, [cart1.cartId, cart3.cartId]).length, 0, 'Limited to cart IDs');
+      assertEqual(findReplacedLabels(next, previous).join(','), String(cart2.cartId), 'Removed entries are ignored');
+    }),
+
+    test('appendLabelVersion skips repeats and drops the oldest past the limit', () => {
+      let result = appendLabelVersion([], version('a'), 3);
+      result = appendLabelVersion(result.versions, version('a'), 3);
+      assertEqual(result.versions.length, 1, 'Repeat of the latest is skipped');
+
+      for (const hash of ['b', 'c', 'd']) {
+        result = appendLabelVersion(result.versions, version(hash), 3);
+      }
+      assertEqual(result.versions.map(v => v.md5Hash).join(','), 'b,c,d', 'Newest kept');
+      assertEqual(result.dropped.map(v => v.md5Hash).join(','), 'a', 'Dropped');
+    }),
+  ];
+}
+
+function createVisualCompareTests(): ReturnType<typeof test>[] {
+  const mapping = JSON.parse(readFileSync(path.join(FIXTURES_DIR, 'cart-ids.json'), 'utf-8'));
+  const cart1 = mapping.test_cart_1;
+  const cart2 = mapping.test_cart_2;
+  const cart3 = mapping.test_cart_3;
+  const samplePng = readFileSync(path.join(FIXTURES_DIR, 'sample-label.png'));
+
+  return [
+    test('diffLabelPixels counts changed pixels and the overlay marks them', async () => {
+      const db = await createLabelsDb([{ cartId: cart1.cartId, imageBuffer: samplePng }]);
+      const original = Buffer.from(db.subarray(DATA_START, DATA_START + IMAGE_DATA_SIZE));
+      const edited = Buffer.from(original);
+      edited[0] ^= 0xff; // pixel 0, blue channel
+      edited[4 * 10 + 3] ^= 0xff; // pixel 10, alpha channel
+
+      const diff = diffLabelPixels(original, edited);
+      assertEqual(diff.changedPixels, 2, 'Changed pixels');
+      assertEqual(diff.totalPixels, IMAGE_WIDTH * IMAGE_HEIGHT, 'Total pixels');
+      assertEqual(diffLabelPixels(original, original).percentChanged, 0, 'Identical images');
+
+      const overlay = await sharp(await createDiffOverlay(original, edited)).raw().toBuffer();
+      assertEqual(overlay.subarray(0, 3).toString('hex'), 'ff00ff', 'Changed pixel is magenta');
+      assert(overlay.subarray(4, 7).toString('hex') !== 'ff00ff', 'Unchanged pixel is not marked');
+    }),
+
+    test('copyLabelEntry replaces, inserts and removes single entries', async () => {
+      const redPng = await sharp({
+        create: { width: IMAGE_WIDTH, height: IMAGE_HEIGHT, channels: 4, background: { r: 255, g: 0, b: 0, alpha: 1 } },
+      }).png().toBuffer();
+      const local = await createLabelsDb([
+        { cartId: cart1.cartId, imageBuffer: redPng },
+        { cartId: cart2.cartId, imageBuffer: redPng },
+      ]);
+      const sd = await createLabelsDb([
+        { cartId: cart1.cartId, imageBuffer: samplePng },
+        { cartId: cart3.cartId, imageBuffer: samplePng },
+      ]);
+      const slotOf = (data: Buffer, cartId: number) => {
+        const index = parseLabelsDb(data).idToIndex.get(cartId)!;
+        return data.subarray(DATA_START + index * IMAGE_SLOT_SIZE, DATA_START + (index + 1) * IMAGE_SLOT_SIZE);
+      };
+
+      const replaced = copyLabelEntry(local, sd, cart1.cartId);
+      assertBuffersEqual(slotOf(replaced, cart1.cartId), slotOf(local, cart1.cartId), 'Replaced image');
+      assertBuffersEqual(slotOf(replaced, cart3.cartId), slotOf(sd, cart3.cartId), 'Other entries untouched');
+
+      const inserted = copyLabelEntry(local, sd, cart2.cartId);
+      const insertedDb = parseLabelsDb(inserted);
+      assertEqual(insertedDb.entryCount, 3, 'Inserted entry');
+      assertEqual(verifyLabelsDb(inserted).issues.length, 0, 'Inserted file is valid');
+      assertBuffersEqual(slotOf(inserted, cart2.cartId), slotOf(local, cart2.cartId), 'Inserted image');
+
+      const removed = copyLabelEntry(local, sd, cart3.cartId);
+      assertEqual(parseLabelsDb(removed).idToIndex.has(cart3.cartId), false, 'Removed entry');
+    }),
+  ];
+}
+
 // =============================================================================
 // Artifact Writing (for inspection)
 // =============================================================================
@@ -488,5 +950,11 @@ export const labelsDbSuite: TestSuite = {
     ...createCrudTests(),
     ...createSlotTests(),
     ...createBinaryTests(),
+    ...createSyncTests(),
+    ...createCrashSafetyTests(),
+    ...createIntegrityTests(),
+    ...createMergeTests(),
+    ...createLabelHistoryTests(),
+    ...createVisualCompareTests(),
   ],
 };
@@ -0,0 +1,205 @@
+/**
+ * Library.db Tests
+ *
+ * Tests for server/lib/library-db-core.ts - the library.db file format
+ * used by the Analogue 3D to track play statistics - and
+ * server/lib/play-history.ts, which snapshots those statistics over time.
+ */
+
+import { test, assert, assertEqual, TestSuite } from '../utils.js';
+
+import {
+  FILE_TYPE,
+  VERSION,
+  ID_TABLE_START,
+  DATA_START,
+  RECORD_SIZE,
+  createHeader,
+  verifyHeader,
+  parseLibraryDb,
+  createLibraryDb,
+  getEntryByCartIdHex,
+  toPlayStats,
+  addedTimeToDate,
+  dateToAddedTime,
+} from '../../server/lib/library-db-core.js';
+import {
+  createSnapshot,
+  appendSnapshot,
+  getMostPlayed,
+  getGainSinceLastSync,
+  getWeeklyPlayTime,
+  type PlayHistoryData,
+} from '../../server/lib/play-history.js';
+
+// Example record from docs/ANALOGUE_3D_SD_CARD_FORMAT.md
+const GOLDENEYE = { cartId: 0xac631da0, addedTime: 0x01b5e7a0, playTime: 325, sessions: 0 };
+const MARIO = { cartId: 0xb393776d, addedTime: 0x01b5e800, playTime: 7260, sessions: 4 };
+
+function snapshotAt(iso: string, cardId: string | null, entries: Array<typeof GOLDENEYE>) {
+  return createSnapshot(parseLibraryDb(createLibraryDb(entries)), cardId, 'ANALOGUE 3D', new Date(iso));
+}
+
+export const libraryDbSuite: TestSuite = {
+  name: 'Library Database',
+  tests: [
+    // =========================================================================
+    // Header
+    // =========================================================================
+
+    test('createHeader writes library file type and version', () => {
+      const header = createHeader();
+      assertEqual(header.subarray(0x20, 0x20 + FILE_TYPE.length).toString('ascii'), FILE_TYPE, 'File type');
+      assertEqual(header.readUInt32LE(0x40), VERSION, 'Version');
+    }),
+
+    test('verifyHeader accepts valid header', () => {
+      const result = verifyHeader(createHeader());
+      assert(result.valid, `Header should be valid: ${result.error}`);
+    }),
+
+    test('verifyHeader rejects labels.db file type', () => {
+      const header = createHeader();
+      header.write('Analogue-3D.labels\0', 0x20, 'ascii');
+      const result = verifyHeader(header);
+      assert(!result.valid, 'Should reject labels.db header');
+      assert(result.error?.includes('file type'), 'Error should mention file type');
+    }),
+
+    test('verifyHeader rejects truncated header', () => {
+      const result = verifyHeader(Buffer.alloc(100));
+      assert(!result.valid, 'Should reject truncated header');
+    }),
+
+    // =========================================================================
+    // Parsing
+    // =========================================================================
+
+    test('parseLibraryDb reads IDs and extended records', () => {
+      const db = parseLibraryDb(createLibraryDb([GOLDENEYE, MARIO]));
+
+      assertEqual(db.entryCount, 2, 'Entry count');
+      assertEqual(db.entries[0].cartIdHex, 'ac631da0', 'First cart ID');
+      assertEqual(db.entries[1].playTime, 7260, 'Second play time');
+      assertEqual(db.entries[1].sessions, 4, 'Second sessions');
+    }),
+
+    test('parseLibraryDb stores IDs little-endian', () => {
+      const data = createLibraryDb([GOLDENEYE]);
+      assertEqual(data.subarray(ID_TABLE_START, ID_TABLE_START + 4).toString('hex'), 'a01d63ac');
+    }),
+
+    test('parseLibraryDb skips empty slots between entries', () => {
+      const data = createLibraryDb([GOLDENEYE, MARIO]);
+      data.writeUInt32LE(0xffffffff, ID_TABLE_START);
+
+      const db = parseLibraryDb(data);
+      assertEqual(db.entryCount, 1, 'Entry count');
+      assertEqual(db.entries[0].cartIdHex, 'b393776d', 'Remaining cart');
+      assertEqual(db.entries[0].index, 1, 'Slot index preserved');
+    }),
+
+    test('parseLibraryDb reads missing extended records as zero', () => {
+      const data = createLibraryDb([GOLDENEYE, MARIO]).subarray(0, DATA_START + RECORD_SIZE);
+      const db = parseLibraryDb(data);
+      assertEqual(db.entries[1].playTime, 0, 'Truncated record play time');
+      assertEqual(db.entries[1].sessions, 0, 'Truncated record sessions');
+    }),
+
+    test('parseLibraryDb throws for invalid header', () => {
+      let threw = false;
+      try {
+        parseLibraryDb(Buffer.alloc(DATA_START));
+      } catch {
+        threw = true;
+      }
+      assert(threw, 'Should throw for invalid header');
+    }),
+
+    // =========================================================================
+    // Lookup & Timestamps
+    // =========================================================================
+
+    test('getEntryByCartIdHex finds entry case-insensitively', () => {
+      const db = parseLibraryDb(createLibraryDb([GOLDENEYE, MARIO]));
+      assertEqual(getEntryByCartIdHex(db, 'B393776D')?.index, 1);
+      assertEqual(getEntryByCartIdHex(db, '12345678'), null);
+    }),
+
+    test('addedTime converts minutes since epoch to Date', () => {
+      const date = addedTimeToDate(GOLDENEYE.addedTime);
+      assertEqual(date.getTime(), GOLDENEYE.addedTime * 60 * 1000);
+      assertEqual(dateToAddedTime(date), GOLDENEYE.addedTime, 'Round-trip');
+    }),
+
+    test('toPlayStats reports null addedAt for unset time', () => {
+      const db = parseLibraryDb(createLibraryDb([{ ...MARIO, addedTime: 0 }]));
+      const stats = toPlayStats(db.entries[0]);
+      assertEqual(stats.addedAt, null, 'addedAt');
+      assertEqual(stats.playTime, 7260, 'playTime');
+    }),
+
+    // =========================================================================
+    // Play History
+    // =========================================================================
+
+    test('appendSnapshot skips unchanged stats for the same card', () => {
+      const history: PlayHistoryData = { version: 1, snapshots: [] };
+      assert(appendSnapshot(history, snapshotAt('2025-02-03T10:00:00Z', 'SD', [GOLDENEYE])), 'First snapshot added');
+      assert(!appendSnapshot(history, snapshotAt('2025-02-03T10:05:00Z', 'SD', [GOLDENEYE])), 'Duplicate skipped');
+      assert(appendSnapshot(history, snapshotAt('2025-02-03T10:05:00Z', 'OTHER', [GOLDENEYE])), 'Other card with the same volume name added');
+      assertEqual(history.snapshots.length, 2);
+    }),
+
+    test('getGainSinceLastSync diffs the last two snapshots of a card', () => {
+      const history: PlayHistoryData = { version: 1, snapshots: [] };
+      appendSnapshot(history, snapshotAt('2025-02-03T10:00:00Z', 'SD', [GOLDENEYE, MARIO]));
+      appendSnapshot(history, snapshotAt('2025-02-05T10:00:00Z', 'SD', [
+        { ...GOLDENEYE, playTime: GOLDENEYE.playTime + 600, sessions: 1 },
+        MARIO,
+      ]));
+
+      const gain = getGainSinceLastSync(history);
+      assertEqual(gain.since, '2025-02-03T10:00:00.000Z', 'Since');
+      assertEqual(gain.totalPlayTimeGained, 600, 'Total gained');
+      assertEqual(gain.carts.length, 1, 'Only changed carts');
+      assertEqual(gain.carts[0].cartId, 'ac631da0');
+      assertEqual(gain.carts[0].sessionsGained, 1);
+    }),
+
+    test('getGainSinceLastSync carries name-keyed snapshots over to the card ID', () => {
+      const history: PlayHistoryData = { version: 1, snapshots: [] };
+      appendSnapshot(history, snapshotAt('2025-02-03T10:00:00Z', null, [MARIO]));
+      appendSnapshot(history, snapshotAt('2025-02-04T10:00:00Z', 'SD', [{ ...MARIO, playTime: MARIO.playTime + 900 }]));
+      assertEqual(getGainSinceLastSync(history).totalPlayTimeGained, 900, 'Gain across the ID being assigned');
+
+      appendSnapshot(history, snapshotAt('2025-02-05T10:00:00Z', 'OTHER', [MARIO]));
+      assertEqual(getGainSinceLastSync(history).since, null, 'A second card with the same volume name starts its own history');
+    }),
+
+    test('getMostPlayed sorts by play time and omits unplayed carts', () => {
+      const history: PlayHistoryData = { version: 1, snapshots: [] };
+      appendSnapshot(history, snapshotAt('2025-02-03T10:00:00Z', 'SD', [
+        GOLDENEYE,
+        MARIO,
+        { cartId: 0x12345678, addedTime: 0, playTime: 0, sessions: 0 },
+      ]));
+
+      const mostPlayed = getMostPlayed(history);
+      assertEqual(mostPlayed.map(c => c.cartId).join(','), 'b393776d,ac631da0');
+    }),
+
+    test('getWeeklyPlayTime buckets gains into Monday-start weeks', () => {
+      const history: PlayHistoryData = { version: 1, snapshots: [] };
+      appendSnapshot(history, snapshotAt('2025-02-03T10:00:00Z', 'SD', [MARIO]));
+      appendSnapshot(history, snapshotAt('2025-02-09T10:00:00Z', 'SD', [{ ...MARIO, playTime: MARIO.playTime + 300 }]));
+      appendSnapshot(history, snapshotAt('2025-02-11T10:00:00Z', 'SD', [{ ...MARIO, playTime: MARIO.playTime + 1200 }]));
+
+      const weekly = getWeeklyPlayTime(history, 2, new Date('2025-02-12T00:00:00Z'));
+      assertEqual(weekly.length, 2, 'Week count');
+      assertEqual(weekly[0].weekStart, '2025-02-03', 'First week start');
+      assertEqual(weekly[0].playTime, 300, 'First week play time');
+      assertEqual(weekly[1].playTime, 900, 'Second week play time');
+    }),
+  ],
+};
@@ -15,6 +15,7 @@ import { fileTransferSuite, cleanOutput as cleanFileTransferOutput } from './fil
 import { cartridgeDataSuite, cleanOutput as cleanCartridgeOutput } from './cartridge-data/tests.js';
 import { bundleArchiveSuite, cleanOutput as cleanBundleOutput } from './bundle-archive/tests.js';
 import { sdCardSuite } from './sd-card/tests.js';
+import { libraryDbSuite } from './library-db/tests.js';
 
 const verbose = process.argv.includes('--verbose');
 
@@ -64,6 +65,13 @@ async function main() {
   const sdCardResults = await runSuite(sdCardSuite);
   allResults.push(...sdCardResults);
 
+  // Library Database Tests
+  console.log(`\n┌───────────────────────────────────────────────────────────────┐`);
+  console.log(`│  ${libraryDbSuite.name} (${libraryDbSuite.tests.length} tests)`);
+  console.log(`└───────────────────────────────────────────────────────────────┘`);
+  const libraryDbResults = await runSuite(libraryDbSuite);
+  allResults.push(...libraryDbResults);
+
   // Print summary
   printSummary(allResults);
 
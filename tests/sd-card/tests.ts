@@ -1,11 +1,35 @@
 /**
  * SD Card Configuration Tests
  *
- * Tests for SD card detection and volume path configuration.
+ * Tests for SD card detection, volume path configuration, the
+ * Settings/Global directory (global-settings.ts) and card snapshots
+ * (card-snapshot.ts).
  */
 
-import { test, assertEqual, TestSuite } from '../utils.js';
+import path from 'path';
+import os from 'os';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import { test, assert, assertEqual, TestSuite } from '../utils.js';
 import { getVolumesPath } from '../../server/lib/sd-card.js';
+import {
+  resolveGlobalSettingsPath,
+  describeGlobalSettingsFile,
+  fingerprintGlobalSettings,
+} from '../../server/lib/global-settings.js';
+import { collectCardFiles, removeFilesNotInSnapshot } from '../../server/lib/card-snapshot.js';
+
+/**
+ * Create a throwaway card directory with the given files
+ */
+async function makeCard(files: string[]): Promise<string> {
+  const cardPath = await mkdtemp(path.join(os.tmpdir(), 'a3d-card-'));
+  for (const file of files) {
+    await mkdir(path.dirname(path.join(cardPath, file)), { recursive: true });
+    await writeFile(path.join(cardPath, file), file);
+  }
+  return cardPath;
+}
 
 export const sdCardSuite: TestSuite = {
   name: 'SD Card Configuration',
@@ -75,5 +99,99 @@ export const sdCardSuite: TestSuite = {
         }
       }
     }),
+
+    // =========================================================================
+    // Global Settings
+    // =========================================================================
+
+    test('resolveGlobalSettingsPath stays inside the directory', () => {
+      const root = path.join('/sd', 'Settings', 'Global');
+      assertEqual(resolveGlobalSettingsPath(root, 'sub/system.json'), path.join(root, 'sub', 'system.json'));
+
+      for (const bad of ['../library.db', 'sub/../../x', '/etc/passwd', '', undefined]) {
+        let threw = false;
+        try {
+          resolveGlobalSettingsPath(root, bad);
+        } catch {
+          threw = true;
+        }
+        assert(threw, `Path ${JSON.stringify(bad)} should be rejected`);
+      }
+    }),
+
+    test('describeGlobalSettingsFile detects JSON, text and binary files', () => {
+      const json = describeGlobalSettingsFile('a.json', Buffer.from('{"volume": 3}'));
+      assertEqual(json.format, 'json');
+      assertEqual(JSON.stringify(json.json), '{"volume":3}');
+
+      const text = describeGlobalSettingsFile('a.cfg', Buffer.from('volume=3'));
+      assertEqual(text.format, 'text');
+      assertEqual(text.text, 'volume=3');
+
+      const binary = describeGlobalSettingsFile('a.bin', Buffer.from([0x00, 0x41, 0xff]));
+      assertEqual(binary.format, 'binary');
+      assertEqual(binary.hex, '00000000  00 41 ff' + ' '.repeat(39) + '  |.A.|');
+      assertEqual(binary.truncated, undefined);
+
+      assertEqual(describeGlobalSettingsFile('big.bin', Buffer.alloc(5000)).truncated, true);
+    }),
+
+    test('fingerprintGlobalSettings ignores file order but not contents', () => {
+      const a = { path: 'a.json', md5Hash: '1' };
+      const b = { path: 'b.bin', md5Hash: '2' };
+      assertEqual(fingerprintGlobalSettings([a, b]), fingerprintGlobalSettings([b, a]));
+      assert(
+        fingerprintGlobalSettings([a, b]) !== fingerprintGlobalSettings([a, { ...b, md5Hash: '3' }]),
+        'Changed contents should change the fingerprint'
+      );
+    }),
+
+    // =========================================================================
+    // Card Snapshots
+    // =========================================================================
+
+    test('collectCardFiles captures Library/N64 and Settings only', async () => {
+      const cardPath = await makeCard([
+        'Library/N64/library.db',
+        'Library/N64/Images/labels.db',
+        'Library/N64/._library.db',
+        'Settings/Global/system.json',
+        'Settings/.DS_Store',
+        'Roms/game.z64',
+      ]);
+
+      try {
+        const files = await collectCardFiles(cardPath);
+        assertEqual(
+          files.map(file => file.path).join(','),
+          'Library/N64/Images/labels.db,Library/N64/library.db,Settings/Global/system.json'
+        );
+        assertEqual(files[1].size, 'Library/N64/library.db'.length);
+      } finally {
+        await rm(cardPath, { recursive: true, force: true });
+      }
+    }),
+
+    test('removeFilesNotInSnapshot removes extra files and empty directories', async () => {
+      const cardPath = await makeCard([
+        'Library/N64/library.db',
+        'Library/N64/Games/Added Later 12345678/controller_pak.img',
+        'Settings/Global/system.json',
+        'Roms/game.z64',
+      ]);
+
+      try {
+        const removed = await removeFilesNotInSnapshot(
+          cardPath,
+          new Set(['Library/N64/library.db', 'Settings/Global/system.json'])
+        );
+        assertEqual(removed, 1);
+        assert(!existsSync(path.join(cardPath, 'Library/N64/Games')), 'Empty game folders should be pruned');
+        assert(existsSync(path.join(cardPath, 'Library/N64/library.db')), 'Kept files should remain');
+        assert(existsSync(path.join(cardPath, 'Roms/game.z64')), 'Files outside the snapshot roots are untouched');
+      } finally {
+        await rm(cardPath, { recursive: true, force: true });
+      }
+    }),
   ],
 };